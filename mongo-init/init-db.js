@@ -9,18 +9,42 @@ db.createCollection('users');
 db.createCollection('beritas');
 db.createCollection('galeris');
 db.createCollection('laporans');
+db.createCollection('sessions');
+db.createCollection('auditlogs');
+db.createCollection('slapolicies');
+db.createCollection('holidays');
+db.createCollection('notificationtemplates');
+db.createCollection('notificationlogs');
+db.createCollection('jobs');
+db.createCollection('spamblocks');
+db.createCollection('surveyresponses');
+db.createCollection('laporannotes');
+db.createCollection('responsetemplates');
+db.createCollection('retentionpolicies');
 
 // Create indexes for better performance
 
 // Users collection indexes
-db.users.createIndex({ "email": 1 }, { unique: true });
+db.users.createIndex({ "email": 1 }, { unique: true, sparse: true });
 db.users.createIndex({ "username": 1 }, { unique: true });
 
+// Sessions collection indexes (expired sessions are removed automatically)
+db.sessions.createIndex({ "user": 1 });
+db.sessions.createIndex({ "expires_at": 1 }, { expireAfterSeconds: 0 });
+
+// Audit log collection indexes
+db.auditlogs.createIndex({ "created_at": -1 });
+db.auditlogs.createIndex({ "entity_type": 1, "entity_id": 1, "created_at": -1 });
+db.auditlogs.createIndex({ "action": 1, "created_at": -1 });
+db.auditlogs.createIndex({ "actor": 1 });
+
 // Beritas (News) collection indexes
 db.beritas.createIndex({ "slug": 1 }, { unique: true });
 db.beritas.createIndex({ "published": 1 });
 db.beritas.createIndex({ "createdAt": -1 });
 db.beritas.createIndex({ "title": "text", "summary": "text", "content": "text" });
+db.beritas.createIndex({ "published": 1, "category": 1, "created_at": -1 });
+db.beritas.createIndex({ "published": 1, "tags": 1, "created_at": -1 });
 
 // Galeris (Gallery) collection indexes
 db.galeris.createIndex({ "published": 1 });
@@ -29,16 +53,68 @@ db.galeris.createIndex({ "createdAt": -1 });
 db.galeris.createIndex({ "title": "text", "description": "text" });
 
 // Laporans (Reports) collection indexes
+db.laporans.createIndex({ "ticket": 1 }, { unique: true });
 db.laporans.createIndex({ "status": 1 });
 db.laporans.createIndex({ "createdAt": -1 });
 db.laporans.createIndex({ "email": 1 });
+db.laporans.createIndex({ "status": 1, "due_at": 1 });
+db.laporans.createIndex({ "category": 1, "created_at": -1 });
+db.laporans.createIndex({ "assigned_to": 1, "status": 1 });
+db.laporans.createIndex({ "assigned_bidang": 1, "status": 1 });
+db.laporans.createIndex({ "message": "text" }, { default_language: "none" });
+db.laporans.createIndex({ "phone": 1 });
+db.laporans.createIndex({ "duplicate_of": 1 });
+db.laporans.createIndex({ "survey_token_hash": 1 }, { sparse: true });
+db.laporans.createIndex({ "status": 1, "updated_at": 1 });
+
+// SLA policy and holiday calendar indexes
+db.slapolicies.createIndex({ "category": 1 }, { unique: true });
+db.holidays.createIndex({ "date": 1 }, { unique: true });
+
+// Notification template and delivery log indexes
+db.notificationtemplates.createIndex({ "event": 1 }, { unique: true });
+db.notificationlogs.createIndex({ "created_at": -1 });
+db.notificationlogs.createIndex({ "status": 1, "created_at": -1 });
+db.notificationlogs.createIndex({ "laporan": 1, "created_at": -1 });
+
+// Background job queue indexes (finished jobs expire after a week)
+db.jobs.createIndex({ "status": 1, "run_at": 1 });
+db.jobs.createIndex({ "status": 1, "updated_at": -1 });
+db.jobs.createIndex({ "key": 1 }, { unique: true, partialFilterExpression: { "status": "pending", "key": { $exists: true } } });
+db.jobs.createIndex({ "completed_at": 1 }, { expireAfterSeconds: 604800 });
+
+// Spam blocklist: one entry per email, phone or IP
+db.spamblocks.createIndex({ "type": 1, "value": 1 }, { unique: true });
+db.spamblocks.createIndex({ "laporan": 1 });
+
+// Satisfaction survey responses, one per resolved laporan
+db.surveyresponses.createIndex({ "created_at": -1 });
+db.surveyresponses.createIndex({ "service": 1, "created_at": -1 });
+db.surveyresponses.createIndex({ "laporan": 1 }, { unique: true, sparse: true });
+
+// Internal staff notes and reusable response wording for laporan
+db.laporannotes.createIndex({ "laporan": 1, "created_at": 1 });
+db.responsetemplates.createIndex({ "title": 1 }, { unique: true });
+
+// Fixed-date national holidays. Religious holidays and cuti bersama move
+// every year and are added by administrators from the SLA settings page.
+db.holidays.insertMany([
+  { date: '2026-01-01', name: 'Tahun Baru Masehi', created_at: new Date(), updated_at: new Date() },
+  { date: '2026-05-01', name: 'Hari Buruh Internasional', created_at: new Date(), updated_at: new Date() },
+  { date: '2026-06-01', name: 'Hari Lahir Pancasila', created_at: new Date(), updated_at: new Date() },
+  { date: '2026-08-17', name: 'Hari Kemerdekaan Republik Indonesia', created_at: new Date(), updated_at: new Date() },
+  { date: '2026-12-25', name: 'Hari Raya Natal', created_at: new Date(), updated_at: new Date() }
+]);
 
-// Create default admin user
+// Create default super admin user.
+// The initial password must be changed on first login.
 db.users.insertOne({
   username: 'admin',
   email: 'admin@dpmptsp.go.id',
-  password: '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi', // password: 'admin123'
-  role: 'admin',
+  password_hash: '$2a$12$TBFB.LCE7aoxvkLZ1z/QsuonSwyXA5mVbDddIV7U.fpXzXXUp7PHi', // password: 'admin123'
+  role: 'super_admin',
+  is_active: true,
+  must_change_password: true,
   createdAt: new Date(),
   updatedAt: new Date()
 });
@@ -53,6 +129,8 @@ db.beritas.insertMany([
     summary: 'DPMPTSP Kabupaten Penajam Paser Utara meluncurkan sistem pelayanan online untuk memudahkan masyarakat dalam mengurus perizinan.',
     content: '<p>Dalam rangka meningkatkan kualitas pelayanan publik, DPMPTSP Kabupaten Penajam Paser Utara dengan bangga meluncurkan sistem pelayanan online terpadu. Sistem ini memungkinkan masyarakat untuk mengajukan berbagai jenis perizinan secara online tanpa harus datang langsung ke kantor.</p><p>Kepala DPMPTSP menyampaikan bahwa sistem ini merupakan bagian dari transformasi digital yang bertujuan untuk memberikan kemudahan dan transparansi dalam pelayanan publik.</p>',
     imageUrl: 'https://images.unsplash.com/photo-1560472354-b33ff0c44a43?w=800&h=400&fit=crop',
+    category: 'layanan',
+    tags: ['pelayanan-online', 'perizinan'],
     published: true,
     viewCount: 125,
     createdAt: new Date('2024-01-15'),
@@ -64,6 +142,8 @@ db.beritas.insertMany([
     summary: 'Kegiatan workshop untuk meningkatkan kapasitas dan daya saing UMKM di Kabupaten Penajam Paser Utara.',
     content: '<p>DPMPTSP Kabupaten Penajam Paser Utara mengadakan workshop peningkatan kapasitas UMKM yang diikuti oleh 50 pelaku usaha mikro, kecil, dan menengah dari berbagai sektor.</p><p>Workshop ini membahas strategi pemasaran digital, manajemen keuangan, dan cara mengakses program bantuan pemerintah untuk pengembangan usaha.</p>',
     imageUrl: 'https://images.unsplash.com/photo-1552664730-d307ca884978?w=800&h=400&fit=crop',
+    category: 'kegiatan',
+    tags: ['umkm', 'workshop'],
     published: true,
     viewCount: 89,
     createdAt: new Date('2024-01-10'),
@@ -2,6 +2,8 @@
 const nextConfig = {
   experimental: {
     appDir: true,
+    // Loaded from node_modules at runtime; pdfkit reads its font files from disk
+    serverComponentsExternalPackages: ['pdfkit', 'exceljs'],
   },
   images: {
     domains: ['localhost'],
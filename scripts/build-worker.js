@@ -0,0 +1,46 @@
+// Compile the TypeScript sources the background worker needs.
+//
+//   npm run build:worker
+//
+// The worker shares its code with the Next.js app. Next.js only bundles what
+// the app serves, so the worker gets its own CommonJS copy of src/ in
+// dist/worker. This runs at build time, where dev dependencies such as
+// typescript are installed; the compiled worker only needs the production ones.
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const SRC_DIR = path.join(__dirname, '..', 'src');
+const OUT_DIR = path.join(__dirname, '..', 'dist', 'worker');
+
+// Plain modules only: React components and tests are never loaded by the worker
+function findSources(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findSources(file);
+    }
+    const isSource = entry.name.endsWith('.ts') && !entry.name.endsWith('.d.ts') && !entry.name.endsWith('.test.ts');
+    return isSource ? [file] : [];
+  });
+}
+
+fs.rmSync(OUT_DIR, { recursive: true, force: true });
+
+const sources = findSources(SRC_DIR);
+for (const file of sources) {
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    fileName: file,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+  });
+
+  const outFile = path.join(OUT_DIR, path.relative(SRC_DIR, file)).replace(/\.ts$/, '.js');
+  fs.mkdirSync(path.dirname(outFile), { recursive: true });
+  fs.writeFileSync(outFile, outputText);
+}
+
+console.log(`Compiled ${sources.length} files to ${path.relative(process.cwd(), OUT_DIR)}`);
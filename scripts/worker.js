@@ -0,0 +1,33 @@
+// Background job worker.
+//
+//   npm run build:worker   (part of npm run build)
+//   npm run worker:start
+//
+// Runs the copy of src/ compiled by scripts/build-worker.js, so only the
+// production dependencies are needed. The "@/" import alias is mapped to the
+// compiled directory. Settings come from the environment; `npm run worker`
+// builds and starts it with .env.local for local development.
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+
+const BUILD_DIR = path.join(__dirname, '..', 'dist', 'worker');
+
+if (!fs.existsSync(path.join(BUILD_DIR, 'lib', 'worker.js'))) {
+  console.error('Worker is not built. Run "npm run build:worker" first.');
+  process.exit(1);
+}
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...args) {
+  const mapped = request.startsWith('@/') ? path.join(BUILD_DIR, request.slice(2)) : request;
+  return resolveFilename.call(this, mapped, ...args);
+};
+
+require(path.join(BUILD_DIR, 'lib', 'worker'))
+  .runWorker()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Worker crashed:', error);
+    process.exit(1);
+  });
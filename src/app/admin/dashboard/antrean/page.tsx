@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  JOB_STATUS_LABELS,
+  JOB_TYPE_LABELS,
+  PERMISSIONS,
+  JobStatus,
+  JobType,
+} from '@/lib/constants';
+import { can } from '@/lib/permissions';
+import { getApiErrorMessages } from '@/lib/utils';
+
+interface JobItem {
+  _id: string;
+  type: JobType;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  last_error?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+// Failed jobs first; "retrying" means pending again after a failed attempt
+const filterOptions: { value: string; label: string }[] = [
+  { value: 'dead', label: JOB_STATUS_LABELS.dead },
+  { value: 'retrying', label: 'Menunggu percobaan ulang' },
+  { value: 'pending', label: JOB_STATUS_LABELS.pending },
+  { value: 'running', label: JOB_STATUS_LABELS.running },
+  { value: 'completed', label: JOB_STATUS_LABELS.completed },
+];
+
+const statusStyles: Record<JobStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  dead: 'bg-red-100 text-red-800',
+};
+
+const JobQueue = () => {
+  const [jobs, setJobs] = useState<JobItem[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [statusFilter, setStatusFilter] = useState('dead');
+  const [page, setPage] = useState(1);
+  const [canRetry, setCanRetry] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchJobs = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '20',
+        status: statusFilter
+      });
+
+      const response = await fetch(`/api/admin/jobs?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setJobs(data.jobs);
+        setCounts(data.counts);
+        setPagination(data.pagination);
+      } else {
+        setError(data.error || 'Gagal memuat antrean proses');
+      }
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const user = JSON.parse(localStorage.getItem('admin_user') || 'null');
+    setCanRetry(can(user, PERMISSIONS.SYSTEM_SETTINGS));
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [page, statusFilter]);
+
+  const handleRetry = async (job: JobItem) => {
+    try {
+      setRetrying(job._id);
+      const response = await fetch(`/api/admin/jobs/${job._id}/retry`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setMessage(data.message);
+        setError('');
+        fetchJobs();
+      } else {
+        setMessage('');
+        setError(getApiErrorMessages(data, 'Gagal menjadwalkan ulang').join(', '));
+      }
+    } catch (error) {
+      console.error('Error retrying job:', error);
+      setError('Terjadi kesalahan saat menjadwalkan ulang');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  // Short description of what the job is about, e.g. the laporan event
+  const describePayload = (job: JobItem) => {
+    return Object.entries(job.payload)
+      .map(([key, value]) => `${key}: ${String(value)}`)
+      .join(', ');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Antrean Proses</h1>
+        <p className="text-gray-600">
+          Pekerjaan latar belakang seperti pengiriman email. Proses yang gagal dicoba ulang otomatis sebelum ditandai gagal.
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(['pending', 'running', 'completed', 'dead'] as JobStatus[]).map((status) => (
+          <div key={status} className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm font-medium text-gray-500">{JOB_STATUS_LABELS[status]}</p>
+            <p className={`text-2xl font-semibold ${status === 'dead' && counts[status] ? 'text-red-600' : 'text-gray-900'}`}>
+              {counts[status] ?? 0}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Daftar Proses</h2>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            {filterOptions.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : jobs.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">Tidak ada proses dengan status ini</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jenis</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Percobaan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Terakhir Diperbarui</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {jobs.map((job) => (
+                  <tr key={job._id}>
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      {JOB_TYPE_LABELS[job.type] || job.type}
+                      <span className="block text-xs text-gray-400 truncate max-w-md">{describePayload(job)}</span>
+                      {job.last_error && (
+                        <span className="block text-xs text-red-600 mt-1 max-w-md break-words">{job.last_error}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-sm">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusStyles[job.status]}`}>
+                        {JOB_STATUS_LABELS[job.status]}
+                      </span>
+                      {job.status === 'pending' && job.attempts > 0 && (
+                        <span className="block text-xs text-gray-500 mt-1">Dicoba lagi {formatDate(job.run_at)}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-gray-500">{job.attempts} / {job.max_attempts}</td>
+                    <td className="px-6 py-3 text-sm text-gray-500 whitespace-nowrap">{formatDate(job.updated_at)}</td>
+                    <td className="px-6 py-3 text-right">
+                      {canRetry && job.status === 'dead' && (
+                        <button
+                          onClick={() => handleRetry(job)}
+                          disabled={retrying !== null}
+                          className="px-3 py-1 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
+                        >
+                          {retrying === job._id ? 'Memproses...' : 'Coba Lagi'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm">
+            <span className="text-gray-500">Halaman {pagination.page} dari {pagination.totalPages}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(prev => prev - 1)}
+                disabled={!pagination.hasPrev}
+                className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+              >
+                Sebelumnya
+              </button>
+              <button
+                onClick={() => setPage(prev => prev + 1)}
+                disabled={!pagination.hasNext}
+                className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+              >
+                Berikutnya
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JobQueue;
@@ -0,0 +1,356 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AuditAction,
+  AuditEntityType,
+} from '@/lib/constants';
+
+interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+interface AuditLogEntry {
+  _id: string;
+  actor_username: string;
+  actor_role?: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  summary?: string;
+  changes: AuditChange[];
+  ip?: string;
+  user_agent?: string;
+  created_at: string;
+}
+
+interface AuditResponse {
+  success: boolean;
+  logs: AuditLogEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  error?: string;
+}
+
+const emptyFilters = {
+  entity_type: '',
+  action: '',
+  actor: '',
+  entity_id: '',
+  from: '',
+  to: '',
+};
+
+const actionColors: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  reveal: 'bg-purple-100 text-purple-800',
+  export: 'bg-yellow-100 text-yellow-800',
+  anonymize: 'bg-gray-100 text-gray-800',
+};
+
+const AuditLogViewer = () => {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [filters, setFilters] = useState(emptyFilters);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [pagination, setPagination] = useState({
+    page: 1,
+    limit: 20,
+    total: 0,
+    totalPages: 0
+  });
+
+  // Only send filters that have a value
+  const buildParams = (values: typeof emptyFilters) => {
+    const params = new URLSearchParams();
+    Object.entries(values).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    return params;
+  };
+
+  const fetchLogs = async (page = 1, values = filters) => {
+    try {
+      setLoading(true);
+      const params = buildParams(values);
+      params.set('page', page.toString());
+      params.set('limit', '20');
+
+      const response = await fetch(`/api/admin/audit?${params}`);
+      const data: AuditResponse = await response.json();
+
+      if (data.success) {
+        setLogs(data.logs);
+        setPagination(data.pagination);
+        setError('');
+      } else {
+        setError(data.error || 'Gagal memuat audit log');
+      }
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLogs(currentPage);
+  }, [currentPage]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCurrentPage(1);
+    fetchLogs(1);
+  };
+
+  const handleReset = () => {
+    setFilters(emptyFilters);
+    setCurrentPage(1);
+    fetchLogs(1, emptyFilters);
+  };
+
+  const handleExport = () => {
+    window.location.href = `/api/admin/audit/export?${buildParams(filters)}`;
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === undefined || value === null) return '-';
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value);
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600">Riwayat perubahan data oleh pengguna admin</p>
+        </div>
+        <button
+          onClick={handleExport}
+          className="bg-primary text-white px-4 py-2 rounded-lg hover:bg-primary/90 transition-colors duration-200"
+        >
+          Ekspor CSV
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <select name="entity_type" value={filters.entity_type} onChange={handleChange} className={inputClassName}>
+            <option value="">Semua Entitas</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+              <option key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</option>
+            ))}
+          </select>
+          <select name="action" value={filters.action} onChange={handleChange} className={inputClassName}>
+            <option value="">Semua Aksi</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            name="actor"
+            placeholder="Pengguna"
+            value={filters.actor}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            name="entity_id"
+            placeholder="ID entitas"
+            value={filters.entity_id}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            name="from"
+            aria-label="Dari tanggal"
+            value={filters.from}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            name="to"
+            aria-label="Sampai tanggal"
+            value={filters.to}
+            onChange={handleChange}
+            className={inputClassName}
+          />
+          <div className="md:col-span-3 lg:col-span-6 flex gap-2">
+            <button
+              type="submit"
+              className="px-6 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              Filter
+            </button>
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              Reset
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Audit Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : logs.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Tidak ada entri audit</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Waktu</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pengguna</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Aksi</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entitas</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">IP</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {logs.map((log) => (
+                  <Fragment key={log._id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(log.created_at)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {log.actor_username}
+                        {log.actor_role && <span className="block text-xs text-gray-400">{log.actor_role}</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${actionColors[log.action]}`}>
+                          {AUDIT_ACTION_LABELS[log.action] || log.action}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {AUDIT_ENTITY_LABELS[log.entity_type] || log.entity_type}
+                        <span className="block text-xs text-gray-400 font-mono">{log.entity_id}</span>
+                        {log.summary && <span className="block text-xs text-gray-500">{log.summary}</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{log.ip || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                        <button
+                          onClick={() => setExpandedId(expandedId === log._id ? null : log._id)}
+                          className="text-primary hover:text-primary/80"
+                        >
+                          {expandedId === log._id ? 'Tutup' : `Perubahan (${log.changes.length})`}
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedId === log._id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-6 py-4">
+                          <table className="min-w-full text-xs">
+                            <thead>
+                              <tr className="text-left text-gray-500">
+                                <th className="py-1 pr-4">Field</th>
+                                <th className="py-1 pr-4">Sebelum</th>
+                                <th className="py-1">Sesudah</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {log.changes.map((change) => (
+                                <tr key={change.field} className="align-top">
+                                  <td className="py-1 pr-4 font-mono text-gray-700">{change.field}</td>
+                                  <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                                  <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          {log.user_agent && (
+                            <p className="mt-2 text-xs text-gray-400 break-all">{log.user_agent}</p>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination.totalPages > 1 && (
+          <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
+            <p className="text-sm text-gray-700">
+              Halaman {pagination.page} dari {pagination.totalPages} ({pagination.total} entri)
+            </p>
+            <div className="space-x-2">
+              <button
+                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                disabled={currentPage === 1}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Sebelumnya
+              </button>
+              <button
+                onClick={() => setCurrentPage(Math.min(pagination.totalPages, currentPage + 1))}
+                disabled={currentPage === pagination.totalPages}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Selanjutnya
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { BERITA_CATEGORIES, BERITA_CATEGORY_LABELS, DEFAULT_BERITA_CATEGORY, VALIDATION_RULES } from '@/lib/constants';
 
 const CreateBerita = () => {
   const [formData, setFormData] = useState({
@@ -10,6 +11,8 @@ const CreateBerita = () => {
     summary: '',
     content: '',
     image_url: '',
+    category: DEFAULT_BERITA_CATEGORY as string,
+    tags: '',
     published: false,
   });
   const [loading, setLoading] = useState(false);
@@ -146,6 +149,47 @@ const CreateBerita = () => {
             </p>
           </div>
 
+          {/* Category & Tags */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
+                Kategori *
+              </label>
+              <select
+                id="category"
+                name="category"
+                value={formData.category}
+                onChange={handleChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                disabled={loading}
+              >
+                {Object.values(BERITA_CATEGORIES).map(category => (
+                  <option key={category} value={category}>
+                    {BERITA_CATEGORY_LABELS[category]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-2">
+                Tag
+              </label>
+              <input
+                type="text"
+                id="tags"
+                name="tags"
+                value={formData.tags}
+                onChange={handleChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                placeholder="investasi, perizinan, umkm"
+                disabled={loading}
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Pisahkan dengan koma, maksimal {VALIDATION_RULES.TAG.MAX_COUNT} tag
+              </p>
+            </div>
+          </div>
+
           {/* Image URL */}
           <div>
             <label htmlFor="image_url" className="block text-sm font-medium text-gray-700 mb-2">
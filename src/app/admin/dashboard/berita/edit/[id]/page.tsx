@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { BERITA_CATEGORIES, BERITA_CATEGORY_LABELS, DEFAULT_BERITA_CATEGORY, VALIDATION_RULES } from '@/lib/constants';
 
 interface Berita {
   _id: string;
@@ -11,6 +12,8 @@ interface Berita {
   summary: string;
   content: string;
   image_url?: string;
+  category?: string;
+  tags?: string[];
   published: boolean;
   views: number;
   created_at: string;
@@ -29,6 +32,8 @@ const EditBerita = ({ params }: EditBeritaProps) => {
     summary: '',
     content: '',
     image_url: '',
+    category: DEFAULT_BERITA_CATEGORY as string,
+    tags: '',
     published: false,
   });
   const [loading, setLoading] = useState(true);
@@ -54,6 +59,8 @@ const EditBerita = ({ params }: EditBeritaProps) => {
           summary: beritaData.summary,
           content: beritaData.content,
           image_url: beritaData.image_url || '',
+          category: beritaData.category || DEFAULT_BERITA_CATEGORY,
+          tags: (beritaData.tags || []).join(', '),
           published: beritaData.published,
         });
       } else {
@@ -255,6 +262,47 @@ const EditBerita = ({ params }: EditBeritaProps) => {
             </p>
           </div>
 
+          {/* Category & Tags */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
+                Kategori *
+              </label>
+              <select
+                id="category"
+                name="category"
+                value={formData.category}
+                onChange={handleChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                disabled={saving}
+              >
+                {Object.values(BERITA_CATEGORIES).map(category => (
+                  <option key={category} value={category}>
+                    {BERITA_CATEGORY_LABELS[category]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-2">
+                Tag
+              </label>
+              <input
+                type="text"
+                id="tags"
+                name="tags"
+                value={formData.tags}
+                onChange={handleChange}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                placeholder="investasi, perizinan, umkm"
+                disabled={saving}
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Pisahkan dengan koma, maksimal {VALIDATION_RULES.TAG.MAX_COUNT} tag
+              </p>
+            </div>
+          </div>
+
           {/* Image URL */}
           <div>
             <label htmlFor="image_url" className="block text-sm font-medium text-gray-700 mb-2">
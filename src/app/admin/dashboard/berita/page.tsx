@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
+import { BERITA_CATEGORY_LABELS, BeritaCategory, DEFAULT_BERITA_CATEGORY } from '@/lib/constants';
 
 interface Berita {
   _id: string;
@@ -11,6 +12,8 @@ interface Berita {
   summary: string;
   content: string;
   image_url?: string;
+  category?: BeritaCategory;
+  tags?: string[];
   published: boolean;
   views: number;
   created_at: string;
@@ -295,6 +298,10 @@ const BeritaManagement = () => {
                           <p className="text-sm text-gray-500 truncate">
                             {item.summary}
                           </p>
+                          <p className="text-xs text-gray-400 truncate">
+                            {BERITA_CATEGORY_LABELS[item.category || DEFAULT_BERITA_CATEGORY]}
+                            {item.tags && item.tags.length > 0 && ` · ${item.tags.map(tag => `#${tag}`).join(' ')}`}
+                          </p>
                         </div>
                       </div>
                     </td>
@@ -0,0 +1,522 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  API_ROUTES,
+  LAPORAN_CATEGORY_LABELS,
+  LAPORAN_CONFIDENTIALITY_LABELS,
+  LAPORAN_STATUS_LABELS,
+  LaporanCategory,
+  LaporanConfidentiality,
+  LaporanStatus,
+  PERMISSIONS,
+  RETENTION_MODES,
+  RETENTION_MODE_LABELS,
+  RetentionMode,
+} from '@/lib/constants';
+import { can } from '@/lib/permissions';
+import { getApiErrorMessages } from '@/lib/utils';
+
+interface RetentionSettings {
+  mode: RetentionMode;
+  months: number;
+  last_run_at: string | null;
+  last_run_mode: RetentionMode | null;
+  last_run_count: number | null;
+}
+
+interface RetentionPreview {
+  months: number;
+  cutoff: string;
+  total: number;
+  byConfidentiality: Record<LaporanConfidentiality, number>;
+  sample: {
+    ticket: string;
+    status: LaporanStatus;
+    spam: boolean;
+    updated_at: string;
+  }[];
+}
+
+interface ReporterLaporan {
+  _id: string;
+  ticket: string;
+  confidentiality?: LaporanConfidentiality;
+  category: LaporanCategory;
+  status: LaporanStatus;
+  created_at: string;
+}
+
+const emptyRequest = { reference: '', email: '', phone: '' };
+
+const DataPribadi = () => {
+  const [canManagePolicy, setCanManagePolicy] = useState(false);
+  const [policy, setPolicy] = useState<RetentionSettings | null>(null);
+  const [policyForm, setPolicyForm] = useState({ mode: RETENTION_MODES.OFF as RetentionMode, months: 24 });
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [requestForm, setRequestForm] = useState(emptyRequest);
+  const [matches, setMatches] = useState<ReporterLaporan[] | null>(null);
+  const [processing, setProcessing] = useState<'search' | 'export' | 'erase' | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchRetention = async (months?: number) => {
+    try {
+      const params = months ? `?months=${months}` : '';
+      const response = await fetch(`${API_ROUTES.ADMIN.RETENTION}${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setPolicy(data.policy);
+        setPreview(data.preview);
+        if (!months) {
+          setPolicyForm({ mode: data.policy.mode, months: data.policy.months });
+        }
+      } else {
+        setError(data.error || 'Gagal memuat kebijakan retensi');
+      }
+    } catch (error) {
+      console.error('Error fetching retention policy:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    }
+  };
+
+  useEffect(() => {
+    const user = JSON.parse(localStorage.getItem('admin_user') || 'null');
+    const allowed = can(user, PERMISSIONS.SYSTEM_SETTINGS);
+    setCanManagePolicy(allowed);
+    if (allowed) {
+      fetchRetention();
+    }
+  }, []);
+
+  const showResult = (
+    data: { success: boolean; message?: string; error?: string; details?: (string | { message: string })[] },
+    fallback: string
+  ) => {
+    if (data.success) {
+      setMessage(data.message || '');
+      setError('');
+    } else {
+      setMessage('');
+      setError(getApiErrorMessages(data, fallback).join(', '));
+    }
+  };
+
+  const handlePolicySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (
+      policyForm.mode === RETENTION_MODES.ENFORCE &&
+      policy?.mode !== RETENTION_MODES.ENFORCE &&
+      !confirm('Identitas pelapor pada laporan yang melewati masa retensi akan dihapus permanen setiap hari. Lanjutkan?')
+    ) {
+      return;
+    }
+
+    try {
+      setSavingPolicy(true);
+      const response = await fetch(API_ROUTES.ADMIN.RETENTION, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(policyForm),
+      });
+
+      const data = await response.json();
+      showResult(data, 'Gagal menyimpan kebijakan retensi');
+      if (data.success) {
+        fetchRetention();
+      }
+    } catch (error) {
+      console.error('Error saving retention policy:', error);
+      setError('Terjadi kesalahan saat menyimpan kebijakan retensi');
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    if (
+      policy?.mode === RETENTION_MODES.ENFORCE &&
+      !confirm(`Anonimkan sekarang ${preview?.total ?? 0} laporan yang melewati masa retensi? Tindakan ini tidak dapat dibatalkan.`)
+    ) {
+      return;
+    }
+
+    try {
+      setRunning(true);
+      const response = await fetch(API_ROUTES.ADMIN.RETENTION_RUN, { method: 'POST' });
+      const data = await response.json();
+      showResult(data, 'Gagal menjalankan kebijakan retensi');
+      if (data.success) {
+        fetchRetention();
+      }
+    } catch (error) {
+      console.error('Error running retention policy:', error);
+      setError('Terjadi kesalahan saat menjalankan kebijakan retensi');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // Empty fields are left out so only what was entered is matched
+  const requestBody = () => JSON.stringify({
+    reference: requestForm.reference.trim(),
+    ...(requestForm.email.trim() && { email: requestForm.email.trim() }),
+    ...(requestForm.phone.trim() && { phone: requestForm.phone.trim() }),
+  });
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setProcessing('search');
+      const response = await fetch(API_ROUTES.ADMIN.PERSONAL_DATA_SEARCH, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: requestBody(),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setMatches(data.laporan);
+        setMessage('');
+        setError('');
+      } else {
+        setMatches(null);
+        showResult(data, 'Gagal mencari laporan pelapor');
+      }
+    } catch (error) {
+      console.error('Error searching reporter personal data:', error);
+      setError('Terjadi kesalahan saat mencari laporan pelapor');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setProcessing('export');
+      const response = await fetch(API_ROUTES.ADMIN.PERSONAL_DATA_EXPORT, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: requestBody(),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        showResult(data, 'Gagal mengekspor data pribadi');
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'data-pribadi.json';
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setMessage('Data pribadi pelapor berhasil diekspor. Ekspor ini tercatat di log audit.');
+      setError('');
+    } catch (error) {
+      console.error('Error exporting reporter personal data:', error);
+      setError('Terjadi kesalahan saat mengekspor data pribadi');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const handleErase = async () => {
+    if (!confirm(`Hapus identitas pelapor dari ${matches?.length ?? 0} laporan? Isi laporan tetap disimpan. Tindakan ini tidak dapat dibatalkan.`)) {
+      return;
+    }
+
+    try {
+      setProcessing('erase');
+      const response = await fetch(API_ROUTES.ADMIN.PERSONAL_DATA_ERASE, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: requestBody(),
+      });
+
+      const data = await response.json();
+      showResult(data, 'Gagal menghapus data pribadi');
+      if (data.success) {
+        setMatches(null);
+        setRequestForm(emptyRequest);
+      }
+    } catch (error) {
+      console.error('Error erasing reporter personal data:', error);
+      setError('Terjadi kesalahan saat menghapus data pribadi');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Data Pribadi Pelapor</h1>
+        <p className="text-gray-600">
+          Retensi data pribadi sesuai UU 27/2022 tentang Pelindungan Data Pribadi, serta permohonan ekspor dan penghapusan dari pelapor.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      {/* Retention policy */}
+      {canManagePolicy && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Kebijakan Retensi</h3>
+            <p className="text-sm text-gray-500">
+              Nama, email, telepon, alamat, dan IP pelapor dihapus dari laporan yang selesai, ditutup, atau ditandai spam
+              setelah tidak berubah selama masa retensi. Isi laporan dan statistik tetap disimpan. Pemeriksaan berjalan setiap hari.
+            </p>
+          </div>
+
+          <form onSubmit={handlePolicySubmit} className="flex flex-col sm:flex-row sm:items-end gap-3">
+            <div>
+              <label htmlFor="mode" className="block text-sm font-medium text-gray-700 mb-1">Mode</label>
+              <select
+                id="mode"
+                value={policyForm.mode}
+                onChange={(e) => setPolicyForm(prev => ({ ...prev, mode: e.target.value as RetentionMode }))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              >
+                {(Object.keys(RETENTION_MODE_LABELS) as RetentionMode[]).map((mode) => (
+                  <option key={mode} value={mode}>{RETENTION_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="months" className="block text-sm font-medium text-gray-700 mb-1">Masa retensi (bulan)</label>
+              <input
+                id="months"
+                type="number"
+                min={6}
+                max={120}
+                value={policyForm.months}
+                onChange={(e) => setPolicyForm(prev => ({ ...prev, months: parseInt(e.target.value) || 0 }))}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => fetchRetention(policyForm.months)}
+              className="px-4 py-2 border border-gray-300 text-sm rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Pratinjau
+            </button>
+            <button
+              type="submit"
+              disabled={savingPolicy}
+              className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
+            >
+              {savingPolicy ? 'Menyimpan...' : 'Simpan'}
+            </button>
+          </form>
+
+          {policy?.last_run_at && (
+            <p className="text-sm text-gray-600">
+              Dijalankan terakhir {formatDate(policy.last_run_at)}
+              {policy.last_run_mode === RETENTION_MODES.ENFORCE
+                ? `: ${policy.last_run_count ?? 0} laporan dianonimkan.`
+                : `: uji coba, ${policy.last_run_count ?? 0} laporan akan dianonimkan.`}
+            </p>
+          )}
+
+          {preview && (
+            <div className="border border-gray-200 rounded-lg">
+              <div className="px-4 py-3 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div className="text-sm text-gray-700">
+                  <span className="font-medium">Uji coba {preview.months} bulan:</span>{' '}
+                  {preview.total.toLocaleString('id-ID')} laporan terakhir berubah sebelum {formatDate(preview.cutoff)}
+                  {' '}(
+                  {(Object.keys(preview.byConfidentiality) as LaporanConfidentiality[])
+                    .map(mode => `${LAPORAN_CONFIDENTIALITY_LABELS[mode]} ${preview.byConfidentiality[mode]}`)
+                    .join(', ')}
+                  )
+                </div>
+                {policy && policy.mode !== RETENTION_MODES.OFF && (
+                  <button
+                    onClick={handleRunNow}
+                    disabled={running}
+                    className="px-3 py-1 border border-gray-300 text-sm rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {running ? 'Memproses...' : 'Jalankan Sekarang'}
+                  </button>
+                )}
+              </div>
+              {preview.sample.length > 0 && (
+                <div className="overflow-x-auto max-h-64">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tiket</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Terakhir Berubah</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {preview.sample.map((item) => (
+                        <tr key={item.ticket}>
+                          <td className="px-4 py-2 text-sm text-gray-900">{item.ticket}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500">
+                            {item.spam ? 'Spam' : LAPORAN_STATUS_LABELS[item.status] || item.status}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-500">{formatDate(item.updated_at)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {preview.total > preview.sample.length && (
+                    <p className="px-4 py-2 text-xs text-gray-500">
+                      Menampilkan {preview.sample.length} laporan tertua dari {preview.total.toLocaleString('id-ID')}.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Export and erasure requests */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Permohonan Pelapor</h3>
+          <p className="text-sm text-gray-500">
+            Cari laporan seorang pelapor berdasarkan email atau nomor telepon untuk mengekspor atau menghapus data pribadinya.
+            Setiap ekspor dan penghapusan tercatat di log audit dengan nomor permohonan.
+          </p>
+        </div>
+
+        <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-4 gap-3 md:items-end">
+          <div>
+            <label htmlFor="reference" className="block text-sm font-medium text-gray-700 mb-1">Nomor permohonan</label>
+            <input
+              id="reference"
+              type="text"
+              value={requestForm.reference}
+              onChange={(e) => setRequestForm(prev => ({ ...prev, reference: e.target.value }))}
+              maxLength={100}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">Email pelapor</label>
+            <input
+              id="email"
+              type="email"
+              value={requestForm.email}
+              onChange={(e) => setRequestForm(prev => ({ ...prev, email: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">Telepon pelapor</label>
+            <input
+              id="phone"
+              type="tel"
+              value={requestForm.phone}
+              onChange={(e) => setRequestForm(prev => ({ ...prev, phone: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={processing !== null}
+            className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
+          >
+            {processing === 'search' ? 'Mencari...' : 'Cari Laporan'}
+          </button>
+        </form>
+
+        {matches && (
+          matches.length === 0 ? (
+            <p className="text-sm text-gray-500">Tidak ada laporan dengan identitas pelapor tersebut.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tiket</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jenis</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kategori</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dikirim</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {matches.map((item) => (
+                    <tr key={item._id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{item.ticket}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">
+                        {LAPORAN_CONFIDENTIALITY_LABELS[item.confidentiality || 'normal']}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{LAPORAN_CATEGORY_LABELS[item.category] || item.category}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{LAPORAN_STATUS_LABELS[item.status] || item.status}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{formatDate(item.created_at)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+                <button
+                  onClick={handleExport}
+                  disabled={processing !== null}
+                  className="px-4 py-2 border border-gray-300 text-sm rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {processing === 'export' ? 'Mengekspor...' : 'Unduh Data (JSON)'}
+                </button>
+                <button
+                  onClick={handleErase}
+                  disabled={processing !== null}
+                  className="px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 disabled:opacity-50"
+                >
+                  {processing === 'erase' ? 'Menghapus...' : 'Hapus Identitas Pelapor'}
+                </button>
+              </div>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataPribadi;
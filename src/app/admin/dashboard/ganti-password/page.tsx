@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import { VALIDATION_RULES } from '@/lib/constants';
+import { getApiErrorMessages } from '@/lib/utils';
+
+const ChangePasswordPage = () => {
+  const [formData, setFormData] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmNewPassword: '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [success, setSuccess] = useState('');
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+    setErrors([]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.newPassword !== formData.confirmNewPassword) {
+      setErrors(['Konfirmasi password baru tidak cocok']);
+      return;
+    }
+
+    setLoading(true);
+    setErrors([]);
+    setSuccess('');
+
+    try {
+      const response = await fetch('/api/admin/me/password', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          currentPassword: formData.currentPassword,
+          newPassword: formData.newPassword,
+          confirmNewPassword: formData.confirmNewPassword,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        // Clear the forced-change flag kept for the sidebar
+        const userData = JSON.parse(localStorage.getItem('admin_user') || 'null');
+        if (userData) {
+          localStorage.setItem('admin_user', JSON.stringify({ ...userData, must_change_password: false }));
+        }
+        setSuccess(data.message || 'Password berhasil diubah');
+        setFormData({ currentPassword: '', newPassword: '', confirmNewPassword: '' });
+        // Reload so the layout picks up the updated account
+        window.location.href = '/admin/dashboard';
+      } else {
+        setErrors(getApiErrorMessages(data, 'Gagal mengubah password'));
+      }
+    } catch (error) {
+      console.error('Error changing password:', error);
+      setErrors(['Terjadi kesalahan saat mengubah password']);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-xl space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Ganti Password</h1>
+        <p className="text-gray-600">
+          Minimal {VALIDATION_RULES.PASSWORD.MIN_LENGTH} karakter dengan huruf besar, huruf kecil, dan angka.
+        </p>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <ul className="text-red-700 text-sm list-disc list-inside">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div>
+          <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-1">
+            Password Saat Ini *
+          </label>
+          <input
+            type="password"
+            id="currentPassword"
+            name="currentPassword"
+            autoComplete="current-password"
+            value={formData.currentPassword}
+            onChange={handleChange}
+            required
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-1">
+            Password Baru *
+          </label>
+          <input
+            type="password"
+            id="newPassword"
+            name="newPassword"
+            autoComplete="new-password"
+            value={formData.newPassword}
+            onChange={handleChange}
+            required
+            minLength={VALIDATION_RULES.PASSWORD.MIN_LENGTH}
+            maxLength={VALIDATION_RULES.PASSWORD.MAX_LENGTH}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="confirmNewPassword" className="block text-sm font-medium text-gray-700 mb-1">
+            Konfirmasi Password Baru *
+          </label>
+          <input
+            type="password"
+            id="confirmNewPassword"
+            name="confirmNewPassword"
+            autoComplete="new-password"
+            value={formData.confirmNewPassword}
+            onChange={handleChange}
+            required
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-primary text-white py-2 px-4 rounded-lg hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Menyimpan...' : 'Simpan Password'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ChangePasswordPage;
@@ -0,0 +1,371 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  remainingRecoveryCodes: number;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+const inputClassName =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent';
+
+const SecurityPage = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    fetchStatus();
+    fetchEmail();
+  }, []);
+
+  const fetchEmail = async () => {
+    try {
+      const response = await fetch('/api/admin/me');
+      const data = await response.json();
+
+      if (data.success) {
+        setEmail(data.user.email || '');
+      }
+    } catch (error) {
+      console.error('Error fetching account email:', error);
+    }
+  };
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/admin/2fa');
+      const data = await response.json();
+
+      if (data.success) {
+        setStatus(data.twoFactor);
+      } else {
+        setError(data.error || 'Gagal memuat status keamanan');
+      }
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+      setError('Terjadi kesalahan saat memuat status keamanan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Send a JSON request and surface the API error message
+  const submit = async (url: string, method: string, body?: object) => {
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'Permintaan gagal');
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Security request error:', error);
+      setError('Terjadi kesalahan, silakan coba lagi');
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    const data = await submit('/api/admin/2fa/setup', 'POST');
+    if (data) {
+      setEnrollment({ secret: data.secret, otpauthUri: data.otpauthUri });
+      setRecoveryCodes([]);
+      setCode('');
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await submit('/api/admin/2fa/enable', 'POST', { code });
+    if (data) {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setCode('');
+      setSuccess(data.message);
+
+      // Lift the mandatory enrollment redirect kept for the layout
+      const userData = JSON.parse(localStorage.getItem('admin_user') || 'null');
+      if (userData) {
+        localStorage.setItem(
+          'admin_user',
+          JSON.stringify({ ...userData, two_factor_enabled: true, must_enable_two_factor: false })
+        );
+      }
+      fetchStatus();
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await submit('/api/admin/2fa/recovery-codes', 'POST', { code });
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes);
+      setCode('');
+      setSuccess(data.message);
+      fetchStatus();
+    }
+  };
+
+  const handleSaveEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await submit('/api/admin/me', 'PUT', { email: email.trim() || null });
+    if (data) {
+      setEmail(data.email || '');
+      setSuccess(data.message);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm('Nonaktifkan autentikasi dua faktor untuk akun ini?')) {
+      return;
+    }
+
+    const data = await submit('/api/admin/2fa', 'DELETE', { currentPassword, code });
+    if (data) {
+      setRecoveryCodes([]);
+      setCode('');
+      setCurrentPassword('');
+      setSuccess(data.message);
+      fetchStatus();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Keamanan Akun</h1>
+        <p className="text-gray-600">
+          Autentikasi dua faktor (2FA) meminta kode dari aplikasi autentikator setiap kali login.
+        </p>
+      </div>
+
+      {status?.required && !status.enabled && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-yellow-800 text-sm">
+            Peran Anda wajib menggunakan autentikasi dua faktor. Aktifkan 2FA untuk melanjutkan.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {success && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{success}</p>
+        </div>
+      )}
+
+      {/* Recovery codes are only shown once, right after they are generated */}
+      {recoveryCodes.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Kode Pemulihan</h2>
+          <p className="text-sm text-gray-600">
+            Simpan kode berikut di tempat aman. Setiap kode hanya dapat digunakan satu kali untuk login
+            jika perangkat autentikator hilang. Kode ini tidak akan ditampilkan lagi.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode} className="px-3 py-2 bg-gray-50 rounded border border-gray-200">
+                {recoveryCode}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Autentikasi Dua Faktor</h2>
+          <span
+            className={`px-2 py-1 text-xs font-medium rounded-full ${
+              status?.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+            }`}
+          >
+            {status?.enabled ? 'Aktif' : 'Nonaktif'}
+          </span>
+        </div>
+
+        {!status?.enabled && !enrollment && (
+          <button
+            onClick={handleStartSetup}
+            disabled={submitting}
+            className="bg-primary text-white py-2 px-4 rounded-lg hover:bg-primary/90 disabled:opacity-50"
+          >
+            Aktifkan 2FA
+          </button>
+        )}
+
+        {!status?.enabled && enrollment && (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Buka aplikasi autentikator (Google Authenticator, Microsoft Authenticator, dsb.) lalu
+              tambahkan akun melalui{' '}
+              <a href={enrollment.otpauthUri} className="text-primary underline">
+                tautan ini
+              </a>{' '}
+              atau masukkan kunci berikut secara manual:
+            </p>
+            <p className="font-mono text-sm break-all px-3 py-2 bg-gray-50 rounded border border-gray-200">
+              {enrollment.secret}
+            </p>
+            <details className="text-xs text-gray-500">
+              <summary className="cursor-pointer">URI provisioning (untuk dibuat kode QR)</summary>
+              <p className="mt-2 font-mono break-all">{enrollment.otpauthUri}</p>
+            </details>
+            <div>
+              <label htmlFor="enable-code" className="block text-sm font-medium text-gray-700 mb-1">
+                Kode dari aplikasi *
+              </label>
+              <input
+                type="text"
+                id="enable-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                className={inputClassName}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="bg-primary text-white py-2 px-4 rounded-lg hover:bg-primary/90 disabled:opacity-50"
+            >
+              {submitting ? 'Memverifikasi...' : 'Verifikasi & Aktifkan'}
+            </button>
+          </form>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Sisa kode pemulihan: <span className="font-medium">{status.remainingRecoveryCodes}</span>
+            </p>
+
+            <form onSubmit={handleRegenerate} className="space-y-4">
+              <div>
+                <label htmlFor="manage-code" className="block text-sm font-medium text-gray-700 mb-1">
+                  Kode autentikator
+                </label>
+                <input
+                  type="text"
+                  id="manage-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting}
+                className="bg-primary text-white py-2 px-4 rounded-lg hover:bg-primary/90 disabled:opacity-50"
+              >
+                Buat Ulang Kode Pemulihan
+              </button>
+            </form>
+
+            {!status.required && (
+              <div className="pt-4 border-t border-gray-200 space-y-4">
+                <div>
+                  <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                    Password saat ini (untuk menonaktifkan)
+                  </label>
+                  <input
+                    type="password"
+                    id="currentPassword"
+                    autoComplete="current-password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={handleDisable}
+                  disabled={submitting || !currentPassword || !code}
+                  className="text-red-600 border border-red-300 py-2 px-4 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                >
+                  Nonaktifkan 2FA
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSaveEmail} className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Email Pemulihan</h2>
+          <p className="text-sm text-gray-600">
+            Tautan reset password dikirim ke alamat ini jika Anda lupa password.
+          </p>
+        </div>
+        <input
+          type="email"
+          id="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={submitting}
+          className="bg-primary text-white py-2 px-4 rounded-lg hover:bg-primary/90 disabled:opacity-50"
+        >
+          Simpan Email
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default SecurityPage;
@@ -1,51 +1,205 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import Link from 'next/link';
+import {
+  BIDANG_LABELS,
+  DUPLICATE_MATCH_REASON_LABELS,
+  LAPORAN_CATEGORY_LABELS,
+  LAPORAN_CONFIDENTIALITY,
+  LAPORAN_CONFIDENTIALITY_LABELS,
+  LAPORAN_PRIORITY_LABELS,
+  PERMISSIONS,
+  Bidang,
+  DuplicateMatchReason,
+  LaporanCategory,
+  LaporanConfidentiality,
+  LaporanPriority,
+} from '@/lib/constants';
+import { can } from '@/lib/permissions';
+import { getApiErrorMessages } from '@/lib/utils';
 
-interface Laporan {
+interface LaporanHistory {
+  type: 'status' | 'response' | 'assignment' | 'merge';
+  from_status?: string;
+  to_status: string;
+  from_assignee?: string;
+  to_assignee?: string;
+  changed_by_name?: string;
+  note?: string;
+  at: string;
+}
+
+interface LaporanAttachment {
   _id: string;
+  original_name: string;
+  mime_type: string;
+  size: number;
+}
+
+interface DuplicateMatch {
+  laporan: string;
+  ticket: string;
+  reason: DuplicateMatchReason;
+  score?: number;
+}
+
+interface MergedLaporan {
+  _id: string;
+  ticket: string;
+  confidentiality?: LaporanConfidentiality;
+  nama?: string;
+  email?: string;
+  phone?: string;
+  message: string;
+  history?: LaporanHistory[];
+  created_at: string;
+}
+
+interface InternalNote {
+  _id: string;
+  body: string;
+  author_name: string;
+  mentions: { username: string }[];
+  created_at: string;
+}
+
+interface ResponseTemplateOption {
+  _id: string;
+  title: string;
+  rendered: string;
+}
+
+interface ReporterIdentity {
   nama: string;
   email: string;
   phone: string;
   address: string;
+}
+
+interface Laporan {
+  _id: string;
+  ticket: string;
+  confidentiality?: LaporanConfidentiality;
+  anonymized_at?: string;
+  nama?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
   message: string;
+  attachments?: LaporanAttachment[];
+  category: LaporanCategory;
+  priority: LaporanPriority;
+  sla_days?: number;
+  due_at?: string;
+  is_overdue?: boolean;
   status: 'pending' | 'in_progress' | 'resolved' | 'closed';
-  createdAt: string;
-  updatedAt: string;
+  assigned_to?: string;
+  assigned_to_name?: string;
+  assigned_bidang?: Bidang;
+  history?: LaporanHistory[];
+  response?: string;
+  responded_at?: string;
+  spam?: boolean;
+  possible_duplicates?: DuplicateMatch[];
+  duplicate_of?: string;
+  duplicate_of_ticket?: string;
+  created_at: string;
+  updated_at: string;
 }
 
 interface LaporanResponse {
   success: boolean;
-  data: Laporan[];
+  laporan: Laporan[];
   pagination: {
     page: number;
     limit: number;
     total: number;
-    pages: number;
+    totalPages: number;
   };
-  counts: {
-    total: number;
+  statusStats: {
     pending: number;
     in_progress: number;
     resolved: number;
     closed: number;
   };
+  overdueCount: number;
+  spamCount: number;
+  duplicateCount: number;
   error?: string;
 }
 
+interface Workload {
+  staff: { _id: string; username: string; bidang: Bidang | null; open: number; overdue: number }[];
+  bidang: { bidang: Bidang; open: number; overdue: number }[];
+  unassigned: number;
+}
+
+const bidangOptions = Object.keys(BIDANG_LABELS) as Bidang[];
+
+// Recaps are usually made for the month that just ended
+const defaultRecapMonth = (() => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+})();
+
+// Quarters of this year and last year, newest first
+const quarterOptions = [new Date().getFullYear(), new Date().getFullYear() - 1].flatMap(year =>
+  [4, 3, 2, 1].map(quarter => ({ value: `${year}-Q${quarter}`, label: `Triwulan ${quarter} ${year}` }))
+);
+
+const priorityColors: Record<LaporanPriority, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-blue-100 text-blue-800',
+  high: 'bg-orange-100 text-orange-800',
+  urgent: 'bg-red-100 text-red-800',
+};
+
 const LaporanManagement = () => {
   const [laporan, setLaporan] = useState<Laporan[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [sortBy, setSortBy] = useState<'created_at' | 'due_at'>('created_at');
+  const [overdueCount, setOverdueCount] = useState(0);
+  const [spamOnly, setSpamOnly] = useState(false);
+  const [spamCount, setSpamCount] = useState(0);
+  const [markingSpam, setMarkingSpam] = useState(false);
+  const [duplicatesOnly, setDuplicatesOnly] = useState(false);
+  const [duplicateCount, setDuplicateCount] = useState(0);
+  const [mergedReports, setMergedReports] = useState<MergedLaporan[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [merging, setMerging] = useState(false);
+  const [canRevealIdentity, setCanRevealIdentity] = useState(false);
+  const [revealedIdentity, setRevealedIdentity] = useState<ReporterIdentity | null>(null);
+  const [revealReason, setRevealReason] = useState('');
+  const [revealing, setRevealing] = useState(false);
+  const [notes, setNotes] = useState<InternalNote[]>([]);
+  const [mentionableStaff, setMentionableStaff] = useState<string[]>([]);
+  const [noteText, setNoteText] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+  const [canRespond, setCanRespond] = useState(false);
+  const [responseTemplates, setResponseTemplates] = useState<ResponseTemplateOption[]>([]);
+  const [assignmentFilter, setAssignmentFilter] = useState<string>('all');
+  const [canAssign, setCanAssign] = useState(false);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [canExport, setCanExport] = useState(false);
+  const [recapPeriod, setRecapPeriod] = useState(defaultRecapMonth);
+  const [recapQuarter, setRecapQuarter] = useState('');
+  const [workload, setWorkload] = useState<Workload | null>(null);
+  const [assignForm, setAssignForm] = useState({ assigned_to: '', assigned_bidang: '', reason: '' });
+  const [savingAssignment, setSavingAssignment] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 10,
     total: 0,
-    pages: 0
+    totalPages: 0
   });
   const [counts, setCounts] = useState({
     total: 0,
@@ -57,6 +211,23 @@ const LaporanManagement = () => {
   const [selectedLaporan, setSelectedLaporan] = useState<Laporan | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
+  const [responseText, setResponseText] = useState('');
+  const [statusNote, setStatusNote] = useState('');
+  const [savingResponse, setSavingResponse] = useState(false);
+
+  // Filters shared by the list and the exports
+  const filterParams = (search = searchTerm, status = statusFilter) => ({
+    ...(search && { search }),
+    ...(status !== 'all' && { status }),
+    ...(categoryFilter !== 'all' && { category: categoryFilter }),
+    ...(overdueOnly && { overdue: 'true' }),
+    ...(spamOnly && { spam: 'only' }),
+    ...(duplicatesOnly && { duplicates: 'flagged' }),
+    ...(['me', 'unassigned'].includes(assignmentFilter) && { assignee: assignmentFilter }),
+    ...(assignmentFilter in BIDANG_LABELS && { bidang: assignmentFilter }),
+    ...(dateFrom && { from: dateFrom }),
+    ...(dateTo && { to: dateTo })
+  });
 
   const fetchLaporan = async (page = 1, search = '', status = 'all') => {
     try {
@@ -64,17 +235,23 @@ const LaporanManagement = () => {
       const params = new URLSearchParams({
         page: page.toString(),
         limit: '10',
-        ...(search && { search }),
-        ...(status !== 'all' && { status })
+        ...filterParams(search, status),
+        ...(sortBy === 'due_at' && { sort: 'due_at' })
       });
 
       const response = await fetch(`/api/laporan?${params}`);
       const data: LaporanResponse = await response.json();
 
       if (data.success) {
-        setLaporan(data.data);
+        setLaporan(data.laporan);
         setPagination(data.pagination);
-        setCounts(data.counts);
+        setCounts({
+          ...data.statusStats,
+          total: Object.values(data.statusStats).reduce((sum, count) => sum + count, 0),
+        });
+        setOverdueCount(data.overdueCount);
+        setSpamCount(data.spamCount);
+        setDuplicateCount(data.duplicateCount);
         setError('');
       } else {
         setError(data.error || 'Gagal memuat data laporan');
@@ -87,9 +264,52 @@ const LaporanManagement = () => {
     }
   };
 
+  const fetchWorkload = async () => {
+    try {
+      const response = await fetch('/api/laporan/workload');
+      const data = await response.json();
+      if (data.success) {
+        setWorkload(data);
+      }
+    } catch (error) {
+      console.error('Error fetching workload:', error);
+    }
+  };
+
   useEffect(() => {
     fetchLaporan(currentPage, searchTerm, statusFilter);
-  }, [currentPage, searchTerm, statusFilter]);
+  }, [currentPage, searchTerm, statusFilter, categoryFilter, overdueOnly, spamOnly, duplicatesOnly, sortBy, assignmentFilter, dateFrom, dateTo]);
+
+  useEffect(() => {
+    const user = JSON.parse(localStorage.getItem('admin_user') || 'null');
+    const allowed = can(user, PERMISSIONS.REPORT_ASSIGN);
+    setCanAssign(allowed);
+    if (allowed) {
+      fetchWorkload();
+    }
+    setCanExport(can(user, PERMISSIONS.REPORT_EXPORT));
+    setCanRevealIdentity(can(user, PERMISSIONS.REPORT_REVEAL_IDENTITY));
+    setCanRespond(can(user, PERMISSIONS.REPORT_RESPOND));
+
+    // Deep link from Tugas Saya, e.g. ?id=<laporan id>
+    const id = new URLSearchParams(window.location.search).get('id');
+    if (id) {
+      openDetailById(id);
+    }
+  }, []);
+
+  // Downloads go through the browser so large files stream straight to disk
+  const downloadExport = (format: 'csv' | 'xlsx') => {
+    const params = new URLSearchParams({ format, ...filterParams() });
+    window.location.href = `/api/laporan/export?${params}`;
+  };
+
+  const downloadRecap = () => {
+    const period = recapQuarter || recapPeriod;
+    if (period) {
+      window.location.href = `/api/laporan/recap?period=${encodeURIComponent(period)}`;
+    }
+  };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -97,28 +317,173 @@ const LaporanManagement = () => {
     fetchLaporan(1, searchTerm, statusFilter);
   };
 
-  const handleStatusChange = async (id: string, newStatus: string) => {
+  const resetAssignForm = (item: Laporan) => {
+    setAssignForm({
+      assigned_to: item.assigned_to || '',
+      assigned_bidang: item.assigned_bidang || '',
+      reason: '',
+    });
+  };
+
+  const openDetail = async (item: Laporan) => {
+    setSelectedLaporan(item);
+    setResponseText(item.response || '');
+    setStatusNote('');
+    resetAssignForm(item);
+    setMergedReports([]);
+    setRevealedIdentity(null);
+    setNotes([]);
+    setNoteText('');
+    setResponseTemplates([]);
+    setShowDetailModal(true);
+
+    // Load full detail including history
+    await openDetailById(item._id);
+  };
+
+  const openDetailById = async (id: string) => {
     try {
-      setUpdatingStatus(id);
-      const response = await fetch(`/api/laporan/${id}`, {
-        method: 'PUT',
+      const response = await fetch(`/api/laporan/${id}`);
+      const data = await response.json();
+      if (data.success) {
+        setSelectedLaporan(data.laporan);
+        setResponseText(data.laporan.response || '');
+        resetAssignForm(data.laporan);
+        setMergedReports(data.merged || []);
+        setMergeTarget('');
+        setRevealedIdentity(null);
+        setRevealReason('');
+        setShowDetailModal(true);
+        fetchNotes(id);
+        fetchResponseTemplates(id);
+      } else {
+        setError(data.error || 'Gagal memuat detail laporan');
+      }
+    } catch (error) {
+      console.error('Error fetching laporan detail:', error);
+    }
+  };
+
+  const fetchNotes = async (id: string) => {
+    try {
+      const response = await fetch(`/api/laporan/${id}/notes`);
+      const data = await response.json();
+      if (data.success) {
+        setNotes(data.notes);
+        setMentionableStaff(data.staff);
+      }
+    } catch (error) {
+      console.error('Error fetching internal notes:', error);
+    }
+  };
+
+  // Templates come filled in with this report's details, ready to insert
+  const fetchResponseTemplates = async (id: string) => {
+    const user = JSON.parse(localStorage.getItem('admin_user') || 'null');
+    if (!can(user, PERMISSIONS.REPORT_RESPOND)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/response-templates?laporan=${id}`);
+      const data = await response.json();
+      if (data.success) {
+        setResponseTemplates(data.templates);
+      }
+    } catch (error) {
+      console.error('Error fetching response templates:', error);
+    }
+  };
+
+  const insertResponseTemplate = (templateId: string) => {
+    const template = responseTemplates.find(item => item._id === templateId);
+    if (!template) {
+      return;
+    }
+    setResponseText(prev => (prev.trim() ? `${prev.trimEnd()}\n\n${template.rendered}` : template.rendered));
+  };
+
+  const handleNoteSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedLaporan || !noteText.trim()) {
+      return;
+    }
+
+    try {
+      setSavingNote(true);
+      const response = await fetch(`/api/laporan/${selectedLaporan._id}/notes`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ body: noteText.trim() }),
       });
 
       const data = await response.json();
 
       if (data.success) {
-        // Refresh data
-        fetchLaporan(currentPage, searchTerm, statusFilter);
-        // Update selected laporan if it's the one being updated
-        if (selectedLaporan && selectedLaporan._id === id) {
-          setSelectedLaporan({ ...selectedLaporan, status: newStatus as any });
-        }
+        setNotes(prev => [...prev, data.note]);
+        setNoteText('');
+        setError('');
       } else {
-        setError(data.error || 'Gagal mengupdate status');
+        setError(getApiErrorMessages(data, 'Gagal menambahkan catatan').join(', '));
+      }
+    } catch (error) {
+      console.error('Error adding internal note:', error);
+      setError('Terjadi kesalahan saat menambahkan catatan');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const mentionStaff = (username: string) => {
+    if (!username) {
+      return;
+    }
+    setNoteText(prev => `${prev}${prev && !prev.endsWith(' ') ? ' ' : ''}@${username} `);
+  };
+
+  // Mentions stand out in the note text
+  const renderNoteBody = (note: InternalNote) => {
+    const mentioned = new Set(note.mentions.map(mention => mention.username));
+    return note.body.split(/(@[a-zA-Z0-9_-]+)/g).map((part, index) =>
+      part.startsWith('@') && mentioned.has(part.slice(1))
+        ? <span key={index} className="font-medium text-primary">{part}</span>
+        : part
+    );
+  };
+
+  const updateLaporan = async (id: string, payload: Record<string, string>) => {
+    const response = await fetch(`/api/laporan/${id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    const data = await response.json();
+
+    if (data.success) {
+      // Refresh data
+      fetchLaporan(currentPage, searchTerm, statusFilter);
+      // Update selected laporan if it's the one being updated
+      if (selectedLaporan && selectedLaporan._id === id) {
+        setSelectedLaporan(data.laporan);
+      }
+    } else {
+      setError(data.error || 'Gagal mengupdate laporan');
+    }
+
+    return data.success as boolean;
+  };
+
+  const handleStatusChange = async (id: string, newStatus: string, note = '') => {
+    try {
+      setUpdatingStatus(id);
+      const updated = await updateLaporan(id, { status: newStatus, ...(note && { note }) });
+      if (updated) {
+        setStatusNote('');
       }
     } catch (error) {
       console.error('Error updating status:', error);
@@ -128,6 +493,222 @@ const LaporanManagement = () => {
     }
   };
 
+  const handleTriageChange = async (id: string, field: 'category' | 'priority', value: string) => {
+    try {
+      setUpdatingStatus(id);
+      await updateLaporan(id, { [field]: value });
+    } catch (error) {
+      console.error('Error updating triage:', error);
+      setError('Terjadi kesalahan saat mengupdate laporan');
+    } finally {
+      setUpdatingStatus(null);
+    }
+  };
+
+  const handleAssignSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedLaporan) {
+      return;
+    }
+
+    try {
+      setSavingAssignment(true);
+      const response = await fetch(`/api/laporan/${selectedLaporan._id}/assign`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          assigned_to: assignForm.assigned_to || null,
+          assigned_bidang: assignForm.assigned_bidang || null,
+          ...(assignForm.reason.trim() && { reason: assignForm.reason.trim() }),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSelectedLaporan(data.laporan);
+        resetAssignForm(data.laporan);
+        setError('');
+        fetchLaporan(currentPage, searchTerm, statusFilter);
+        fetchWorkload();
+      } else {
+        setError(getApiErrorMessages(data, 'Gagal menugaskan laporan').join(', '));
+      }
+    } catch (error) {
+      console.error('Error assigning laporan:', error);
+      setError('Terjadi kesalahan saat menugaskan laporan');
+    } finally {
+      setSavingAssignment(false);
+    }
+  };
+
+  const getAssigneeLabel = (item: Laporan) => {
+    const bidang = item.assigned_bidang ? BIDANG_LABELS[item.assigned_bidang] : '';
+    if (item.assigned_to_name) {
+      return bidang ? `${item.assigned_to_name} (${bidang})` : item.assigned_to_name;
+    }
+    return bidang || 'Belum ditugaskan';
+  };
+
+  const handleResponseSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedLaporan || !responseText.trim()) {
+      return;
+    }
+
+    try {
+      setSavingResponse(true);
+      await updateLaporan(selectedLaporan._id, { response: responseText.trim() });
+    } catch (error) {
+      console.error('Error saving response:', error);
+      setError('Terjadi kesalahan saat mengirim tanggapan');
+    } finally {
+      setSavingResponse(false);
+    }
+  };
+
+  // Marking as spam closes the report and blocks the sender's email, phone and IP
+  const handleSpamToggle = async (item: Laporan) => {
+    const question = item.spam
+      ? 'Hapus tanda spam? Blokir pengirim dari laporan ini akan dicabut.'
+      : 'Tandai laporan ini sebagai spam? Laporan akan ditutup dan email, telepon, serta IP pengirim diblokir.';
+    if (!confirm(question)) {
+      return;
+    }
+
+    try {
+      setMarkingSpam(true);
+      const response = await fetch(`/api/laporan/${item._id}/spam`, {
+        method: item.spam ? 'DELETE' : 'POST',
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSelectedLaporan(data.laporan);
+        setError('');
+        fetchLaporan(currentPage, searchTerm, statusFilter);
+      } else {
+        setError(getApiErrorMessages(data, 'Gagal memperbarui tanda spam').join(', '));
+      }
+    } catch (error) {
+      console.error('Error toggling spam:', error);
+      setError('Terjadi kesalahan saat memperbarui tanda spam');
+    } finally {
+      setMarkingSpam(false);
+    }
+  };
+
+  // Hidden identities show the reporting mode instead
+  const reporterLabel = (item: Pick<Laporan, 'nama' | 'confidentiality' | 'anonymized_at'>) =>
+    item.anonymized_at
+      ? 'Dianonimkan'
+      : item.nama || LAPORAN_CONFIDENTIALITY_LABELS[item.confidentiality || LAPORAN_CONFIDENTIALITY.NORMAL];
+
+  // Identity field of the open report, including one revealed just now
+  const identityField = (field: keyof ReporterIdentity) =>
+    revealedIdentity?.[field] || selectedLaporan?.[field] || '-';
+
+  // Contact details arrive masked; revealing them is recorded in the audit log
+  const handleRevealContact = async () => {
+    if (!selectedLaporan) {
+      return;
+    }
+
+    try {
+      setRevealing(true);
+      const response = await fetch(`/api/laporan/${selectedLaporan._id}/contact`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setRevealedIdentity(data.identity);
+        setError('');
+      } else {
+        setError(getApiErrorMessages(data, 'Gagal menampilkan kontak pelapor').join(', '));
+      }
+    } catch (error) {
+      console.error('Error revealing contact details:', error);
+      setError('Terjadi kesalahan saat menampilkan kontak pelapor');
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  // Decrypts a confidential identity; the server records who asked and why
+  const handleRevealIdentity = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedLaporan || !revealReason.trim()) {
+      return;
+    }
+
+    try {
+      setRevealing(true);
+      const response = await fetch(`/api/laporan/${selectedLaporan._id}/identity`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: revealReason.trim() }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setRevealedIdentity(data.identity);
+        setRevealReason('');
+        setError('');
+      } else {
+        setError(getApiErrorMessages(data, 'Gagal membuka identitas pelapor').join(', '));
+      }
+    } catch (error) {
+      console.error('Error revealing identity:', error);
+      setError('Terjadi kesalahan saat membuka identitas pelapor');
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  // The open report is closed and its reporter follows the target ticket from now on
+  const handleMerge = async (item: Laporan, targetTicket: string) => {
+    const ticket = targetTicket.trim().toUpperCase();
+    if (!ticket || !confirm(`Gabungkan laporan ${item.ticket} ke ${ticket}? Laporan ini akan ditutup dan pelapornya mengikuti perkembangan ${ticket}.`)) {
+      return;
+    }
+
+    try {
+      setMerging(true);
+      const response = await fetch(`/api/laporan/${item._id}/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ target_ticket: ticket }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSelectedLaporan(data.laporan);
+        setMergedReports([]);
+        setMergeTarget('');
+        setError('');
+        fetchLaporan(currentPage, searchTerm, statusFilter);
+      } else {
+        setError(getApiErrorMessages(data, 'Gagal menggabungkan laporan').join(', '));
+      }
+    } catch (error) {
+      console.error('Error merging laporan:', error);
+      setError('Terjadi kesalahan saat menggabungkan laporan');
+    } finally {
+      setMerging(false);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Apakah Anda yakin ingin menghapus laporan ini?')) {
       return;
@@ -171,6 +752,20 @@ const LaporanManagement = () => {
     );
   };
 
+  const getPriorityBadge = (priority: LaporanPriority) => (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${priorityColors[priority] || priorityColors.medium}`}>
+      {LAPORAN_PRIORITY_LABELS[priority] || priority}
+    </span>
+  );
+
+  const formatDueDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('id-ID', {
       year: 'numeric',
@@ -189,8 +784,72 @@ const LaporanManagement = () => {
           <h1 className="text-2xl font-bold text-gray-900">Manajemen Laporan</h1>
           <p className="text-gray-600">Kelola laporan dan pengaduan dari masyarakat</p>
         </div>
+        {canExport && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadExport('csv')}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Ekspor CSV
+            </button>
+            <button
+              onClick={() => downloadExport('xlsx')}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Ekspor XLSX
+            </button>
+          </div>
+        )}
       </div>
 
+      {/* Periodic recap for the Bupati and Ombudsman */}
+      {canExport && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="flex-1">
+              <h2 className="text-lg font-semibold text-gray-900">Rekap Periodik</h2>
+              <p className="text-sm text-gray-600">
+                Rekap PDF berkop dinas berisi jumlah laporan per status dan per kategori untuk satu bulan atau triwulan.
+              </p>
+            </div>
+            <div>
+              <label htmlFor="recap-month" className="block text-xs font-medium text-gray-500 mb-1">Bulan</label>
+              <input
+                id="recap-month"
+                type="month"
+                value={recapPeriod}
+                onChange={(e) => {
+                  setRecapPeriod(e.target.value);
+                  setRecapQuarter('');
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="recap-quarter" className="block text-xs font-medium text-gray-500 mb-1">atau Triwulan</label>
+              <select
+                id="recap-quarter"
+                value={recapQuarter}
+                onChange={(e) => setRecapQuarter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              >
+                <option value="">-</option>
+                {quarterOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={downloadRecap}
+              disabled={!recapPeriod && !recapQuarter}
+              className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
+            >
+              Unduh Rekap PDF
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <div className="bg-white rounded-lg shadow p-6">
@@ -274,13 +933,94 @@ const LaporanManagement = () => {
         </div>
       </div>
 
+      {/* Overdue notice */}
+      {overdueCount > 0 && !overdueOnly && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-red-700 text-sm">
+            {overdueCount} laporan melewati tenggat SLA dan belum diselesaikan.
+          </p>
+          <button
+            onClick={() => {
+              setOverdueOnly(true);
+              setCurrentPage(1);
+            }}
+            className="text-sm font-medium text-red-700 hover:text-red-900 underline"
+          >
+            Tampilkan
+          </button>
+        </div>
+      )}
+
+      {/* Workload per assignee */}
+      {canAssign && workload && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Beban Kerja</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+            <button
+              onClick={() => {
+                setAssignmentFilter('unassigned');
+                setCurrentPage(1);
+              }}
+              className="text-left p-3 rounded-lg border border-yellow-200 bg-yellow-50 hover:bg-yellow-100"
+            >
+              <p className="text-sm text-yellow-800">Belum ditugaskan</p>
+              <p className="text-xl font-semibold text-yellow-900">{workload.unassigned}</p>
+            </button>
+            {workload.bidang.map((item) => (
+              <button
+                key={item.bidang}
+                onClick={() => {
+                  setAssignmentFilter(item.bidang);
+                  setCurrentPage(1);
+                }}
+                className="text-left p-3 rounded-lg border border-gray-200 hover:bg-gray-50"
+              >
+                <p className="text-sm text-gray-600">{BIDANG_LABELS[item.bidang]}</p>
+                <p className="text-xl font-semibold text-gray-900">
+                  {item.open}
+                  {item.overdue > 0 && (
+                    <span className="ml-2 text-sm font-medium text-red-600">{item.overdue} terlambat</span>
+                  )}
+                </p>
+              </button>
+            ))}
+          </div>
+          {workload.staff.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+                    <th className="py-2 pr-4">Petugas</th>
+                    <th className="py-2 pr-4">Bidang</th>
+                    <th className="py-2 pr-4">Terbuka</th>
+                    <th className="py-2">Terlambat</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {workload.staff.map((member) => (
+                    <tr key={member._id}>
+                      <td className="py-2 pr-4 text-gray-900">{member.username}</td>
+                      <td className="py-2 pr-4 text-gray-500">{member.bidang ? BIDANG_LABELS[member.bidang] : '-'}</td>
+                      <td className="py-2 pr-4 text-gray-900">{member.open}</td>
+                      <td className={`py-2 ${member.overdue > 0 ? 'font-medium text-red-600' : 'text-gray-500'}`}>
+                        {member.overdue}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Filters */}
       <div className="bg-white rounded-lg shadow p-6">
-        <form onSubmit={handleSearch} className="flex flex-col sm:flex-row gap-4">
+        <form onSubmit={handleSearch} className="flex flex-col sm:flex-row sm:flex-wrap gap-4">
           <div className="flex-1">
             <input
               type="text"
-              placeholder="Cari berdasarkan nama, email, atau pesan..."
+              placeholder="Cari berdasarkan tiket, nama, atau pesan..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
@@ -299,6 +1039,110 @@ const LaporanManagement = () => {
               <option value="closed">Closed</option>
             </select>
           </div>
+          <div className="sm:w-48">
+            <select
+              value={categoryFilter}
+              onChange={(e) => {
+                setCategoryFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+            >
+              <option value="all">Semua Kategori</option>
+              {(Object.keys(LAPORAN_CATEGORY_LABELS) as LaporanCategory[]).map((category) => (
+                <option key={category} value={category}>{LAPORAN_CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="sm:w-48">
+            <select
+              value={assignmentFilter}
+              onChange={(e) => {
+                setAssignmentFilter(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+            >
+              <option value="all">Semua Penugasan</option>
+              <option value="me">Tugas saya</option>
+              <option value="unassigned">Belum ditugaskan</option>
+              {bidangOptions.map((bidang) => (
+                <option key={bidang} value={bidang}>{BIDANG_LABELS[bidang]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="sm:w-48">
+            <select
+              value={sortBy}
+              onChange={(e) => {
+                setSortBy(e.target.value as 'created_at' | 'due_at');
+                setCurrentPage(1);
+              }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+            >
+              <option value="created_at">Terbaru</option>
+              <option value="due_at">Tenggat terdekat</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={overdueOnly}
+              onChange={(e) => {
+                setOverdueOnly(e.target.checked);
+                setCurrentPage(1);
+              }}
+              className="rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            Terlambat saja
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={spamOnly}
+              onChange={(e) => {
+                setSpamOnly(e.target.checked);
+                setCurrentPage(1);
+              }}
+              className="rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            Spam ({spamCount})
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={duplicatesOnly}
+              onChange={(e) => {
+                setDuplicatesOnly(e.target.checked);
+                setCurrentPage(1);
+              }}
+              className="rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            Kemungkinan duplikat ({duplicateCount})
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              aria-label="Dari tanggal"
+              value={dateFrom}
+              onChange={(e) => {
+                setDateFrom(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+            <span className="text-gray-500 text-sm">s.d.</span>
+            <input
+              type="date"
+              aria-label="Sampai tanggal"
+              value={dateTo}
+              onChange={(e) => {
+                setDateTo(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+          </div>
           <button
             type="submit"
             className="px-6 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors duration-200"
@@ -352,12 +1196,18 @@ const LaporanManagement = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Pesan
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Kategori
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Status
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Tanggal
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Tenggat
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Aksi
                     </th>
@@ -365,15 +1215,15 @@ const LaporanManagement = () => {
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {laporan.map((item) => (
-                    <tr key={item._id} className="hover:bg-gray-50">
+                    <tr key={item._id} className={item.is_overdue ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'}>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div>
-                          <div className="text-sm font-medium text-gray-900">{item.nama}</div>
-                          <div className="text-sm text-gray-500">{item.address}</div>
+                          <div className={`text-sm font-medium ${item.nama ? 'text-gray-900' : 'text-gray-500 italic'}`}>{reporterLabel(item)}</div>
+                          <div className="text-xs text-gray-400">{item.ticket}</div>
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-900">{item.email}</div>
+                        <div className="text-sm text-gray-900">{item.email || '-'}</div>
                         <div className="text-sm text-gray-500">{item.phone}</div>
                       </td>
                       <td className="px-6 py-4">
@@ -381,18 +1231,53 @@ const LaporanManagement = () => {
                           {item.message}
                         </div>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{LAPORAN_CATEGORY_LABELS[item.category] || item.category}</div>
+                        <div className="mt-1">{getPriorityBadge(item.priority)}</div>
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         {getStatusBadge(item.status)}
+                        {item.spam && (
+                          <span className="ml-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Spam
+                          </span>
+                        )}
+                        {item.duplicate_of ? (
+                          <span className="ml-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            Digabung ke {item.duplicate_of_ticket}
+                          </span>
+                        ) : item.possible_duplicates && item.possible_duplicates.length > 0 && (
+                          <span
+                            className="ml-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                            title={item.possible_duplicates.map(match => match.ticket).join(', ')}
+                          >
+                            Duplikat? ({item.possible_duplicates.length})
+                          </span>
+                        )}
+                        <div className={`mt-1 text-xs ${item.assigned_to || item.assigned_bidang ? 'text-gray-500' : 'text-yellow-700'}`}>
+                          {getAssigneeLabel(item)}
+                        </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {formatDate(item.createdAt)}
+                        {formatDate(item.created_at)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {item.due_at ? (
+                          <>
+                            <div className={item.is_overdue ? 'font-medium text-red-700' : 'text-gray-500'}>
+                              {formatDueDate(item.due_at)}
+                            </div>
+                            {item.is_overdue && (
+                              <div className="text-xs font-medium text-red-600">Terlambat</div>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-gray-400">-</span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
                         <button
-                          onClick={() => {
-                            setSelectedLaporan(item);
-                            setShowDetailModal(true);
-                          }}
+                          onClick={() => openDetail(item)}
                           className="text-primary hover:text-primary/80"
                         >
                           Detail
@@ -422,7 +1307,7 @@ const LaporanManagement = () => {
             </div>
 
             {/* Pagination */}
-            {pagination.pages > 1 && (
+            {pagination.totalPages > 1 && (
               <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
                 <div className="flex-1 flex justify-between sm:hidden">
                   <button
@@ -433,8 +1318,8 @@ const LaporanManagement = () => {
                     Previous
                   </button>
                   <button
-                    onClick={() => setCurrentPage(Math.min(pagination.pages, currentPage + 1))}
-                    disabled={currentPage === pagination.pages}
+                    onClick={() => setCurrentPage(Math.min(pagination.totalPages, currentPage + 1))}
+                    disabled={currentPage === pagination.totalPages}
                     className="ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Next
@@ -462,7 +1347,7 @@ const LaporanManagement = () => {
                           <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
                         </svg>
                       </button>
-                      {Array.from({ length: Math.min(5, pagination.pages) }, (_, i) => {
+                      {Array.from({ length: Math.min(5, pagination.totalPages) }, (_, i) => {
                         const page = i + 1;
                         return (
                           <button
@@ -479,8 +1364,8 @@ const LaporanManagement = () => {
                         );
                       })}
                       <button
-                        onClick={() => setCurrentPage(Math.min(pagination.pages, currentPage + 1))}
-                        disabled={currentPage === pagination.pages}
+                        onClick={() => setCurrentPage(Math.min(pagination.totalPages, currentPage + 1))}
+                        disabled={currentPage === pagination.totalPages}
                         className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         <span className="sr-only">Next</span>
@@ -503,7 +1388,9 @@ const LaporanManagement = () => {
           <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-3/4 lg:w-1/2 shadow-lg rounded-md bg-white">
             <div className="mt-3">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-medium text-gray-900">Detail Laporan</h3>
+                <h3 className="text-lg font-medium text-gray-900">
+                  Detail Laporan <span className="text-gray-500">{selectedLaporan.ticket}</span>
+                </h3>
                 <button
                   onClick={() => setShowDetailModal(false)}
                   className="text-gray-400 hover:text-gray-600"
@@ -515,28 +1402,132 @@ const LaporanManagement = () => {
               </div>
               
               <div className="space-y-4">
+                {/* Hidden reporter identity */}
+                {selectedLaporan.anonymized_at && (
+                  <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+                    Identitas pelapor telah dihapus pada {formatDate(selectedLaporan.anonymized_at)} sesuai kebijakan
+                    retensi data pribadi atau permohonan penghapusan. Isi laporan tetap disimpan.
+                  </div>
+                )}
+                {(selectedLaporan.confidentiality || LAPORAN_CONFIDENTIALITY.NORMAL) === LAPORAN_CONFIDENTIALITY.NORMAL &&
+                  !selectedLaporan.anonymized_at && (
+                  <div className="flex items-center justify-between gap-2 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+                    {revealedIdentity ? (
+                      <p>Kontak lengkap pelapor ditampilkan. Akses ini tercatat di log audit.</p>
+                    ) : (
+                      <>
+                        <p>Email, telepon, dan alamat pelapor disamarkan.</p>
+                        <button
+                          type="button"
+                          onClick={handleRevealContact}
+                          disabled={revealing}
+                          className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-white disabled:opacity-50 whitespace-nowrap"
+                        >
+                          {revealing ? 'Membuka...' : 'Tampilkan Kontak'}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+                {selectedLaporan.confidentiality === LAPORAN_CONFIDENTIALITY.ANONYMOUS && (
+                  <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+                    Laporan anonim. Pelapor tidak meninggalkan identitas dan memantau laporan dengan nomor tiket dan PIN.
+                  </div>
+                )}
+                {selectedLaporan.confidentiality === LAPORAN_CONFIDENTIALITY.CONFIDENTIAL && !selectedLaporan.anonymized_at && (
+                  <div className="p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm text-purple-900 space-y-2">
+                    {revealedIdentity ? (
+                      <p>Identitas pelapor dibuka. Akses ini tercatat di log audit.</p>
+                    ) : (
+                      <>
+                        <p>Identitas pelapor dirahasiakan dan disimpan terenkripsi.</p>
+                        {canRevealIdentity && (
+                          <form onSubmit={handleRevealIdentity} className="flex flex-col sm:flex-row gap-2">
+                            <input
+                              type="text"
+                              value={revealReason}
+                              onChange={(e) => setRevealReason(e.target.value)}
+                              placeholder="Alasan membuka identitas (dicatat di log audit)"
+                              minLength={10}
+                              maxLength={300}
+                              className="flex-1 text-sm px-3 py-2 border border-purple-300 rounded focus:ring-2 focus:ring-primary focus:border-transparent"
+                            />
+                            <button
+                              type="submit"
+                              disabled={revealing || revealReason.trim().length < 10}
+                              className="px-4 py-2 bg-purple-700 text-white rounded text-sm hover:bg-purple-800 disabled:opacity-50"
+                            >
+                              {revealing ? 'Membuka...' : 'Buka Identitas'}
+                            </button>
+                          </form>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Nama</label>
-                    <p className="mt-1 text-sm text-gray-900">{selectedLaporan.nama}</p>
+                    <p className="mt-1 text-sm text-gray-900">{revealedIdentity?.nama || reporterLabel(selectedLaporan)}</p>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Email</label>
-                    <p className="mt-1 text-sm text-gray-900">{selectedLaporan.email}</p>
+                    <p className="mt-1 text-sm text-gray-900">{identityField('email')}</p>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Telepon</label>
-                    <p className="mt-1 text-sm text-gray-900">{selectedLaporan.phone}</p>
+                    <p className="mt-1 text-sm text-gray-900">{identityField('phone')}</p>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Status</label>
                     <div className="mt-1">{getStatusBadge(selectedLaporan.status)}</div>
                   </div>
                 </div>
+
+                {/* Triage */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">Kategori</label>
+                    <select
+                      id="category"
+                      value={selectedLaporan.category}
+                      onChange={(e) => handleTriageChange(selectedLaporan._id, 'category', e.target.value)}
+                      disabled={updatingStatus === selectedLaporan._id}
+                      className="w-full text-sm border border-gray-300 rounded px-2 py-2 focus:ring-2 focus:ring-primary focus:border-transparent"
+                    >
+                      {(Object.keys(LAPORAN_CATEGORY_LABELS) as LaporanCategory[]).map((category) => (
+                        <option key={category} value={category}>{LAPORAN_CATEGORY_LABELS[category]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-1">Prioritas</label>
+                    <select
+                      id="priority"
+                      value={selectedLaporan.priority}
+                      onChange={(e) => handleTriageChange(selectedLaporan._id, 'priority', e.target.value)}
+                      disabled={updatingStatus === selectedLaporan._id}
+                      className="w-full text-sm border border-gray-300 rounded px-2 py-2 focus:ring-2 focus:ring-primary focus:border-transparent"
+                    >
+                      {(Object.keys(LAPORAN_PRIORITY_LABELS) as LaporanPriority[]).map((priority) => (
+                        <option key={priority} value={priority}>{LAPORAN_PRIORITY_LABELS[priority]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Tenggat SLA</label>
+                    <p className="text-sm text-gray-900 py-2">
+                      {selectedLaporan.due_at
+                        ? `${formatDueDate(selectedLaporan.due_at)} (${selectedLaporan.sla_days} hari kerja)`
+                        : '-'}
+                    </p>
+                  </div>
+                </div>
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Alamat</label>
-                  <p className="mt-1 text-sm text-gray-900">{selectedLaporan.address}</p>
+                  <p className="mt-1 text-sm text-gray-900">{identityField('address')}</p>
                 </div>
                 
                 <div>
@@ -545,17 +1536,361 @@ const LaporanManagement = () => {
                     <p className="text-sm text-gray-900 whitespace-pre-wrap">{selectedLaporan.message}</p>
                   </div>
                 </div>
+
+                {selectedLaporan.attachments && selectedLaporan.attachments.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Lampiran</label>
+                    <ul className="mt-1 divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                      {selectedLaporan.attachments.map((attachment) => {
+                        const url = `/api/laporan/${selectedLaporan._id}/attachments/${attachment._id}`;
+                        return (
+                          <li key={attachment._id} className="flex items-center justify-between px-3 py-2 text-sm">
+                            <span className="text-gray-900 truncate">
+                              {attachment.original_name}
+                              <span className="ml-2 text-xs text-gray-500">{Math.ceil(attachment.size / 1024)} KB</span>
+                            </span>
+                            <span className="flex-shrink-0 space-x-3">
+                              {attachment.mime_type.startsWith('image/') && (
+                                <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary hover:text-primary/80">
+                                  Lihat
+                                </a>
+                              )}
+                              <a href={`${url}?download=1`} className="text-primary hover:text-primary/80">
+                                Unduh
+                              </a>
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Tanggal Dibuat</label>
-                    <p className="mt-1 text-sm text-gray-900">{formatDate(selectedLaporan.createdAt)}</p>
+                    <p className="mt-1 text-sm text-gray-900">{formatDate(selectedLaporan.created_at)}</p>
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700">Terakhir Diupdate</label>
-                    <p className="mt-1 text-sm text-gray-900">{formatDate(selectedLaporan.updatedAt)}</p>
+                    <p className="mt-1 text-sm text-gray-900">{formatDate(selectedLaporan.updated_at)}</p>
+                  </div>
+                </div>
+
+                {/* Assignment */}
+                {canAssign ? (
+                  <form onSubmit={handleAssignSubmit}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Penugasan</label>
+                    <p className="text-xs text-gray-500 mb-2">Saat ini: {getAssigneeLabel(selectedLaporan)}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <select
+                        aria-label="Petugas"
+                        value={assignForm.assigned_to}
+                        onChange={(e) => setAssignForm(prev => ({ ...prev, assigned_to: e.target.value }))}
+                        className="text-sm border border-gray-300 rounded px-2 py-2 focus:ring-2 focus:ring-primary focus:border-transparent"
+                      >
+                        <option value="">Tanpa petugas</option>
+                        {workload?.staff.map((member) => (
+                          <option key={member._id} value={member._id}>
+                            {member.username} ({member.open} terbuka)
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        aria-label="Bidang"
+                        value={assignForm.assigned_bidang}
+                        onChange={(e) => setAssignForm(prev => ({ ...prev, assigned_bidang: e.target.value }))}
+                        className="text-sm border border-gray-300 rounded px-2 py-2 focus:ring-2 focus:ring-primary focus:border-transparent"
+                      >
+                        <option value="">Tanpa bidang</option>
+                        {bidangOptions.map((bidang) => (
+                          <option key={bidang} value={bidang}>{BIDANG_LABELS[bidang]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-2 mt-2">
+                      <input
+                        type="text"
+                        value={assignForm.reason}
+                        onChange={(e) => setAssignForm(prev => ({ ...prev, reason: e.target.value }))}
+                        placeholder={selectedLaporan.assigned_to || selectedLaporan.assigned_bidang
+                          ? 'Alasan pengalihan (wajib)'
+                          : 'Catatan penugasan (opsional)'}
+                        maxLength={500}
+                        className="flex-1 text-sm px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-transparent"
+                      />
+                      <button
+                        type="submit"
+                        disabled={savingAssignment}
+                        className="px-4 py-2 bg-primary text-white rounded-md text-sm font-medium hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {savingAssignment ? 'Menyimpan...' : 'Simpan Penugasan'}
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Penugasan</label>
+                    <p className="mt-1 text-sm text-gray-900">{getAssigneeLabel(selectedLaporan)}</p>
+                  </div>
+                )}
+
+                {/* Duplicates and merging */}
+                {selectedLaporan.duplicate_of ? (
+                  <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg flex items-center justify-between gap-3">
+                    <p className="text-sm text-gray-700">
+                      Laporan ini telah digabungkan ke <span className="font-medium">{selectedLaporan.duplicate_of_ticket}</span>.
+                      Pelapor menerima kabar dari laporan tersebut.
+                    </p>
+                    <button
+                      onClick={() => openDetailById(selectedLaporan.duplicate_of!)}
+                      className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-white whitespace-nowrap"
+                    >
+                      Buka
+                    </button>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Kemungkinan Duplikat</label>
+                    {selectedLaporan.possible_duplicates && selectedLaporan.possible_duplicates.length > 0 ? (
+                      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-2">
+                        {selectedLaporan.possible_duplicates.map((match) => (
+                          <li key={match.laporan} className="px-3 py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                            <div className="text-sm">
+                              <span className="font-medium text-gray-900">{match.ticket}</span>
+                              <span className="ml-2 text-xs text-gray-500">
+                                {DUPLICATE_MATCH_REASON_LABELS[match.reason] || match.reason}
+                                {match.score !== undefined && ` (${Math.round(match.score * 100)}% kata sama)`}
+                              </span>
+                            </div>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => openDetailById(match.laporan)}
+                                className="px-3 py-1 border border-gray-300 rounded text-xs text-gray-700 hover:bg-gray-50"
+                              >
+                                Lihat
+                              </button>
+                              <button
+                                onClick={() => handleMerge(selectedLaporan, match.ticket)}
+                                disabled={merging}
+                                className="px-3 py-1 bg-primary text-white rounded text-xs hover:bg-primary/90 disabled:opacity-50"
+                              >
+                                Gabungkan ke {match.ticket}
+                              </button>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-xs text-gray-500 mb-2">Tidak ditemukan laporan serupa.</p>
+                    )}
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={mergeTarget}
+                        onChange={(e) => setMergeTarget(e.target.value)}
+                        placeholder="Gabungkan ke nomor tiket lain, mis. LPR-2026-000123"
+                        className="flex-1 text-sm px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-transparent"
+                      />
+                      <button
+                        onClick={() => handleMerge(selectedLaporan, mergeTarget)}
+                        disabled={merging || !mergeTarget.trim()}
+                        className="px-4 py-2 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {merging ? 'Memproses...' : 'Gabungkan'}
+                      </button>
+                    </div>
                   </div>
+                )}
+
+                {/* Reports merged into this one */}
+                {mergedReports.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Laporan yang Digabungkan ({mergedReports.length})
+                    </label>
+                    <div className="space-y-2">
+                      {mergedReports.map((merged) => (
+                        <details key={merged._id} className="border border-gray-200 rounded-lg px-3 py-2">
+                          <summary className="text-sm cursor-pointer">
+                            <span className="font-medium text-gray-900">{merged.ticket}</span>
+                            <span className="ml-2 text-gray-500">{reporterLabel(merged)} &middot; {formatDate(merged.created_at)}</span>
+                          </summary>
+                          <div className="mt-2 space-y-2">
+                            {merged.email && (
+                              <p className="text-xs text-gray-500">{merged.email} &middot; {merged.phone}</p>
+                            )}
+                            <p className="text-sm text-gray-900 whitespace-pre-wrap">{merged.message}</p>
+                            <ul className="text-xs text-gray-500 space-y-1">
+                              {(merged.history || []).map((entry, index) => (
+                                <li key={index}>
+                                  {formatDate(entry.at)}: {entry.note || (entry.from_status ? `${entry.from_status} → ${entry.to_status}` : entry.to_status)}
+                                  {entry.changed_by_name && ` (${entry.changed_by_name})`}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        </details>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Status change with note */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Ubah Status</label>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <select
+                      value={selectedLaporan.status}
+                      onChange={(e) => handleStatusChange(selectedLaporan._id, e.target.value, statusNote)}
+                      disabled={updatingStatus === selectedLaporan._id}
+                      className="text-sm border border-gray-300 rounded px-2 py-2 focus:ring-2 focus:ring-primary focus:border-transparent"
+                    >
+                      <option value="pending">Pending</option>
+                      <option value="in_progress">In Progress</option>
+                      <option value="resolved">Resolved</option>
+                      <option value="closed">Closed</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={statusNote}
+                      onChange={(e) => setStatusNote(e.target.value)}
+                      placeholder="Catatan perubahan status (opsional, internal)"
+                      maxLength={500}
+                      className="flex-1 text-sm px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-transparent"
+                    />
+                  </div>
+                </div>
+
+                {/* History timeline */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Riwayat</label>
+                  {selectedLaporan.history && selectedLaporan.history.length > 0 ? (
+                    <ol className="relative border-l border-gray-200 ml-2">
+                      {selectedLaporan.history.map((entry, index) => (
+                        <li key={index} className="mb-4 ml-4">
+                          <span className="absolute -left-1.5 w-3 h-3 bg-primary rounded-full ring-4 ring-white"></span>
+                          <p className="text-sm text-gray-900">
+                            {entry.type === 'response'
+                              ? 'Tanggapan resmi dikirim'
+                              : entry.type === 'merge'
+                                ? 'Penggabungan laporan'
+                                : entry.type === 'assignment'
+                                  ? `Penugasan diubah dari ${entry.from_assignee} ke ${entry.to_assignee}`
+                                  : entry.from_status
+                                    ? <>Status diubah dari {getStatusBadge(entry.from_status)} ke {getStatusBadge(entry.to_status)}</>
+                                    : <>Laporan diterima {getStatusBadge(entry.to_status)}</>}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDate(entry.at)}
+                            {entry.changed_by_name && ` oleh ${entry.changed_by_name}`}
+                          </p>
+                          {entry.note && (
+                            <p className="mt-1 text-xs text-gray-600 italic">{entry.note}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <p className="text-sm text-gray-500">Belum ada riwayat.</p>
+                  )}
+                </div>
+
+                {/* Internal notes, staff only */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Catatan Internal</label>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Hanya terlihat oleh petugas, tidak pernah ditampilkan kepada pelapor.
+                  </p>
+                  {notes.length > 0 ? (
+                    <ul className="space-y-2 mb-3">
+                      {notes.map((note) => (
+                        <li key={note._id} className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                          <p className="text-sm text-gray-800 whitespace-pre-line">{renderNoteBody(note)}</p>
+                          <p className="mt-1 text-xs text-gray-500">
+                            {note.author_name} · {formatDate(note.created_at)}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500 mb-3">Belum ada catatan internal.</p>
+                  )}
+                  <form onSubmit={handleNoteSubmit} className="space-y-2">
+                    <textarea
+                      value={noteText}
+                      onChange={(e) => setNoteText(e.target.value)}
+                      rows={2}
+                      maxLength={2000}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                      placeholder="Tulis catatan untuk petugas lain. Ketik @username untuk menyebut petugas."
+                    />
+                    <div className="flex items-center justify-between gap-2">
+                      <select
+                        value=""
+                        onChange={(e) => mentionStaff(e.target.value)}
+                        className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-primary focus:border-transparent"
+                      >
+                        <option value="">Sebut petugas...</option>
+                        {mentionableStaff.map((username) => (
+                          <option key={username} value={username}>@{username}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="submit"
+                        disabled={savingNote || !noteText.trim()}
+                        className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {savingNote ? 'Menyimpan...' : 'Tambah Catatan'}
+                      </button>
+                    </div>
+                  </form>
                 </div>
+
+                {/* Official response */}
+                <form onSubmit={handleResponseSubmit}>
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <label htmlFor="response" className="block text-sm font-medium text-gray-700">
+                      Tanggapan Resmi
+                    </label>
+                    {canRespond && responseTemplates.length > 0 && (
+                      <select
+                        value=""
+                        onChange={(e) => insertResponseTemplate(e.target.value)}
+                        className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-primary focus:border-transparent"
+                      >
+                        <option value="">Sisipkan template...</option>
+                        {responseTemplates.map((template) => (
+                          <option key={template._id} value={template._id}>{template.title}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Tanggapan ini dapat dilihat oleh pelapor melalui halaman lacak laporan.
+                  </p>
+                  <textarea
+                    id="response"
+                    value={responseText}
+                    onChange={(e) => setResponseText(e.target.value)}
+                    rows={4}
+                    maxLength={2000}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                    placeholder="Tulis tanggapan resmi untuk pelapor..."
+                  />
+                  <div className="flex items-center justify-between mt-2">
+                    <p className="text-xs text-gray-500">
+                      {selectedLaporan.responded_at && `Terakhir dikirim ${formatDate(selectedLaporan.responded_at)}`}
+                    </p>
+                    <button
+                      type="submit"
+                      disabled={savingResponse || !responseText.trim()}
+                      className="px-4 py-2 bg-primary text-white rounded-md text-sm font-medium hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {savingResponse ? 'Mengirim...' : 'Kirim Tanggapan'}
+                    </button>
+                  </div>
+                </form>
               </div>
               
               <div className="flex items-center justify-end space-x-4 mt-6 pt-4 border-t border-gray-200">
@@ -565,6 +1900,13 @@ const LaporanManagement = () => {
                 >
                   Tutup
                 </button>
+                <button
+                  onClick={() => handleSpamToggle(selectedLaporan)}
+                  disabled={markingSpam}
+                  className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                >
+                  {markingSpam ? 'Memproses...' : selectedLaporan.spam ? 'Bukan Spam' : 'Tandai Spam'}
+                </button>
                 <button
                   onClick={() => handleDelete(selectedLaporan._id)}
                   className="px-4 py-2 bg-red-600 text-white rounded-md text-sm font-medium hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
@@ -4,11 +4,23 @@ import { useState, useEffect } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
+import { PERMISSIONS, USER_ROLE_LABELS, Permission, UserRole } from '@/lib/constants';
+import { can } from '@/lib/permissions';
+
+// Refresh the 15 minute access token well before it expires
+const SESSION_REFRESH_INTERVAL = 10 * 60 * 1000;
 
 interface AdminLayoutProps {
   children: React.ReactNode;
 }
 
+interface NavigationItem {
+  name: string;
+  href: string;
+  permission?: Permission;
+  icon: React.ReactNode;
+}
+
 const AdminLayout = ({ children }: AdminLayoutProps) => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [user, setUser] = useState<any>(null);
@@ -20,11 +32,59 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
     const userData = localStorage.getItem('admin_user');
     if (userData) {
       setUser(JSON.parse(userData));
+      refreshUser();
     } else {
       router.push('/admin');
     }
   }, [router]);
 
+  useEffect(() => {
+    // Keep the session alive while the dashboard is open
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch('/api/auth/refresh', { method: 'POST' });
+        if (response.status === 401) {
+          localStorage.removeItem('admin_user');
+          router.push('/admin');
+        }
+      } catch (error) {
+        console.error('Session refresh error:', error);
+      }
+    }, SESSION_REFRESH_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [router]);
+
+  // Accounts with a temporary password must change it first,
+  // then enroll in two-factor authentication when their role requires it
+  useEffect(() => {
+    if (user?.must_change_password) {
+      if (pathname !== '/admin/dashboard/ganti-password') {
+        router.push('/admin/dashboard/ganti-password');
+      }
+    } else if (user?.must_enable_two_factor && pathname !== '/admin/dashboard/keamanan') {
+      router.push('/admin/dashboard/keamanan');
+    }
+  }, [user, pathname, router]);
+
+  // Reload permissions in case the role matrix changed since login
+  const refreshUser = async () => {
+    try {
+      const response = await fetch('/api/admin/me');
+      const data = await response.json();
+
+      if (data.success) {
+        localStorage.setItem('admin_user', JSON.stringify(data.user));
+        setUser(data.user);
+      } else if (response.status === 401) {
+        localStorage.removeItem('admin_user');
+        router.push('/admin');
+      }
+    } catch (error) {
+      console.error('Error refreshing user:', error);
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await fetch('/api/admin/logout', {
@@ -41,7 +101,24 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
     }
   };
 
-  const navigation = [
+  const handleLogoutAll = async () => {
+    if (!confirm('Keluar dari semua perangkat? Semua sesi login akan diakhiri.')) {
+      return;
+    }
+
+    try {
+      await fetch('/api/admin/sessions', {
+        method: 'DELETE',
+      });
+    } catch (error) {
+      console.error('Logout all error:', error);
+    } finally {
+      localStorage.removeItem('admin_user');
+      router.push('/admin');
+    }
+  };
+
+  const navigation: NavigationItem[] = [
     {
       name: 'Dashboard',
       href: '/admin/dashboard',
@@ -55,6 +132,7 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
     {
       name: 'Berita',
       href: '/admin/dashboard/berita',
+      permission: PERMISSIONS.CONTENT_READ,
       icon: (
         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z" />
@@ -64,23 +142,147 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
     {
       name: 'Galeri',
       href: '/admin/dashboard/galeri',
+      permission: PERMISSIONS.CONTENT_READ,
       icon: (
         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
         </svg>
       ),
     },
+    {
+      name: 'Tugas Saya',
+      href: '/admin/dashboard/tugas',
+      permission: PERMISSIONS.REPORT_UPDATE,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+        </svg>
+      ),
+    },
     {
       name: 'Laporan',
       href: '/admin/dashboard/laporan',
+      permission: PERMISSIONS.REPORT_READ,
       icon: (
         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
         </svg>
       ),
     },
+    {
+      name: 'Template Tanggapan',
+      href: '/admin/dashboard/template-tanggapan',
+      permission: PERMISSIONS.REPORT_MANAGE_TEMPLATES,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Blokir Spam',
+      href: '/admin/dashboard/spam',
+      permission: PERMISSIONS.REPORT_READ,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Survei Kepuasan',
+      href: '/admin/dashboard/survei',
+      permission: PERMISSIONS.REPORT_READ,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Data Pribadi',
+      href: '/admin/dashboard/data-pribadi',
+      permission: PERMISSIONS.REPORT_PERSONAL_DATA,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Pengguna',
+      href: '/admin/dashboard/pengguna',
+      permission: PERMISSIONS.USER_READ,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Audit Log',
+      href: '/admin/dashboard/audit',
+      permission: PERMISSIONS.SYSTEM_LOGS,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+        </svg>
+      ),
+    },
+    {
+      name: 'SLA & Hari Libur',
+      href: '/admin/dashboard/sla',
+      permission: PERMISSIONS.SYSTEM_SETTINGS,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Notifikasi Email',
+      href: '/admin/dashboard/notifikasi',
+      permission: PERMISSIONS.SYSTEM_SETTINGS,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Antrean Proses',
+      href: '/admin/dashboard/antrean',
+      permission: PERMISSIONS.SYSTEM_LOGS,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
+        </svg>
+      ),
+    },
+    {
+      name: 'Hak Akses',
+      href: '/admin/dashboard/peran',
+      permission: PERMISSIONS.SYSTEM_SETTINGS,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+        </svg>
+      ),
+    },
   ];
 
+  // Only show sections the user is allowed to use
+  const allowedNavigation = navigation.filter(
+    (item) => !item.permission || can(user, item.permission)
+  );
+
+  // Block direct visits to sections outside the user's permissions
+  const currentSection = navigation.find(
+    (item) => item.href !== '/admin/dashboard' && pathname?.startsWith(item.href)
+  );
+  const canViewCurrentSection =
+    !currentSection?.permission || can(user, currentSection.permission);
+
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -122,7 +324,7 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
 
         <nav className="mt-8">
           <div className="px-4 space-y-2">
-            {navigation.map((item) => {
+            {allowedNavigation.map((item) => {
               const isActive = pathname === item.href;
               return (
                 <Link
@@ -154,9 +356,29 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
             </div>
             <div className="ml-3">
               <p className="text-sm font-medium text-gray-700">{user?.username}</p>
-              <p className="text-xs text-gray-500 capitalize">{user?.role}</p>
+              <p className="text-xs text-gray-500">
+                {USER_ROLE_LABELS[user?.role as UserRole] || user?.role}
+              </p>
             </div>
           </div>
+          <Link
+            href="/admin/dashboard/ganti-password"
+            className="w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+          >
+            <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+            </svg>
+            Ganti Password
+          </Link>
+          <Link
+            href="/admin/dashboard/keamanan"
+            className="w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+          >
+            <svg className="w-5 h-5 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+            </svg>
+            Keamanan Akun
+          </Link>
           <button
             onClick={handleLogout}
             className="w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors duration-200"
@@ -166,6 +388,12 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
             </svg>
             Logout
           </button>
+          <button
+            onClick={handleLogoutAll}
+            className="w-full flex items-center px-4 py-2 text-xs text-gray-500 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+          >
+            Keluar dari semua perangkat
+          </button>
         </div>
       </div>
 
@@ -198,7 +426,16 @@ const AdminLayout = ({ children }: AdminLayoutProps) => {
 
         {/* Page content */}
         <main className="p-4 lg:p-6">
-          {children}
+          {canViewCurrentSection ? (
+            children
+          ) : (
+            <div className="bg-white rounded-lg shadow p-8 text-center">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Akses Ditolak</h2>
+              <p className="text-sm text-gray-600">
+                Anda tidak memiliki hak akses untuk membuka halaman ini.
+              </p>
+            </div>
+          )}
         </main>
       </div>
     </div>
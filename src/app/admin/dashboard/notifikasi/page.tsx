@@ -0,0 +1,404 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  NOTIFICATION_EVENT_LABELS,
+  PERMISSIONS,
+  NotificationEvent,
+  NotificationStatus,
+} from '@/lib/constants';
+import { can } from '@/lib/permissions';
+import { getApiErrorMessages } from '@/lib/utils';
+
+interface Template {
+  subject: string;
+  body: string;
+  customized: boolean;
+}
+
+interface NotificationLogEntry {
+  _id: string;
+  event: NotificationEvent;
+  recipient: string;
+  subject: string;
+  status: NotificationStatus;
+  error?: string;
+  ticket?: string;
+  created_at: string;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+const statusLabels: Record<NotificationStatus, string> = {
+  sent: 'Terkirim',
+  failed: 'Gagal',
+  skipped: 'Dilewati',
+};
+
+const statusStyles: Record<NotificationStatus, string> = {
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-800',
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent';
+
+const NotificationSettings = () => {
+  const [events, setEvents] = useState<NotificationEvent[]>([]);
+  const [templates, setTemplates] = useState<Record<string, Template>>({});
+  const [variables, setVariables] = useState<Record<string, string[]>>({});
+  const [emailEnabled, setEmailEnabled] = useState(true);
+  const [selectedEvent, setSelectedEvent] = useState<NotificationEvent | null>(null);
+  const [form, setForm] = useState({ subject: '', body: '' });
+  const [logs, setLogs] = useState<NotificationLogEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [logPage, setLogPage] = useState(1);
+  const [logStatus, setLogStatus] = useState('');
+  const [canViewLogs, setCanViewLogs] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const selectTemplate = (event: NotificationEvent, source: Record<string, Template> = templates) => {
+    const template = source[event];
+    setSelectedEvent(event);
+    setForm({ subject: template?.subject || '', body: template?.body || '' });
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch('/api/admin/notifications/templates');
+      const data = await response.json();
+
+      if (data.success) {
+        setEvents(data.events);
+        setTemplates(data.templates);
+        setVariables(data.variables);
+        setEmailEnabled(data.emailEnabled);
+        if (data.events.length > 0) {
+          selectTemplate(data.events[0], data.templates);
+        }
+      } else {
+        setError(data.error || 'Gagal memuat template notifikasi');
+      }
+    } catch (error) {
+      console.error('Error fetching notification templates:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLogs = async () => {
+    try {
+      const params = new URLSearchParams({
+        page: logPage.toString(),
+        limit: '20',
+        ...(logStatus && { status: logStatus })
+      });
+
+      const response = await fetch(`/api/admin/notifications/logs?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setLogs(data.logs);
+        setPagination(data.pagination);
+      } else {
+        setError(data.error || 'Gagal memuat log notifikasi');
+      }
+    } catch (error) {
+      console.error('Error fetching notification logs:', error);
+      setError('Terjadi kesalahan saat memuat log');
+    }
+  };
+
+  useEffect(() => {
+    const user = JSON.parse(localStorage.getItem('admin_user') || 'null');
+    setCanViewLogs(can(user, PERMISSIONS.SYSTEM_LOGS));
+    fetchTemplates();
+  }, []);
+
+  useEffect(() => {
+    if (canViewLogs) {
+      fetchLogs();
+    }
+  }, [canViewLogs, logPage, logStatus]);
+
+  const showResult = (data: any, fallback: string) => {
+    if (data.success) {
+      setMessage(data.message);
+      setError('');
+      setTemplates(data.templates);
+    } else {
+      setMessage('');
+      setError(getApiErrorMessages(data, fallback).join(', '));
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedEvent) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/admin/notifications/templates', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ event: selectedEvent, ...form }),
+      });
+
+      const data = await response.json();
+      showResult(data, 'Gagal menyimpan template');
+    } catch (error) {
+      console.error('Error saving notification template:', error);
+      setError('Terjadi kesalahan saat menyimpan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!selectedEvent || !confirm('Kembalikan template ini ke teks bawaan?')) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/admin/notifications/templates/${selectedEvent}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      showResult(data, 'Gagal mengembalikan template');
+      if (data.success) {
+        selectTemplate(selectedEvent, data.templates);
+      }
+    } catch (error) {
+      console.error('Error resetting notification template:', error);
+      setError('Terjadi kesalahan saat menyimpan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Notifikasi Email</h1>
+        <p className="text-gray-600">
+          Email otomatis kepada pelapor dan petugas saat laporan diterima, ditugaskan, berubah status, atau ditanggapi.
+        </p>
+      </div>
+
+      {!emailEnabled && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-yellow-800 text-sm">
+            SMTP belum dikonfigurasi. Notifikasi tidak dikirim dan tercatat sebagai dilewati.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      {/* Template editor */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Template</h2>
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3">
+            <ul className="border-b md:border-b-0 md:border-r border-gray-200 divide-y divide-gray-200">
+              {events.map((event) => (
+                <li key={event}>
+                  <button
+                    onClick={() => selectTemplate(event)}
+                    className={`w-full text-left px-6 py-3 text-sm ${selectedEvent === event ? 'bg-primary/10 text-primary font-medium' : 'text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    {NOTIFICATION_EVENT_LABELS[event]}
+                    {templates[event]?.customized && (
+                      <span className="block text-xs text-gray-400">Sudah disesuaikan</span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selectedEvent && (
+              <form onSubmit={handleSave} className="md:col-span-2 p-6 space-y-4">
+                <div>
+                  <label htmlFor="subject" className="block text-sm font-medium text-gray-700 mb-1">Subjek</label>
+                  <input
+                    id="subject"
+                    type="text"
+                    value={form.subject}
+                    onChange={(e) => setForm(prev => ({ ...prev, subject: e.target.value }))}
+                    required
+                    maxLength={200}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="body" className="block text-sm font-medium text-gray-700 mb-1">Isi Pesan</label>
+                  <textarea
+                    id="body"
+                    rows={12}
+                    value={form.body}
+                    onChange={(e) => setForm(prev => ({ ...prev, body: e.target.value }))}
+                    required
+                    maxLength={5000}
+                    className={`${inputClassName} font-mono`}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  Variabel yang tersedia:{' '}
+                  {(variables[selectedEvent] || []).map((name) => (
+                    <code key={name} className="mr-2 px-1 bg-gray-100 rounded">{`{{${name}}}`}</code>
+                  ))}
+                </p>
+                <div className="flex justify-end gap-2">
+                  {templates[selectedEvent]?.customized && (
+                    <button
+                      type="button"
+                      onClick={handleReset}
+                      disabled={saving}
+                      className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Kembalikan ke Bawaan
+                    </button>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
+                  >
+                    {saving ? 'Menyimpan...' : 'Simpan'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Delivery log */}
+      {canViewLogs && (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Log Pengiriman</h2>
+            <select
+              value={logStatus}
+              onChange={(e) => {
+                setLogStatus(e.target.value);
+                setLogPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+            >
+              <option value="">Semua Status</option>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {logs.length === 0 ? (
+            <p className="px-6 py-8 text-center text-sm text-gray-500">Belum ada notifikasi yang dikirim</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Waktu</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jenis</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Penerima</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tiket</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {logs.map((log) => (
+                    <tr key={log._id}>
+                      <td className="px-6 py-3 text-sm text-gray-500 whitespace-nowrap">{formatDate(log.created_at)}</td>
+                      <td className="px-6 py-3 text-sm text-gray-900">
+                        {NOTIFICATION_EVENT_LABELS[log.event] || log.event}
+                        <span className="block text-xs text-gray-400 truncate max-w-xs">{log.subject}</span>
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-900">{log.recipient}</td>
+                      <td className="px-6 py-3 text-sm text-gray-500">{log.ticket || '-'}</td>
+                      <td className="px-6 py-3 text-sm">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${statusStyles[log.status]}`}>
+                          {statusLabels[log.status]}
+                        </span>
+                        {log.error && (
+                          <span className="block text-xs text-red-600 mt-1">{log.error}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm">
+              <span className="text-gray-500">Halaman {pagination.page} dari {pagination.totalPages}</span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setLogPage(prev => prev - 1)}
+                  disabled={!pagination.hasPrev}
+                  className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+                >
+                  Sebelumnya
+                </button>
+                <button
+                  onClick={() => setLogPage(prev => prev + 1)}
+                  disabled={!pagination.hasNext}
+                  className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+                >
+                  Berikutnya
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -2,19 +2,22 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { LAPORAN_CONFIDENTIALITY_LABELS, PERMISSIONS, LaporanConfidentiality } from '@/lib/constants';
+import { can } from '@/lib/permissions';
+import LaporanStatistics from '@/components/LaporanStatistics';
 
 interface DashboardStats {
-  berita: {
+  berita?: {
     total: number;
     published: number;
     unpublished: number;
   };
-  galeri: {
+  galeri?: {
     total: number;
     photo: number;
     video: number;
   };
-  laporan: {
+  laporan?: {
     total: number;
     pending: number;
     in_progress: number;
@@ -26,6 +29,7 @@ interface RecentItem {
   _id: string;
   title?: string;
   nama?: string;
+  confidentiality?: LaporanConfidentiality;
   created_at: string;
   published?: boolean;
   status?: string;
@@ -36,6 +40,8 @@ const AdminDashboard = () => {
   const [recentBerita, setRecentBerita] = useState<RecentItem[]>([]);
   const [recentLaporan, setRecentLaporan] = useState<RecentItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [canReadContent, setCanReadContent] = useState(false);
+  const [canReadLaporan, setCanReadLaporan] = useState(false);
 
   useEffect(() => {
     fetchDashboardData();
@@ -43,28 +49,51 @@ const AdminDashboard = () => {
 
   const fetchDashboardData = async () => {
     try {
-      // Fetch stats from all endpoints
-      const [beritaRes, galeriRes, laporanRes] = await Promise.all([
-        fetch('/api/admin/berita?limit=5'),
-        fetch('/api/admin/galeri?limit=5'),
-        fetch('/api/laporan?limit=5')
-      ]);
+      // Only load the sections the user is allowed to see
+      const user = JSON.parse(localStorage.getItem('admin_user') || 'null');
+      const contentAllowed = can(user, PERMISSIONS.CONTENT_READ);
+      const laporanAllowed = can(user, PERMISSIONS.REPORT_READ);
+      setCanReadContent(contentAllowed);
+      setCanReadLaporan(laporanAllowed);
 
-      const [beritaData, galeriData, laporanData] = await Promise.all([
-        beritaRes.json(),
-        galeriRes.json(),
-        laporanRes.json()
-      ]);
+      const nextStats: DashboardStats = {};
 
-      if (beritaData.success && galeriData.success && laporanData.success) {
-        setStats({
-          berita: beritaData.stats,
-          galeri: galeriData.stats,
-          laporan: laporanData.stats
-        });
-        setRecentBerita(beritaData.berita);
-        setRecentLaporan(laporanData.laporan);
+      if (contentAllowed) {
+        const [beritaRes, galeriRes] = await Promise.all([
+          fetch('/api/admin/berita?limit=5'),
+          fetch('/api/admin/galeri?limit=5'),
+        ]);
+        const [beritaData, galeriData] = await Promise.all([
+          beritaRes.json(),
+          galeriRes.json(),
+        ]);
+
+        if (beritaData.success) {
+          nextStats.berita = beritaData.stats;
+          setRecentBerita(beritaData.berita);
+        }
+        if (galeriData.success) {
+          nextStats.galeri = galeriData.stats;
+        }
       }
+
+      if (laporanAllowed) {
+        const laporanRes = await fetch('/api/laporan?limit=5');
+        const laporanData = await laporanRes.json();
+
+        if (laporanData.success) {
+          const statusStats: Record<string, number> = laporanData.statusStats;
+          nextStats.laporan = {
+            total: Object.values(statusStats).reduce((sum, count) => sum + count, 0),
+            pending: statusStats.pending || 0,
+            in_progress: statusStats.in_progress || 0,
+            resolved: statusStats.resolved || 0,
+          };
+          setRecentLaporan(laporanData.laporan);
+        }
+      }
+
+      setStats(nextStats);
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
     } finally {
@@ -112,6 +141,7 @@ const AdminDashboard = () => {
       {stats && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           {/* Berita Stats */}
+          {stats.berita && (
           <div className="bg-white rounded-lg shadow p-6">
             <div className="flex items-center">
               <div className="flex-shrink-0">
@@ -131,7 +161,10 @@ const AdminDashboard = () => {
             </div>
           </div>
 
+          )}
+
           {/* Galeri Stats */}
+          {stats.galeri && (
           <div className="bg-white rounded-lg shadow p-6">
             <div className="flex items-center">
               <div className="flex-shrink-0">
@@ -151,7 +184,10 @@ const AdminDashboard = () => {
             </div>
           </div>
 
+          )}
+
           {/* Laporan Pending */}
+          {stats.laporan && (
           <div className="bg-white rounded-lg shadow p-6">
             <div className="flex items-center">
               <div className="flex-shrink-0">
@@ -169,7 +205,10 @@ const AdminDashboard = () => {
             </div>
           </div>
 
+          )}
+
           {/* Total Laporan */}
+          {stats.laporan && (
           <div className="bg-white rounded-lg shadow p-6">
             <div className="flex items-center">
               <div className="flex-shrink-0">
@@ -188,12 +227,17 @@ const AdminDashboard = () => {
               </div>
             </div>
           </div>
+          )}
         </div>
       )}
 
+      {/* Laporan Statistics */}
+      {canReadLaporan && <LaporanStatistics />}
+
       {/* Recent Content */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Recent Berita */}
+        {canReadContent && (
         <div className="bg-white rounded-lg shadow">
           <div className="px-6 py-4 border-b border-gray-200">
             <div className="flex items-center justify-between">
@@ -232,8 +276,10 @@ const AdminDashboard = () => {
             )}
           </div>
         </div>
+        )}
 
         {/* Recent Laporan */}
+        {canReadLaporan && (
         <div className="bg-white rounded-lg shadow">
           <div className="px-6 py-4 border-b border-gray-200">
             <div className="flex items-center justify-between">
@@ -253,7 +299,7 @@ const AdminDashboard = () => {
                   <div key={item._id} className="flex items-start justify-between">
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-gray-900 truncate">
-                        {item.nama}
+                        {item.nama || LAPORAN_CONFIDENTIALITY_LABELS[item.confidentiality || 'normal']}
                       </p>
                       <p className="text-xs text-gray-500">
                         {formatDate(item.created_at)}
@@ -272,6 +318,7 @@ const AdminDashboard = () => {
             )}
           </div>
         </div>
+        )}
       </div>
 
       {/* Quick Actions */}
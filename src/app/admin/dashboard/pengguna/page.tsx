@@ -0,0 +1,607 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BIDANG_LABELS, PERMISSIONS, USER_ROLE_LABELS, USER_ROLES, Bidang, UserRole } from '@/lib/constants';
+import { can } from '@/lib/permissions';
+import { getApiErrorMessages } from '@/lib/utils';
+
+interface AdminUser {
+  _id: string;
+  username: string;
+  email?: string;
+  role: UserRole;
+  bidang?: Bidang;
+  is_active: boolean;
+  must_change_password: boolean;
+  two_factor_enabled?: boolean;
+  failed_login_attempts?: number;
+  locked_until?: string;
+  last_login_at?: string;
+  createdAt: string;
+}
+
+interface UsersResponse {
+  success: boolean;
+  users: AdminUser[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  error?: string;
+}
+
+const roleOptions = Object.values(USER_ROLES);
+const bidangOptions = Object.keys(BIDANG_LABELS) as Bidang[];
+
+const UserManagement = () => {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pagination, setPagination] = useState({
+    page: 1,
+    limit: 10,
+    total: 0,
+    totalPages: 0
+  });
+  const [currentUser, setCurrentUser] = useState<any>(null);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [inviteForm, setInviteForm] = useState({ username: '', email: '', role: USER_ROLES.EDITOR as UserRole, bidang: '' });
+  const [saving, setSaving] = useState(false);
+  const [temporaryPassword, setTemporaryPassword] = useState<{ username: string; password: string } | null>(null);
+
+  const fetchUsers = async (page = 1, search = '', status = 'all') => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '10',
+        ...(search && { search }),
+        ...(status !== 'all' && { status })
+      });
+
+      const response = await fetch(`/api/admin/users?${params}`);
+      const data: UsersResponse = await response.json();
+
+      if (data.success) {
+        setUsers(data.users);
+        setPagination(data.pagination);
+        setError('');
+      } else {
+        setError(data.error || 'Gagal memuat data pengguna');
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setCurrentUser(JSON.parse(localStorage.getItem('admin_user') || 'null'));
+  }, []);
+
+  useEffect(() => {
+    fetchUsers(currentPage, searchTerm, statusFilter);
+  }, [currentPage, statusFilter]);
+
+  const canCreate = can(currentUser, PERMISSIONS.USER_CREATE);
+  const canUpdate = can(currentUser, PERMISSIONS.USER_UPDATE);
+  const canDelete = can(currentUser, PERMISSIONS.USER_DELETE);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCurrentPage(1);
+    fetchUsers(1, searchTerm, statusFilter);
+  };
+
+  const showResult = (data: any, successMessage: string) => {
+    if (data.success) {
+      setMessage(data.message || successMessage);
+      setError('');
+      fetchUsers(currentPage, searchTerm, statusFilter);
+    } else {
+      setMessage('');
+      setError(getApiErrorMessages(data, 'Terjadi kesalahan').join(', '));
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        // Email and bidang are optional, leave them out rather than sending empty strings
+        body: JSON.stringify({
+          ...inviteForm,
+          email: inviteForm.email.trim() || undefined,
+          bidang: inviteForm.bidang || undefined,
+        }),
+      });
+
+      const data = await response.json();
+      showResult(data, 'Pengguna berhasil ditambahkan');
+
+      if (data.success) {
+        setShowInviteModal(false);
+        setInviteForm({ username: '', email: '', role: USER_ROLES.EDITOR, bidang: '' });
+        if (data.temporaryPassword) {
+          setTemporaryPassword({ username: data.user.username, password: data.temporaryPassword });
+        }
+      }
+    } catch (error) {
+      console.error('Error inviting user:', error);
+      setError('Terjadi kesalahan saat menambahkan pengguna');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateUser = async (id: string, payload: { role?: UserRole; bidang?: Bidang | null; is_active?: boolean }) => {
+    try {
+      const response = await fetch(`/api/admin/users/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      showResult(await response.json(), 'Pengguna berhasil diperbarui');
+    } catch (error) {
+      console.error('Error updating user:', error);
+      setError('Terjadi kesalahan saat memperbarui pengguna');
+    }
+  };
+
+  const handleResetPassword = async (user: AdminUser) => {
+    if (!confirm(`Buat password sementara untuk ${user.username}? Password lama tidak dapat digunakan lagi.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/users/${user._id}/reset-password`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      showResult(data, 'Password sementara berhasil dibuat');
+
+      if (data.success) {
+        setTemporaryPassword({ username: user.username, password: data.temporaryPassword });
+      }
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      setError('Terjadi kesalahan saat mereset password');
+    }
+  };
+
+  const handleUnlock = async (user: AdminUser) => {
+    try {
+      const response = await fetch(`/api/admin/users/${user._id}/unlock`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      showResult(data, 'Akun berhasil dibuka kembali');
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      setError('Terjadi kesalahan saat membuka kunci akun');
+    }
+  };
+
+  const isLocked = (user: AdminUser) =>
+    Boolean(user.locked_until && new Date(user.locked_until).getTime() > Date.now());
+
+  const handleResetTwoFactor = async (user: AdminUser) => {
+    if (!confirm(`Reset 2FA untuk ${user.username}? Pengguna harus mendaftarkan ulang aplikasi autentikator.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/users/${user._id}/two-factor`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      showResult(data, 'Autentikasi dua faktor berhasil direset');
+    } catch (error) {
+      console.error('Error resetting two-factor authentication:', error);
+      setError('Terjadi kesalahan saat mereset 2FA');
+    }
+  };
+
+  const handleDelete = async (user: AdminUser) => {
+    if (!confirm(`Hapus pengguna ${user.username}? Tindakan ini tidak dapat dibatalkan.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/users/${user._id}`, {
+        method: 'DELETE',
+      });
+
+      showResult(await response.json(), 'Pengguna berhasil dihapus');
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      setError('Terjadi kesalahan saat menghapus pengguna');
+    }
+  };
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Manajemen Pengguna</h1>
+          <p className="text-gray-600">Kelola akun admin, peran, dan status akses</p>
+        </div>
+        {canCreate && (
+          <button
+            onClick={() => setShowInviteModal(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Undang Pengguna
+          </button>
+        )}
+      </div>
+
+      {/* Temporary password notice */}
+      {temporaryPassword && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-sm text-yellow-800">
+            Password sementara untuk <strong>{temporaryPassword.username}</strong>:
+            <code className="ml-2 px-2 py-1 bg-white border border-yellow-300 rounded font-mono">{temporaryPassword.password}</code>
+          </p>
+          <p className="mt-1 text-xs text-yellow-700">
+            Sampaikan password ini secara aman. Password hanya ditampilkan sekali dan wajib diganti saat login pertama.
+          </p>
+          <button
+            onClick={() => setTemporaryPassword(null)}
+            className="mt-2 text-xs font-medium text-yellow-800 underline"
+          >
+            Tutup
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1">
+            <input
+              type="text"
+              placeholder="Cari username atau email..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setCurrentPage(1);
+            }}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            <option value="all">Semua Status</option>
+            <option value="active">Aktif</option>
+            <option value="inactive">Nonaktif</option>
+            <option value="locked">Terkunci</option>
+          </select>
+          <button
+            type="submit"
+            className="px-6 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            Cari
+          </button>
+        </form>
+      </div>
+
+      {/* Users Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : users.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Belum ada pengguna</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Username</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Peran</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bidang</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Login Terakhir</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Aksi</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users.map((user) => {
+                  const isSelf = currentUser?.id === user._id;
+                  return (
+                    <tr key={user._id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{user.username}</div>
+                        {user.email && (
+                          <div className="text-xs text-gray-500">{user.email}</div>
+                        )}
+                        {user.must_change_password && (
+                          <div className="text-xs text-yellow-600">Wajib ganti password</div>
+                        )}
+                        {user.two_factor_enabled && (
+                          <div className="text-xs text-green-600">2FA aktif</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {canUpdate && !isSelf ? (
+                          <select
+                            value={user.role}
+                            onChange={(e) => updateUser(user._id, { role: e.target.value as UserRole })}
+                            className="text-sm border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-primary focus:border-transparent"
+                          >
+                            {roleOptions.map((role) => (
+                              <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-sm text-gray-900">{USER_ROLE_LABELS[user.role] || user.role}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {canUpdate ? (
+                          <select
+                            value={user.bidang || ''}
+                            onChange={(e) => updateUser(user._id, { bidang: (e.target.value as Bidang) || null })}
+                            className="text-sm border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-primary focus:border-transparent"
+                          >
+                            <option value="">-</option>
+                            {bidangOptions.map((bidang) => (
+                              <option key={bidang} value={bidang}>{BIDANG_LABELS[bidang]}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-sm text-gray-900">{user.bidang ? BIDANG_LABELS[user.bidang] : '-'}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          user.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}>
+                          {user.is_active ? 'Aktif' : 'Nonaktif'}
+                        </span>
+                        {isLocked(user) && (
+                          <div className="text-xs text-red-600 mt-1">
+                            Terkunci hingga {formatDate(user.locked_until)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(user.last_login_at)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                        {canUpdate && !isSelf && (
+                          <>
+                            <button
+                              onClick={() => updateUser(user._id, { is_active: !user.is_active })}
+                              className="text-yellow-600 hover:text-yellow-800"
+                            >
+                              {user.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                            </button>
+                            {(isLocked(user) || (user.failed_login_attempts ?? 0) > 0) && (
+                              <button
+                                onClick={() => handleUnlock(user)}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                Buka Kunci
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleResetPassword(user)}
+                              className="text-primary hover:text-primary/80"
+                            >
+                              Reset Password
+                            </button>
+                            {user.two_factor_enabled && (
+                              <button
+                                onClick={() => handleResetTwoFactor(user)}
+                                className="text-primary hover:text-primary/80"
+                              >
+                                Reset 2FA
+                              </button>
+                            )}
+                          </>
+                        )}
+                        {canDelete && !isSelf && (
+                          <button
+                            onClick={() => handleDelete(user)}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            Hapus
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination.totalPages > 1 && (
+          <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
+            <p className="text-sm text-gray-700">
+              Halaman {pagination.page} dari {pagination.totalPages} ({pagination.total} pengguna)
+            </p>
+            <div className="space-x-2">
+              <button
+                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                disabled={currentPage === 1}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Sebelumnya
+              </button>
+              <button
+                onClick={() => setCurrentPage(Math.min(pagination.totalPages, currentPage + 1))}
+                disabled={currentPage === pagination.totalPages}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Selanjutnya
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Invite Modal */}
+      {showInviteModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Undang Pengguna</h3>
+              <button
+                onClick={() => setShowInviteModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={handleInvite} className="space-y-4">
+              <div>
+                <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">
+                  Username *
+                </label>
+                <input
+                  type="text"
+                  id="username"
+                  value={inviteForm.username}
+                  onChange={(e) => setInviteForm(prev => ({ ...prev, username: e.target.value }))}
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  value={inviteForm.email}
+                  onChange={(e) => setInviteForm(prev => ({ ...prev, email: e.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                />
+                <p className="mt-1 text-xs text-gray-500">Digunakan untuk reset password mandiri.</p>
+              </div>
+
+              <div>
+                <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-1">
+                  Peran *
+                </label>
+                <select
+                  id="role"
+                  value={inviteForm.role}
+                  onChange={(e) => setInviteForm(prev => ({ ...prev, role: e.target.value as UserRole }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                >
+                  {roleOptions.map((role) => (
+                    <option key={role} value={role}>{USER_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="bidang" className="block text-sm font-medium text-gray-700 mb-1">
+                  Bidang
+                </label>
+                <select
+                  id="bidang"
+                  value={inviteForm.bidang}
+                  onChange={(e) => setInviteForm(prev => ({ ...prev, bidang: e.target.value }))}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                >
+                  <option value="">Tidak ada</option>
+                  {bidangOptions.map((bidang) => (
+                    <option key={bidang} value={bidang}>{BIDANG_LABELS[bidang]}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">Laporan yang ditugaskan ke bidang ini muncul di Tugas Saya.</p>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Password sementara akan dibuat otomatis dan wajib diganti saat login pertama.
+              </p>
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setShowInviteModal(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-primary hover:bg-primary/90 disabled:opacity-50"
+                >
+                  {saving ? 'Menyimpan...' : 'Undang'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserManagement;
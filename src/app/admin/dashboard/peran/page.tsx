@@ -0,0 +1,238 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  PERMISSION_LABELS,
+  USER_ROLE_LABELS,
+  USER_ROLES,
+  Permission,
+  UserRole,
+} from '@/lib/constants';
+
+interface RolesResponse {
+  success: boolean;
+  roles: UserRole[];
+  permissions: Permission[];
+  matrix: Record<UserRole, Permission[]>;
+  twoFactor: Record<UserRole, boolean>;
+  error?: string;
+}
+
+const RolePermissionManagement = () => {
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [matrix, setMatrix] = useState<Record<string, Permission[]>>({});
+  const [twoFactor, setTwoFactor] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingRole, setSavingRole] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchMatrix = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/roles');
+      const data: RolesResponse = await response.json();
+
+      if (data.success) {
+        setRoles(data.roles);
+        setPermissions(data.permissions);
+        setMatrix(data.matrix);
+        setTwoFactor(data.twoFactor);
+        setError('');
+      } else {
+        setError(data.error || 'Gagal memuat hak akses');
+      }
+    } catch (error) {
+      console.error('Error fetching role permissions:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMatrix();
+  }, []);
+
+  const togglePermission = (role: UserRole, permission: Permission) => {
+    setMessage('');
+    setMatrix(prev => {
+      const current = prev[role] || [];
+      const next = current.includes(permission)
+        ? current.filter(item => item !== permission)
+        : [...current, permission];
+      return { ...prev, [role]: next };
+    });
+  };
+
+  const saveRole = async (role: UserRole) => {
+    try {
+      setSavingRole(role);
+      setMessage('');
+      const response = await fetch('/api/admin/roles', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ role, permissions: matrix[role] || [] }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setMatrix(prev => ({ ...prev, [role]: data.permissions }));
+        setMessage(`Hak akses ${USER_ROLE_LABELS[role]} berhasil disimpan`);
+        setError('');
+      } else {
+        setError(data.error || 'Gagal menyimpan hak akses');
+      }
+    } catch (error) {
+      console.error('Error saving role permissions:', error);
+      setError('Terjadi kesalahan saat menyimpan');
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  // Two-factor requirements are saved as soon as they are toggled
+  const toggleTwoFactor = async (role: UserRole) => {
+    try {
+      setSavingRole(role);
+      setMessage('');
+      const response = await fetch('/api/admin/roles', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ role, require_two_factor: !twoFactor[role] }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setTwoFactor(prev => ({ ...prev, [role]: data.require_two_factor }));
+        setMessage(
+          data.require_two_factor
+            ? `${USER_ROLE_LABELS[role]} kini wajib menggunakan 2FA`
+            : `2FA tidak lagi wajib untuk ${USER_ROLE_LABELS[role]}`
+        );
+        setError('');
+      } else {
+        setError(data.error || 'Gagal menyimpan pengaturan 2FA');
+      }
+    } catch (error) {
+      console.error('Error saving two-factor requirement:', error);
+      setError('Terjadi kesalahan saat menyimpan');
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Hak Akses Peran</h1>
+          <p className="text-gray-600">Atur izin yang dimiliki setiap peran pengguna</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Izin
+                </th>
+                {roles.map(role => (
+                  <th key={role} className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {USER_ROLE_LABELS[role]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {permissions.map(permission => (
+                <tr key={permission} className="hover:bg-gray-50">
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {PERMISSION_LABELS[permission]}
+                    <span className="block text-xs text-gray-400">{permission}</span>
+                  </td>
+                  {roles.map(role => (
+                    <td key={role} className="px-6 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={(matrix[role] || []).includes(permission)}
+                        onChange={() => togglePermission(role, permission)}
+                        disabled={role === USER_ROLES.SUPER_ADMIN || savingRole !== null}
+                        className="h-4 w-4 text-primary border-gray-300 rounded focus:ring-primary disabled:opacity-50"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="bg-yellow-50/50">
+                <td className="px-6 py-3 text-sm text-gray-900">
+                  Wajib 2FA
+                  <span className="block text-xs text-gray-400">Pengguna harus mengaktifkan autentikasi dua faktor</span>
+                </td>
+                {roles.map(role => (
+                  <td key={role} className="px-6 py-3 text-center">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(twoFactor[role])}
+                      onChange={() => toggleTwoFactor(role)}
+                      disabled={savingRole !== null}
+                      className="h-4 w-4 text-primary border-gray-300 rounded focus:ring-primary disabled:opacity-50"
+                    />
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+            <tfoot className="bg-gray-50">
+              <tr>
+                <td className="px-6 py-3 text-xs text-gray-500">
+                  Super Admin selalu memiliki seluruh izin.
+                </td>
+                {roles.map(role => (
+                  <td key={role} className="px-6 py-3 text-center">
+                    {role !== USER_ROLES.SUPER_ADMIN && (
+                      <button
+                        onClick={() => saveRole(role)}
+                        disabled={savingRole !== null}
+                        className="px-3 py-1 text-xs font-medium text-white bg-primary rounded hover:bg-primary/90 disabled:opacity-50"
+                      >
+                        {savingRole === role ? 'Menyimpan...' : 'Simpan'}
+                      </button>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RolePermissionManagement;
@@ -0,0 +1,316 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LAPORAN_CATEGORY_LABELS, LaporanCategory } from '@/lib/constants';
+import { getApiErrorMessages } from '@/lib/utils';
+
+interface SlaResponse {
+  success: boolean;
+  categories: LaporanCategory[];
+  policy: Record<LaporanCategory, number>;
+  defaults: Record<LaporanCategory, number>;
+  error?: string;
+}
+
+interface Holiday {
+  _id: string;
+  date: string;
+  name: string;
+}
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent';
+
+const SlaSettings = () => {
+  const [categories, setCategories] = useState<LaporanCategory[]>([]);
+  const [policy, setPolicy] = useState<Record<string, number>>({});
+  const [defaults, setDefaults] = useState<Record<string, number>>({});
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [holidayForm, setHolidayForm] = useState({ date: '', name: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchPolicy = async () => {
+    try {
+      const response = await fetch('/api/admin/sla');
+      const data: SlaResponse = await response.json();
+
+      if (data.success) {
+        setCategories(data.categories);
+        setPolicy(data.policy);
+        setDefaults(data.defaults);
+      } else {
+        setError(data.error || 'Gagal memuat pengaturan SLA');
+      }
+    } catch (error) {
+      console.error('Error fetching SLA policy:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHolidays = async (selectedYear = year) => {
+    try {
+      const response = await fetch(`/api/admin/holidays?year=${selectedYear}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setHolidays(data.holidays);
+      } else {
+        setError(data.error || 'Gagal memuat hari libur');
+      }
+    } catch (error) {
+      console.error('Error fetching holidays:', error);
+      setError('Terjadi kesalahan saat memuat hari libur');
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicy();
+  }, []);
+
+  useEffect(() => {
+    fetchHolidays(year);
+  }, [year]);
+
+  const showResult = (data: any, fallback: string) => {
+    if (data.success) {
+      setMessage(data.message);
+      setError('');
+    } else {
+      setMessage('');
+      setError(getApiErrorMessages(data, fallback).join(', '));
+    }
+  };
+
+  const saveCategory = async (category: LaporanCategory) => {
+    try {
+      setSaving(category);
+      const response = await fetch('/api/admin/sla', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ category, working_days: Number(policy[category]) }),
+      });
+
+      const data = await response.json();
+      showResult(data, 'Gagal menyimpan SLA');
+      if (data.success) {
+        setPolicy(data.policy);
+      }
+    } catch (error) {
+      console.error('Error saving SLA policy:', error);
+      setError('Terjadi kesalahan saat menyimpan');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving('holiday');
+      const response = await fetch('/api/admin/holidays', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(holidayForm),
+      });
+
+      const data = await response.json();
+      showResult(data, 'Gagal menambahkan hari libur');
+      if (data.success) {
+        setHolidayForm({ date: '', name: '' });
+        fetchHolidays();
+      }
+    } catch (error) {
+      console.error('Error adding holiday:', error);
+      setError('Terjadi kesalahan saat menyimpan');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDeleteHoliday = async (holiday: Holiday) => {
+    if (!confirm(`Hapus hari libur ${holiday.name}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/holidays/${holiday._id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      showResult(data, 'Gagal menghapus hari libur');
+      if (data.success) {
+        fetchHolidays();
+      }
+    } catch (error) {
+      console.error('Error deleting holiday:', error);
+      setError('Terjadi kesalahan saat menghapus');
+    }
+  };
+
+  const formatHoliday = (date: string) => {
+    // Parse as UTC so the calendar date is shown unchanged
+    return new Date(`${date}T00:00:00Z`).toLocaleDateString('id-ID', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC'
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">SLA &amp; Hari Libur</h1>
+        <p className="text-gray-600">
+          Batas waktu penanganan laporan dihitung dalam hari kerja, tidak termasuk akhir pekan dan hari libur di bawah.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      {/* SLA per category */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">SLA per Kategori</h2>
+        </div>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kategori</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hari Kerja</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {categories.map((category) => (
+                <tr key={category}>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {LAPORAN_CATEGORY_LABELS[category]}
+                    <span className="block text-xs text-gray-400">Bawaan: {defaults[category]} hari kerja</span>
+                  </td>
+                  <td className="px-6 py-3">
+                    <input
+                      type="number"
+                      min={1}
+                      max={60}
+                      value={policy[category] ?? ''}
+                      onChange={(e) => setPolicy(prev => ({ ...prev, [category]: Number(e.target.value) }))}
+                      className={`${inputClassName} w-24`}
+                    />
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => saveCategory(category)}
+                      disabled={saving !== null}
+                      className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
+                    >
+                      {saving === category ? 'Menyimpan...' : 'Simpan'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="px-6 py-3 text-xs text-gray-500 border-t border-gray-200">
+          Perubahan SLA berlaku untuk laporan baru dan laporan yang kategorinya diubah.
+        </p>
+      </div>
+
+      {/* Holiday calendar */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Kalender Hari Libur</h2>
+          <select
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            className={inputClassName}
+          >
+            {[-1, 0, 1].map((offset) => {
+              const option = new Date().getFullYear() + offset;
+              return <option key={option} value={option}>{option}</option>;
+            })}
+          </select>
+        </div>
+
+        <form onSubmit={handleAddHoliday} className="px-6 py-4 flex flex-col sm:flex-row gap-2 border-b border-gray-200">
+          <input
+            type="date"
+            aria-label="Tanggal"
+            value={holidayForm.date}
+            onChange={(e) => setHolidayForm(prev => ({ ...prev, date: e.target.value }))}
+            required
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            placeholder="Nama hari libur atau cuti bersama"
+            value={holidayForm.name}
+            onChange={(e) => setHolidayForm(prev => ({ ...prev, name: e.target.value }))}
+            required
+            maxLength={100}
+            className={`${inputClassName} flex-1`}
+          />
+          <button
+            type="submit"
+            disabled={saving !== null}
+            className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
+          >
+            Tambah
+          </button>
+        </form>
+
+        {holidays.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">Belum ada hari libur untuk tahun {year}</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {holidays.map((holiday) => (
+              <li key={holiday._id} className="px-6 py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-900">{holiday.name}</p>
+                  <p className="text-xs text-gray-500">{formatHoliday(holiday.date)}</p>
+                </div>
+                <button
+                  onClick={() => handleDeleteHoliday(holiday)}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Hapus
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SlaSettings;
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  PERMISSIONS,
+  SPAM_BLOCK_TYPE_LABELS,
+  SpamBlockType,
+} from '@/lib/constants';
+import { can } from '@/lib/permissions';
+import { getApiErrorMessages } from '@/lib/utils';
+
+interface BlockEntry {
+  _id: string;
+  type: SpamBlockType;
+  value: string;
+  ticket?: string;
+  created_by_name?: string;
+  created_at: string;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+const SpamBlocklist = () => {
+  const [entries, setEntries] = useState<BlockEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [page, setPage] = useState(1);
+  const [canRemove, setCanRemove] = useState(false);
+  const [removing, setRemoving] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchEntries = async (search = searchTerm) => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: '20',
+        ...(typeFilter !== 'all' && { type: typeFilter }),
+        ...(search && { search })
+      });
+
+      const response = await fetch(`/api/admin/spam-blocklist?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setEntries(data.entries);
+        setPagination(data.pagination);
+      } else {
+        setError(data.error || 'Gagal memuat daftar blokir');
+      }
+    } catch (error) {
+      console.error('Error fetching spam blocklist:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const user = JSON.parse(localStorage.getItem('admin_user') || 'null');
+    setCanRemove(can(user, PERMISSIONS.REPORT_UPDATE));
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [page, typeFilter]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    fetchEntries(searchTerm);
+  };
+
+  const handleRemove = async (entry: BlockEntry) => {
+    if (!confirm(`Hapus ${entry.value} dari daftar blokir?`)) {
+      return;
+    }
+
+    try {
+      setRemoving(entry._id);
+      const response = await fetch(`/api/admin/spam-blocklist/${entry._id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setMessage(data.message);
+        setError('');
+        fetchEntries();
+      } else {
+        setMessage('');
+        setError(getApiErrorMessages(data, 'Gagal menghapus dari daftar blokir').join(', '));
+      }
+    } catch (error) {
+      console.error('Error removing spam block:', error);
+      setError('Terjadi kesalahan saat menghapus dari daftar blokir');
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Daftar Blokir Spam</h1>
+        <p className="text-gray-600">
+          Email, nomor telepon, dan alamat IP dari laporan yang ditandai spam. Laporan baru dari pengirim ini ditolak.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <form onSubmit={handleSearch} className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            placeholder="Cari email, telepon, IP, atau tiket..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+          <select
+            value={typeFilter}
+            onChange={(e) => {
+              setTypeFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            <option value="all">Semua Jenis</option>
+            {(Object.keys(SPAM_BLOCK_TYPE_LABELS) as SpamBlockType[]).map((type) => (
+              <option key={type} value={type}>{SPAM_BLOCK_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90"
+          >
+            Cari
+          </button>
+        </form>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">Belum ada pengirim yang diblokir</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jenis</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nilai</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dari Laporan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Diblokir</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <tr key={entry._id}>
+                    <td className="px-6 py-3 text-sm text-gray-500">{SPAM_BLOCK_TYPE_LABELS[entry.type] || entry.type}</td>
+                    <td className="px-6 py-3 text-sm font-medium text-gray-900 break-all">{entry.value}</td>
+                    <td className="px-6 py-3 text-sm text-gray-500">{entry.ticket || '-'}</td>
+                    <td className="px-6 py-3 text-sm text-gray-500 whitespace-nowrap">
+                      {formatDate(entry.created_at)}
+                      {entry.created_by_name && (
+                        <span className="block text-xs text-gray-400">oleh {entry.created_by_name}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      {canRemove && (
+                        <button
+                          onClick={() => handleRemove(entry)}
+                          disabled={removing !== null}
+                          className="px-3 py-1 border border-gray-300 text-sm rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {removing === entry._id ? 'Memproses...' : 'Cabut Blokir'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm">
+            <span className="text-gray-500">Halaman {pagination.page} dari {pagination.totalPages}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(prev => prev - 1)}
+                disabled={!pagination.hasPrev}
+                className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+              >
+                Sebelumnya
+              </button>
+              <button
+                onClick={() => setPage(prev => prev + 1)}
+                disabled={!pagination.hasNext}
+                className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+              >
+                Berikutnya
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpamBlocklist;
@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import IkmSummary, { ikmPeriodOptions } from '@/components/IkmSummary';
+import {
+  API_ROUTES,
+  IKM_ELEMENTS,
+  SURVEY_SERVICE_LABELS,
+  SURVEY_SOURCE_LABELS,
+  SurveyService,
+  SurveySource,
+} from '@/lib/constants';
+import type { IkmSummary as IkmSummaryData } from '@/lib/ikm';
+import { getApiErrorMessages } from '@/lib/utils';
+
+interface SurveyEntry {
+  _id: string;
+  source: SurveySource;
+  service: SurveyService;
+  ticket?: string;
+  scores: number[];
+  suggestion?: string;
+  created_at: string;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  total: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+const SurveiKepuasan = () => {
+  const [period, setPeriod] = useState(String(new Date().getFullYear()));
+  const [serviceFilter, setServiceFilter] = useState('all');
+  const [suggestionsOnly, setSuggestionsOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [summary, setSummary] = useState<IkmSummaryData | null>(null);
+  const [responses, setResponses] = useState<SurveyEntry[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchResponses = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        period,
+        page: page.toString(),
+        limit: '20',
+        ...(serviceFilter !== 'all' && { service: serviceFilter }),
+        ...(suggestionsOnly && { suggestions: '1' })
+      });
+
+      const response = await fetch(`${API_ROUTES.ADMIN.SURVEY}?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setSummary(data.summary);
+        setResponses(data.responses);
+        setPagination(data.pagination);
+        setError('');
+      } else {
+        setError(getApiErrorMessages(data, 'Gagal memuat hasil survei').join(', '));
+      }
+    } catch (error) {
+      console.error('Error fetching survey responses:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchResponses();
+  }, [period, page, serviceFilter, suggestionsOnly]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Survei Kepuasan Masyarakat</h1>
+          <p className="text-gray-600">
+            Indeks Kepuasan Masyarakat dari pelapor yang laporannya selesai dan pengunjung layanan.
+          </p>
+        </div>
+        <select
+          value={period}
+          onChange={(e) => {
+            setPeriod(e.target.value);
+            setPage(1);
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+        >
+          {ikmPeriodOptions(3).map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {summary && <IkmSummary summary={summary} />}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center gap-3">
+          <h3 className="flex-1 text-lg font-semibold text-gray-900">Jawaban Responden</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={suggestionsOnly}
+              onChange={(e) => {
+                setSuggestionsOnly(e.target.checked);
+                setPage(1);
+              }}
+            />
+            Hanya yang memberi saran
+          </label>
+          <select
+            value={serviceFilter}
+            onChange={(e) => {
+              setServiceFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            <option value="all">Semua Layanan</option>
+            {(Object.keys(SURVEY_SERVICE_LABELS) as SurveyService[]).map((service) => (
+              <option key={service} value={service}>{SURVEY_SERVICE_LABELS[service]}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : responses.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">Belum ada jawaban survei pada periode ini</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Waktu</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Layanan</th>
+                  {IKM_ELEMENTS.map(element => (
+                    <th
+                      key={element.code}
+                      title={element.name}
+                      className="px-2 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {element.code}
+                    </th>
+                  ))}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Saran</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {responses.map((entry) => (
+                  <tr key={entry._id}>
+                    <td className="px-6 py-3 text-sm text-gray-500 whitespace-nowrap">{formatDate(entry.created_at)}</td>
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      {SURVEY_SERVICE_LABELS[entry.service] || entry.service}
+                      <span className="block text-xs text-gray-400">
+                        {SURVEY_SOURCE_LABELS[entry.source] || entry.source}
+                        {entry.ticket && ` · ${entry.ticket}`}
+                      </span>
+                    </td>
+                    {entry.scores.map((score, index) => (
+                      <td key={index} className="px-2 py-3 text-sm text-center text-gray-700">{score}</td>
+                    ))}
+                    <td className="px-6 py-3 text-sm text-gray-700 max-w-md whitespace-pre-line">{entry.suggestion || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm">
+            <span className="text-gray-500">Halaman {pagination.page} dari {pagination.totalPages}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(prev => prev - 1)}
+                disabled={!pagination.hasPrev}
+                className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+              >
+                Sebelumnya
+              </button>
+              <button
+                onClick={() => setPage(prev => prev + 1)}
+                disabled={!pagination.hasNext}
+                className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+              >
+                Berikutnya
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SurveiKepuasan;
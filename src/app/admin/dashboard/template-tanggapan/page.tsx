@@ -0,0 +1,292 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  API_ROUTES,
+  LAPORAN_CATEGORY_LABELS,
+  LaporanCategory,
+  RESPONSE_TEMPLATE_VARIABLES,
+} from '@/lib/constants';
+import { getApiErrorMessages } from '@/lib/utils';
+
+interface ResponseTemplateEntry {
+  _id: string;
+  title: string;
+  body: string;
+  category?: LaporanCategory;
+  updated_by_name?: string;
+  updated_at: string;
+}
+
+const emptyForm = { title: '', body: '', category: '' };
+
+const TemplateTanggapan = () => {
+  const [templates, setTemplates] = useState<ResponseTemplateEntry[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const fetchTemplates = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(API_ROUTES.ADMIN.RESPONSE_TEMPLATES);
+      const data = await response.json();
+
+      if (data.success) {
+        setTemplates(data.templates);
+      } else {
+        setError(data.error || 'Gagal memuat template tanggapan');
+      }
+    } catch (error) {
+      console.error('Error fetching response templates:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleEdit = (template: ResponseTemplateEntry) => {
+    setFormData({
+      title: template.title,
+      body: template.body,
+      category: template.category || '',
+    });
+    setEditingId(template._id);
+    setMessage('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const response = await fetch(
+        editingId ? API_ROUTES.ADMIN.RESPONSE_TEMPLATE_BY_ID(editingId) : API_ROUTES.ADMIN.RESPONSE_TEMPLATES,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            title: formData.title.trim(),
+            body: formData.body.trim(),
+            category: formData.category || null,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(data.message);
+        setError('');
+        resetForm();
+        fetchTemplates();
+      } else {
+        setMessage('');
+        setError(getApiErrorMessages(data, 'Gagal menyimpan template tanggapan').join(', '));
+      }
+    } catch (error) {
+      console.error('Error saving response template:', error);
+      setError('Terjadi kesalahan saat menyimpan template tanggapan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: ResponseTemplateEntry) => {
+    if (!confirm(`Hapus template "${template.title}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(API_ROUTES.ADMIN.RESPONSE_TEMPLATE_BY_ID(template._id), {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setMessage(data.message);
+        setError('');
+        if (editingId === template._id) {
+          resetForm();
+        }
+        fetchTemplates();
+      } else {
+        setMessage('');
+        setError(getApiErrorMessages(data, 'Gagal menghapus template tanggapan').join(', '));
+      }
+    } catch (error) {
+      console.error('Error deleting response template:', error);
+      setError('Terjadi kesalahan saat menghapus template tanggapan');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Template Tanggapan</h1>
+        <p className="text-gray-600">
+          Kalimat baku untuk tanggapan resmi. Petugas dapat menyisipkannya saat membalas laporan.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4 lg:col-span-1">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {editingId ? 'Ubah Template' : 'Template Baru'}
+          </h3>
+          <div>
+            <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-1">Judul</label>
+            <input
+              id="title"
+              type="text"
+              value={formData.title}
+              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+              maxLength={100}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-1">Kategori</label>
+            <select
+              id="category"
+              value={formData.category}
+              onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+            >
+              <option value="">Semua Kategori</option>
+              {(Object.keys(LAPORAN_CATEGORY_LABELS) as LaporanCategory[]).map((category) => (
+                <option key={category} value={category}>{LAPORAN_CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="body" className="block text-sm font-medium text-gray-700 mb-1">Isi Tanggapan</label>
+            <textarea
+              id="body"
+              value={formData.body}
+              onChange={(e) => setFormData(prev => ({ ...prev, body: e.target.value }))}
+              rows={8}
+              maxLength={2000}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              placeholder="Yth. {{nama}}, laporan Anda dengan nomor {{ticket}} telah kami terima..."
+            />
+          </div>
+          <div className="text-xs text-gray-500">
+            <p className="font-medium text-gray-700 mb-1">Variabel yang tersedia</p>
+            <ul className="space-y-0.5">
+              {Object.entries(RESPONSE_TEMPLATE_VARIABLES).map(([name, description]) => (
+                <li key={name}>
+                  <code className="text-primary">{`{{${name}}}`}</code> — {description}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 border border-gray-300 text-sm rounded-lg text-gray-700 hover:bg-gray-50"
+              >
+                Batal
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
+            >
+              {saving ? 'Menyimpan...' : editingId ? 'Simpan Perubahan' : 'Tambah Template'}
+            </button>
+          </div>
+        </form>
+
+        {/* List */}
+        <div className="bg-white rounded-lg shadow overflow-hidden lg:col-span-2">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="px-6 py-8 text-center text-sm text-gray-500">Belum ada template tanggapan</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {templates.map((template) => (
+                <li key={template._id} className="px-6 py-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{template.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {template.category ? LAPORAN_CATEGORY_LABELS[template.category] : 'Semua Kategori'}
+                        {' · '}diperbarui {formatDate(template.updated_at)}
+                        {template.updated_by_name && ` oleh ${template.updated_by_name}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => handleEdit(template)}
+                        className="px-3 py-1 border border-gray-300 text-sm rounded-lg text-gray-700 hover:bg-gray-50"
+                      >
+                        Ubah
+                      </button>
+                      <button
+                        onClick={() => handleDelete(template)}
+                        className="px-3 py-1 border border-red-300 text-sm rounded-lg text-red-700 hover:bg-red-50"
+                      >
+                        Hapus
+                      </button>
+                    </div>
+                  </div>
+                  <p className="mt-2 text-sm text-gray-700 whitespace-pre-line">{template.body}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateTanggapan;
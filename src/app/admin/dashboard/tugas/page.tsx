@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  BIDANG_LABELS,
+  LAPORAN_CATEGORY_LABELS,
+  LAPORAN_CONFIDENTIALITY_LABELS,
+  LAPORAN_PRIORITY_LABELS,
+  LAPORAN_STATUS_LABELS,
+  Bidang,
+  LaporanCategory,
+  LaporanConfidentiality,
+  LaporanPriority,
+  LaporanStatus,
+} from '@/lib/constants';
+
+interface QueueItem {
+  _id: string;
+  ticket: string;
+  confidentiality?: LaporanConfidentiality;
+  nama?: string;
+  message: string;
+  category: LaporanCategory;
+  priority: LaporanPriority;
+  status: LaporanStatus;
+  due_at?: string;
+  is_overdue?: boolean;
+  assigned_to_name?: string;
+  assigned_bidang?: Bidang;
+  created_at: string;
+}
+
+const QUEUE_LIMIT = 50;
+
+const statusOptions: LaporanStatus[] = ['pending', 'in_progress', 'resolved', 'closed'];
+
+const MyTasks = () => {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [showClosed, setShowClosed] = useState(false);
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  const fetchQueue = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        assignee: 'me',
+        sort: 'due_at',
+        limit: QUEUE_LIMIT.toString(),
+        ...(!showClosed && { status: 'open' })
+      });
+
+      const response = await fetch(`/api/laporan?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setItems(data.laporan);
+        setTotal(data.pagination.total);
+        setError('');
+      } else {
+        setError(data.error || 'Gagal memuat tugas');
+      }
+    } catch (error) {
+      console.error('Error fetching work queue:', error);
+      setError('Terjadi kesalahan saat memuat data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, [showClosed]);
+
+  const handleStatusChange = async (id: string, status: string) => {
+    try {
+      setUpdating(id);
+      const response = await fetch(`/api/laporan/${id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        fetchQueue();
+      } else {
+        setError(data.error || 'Gagal mengupdate status');
+      }
+    } catch (error) {
+      console.error('Error updating status:', error);
+      setError('Terjadi kesalahan saat mengupdate status');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const overdueCount = items.filter(item => item.is_overdue).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Tugas Saya</h1>
+          <p className="text-gray-600">
+            Laporan yang ditugaskan kepada Anda atau ke bidang Anda, diurutkan dari tenggat terdekat
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={showClosed}
+            onChange={(e) => setShowClosed(e.target.checked)}
+            className="rounded border-gray-300 text-primary focus:ring-primary"
+          />
+          Tampilkan yang selesai
+        </label>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm font-medium text-gray-500">{showClosed ? 'Total tugas' : 'Tugas terbuka'}</p>
+          <p className="text-2xl font-semibold text-gray-900">{total}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm font-medium text-gray-500">Melewati tenggat</p>
+          <p className={`text-2xl font-semibold ${overdueCount > 0 ? 'text-red-600' : 'text-gray-900'}`}>{overdueCount}</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Queue */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Tidak ada tugas. Laporan yang ditugaskan kepada Anda akan muncul di sini.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {items.map((item) => (
+              <li key={item._id} className={`px-6 py-4 ${item.is_overdue ? 'bg-red-50' : ''}`}>
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                      <span>{item.ticket}</span>
+                      <span>&middot;</span>
+                      <span>{LAPORAN_CATEGORY_LABELS[item.category] || item.category}</span>
+                      <span>&middot;</span>
+                      <span>{LAPORAN_PRIORITY_LABELS[item.priority] || item.priority}</span>
+                    </div>
+                    <p className="text-sm font-medium text-gray-900">{item.nama || LAPORAN_CONFIDENTIALITY_LABELS[item.confidentiality || 'normal']}</p>
+                    <p className="text-sm text-gray-600 truncate max-w-xl">{item.message}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {item.assigned_to_name
+                        ? 'Ditugaskan kepada Anda'
+                        : `Antrean ${item.assigned_bidang ? BIDANG_LABELS[item.assigned_bidang] : 'bidang'}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-4 flex-shrink-0">
+                    <div className="text-sm text-right">
+                      {item.due_at ? (
+                        <>
+                          <div className={item.is_overdue ? 'font-medium text-red-700' : 'text-gray-500'}>
+                            {formatDate(item.due_at)}
+                          </div>
+                          {item.is_overdue && (
+                            <div className="text-xs font-medium text-red-600">Terlambat</div>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </div>
+                    <select
+                      value={item.status}
+                      onChange={(e) => handleStatusChange(item._id, e.target.value)}
+                      disabled={updating === item._id}
+                      className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-primary focus:border-transparent"
+                    >
+                      {statusOptions.map((status) => (
+                        <option key={status} value={status}>{LAPORAN_STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                    <Link
+                      href={`/admin/dashboard/laporan?id=${item._id}`}
+                      className="text-sm font-medium text-primary hover:text-primary/80"
+                    >
+                      Detail
+                    </Link>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {total > items.length && (
+        <p className="text-sm text-gray-500">
+          Menampilkan {items.length} dari {total} tugas dengan tenggat terdekat.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MyTasks;
@@ -1,8 +1,15 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
+import { PAGE_ROUTES } from '@/lib/constants';
+
+// Explain a lockout with the wait time reported by the API
+const getLockoutMessage = (retryAfter?: number) => {
+  const minutes = Math.max(1, Math.ceil((retryAfter || 60) / 60));
+  return `Terlalu banyak percobaan login gagal. Silakan coba lagi dalam ${minutes} menit.`;
+};
 
 const AdminLogin = () => {
   const [formData, setFormData] = useState({
@@ -11,8 +18,28 @@ const AdminLogin = () => {
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  // Set after the password step when the account uses two-factor authentication
+  const [challenge, setChallenge] = useState('');
+  const [code, setCode] = useState('');
   const router = useRouter();
 
+  useEffect(() => {
+    // Resume an existing session when the access token has expired
+    if (!localStorage.getItem('admin_user')) {
+      return;
+    }
+
+    fetch('/api/auth/refresh', { method: 'POST' })
+      .then((response) => {
+        if (response.ok) {
+          router.push('/admin/dashboard');
+        } else {
+          localStorage.removeItem('admin_user');
+        }
+      })
+      .catch((error) => console.error('Session refresh error:', error));
+  }, [router]);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
       ...formData,
@@ -37,12 +64,14 @@ const AdminLogin = () => {
 
       const data = await response.json();
 
-      if (data.success) {
-        // Store user data in localStorage
-        localStorage.setItem('admin_user', JSON.stringify(data.user));
-        
-        // Redirect to dashboard
-        router.push('/admin/dashboard');
+      if (data.success && data.requires_two_factor) {
+        // Password accepted, ask for the authenticator code
+        setChallenge(data.challenge);
+        setFormData({ ...formData, password: '' });
+      } else if (data.success) {
+        completeLogin(data.user);
+      } else if (response.status === 429) {
+        setError(getLockoutMessage(data.retryAfter));
       } else {
         setError(data.error || 'Login failed');
       }
@@ -54,6 +83,56 @@ const AdminLogin = () => {
     }
   };
 
+  const completeLogin = (user: unknown) => {
+    // Store user data in localStorage
+    localStorage.setItem('admin_user', JSON.stringify(user));
+
+    // Redirect to dashboard
+    router.push('/admin/dashboard');
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/login/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challenge, code }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        completeLogin(data.user);
+      } else if (response.status === 429) {
+        setError(getLockoutMessage(data.retryAfter));
+      } else if (response.status === 401 && data.error === 'Login challenge expired') {
+        // Start over from the password step
+        setChallenge('');
+        setCode('');
+        setError('Sesi verifikasi telah berakhir. Silakan login kembali.');
+      } else {
+        setError(data.error || 'Verification failed');
+      }
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
+      setError('Network error. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelVerify = () => {
+    setChallenge('');
+    setCode('');
+    setError('');
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary to-secondary flex items-center justify-center p-4">
       {/* Background Pattern */}
@@ -95,60 +174,113 @@ const AdminLogin = () => {
             </div>
           )}
 
-          {/* Login Form */}
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
-                Username
-              </label>
-              <input
-                type="text"
-                id="username"
-                name="username"
-                value={formData.username}
-                onChange={handleChange}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
-                placeholder="Masukkan username"
+          {challenge ? (
+            /* Two-factor Form */
+            <form onSubmit={handleVerify} className="space-y-6">
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                  Kode Verifikasi
+                </label>
+                <input
+                  type="text"
+                  id="code"
+                  name="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => {
+                    setCode(e.target.value);
+                    setError('');
+                  }}
+                  required
+                  autoFocus
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200 tracking-widest text-center"
+                  placeholder="000000"
+                  disabled={loading}
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  Masukkan 6 digit kode dari aplikasi autentikator, atau salah satu kode pemulihan.
+                </p>
+              </div>
+
+              <button
+                type="submit"
                 disabled={loading}
-              />
-            </div>
+                className="w-full bg-primary hover:bg-primary/90 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Memverifikasi...' : 'Verifikasi'}
+              </button>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <input
-                type="password"
-                id="password"
-                name="password"
-                value={formData.password}
-                onChange={handleChange}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
-                placeholder="Masukkan password"
+              <button
+                type="button"
+                onClick={handleCancelVerify}
                 disabled={loading}
-              />
-            </div>
+                className="w-full text-sm text-gray-600 hover:text-gray-900"
+              >
+                Kembali ke login
+              </button>
+            </form>
+          ) : (
+            /* Login Form */
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+                  Username
+                </label>
+                <input
+                  type="text"
+                  id="username"
+                  name="username"
+                  value={formData.username}
+                  onChange={handleChange}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                  placeholder="Masukkan username"
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  Password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  name="password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                  placeholder="Masukkan password"
+                  disabled={loading}
+                />
+                <div className="mt-2 text-right">
+                  <a href={PAGE_ROUTES.AUTH.FORGOT_PASSWORD} className="text-sm text-primary hover:text-primary/80">
+                    Lupa password?
+                  </a>
+                </div>
+              </div>
 
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full bg-primary hover:bg-primary/90 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-            >
-              {loading ? (
-                <>
-                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Logging in...
-                </>
-              ) : (
-                'Login'
-              )}
-            </button>
-          </form>
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-primary hover:bg-primary/90 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+              >
+                {loading ? (
+                  <>
+                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    Logging in...
+                  </>
+                ) : (
+                  'Login'
+                )}
+              </button>
+            </form>
+          )}
 
           {/* Footer */}
           <div className="mt-8 text-center">
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { auditUtils, rateLimiters } from '@/lib/security';
+import { confirmEnrollment } from '@/lib/twoFactor';
+
+// POST - Confirm the pending secret and turn on two-factor authentication
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/2fa/enable');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const { code } = body;
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!rateLimiters.twoFactor.isAllowed(guard.user!.userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Too many attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const user = await User.findById(guard.user!.userId).select('+two_factor_pending_secret');
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (user.two_factor_enabled) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+
+    if (!user.two_factor_pending_secret) {
+      return NextResponse.json(
+        { success: false, error: 'Start two-factor setup first' },
+        { status: 400 }
+      );
+    }
+
+    const before = toAuditSnapshot(user);
+    const recovery = confirmEnrollment(user, code);
+
+    if (!recovery) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid verification code' },
+        { status: 400 }
+      );
+    }
+
+    await user.save();
+    rateLimiters.twoFactor.reset(guard.user!.userId);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      before: before,
+      after: toAuditSnapshot(user),
+      summary: 'Two-factor authentication enabled',
+    });
+
+    auditUtils.logSecurityEvent('Two-factor authentication enabled', user.id, {}, 'low');
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes: recovery.codes,
+      message: 'Autentikasi dua faktor diaktifkan',
+    });
+  } catch (error) {
+    console.error('Error enabling two-factor authentication:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to enable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
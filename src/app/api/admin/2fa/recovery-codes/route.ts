@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { guardRoute } from '@/lib/auth';
+import { auditUtils, rateLimiters } from '@/lib/security';
+import { regenerateRecoveryCodes, verifySecondFactor } from '@/lib/twoFactor';
+
+// POST - Replace the recovery codes of the signed-in admin
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/2fa/recovery-codes');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const { code } = body;
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!rateLimiters.twoFactor.isAllowed(guard.user!.userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Too many attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const user = await User.findById(guard.user!.userId).select(
+      '+two_factor_secret +two_factor_last_step +two_factor_recovery_codes'
+    );
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!user.two_factor_enabled) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      );
+    }
+
+    if (!verifySecondFactor(user, code)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid verification code' },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = regenerateRecoveryCodes(user);
+    await user.save();
+    rateLimiters.twoFactor.reset(guard.user!.userId);
+
+    auditUtils.logSecurityEvent('Recovery codes regenerated', user.id, {}, 'low');
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes,
+      message: 'Kode pemulihan baru berhasil dibuat',
+    });
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to regenerate recovery codes' },
+      { status: 500 }
+    );
+  }
+}
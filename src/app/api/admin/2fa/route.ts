@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { isTwoFactorRequired } from '@/lib/rbac';
+import { auditUtils, passwordUtils, rateLimiters } from '@/lib/security';
+import { countRemainingRecoveryCodes, disableTwoFactor, verifySecondFactor } from '@/lib/twoFactor';
+
+// GET - Fetch the two-factor status of the signed-in admin
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/2fa');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const user = await User.findById(guard.user!.userId).select('+two_factor_recovery_codes');
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      twoFactor: {
+        enabled: user.two_factor_enabled,
+        required: await isTwoFactorRequired(user.role),
+        remainingRecoveryCodes: user.two_factor_enabled ? countRemainingRecoveryCodes(user) : 0,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch two-factor status' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Turn off two-factor authentication for the signed-in admin
+export async function DELETE(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/2fa');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const { currentPassword, code } = body;
+
+    if (typeof currentPassword !== 'string' || typeof code !== 'string' || !currentPassword || !code) {
+      return NextResponse.json(
+        { success: false, error: 'Current password and verification code are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!rateLimiters.twoFactor.isAllowed(guard.user!.userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Too many attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const user = await User.findById(guard.user!.userId).select(
+      '+password_hash +two_factor_secret +two_factor_last_step +two_factor_recovery_codes'
+    );
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!user.two_factor_enabled) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      );
+    }
+
+    if (await isTwoFactorRequired(user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is required for this role' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await passwordUtils.verify(currentPassword, user.password_hash)) || !verifySecondFactor(user, code)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid password or verification code' },
+        { status: 400 }
+      );
+    }
+
+    const before = toAuditSnapshot(user);
+    disableTwoFactor(user);
+    await user.save();
+    rateLimiters.twoFactor.reset(guard.user!.userId);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      before: before,
+      after: toAuditSnapshot(user),
+      summary: 'Two-factor authentication disabled',
+    });
+
+    auditUtils.logSecurityEvent('Two-factor authentication disabled', user.id, {}, 'medium');
+
+    return NextResponse.json({
+      success: true,
+      message: 'Autentikasi dua faktor dinonaktifkan',
+    });
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to disable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { guardRoute } from '@/lib/auth';
+import { beginEnrollment } from '@/lib/twoFactor';
+import { encryptionUtils } from '@/lib/security';
+
+// POST - Generate a new authenticator secret for the signed-in admin
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/2fa/setup');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const user = await User.findById(guard.user!.userId);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (user.two_factor_enabled) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+
+    // Secrets are stored encrypted, which needs ENCRYPTION_KEY
+    if (!encryptionUtils.hasFieldKey()) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is unavailable until ENCRYPTION_KEY is configured' },
+        { status: 503 }
+      );
+    }
+
+    // The secret stays pending until confirmed with a valid code
+    const enrollment = beginEnrollment(user);
+    await user.save();
+
+    return NextResponse.json({
+      success: true,
+      secret: enrollment.secret,
+      otpauthUri: enrollment.otpauthUri,
+    });
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to start two-factor setup' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import AuditLog from '@/models/AuditLog';
+import { guardRoute } from '@/lib/auth';
+import { auditLogsToCsv, buildAuditQuery } from '@/lib/audit';
+import { CSV_BOM } from '@/lib/csv';
+
+// Upper bound on rows in a single export
+const MAX_EXPORT_ROWS = 10000;
+
+// GET - Download filtered audit trail entries as CSV
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/audit/export');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const logs = await AuditLog.find(buildAuditQuery(searchParams))
+      .sort({ created_at: -1 })
+      .limit(MAX_EXPORT_ROWS)
+      .lean();
+
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    return new NextResponse(CSV_BOM + auditLogsToCsv(logs), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting audit logs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export audit logs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import AuditLog from '@/models/AuditLog';
+import { guardRoute } from '@/lib/auth';
+import { buildAuditQuery } from '@/lib/audit';
+
+// GET - Fetch audit trail entries with filters and pagination
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/audit');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const skip = (page - 1) * limit;
+
+    const query = buildAuditQuery(searchParams);
+
+    const logs = await AuditLog.find(query)
+      .sort({ created_at: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean();
+
+    const total = await AuditLog.countDocuments(query);
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching audit logs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit logs' },
+      { status: 500 }
+    );
+  }
+}
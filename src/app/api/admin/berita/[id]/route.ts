@@ -3,12 +3,19 @@ import dbConnect from '@/lib/mongodb';
 import Berita from '@/models/Berita';
 import DOMPurify from 'isomorphic-dompurify';
 import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { readBeritaTaxonomy } from '@/lib/berita';
 
 // GET - Fetch single berita by ID for admin
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const guard = await guardRoute(request, '/api/admin/berita/[id]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -47,6 +54,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const guard = await guardRoute(request, '/api/admin/berita/[id]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -61,6 +71,14 @@ export async function PUT(
     const body = await request.json();
     const { title, summary, content, image_url, published } = body;
 
+    const taxonomy = readBeritaTaxonomy(body);
+    if ('error' in taxonomy) {
+      return NextResponse.json(
+        { success: false, error: taxonomy.error },
+        { status: 400 }
+      );
+    }
+
     // Find berita by ID
     const berita = await Berita.findById(params.id);
 
@@ -78,6 +96,8 @@ export async function PUT(
     if (content) updateData.content = DOMPurify.sanitize(content);
     if (image_url) updateData.image_url = image_url;
     if (typeof published === 'boolean') updateData.published = published;
+    if (taxonomy.category) updateData.category = taxonomy.category;
+    if (taxonomy.tags) updateData.tags = taxonomy.tags;
 
     // Update berita
     const updatedBerita = await Berita.findByIdAndUpdate(
@@ -86,6 +106,16 @@ export async function PUT(
       { new: true, runValidators: true }
     );
 
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.BERITA,
+      entityId: berita.id,
+      before: toAuditSnapshot(berita),
+      after: toAuditSnapshot(updatedBerita),
+    });
+
     return NextResponse.json({
       success: true,
       berita: updatedBerita,
@@ -105,6 +135,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const guard = await guardRoute(request, '/api/admin/berita/[id]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -125,6 +158,15 @@ export async function DELETE(
       );
     }
 
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: AUDIT_ENTITY_TYPES.BERITA,
+      entityId: berita.id,
+      before: toAuditSnapshot(berita),
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Berita berhasil dihapus',
@@ -2,9 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
 import Berita from '@/models/Berita';
 import DOMPurify from 'isomorphic-dompurify';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { readBeritaTaxonomy } from '@/lib/berita';
 
 // GET - Fetch all berita for admin (including unpublished)
 export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/berita');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -69,6 +76,9 @@ export async function GET(request: NextRequest) {
 
 // POST - Create new berita (Admin only)
 export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/berita');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -83,6 +93,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const taxonomy = readBeritaTaxonomy(body);
+    if ('error' in taxonomy) {
+      return NextResponse.json(
+        { success: false, error: taxonomy.error },
+        { status: 400 }
+      );
+    }
+
     // Sanitize content
     const sanitizedContent = DOMPurify.sanitize(content);
     const sanitizedSummary = DOMPurify.sanitize(summary);
@@ -94,10 +112,20 @@ export async function POST(request: NextRequest) {
       content: sanitizedContent,
       image_url,
       published,
+      ...taxonomy,
     });
 
     await berita.save();
 
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: AUDIT_ENTITY_TYPES.BERITA,
+      entityId: berita.id,
+      after: toAuditSnapshot(berita),
+    });
+
     return NextResponse.json(
       { 
         success: true, 
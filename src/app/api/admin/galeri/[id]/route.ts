@@ -3,12 +3,18 @@ import dbConnect from '@/lib/mongodb';
 import Galeri from '@/models/Galeri';
 import DOMPurify from 'isomorphic-dompurify';
 import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
 
 // GET - Fetch single galeri item by ID for admin
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const guard = await guardRoute(request, '/api/admin/galeri/[id]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -47,6 +53,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const guard = await guardRoute(request, '/api/admin/galeri/[id]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -94,6 +103,16 @@ export async function PUT(
       { new: true, runValidators: true }
     );
 
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.GALERI,
+      entityId: galeri.id,
+      before: toAuditSnapshot(galeri),
+      after: toAuditSnapshot(updatedGaleri),
+    });
+
     return NextResponse.json({
       success: true,
       galeri: updatedGaleri,
@@ -113,6 +132,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const guard = await guardRoute(request, '/api/admin/galeri/[id]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -133,6 +155,15 @@ export async function DELETE(
       );
     }
 
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: AUDIT_ENTITY_TYPES.GALERI,
+      entityId: galeri.id,
+      before: toAuditSnapshot(galeri),
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Item galeri berhasil dihapus',
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Holiday from '@/models/Holiday';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { clearSlaCache } from '@/lib/sla';
+
+// DELETE - Remove a holiday from the calendar (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/holidays/[id]');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const holiday = await Holiday.findByIdAndDelete(params.id);
+
+    if (!holiday) {
+      return NextResponse.json(
+        { success: false, error: 'Holiday not found' },
+        { status: 404 }
+      );
+    }
+
+    clearSlaCache();
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: AUDIT_ENTITY_TYPES.HOLIDAY,
+      entityId: holiday.id,
+      before: toAuditSnapshot(holiday),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Hari libur berhasil dihapus',
+    });
+  } catch (error) {
+    console.error('Error deleting holiday:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete holiday' },
+      { status: 500 }
+    );
+  }
+}
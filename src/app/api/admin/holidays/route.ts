@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Holiday from '@/models/Holiday';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { clearSlaCache } from '@/lib/sla';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// GET - Fetch the holiday calendar, optionally for one year (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/holidays');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const year = searchParams.get('year');
+
+    const query: Record<string, unknown> = {};
+    if (year && /^\d{4}$/.test(year)) {
+      query.date = { $regex: `^${year}-` };
+    }
+
+    const holidays = await Holiday.find(query).sort({ date: 1 });
+
+    return NextResponse.json({
+      success: true,
+      holidays,
+    });
+  } catch (error) {
+    console.error('Error fetching holidays:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch holidays' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a holiday to the calendar (Admin only)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/holidays');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.holiday, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { date, name } = validation.data;
+
+    if (await Holiday.exists({ date })) {
+      return NextResponse.json(
+        { success: false, error: 'A holiday already exists on this date' },
+        { status: 409 }
+      );
+    }
+
+    const holiday = await Holiday.create({
+      date,
+      name,
+      created_by: guard.user!.userId,
+    });
+
+    clearSlaCache();
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: AUDIT_ENTITY_TYPES.HOLIDAY,
+      entityId: holiday.id,
+      after: toAuditSnapshot(holiday),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        holiday,
+        message: 'Hari libur berhasil ditambahkan',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating holiday:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create holiday' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, JOB_STATUS } from '@/lib/constants';
+import { retryJob } from '@/lib/jobs';
+
+// POST - Queue a failed job again with a fresh set of attempts (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/jobs/[id]/retry');
+  if (guard.response) return guard.response;
+
+  try {
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const job = await retryJob(params.id);
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Failed job not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.JOB,
+      entityId: job.id,
+      before: { status: JOB_STATUS.DEAD },
+      after: { status: job.status },
+      summary: `Retried ${job.type} job`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      job,
+      message: 'Proses dijadwalkan ulang',
+    });
+  } catch (error) {
+    console.error('Error retrying job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to retry job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Job from '@/models/Job';
+import { guardRoute } from '@/lib/auth';
+import { JOB_STATUS, JOB_TYPES } from '@/lib/constants';
+import { getJobCounts } from '@/lib/jobs';
+
+// GET - Fetch background jobs, failed ones by default (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/jobs');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const skip = (page - 1) * limit;
+    const status = searchParams.get('status') || JOB_STATUS.DEAD;
+    const type = searchParams.get('type');
+
+    const query: any = {};
+    if (status === 'retrying') {
+      // Waiting for another attempt after a failure
+      query.status = JOB_STATUS.PENDING;
+      query.attempts = { $gt: 0 };
+    } else if ((Object.values(JOB_STATUS) as string[]).includes(status)) {
+      query.status = status;
+    }
+    if (type && (Object.values(JOB_TYPES) as string[]).includes(type)) {
+      query.type = type;
+    }
+
+    const [jobs, total, counts] = await Promise.all([
+      Job.find(query)
+        .sort({ updated_at: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      Job.countDocuments(query),
+      getJobCounts(),
+    ]);
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+      counts,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import dbConnect from '@/lib/mongodb';
 import User from '@/models/User';
+import { guardRoute } from '@/lib/auth';
+import { auditUtils, rateLimiters } from '@/lib/security';
+import { createLockoutResponse, createLoginResponse, getClientInfo } from '@/lib/session';
+import { createLoginChallenge } from '@/lib/twoFactor';
+import { getLockoutRemaining, recordFailedLogin } from '@/lib/users';
 
 export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/login');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -19,62 +26,80 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const normalizedUsername = String(username).trim();
+    const client = getClientInfo(request);
+    const ipKey = `ip:${client.ip}`;
+    const usernameKey = `user:${normalizedUsername.toLowerCase()}`;
+
+    // Throttle guesses per client and per username before touching the database
+    if (rateLimiters.loginIp.isBlocked(ipKey) || rateLimiters.login.isBlocked(usernameKey)) {
+      auditUtils.logAuthEvent('login_blocked', undefined, client.ip, client.user_agent, {
+        username: normalizedUsername,
+      });
+      return createLockoutResponse(Math.max(
+        rateLimiters.loginIp.getRetryAfter(ipKey),
+        rateLimiters.login.getRetryAfter(usernameKey)
+      ));
+    }
+
     // Find user by username
-    const user = await User.findOne({ username: username.trim() });
+    const user = await User.findOne({ username: normalizedUsername }).select('+password_hash');
 
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid credentials' },
-        { status: 401 }
-      );
+    // Locked accounts are rejected without checking the password
+    const lockoutRemaining = user ? getLockoutRemaining(user) : 0;
+    if (user && lockoutRemaining > 0) {
+      auditUtils.logAuthEvent('login_blocked', user.id, client.ip, client.user_agent, {
+        lockedUntil: user.locked_until,
+      });
+      return createLockoutResponse(lockoutRemaining);
     }
 
     // Verify password
-    const isPasswordValid = await bcrypt.compare(password, user.password_hash);
+    const isPasswordValid = user ? await bcrypt.compare(password, user.password_hash) : false;
+
+    if (!user || !isPasswordValid) {
+      rateLimiters.loginIp.isAllowed(ipKey);
+      rateLimiters.login.isAllowed(usernameKey);
+      auditUtils.logAuthEvent('login_failure', user?.id, client.ip, client.user_agent, {
+        username: normalizedUsername,
+      });
+
+      if (user) {
+        const { attempts, lockedUntil } = await recordFailedLogin(user.id);
+        if (lockedUntil) {
+          auditUtils.logAuthEvent('account_locked', user.id, client.ip, client.user_agent, {
+            attempts,
+            lockedUntil,
+          });
+        }
+      }
 
-    if (!isPasswordValid) {
       return NextResponse.json(
         { success: false, error: 'Invalid credentials' },
         { status: 401 }
       );
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      {
-        userId: user._id,
-        username: user.username,
-        role: user.role,
-      },
-      process.env.JWT_SECRET!,
-      { expiresIn: '24h' }
-    );
+    rateLimiters.login.reset(usernameKey);
 
-    // Create response
-    const response = NextResponse.json(
-      {
-        success: true,
-        message: 'Login successful',
-        user: {
-          id: user._id,
-          username: user.username,
-          role: user.role,
-        },
-        token,
-      },
-      { status: 200 }
-    );
+    // Deactivated accounts cannot sign in
+    if (!user.is_active) {
+      return NextResponse.json(
+        { success: false, error: 'Account is disabled' },
+        { status: 403 }
+      );
+    }
 
-    // Set HTTP-only cookie
-    response.cookies.set('auth-token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 24 * 60 * 60, // 24 hours
-      path: '/',
-    });
+    // Accounts with two-factor authentication finish signing in at /api/admin/login/verify
+    if (user.two_factor_enabled) {
+      return NextResponse.json({
+        success: true,
+        requires_two_factor: true,
+        challenge: createLoginChallenge(user.id),
+      });
+    }
 
-    return response;
+    return await createLoginResponse(user, request);
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
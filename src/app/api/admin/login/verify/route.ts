@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { guardRoute } from '@/lib/auth';
+import { auditUtils, rateLimiters } from '@/lib/security';
+import { createLockoutResponse, createLoginResponse, getClientInfo } from '@/lib/session';
+import { verifyLoginChallenge, verifySecondFactor } from '@/lib/twoFactor';
+import { getLockoutRemaining, recordFailedLogin } from '@/lib/users';
+
+// POST - Complete a login with a TOTP or recovery code (Public)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/login/verify');
+  if (guard.response) return guard.response;
+
+  try {
+    const body = await request.json();
+    const { challenge, code } = body;
+
+    if (!challenge || !code || typeof challenge !== 'string' || typeof code !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Challenge and code are required' },
+        { status: 400 }
+      );
+    }
+
+    const userId = verifyLoginChallenge(challenge);
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Login challenge expired' },
+        { status: 401 }
+      );
+    }
+
+    // Throttle code guesses per account
+    if (!rateLimiters.twoFactor.isAllowed(userId)) {
+      return NextResponse.json(
+        { success: false, error: 'Too many attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    await dbConnect();
+
+    const user = await User.findById(userId).select(
+      '+two_factor_secret +two_factor_last_step +two_factor_recovery_codes'
+    );
+
+    if (!user || !user.is_active) {
+      return NextResponse.json(
+        { success: false, error: 'Account is disabled' },
+        { status: 403 }
+      );
+    }
+
+    const client = getClientInfo(request);
+
+    const lockoutRemaining = getLockoutRemaining(user);
+    if (lockoutRemaining > 0) {
+      auditUtils.logAuthEvent('login_blocked', user.id, client.ip, client.user_agent, {
+        lockedUntil: user.locked_until,
+      });
+      return createLockoutResponse(lockoutRemaining);
+    }
+
+    const method = verifySecondFactor(user, code);
+
+    if (!method) {
+      // Wrong codes count towards the same lockout as wrong passwords
+      auditUtils.logAuthEvent('login_failure', user.id, client.ip, client.user_agent, {
+        step: 'two_factor',
+      });
+      const { attempts, lockedUntil } = await recordFailedLogin(user.id);
+      if (lockedUntil) {
+        auditUtils.logAuthEvent('account_locked', user.id, client.ip, client.user_agent, {
+          attempts,
+          lockedUntil,
+        });
+      }
+      return NextResponse.json(
+        { success: false, error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    if (method === 'recovery_code') {
+      auditUtils.logSecurityEvent('Recovery code used for login', user.id, {}, 'medium');
+    }
+
+    rateLimiters.twoFactor.reset(userId);
+
+    // Persists the used time step or recovery code along with last_login_at
+    return await createLoginResponse(user, request);
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
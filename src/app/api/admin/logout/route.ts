@@ -1,7 +1,21 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getTokenPayload, guardRoute } from '@/lib/auth';
+import { clearSessionCookies, getRefreshSessionId, getRefreshToken, revokeSession } from '@/lib/session';
+
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/logout');
+  if (guard.response) return guard.response;
 
-export async function POST() {
   try {
+    // Revoke the server-side session so copied tokens stop working
+    const refreshToken = getRefreshToken(request);
+    const sessionId = getTokenPayload(request)?.sid ||
+      (refreshToken && getRefreshSessionId(refreshToken));
+
+    if (sessionId) {
+      await revokeSession(sessionId, 'logout');
+    }
+
     // Create response
     const response = NextResponse.json(
       {
@@ -11,14 +25,8 @@ export async function POST() {
       { status: 200 }
     );
 
-    // Clear the auth token cookie
-    response.cookies.set('auth-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 0, // Expire immediately
-      path: '/',
-    });
+    // Clear the session cookies
+    clearSessionCookies(response);
 
     return response;
   } catch (error) {
@@ -28,4 +36,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
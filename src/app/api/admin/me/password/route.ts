@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { passwordUtils } from '@/lib/security';
+import { revokeUserSessions } from '@/lib/session';
+import { userSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// PUT - Change the signed-in admin's password
+export async function PUT(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/me/password');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const validation = safeValidateData(userSchemas.changePassword, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { currentPassword, newPassword } = validation.data;
+
+    const strength = passwordUtils.validate(newPassword);
+    if (!strength.isValid) {
+      return NextResponse.json(
+        { success: false, error: 'Password does not meet requirements', details: strength.errors },
+        { status: 400 }
+      );
+    }
+
+    const user = await User.findById(guard.user!.userId).select('+password_hash');
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!(await passwordUtils.verify(currentPassword, user.password_hash))) {
+      return NextResponse.json(
+        { success: false, error: 'Current password is incorrect' },
+        { status: 400 }
+      );
+    }
+
+    if (await passwordUtils.verify(newPassword, user.password_hash)) {
+      return NextResponse.json(
+        { success: false, error: 'New password must differ from the current password' },
+        { status: 400 }
+      );
+    }
+
+    const before = toAuditSnapshot(user);
+    user.password_hash = await passwordUtils.hash(newPassword);
+    user.must_change_password = false;
+    await user.save();
+
+    // Keep this session, sign out every other device
+    await revokeUserSessions(guard.user!.userId, 'password_changed', guard.user!.sid);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      before,
+      after: toAuditSnapshot(user),
+      summary: 'Password changed',
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Password berhasil diubah',
+    });
+  } catch (error) {
+    console.error('Error changing password:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to change password' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { userSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// GET - Fetch the signed-in admin and their permissions
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/me');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const user = guard.user!;
+    const account = await User.findById(user.userId).select('email').lean();
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: user.userId,
+        username: user.username,
+        email: account?.email || null,
+        role: user.role,
+        permissions: user.permissions,
+        must_change_password: user.mustChangePassword,
+        must_enable_two_factor: user.mustEnableTwoFactor,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch current user' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update the signed-in admin's recovery email
+export async function PUT(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/me');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const validation = safeValidateData(userSchemas.adminProfile, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { email } = validation.data;
+
+    const user = await User.findById(guard.user!.userId);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (email && (await User.exists({ email, _id: { $ne: user._id } }))) {
+      return NextResponse.json(
+        { success: false, error: 'Email already in use' },
+        { status: 409 }
+      );
+    }
+
+    const before = toAuditSnapshot(user);
+    user.set('email', email ?? undefined);
+    await user.save();
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      before,
+      after: toAuditSnapshot(user),
+    });
+
+    return NextResponse.json({
+      success: true,
+      email: user.email || null,
+      message: 'Email berhasil diperbarui',
+    });
+  } catch (error) {
+    console.error('Error updating current user:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update current user' },
+      { status: 500 }
+    );
+  }
+}
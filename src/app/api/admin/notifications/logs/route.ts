@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import NotificationLog from '@/models/NotificationLog';
+import { guardRoute } from '@/lib/auth';
+import { NOTIFICATION_STATUS } from '@/lib/constants';
+import { normalizeTicket } from '@/lib/laporan';
+import { isNotificationEvent } from '@/lib/notifications';
+
+// GET - Fetch the notification delivery log with filters and pagination (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/notifications/logs');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const skip = (page - 1) * limit;
+    const status = searchParams.get('status');
+    const event = searchParams.get('event');
+    const ticket = searchParams.get('ticket');
+
+    const query: any = {};
+    if (status && (Object.values(NOTIFICATION_STATUS) as string[]).includes(status)) {
+      query.status = status;
+    }
+    if (isNotificationEvent(event)) {
+      query.event = event;
+    }
+    if (ticket) {
+      query.ticket = normalizeTicket(ticket);
+    }
+
+    const logs = await NotificationLog.find(query)
+      .sort({ created_at: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean();
+
+    const total = await NotificationLog.countDocuments(query);
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching notification logs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch notification logs' },
+      { status: 500 }
+    );
+  }
+}
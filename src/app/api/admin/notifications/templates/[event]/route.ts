@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { getTemplates, isNotificationEvent, resetTemplate } from '@/lib/notifications';
+
+// DELETE - Restore the built-in wording of a notification template (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { event: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/notifications/templates/[event]');
+  if (guard.response) return guard.response;
+
+  try {
+    if (!isNotificationEvent(params.event)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid notification event' },
+        { status: 400 }
+      );
+    }
+
+    const before = (await getTemplates())[params.event];
+    if (!before.customized) {
+      return NextResponse.json(
+        { success: false, error: 'Template already uses the default wording' },
+        { status: 400 }
+      );
+    }
+
+    const templates = await resetTemplate(params.event);
+    const after = templates[params.event];
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.NOTIFICATION_TEMPLATE,
+      entityId: params.event,
+      before: { subject: before.subject, body: before.body },
+      after: { subject: after.subject, body: after.body },
+      summary: 'Template reset to default',
+    });
+
+    return NextResponse.json({
+      success: true,
+      templates,
+      message: 'Template dikembalikan ke teks bawaan',
+    });
+  } catch (error) {
+    console.error('Error resetting notification template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reset notification template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { emailConfig } from '@/lib/config';
+import { ALL_NOTIFICATION_EVENTS, DEFAULT_TEMPLATES, getTemplates, TEMPLATE_VARIABLES, updateTemplate } from '@/lib/notifications';
+import { notificationSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// GET - Fetch notification email templates (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/notifications/templates');
+  if (guard.response) return guard.response;
+
+  try {
+    const templates = await getTemplates();
+
+    return NextResponse.json({
+      success: true,
+      events: ALL_NOTIFICATION_EVENTS,
+      templates,
+      defaults: DEFAULT_TEMPLATES,
+      variables: TEMPLATE_VARIABLES,
+      emailEnabled: emailConfig.enabled,
+    });
+  } catch (error) {
+    console.error('Error fetching notification templates:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch notification templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Change the wording of a notification email template (Admin only)
+export async function PUT(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/notifications/templates');
+  if (guard.response) return guard.response;
+
+  try {
+    const body = await request.json();
+    const validation = safeValidateData(notificationSchemas.template, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { event, subject, body: text } = validation.data;
+
+    const before = (await getTemplates())[event];
+    const templates = await updateTemplate(event, { subject, body: text }, guard.user!.userId);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.NOTIFICATION_TEMPLATE,
+      entityId: event,
+      before: { subject: before.subject, body: before.body },
+      after: { subject, body: text },
+    });
+
+    return NextResponse.json({
+      success: true,
+      templates,
+      message: 'Template notifikasi berhasil disimpan',
+    });
+  } catch (error) {
+    console.error('Error updating notification template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update notification template' },
+      { status: 500 }
+    );
+  }
+}
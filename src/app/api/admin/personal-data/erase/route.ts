@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { anonymizeLaporan, findReporterLaporan, summarizeTickets } from '@/lib/personalData';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// POST - Erase one reporter's identity from all their laporan (Admin only).
+// The reports themselves, with message and status, are kept.
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/personal-data/erase');
+  if (guard.response) return guard.response;
+
+  try {
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.personalDataRequest, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { email, phone, reference } = validation.data;
+    const matches = await findReporterLaporan({ email, phone });
+
+    if (matches.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No laporan found for this reporter' },
+        { status: 404 }
+      );
+    }
+
+    // Recorded before anything is erased; there is no undo
+    const audited = await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.ANONYMIZE,
+      entityType: AUDIT_ENTITY_TYPES.PERSONAL_DATA,
+      entityId: reference,
+      summary: `Erased reporter identity from ${matches.length} laporan (${summarizeTickets(matches)}) for request ${reference}`,
+    });
+
+    if (!audited) {
+      throw new Error('Personal data erasure could not be audited');
+    }
+
+    const count = await anonymizeLaporan(matches.map(match => match.laporan._id as mongoose.Types.ObjectId));
+
+    return NextResponse.json({
+      success: true,
+      count,
+      message: `Identitas pelapor telah dihapus dari ${count} laporan`,
+    });
+  } catch (error) {
+    console.error('Error erasing reporter personal data:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to erase reporter personal data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { buildPersonalDataExport, findReporterLaporan, summarizeTickets } from '@/lib/personalData';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// POST - Download everything kept about one reporter as JSON (Admin only)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/personal-data/export');
+  if (guard.response) return guard.response;
+
+  try {
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.personalDataRequest, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { email, phone, reference } = validation.data;
+    const matches = await findReporterLaporan({ email, phone });
+
+    if (matches.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No laporan found for this reporter' },
+        { status: 404 }
+      );
+    }
+
+    // No record, no export
+    const audited = await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.EXPORT,
+      entityType: AUDIT_ENTITY_TYPES.PERSONAL_DATA,
+      entityId: reference,
+      summary: `Exported personal data of ${matches.length} laporan (${summarizeTickets(matches)}) for request ${reference}`,
+    });
+
+    if (!audited) {
+      throw new Error('Personal data export could not be audited');
+    }
+
+    const filename = `data-pribadi-${new Date().toISOString().slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(buildPersonalDataExport(matches, reference), null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting reporter personal data:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export reporter personal data' },
+      { status: 500 }
+    );
+  }
+}
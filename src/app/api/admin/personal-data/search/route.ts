@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, LAPORAN_CONFIDENTIALITY } from '@/lib/constants';
+import { findReporterLaporan, summarizeTickets } from '@/lib/personalData';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// POST - Find the laporan of one reporter for an export or erasure request (Admin only)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/personal-data/search');
+  if (guard.response) return guard.response;
+
+  try {
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.personalDataRequest, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { email, phone, reference } = validation.data;
+    const matches = await findReporterLaporan({ email, phone });
+
+    // Tying a confidential report to a reporter reveals who filed it, so it is
+    // recorded like any other reveal. No record, no result.
+    const confidential = matches.filter(match => match.laporan.confidentiality === LAPORAN_CONFIDENTIALITY.CONFIDENTIAL);
+    if (confidential.length > 0) {
+      const audited = await recordAudit({
+        request,
+        actor: guard.user,
+        action: AUDIT_ACTIONS.REVEAL,
+        entityType: AUDIT_ENTITY_TYPES.PERSONAL_DATA,
+        entityId: reference,
+        summary: `Matched confidential laporan ${summarizeTickets(confidential)} to a reporter for personal data request ${reference}`,
+      });
+
+      if (!audited) {
+        throw new Error('Personal data search could not be audited');
+      }
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        laporan: matches.map(({ laporan }) => ({
+          _id: laporan.id,
+          ticket: laporan.ticket,
+          confidentiality: laporan.confidentiality,
+          category: laporan.category,
+          status: laporan.status,
+          created_at: laporan.created_at,
+        })),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error searching reporter personal data:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to search reporter personal data' },
+      { status: 500 }
+    );
+  }
+}
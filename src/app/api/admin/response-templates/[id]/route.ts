@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import ResponseTemplate from '@/models/ResponseTemplate';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// PUT - Update a response template (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/response-templates/[id]');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.responseTemplate, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { title, body: templateBody, category } = validation.data;
+
+    const template = await ResponseTemplate.findById(params.id);
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Response template not found' },
+        { status: 404 }
+      );
+    }
+
+    if (await ResponseTemplate.exists({ title, _id: { $ne: template._id } })) {
+      return NextResponse.json(
+        { success: false, error: 'A template with this title already exists' },
+        { status: 409 }
+      );
+    }
+
+    const before = toAuditSnapshot(template);
+
+    template.title = title;
+    template.body = templateBody;
+    // No category means the template fits every category
+    template.set('category', category || undefined);
+    template.updated_by_name = guard.user!.username;
+    await template.save();
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.RESPONSE_TEMPLATE,
+      entityId: template.id,
+      before,
+      after: toAuditSnapshot(template),
+    });
+
+    return NextResponse.json({
+      success: true,
+      template,
+      message: 'Template tanggapan berhasil diperbarui',
+    });
+  } catch (error) {
+    console.error('Error updating response template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update response template' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a response template (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/response-templates/[id]');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const template = await ResponseTemplate.findByIdAndDelete(params.id);
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Response template not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: AUDIT_ENTITY_TYPES.RESPONSE_TEMPLATE,
+      entityId: template.id,
+      before: toAuditSnapshot(template),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Template tanggapan berhasil dihapus',
+    });
+  } catch (error) {
+    console.error('Error deleting response template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete response template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Laporan from '@/models/Laporan';
+import ResponseTemplate from '@/models/ResponseTemplate';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { listResponseTemplates } from '@/lib/responseTemplates';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// GET - Fetch response templates, filled in for a laporan when one is given (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/response-templates');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const laporanId = new URL(request.url).searchParams.get('laporan');
+    let laporan = null;
+
+    if (laporanId) {
+      if (!mongoose.Types.ObjectId.isValid(laporanId)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid ID format' },
+          { status: 400 }
+        );
+      }
+
+      laporan = await Laporan.findById(laporanId);
+      if (!laporan) {
+        return NextResponse.json(
+          { success: false, error: 'Laporan not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const templates = await listResponseTemplates(laporan ?? undefined);
+
+    return NextResponse.json({
+      success: true,
+      templates,
+    });
+  } catch (error) {
+    console.error('Error fetching response templates:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch response templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a response template (Admin only)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/response-templates');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.responseTemplate, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { title, body: templateBody, category } = validation.data;
+
+    if (await ResponseTemplate.exists({ title })) {
+      return NextResponse.json(
+        { success: false, error: 'A template with this title already exists' },
+        { status: 409 }
+      );
+    }
+
+    const template = await ResponseTemplate.create({
+      title,
+      body: templateBody,
+      ...(category && { category }),
+      created_by: guard.user!.userId,
+      updated_by_name: guard.user!.username,
+    });
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: AUDIT_ENTITY_TYPES.RESPONSE_TEMPLATE,
+      entityId: template.id,
+      after: toAuditSnapshot(template),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        template,
+        message: 'Template tanggapan berhasil ditambahkan',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating response template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create response template' },
+      { status: 500 }
+    );
+  }
+}
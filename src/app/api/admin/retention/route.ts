@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { getRetentionPolicy, previewRetention, RETENTION_AUDIT_ENTITY_ID, updateRetentionPolicy } from '@/lib/retention';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// GET - Fetch the retention policy and a dry run of what it would anonymise (Admin only).
+// ?months= previews another retention period before it is saved.
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/retention');
+  if (guard.response) return guard.response;
+
+  try {
+    const policy = await getRetentionPolicy();
+
+    const requested = Number(new URL(request.url).searchParams.get('months'));
+    const months = Number.isInteger(requested) && requested >= 6 && requested <= 120 ? requested : policy.months;
+    const preview = await previewRetention(months);
+
+    return NextResponse.json({
+      success: true,
+      policy,
+      preview: { months, ...preview },
+    });
+  } catch (error) {
+    console.error('Error fetching retention policy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch retention policy' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Change the retention mode and period (Admin only)
+export async function PUT(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/retention');
+  if (guard.response) return guard.response;
+
+  try {
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.retentionPolicy, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { mode, months } = validation.data;
+
+    const before = await getRetentionPolicy();
+    const policy = await updateRetentionPolicy(mode, months, guard.user!.userId);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.PERSONAL_DATA,
+      entityId: RETENTION_AUDIT_ENTITY_ID,
+      before: { mode: before.mode, months: before.months },
+      after: { mode: policy.mode, months: policy.months },
+    });
+
+    return NextResponse.json({
+      success: true,
+      policy,
+      message: 'Kebijakan retensi berhasil diperbarui',
+    });
+  } catch (error) {
+    console.error('Error updating retention policy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update retention policy' },
+      { status: 500 }
+    );
+  }
+}
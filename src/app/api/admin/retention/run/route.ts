@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, RETENTION_MODES } from '@/lib/constants';
+import { getRetentionPolicy, RETENTION_AUDIT_ENTITY_ID, retentionRunSummary, runRetention } from '@/lib/retention';
+
+// POST - Run the saved retention policy now instead of waiting for the daily run (Admin only)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/retention/run');
+  if (guard.response) return guard.response;
+
+  try {
+    const policy = await getRetentionPolicy();
+
+    if (policy.mode === RETENTION_MODES.OFF) {
+      return NextResponse.json(
+        { success: false, error: 'Retention policy is switched off' },
+        { status: 400 }
+      );
+    }
+
+    const result = await runRetention(policy.mode, policy.months);
+
+    if (result.mode === RETENTION_MODES.ENFORCE && result.count > 0) {
+      await recordAudit({
+        request,
+        actor: guard.user,
+        action: AUDIT_ACTIONS.ANONYMIZE,
+        entityType: AUDIT_ENTITY_TYPES.PERSONAL_DATA,
+        entityId: RETENTION_AUDIT_ENTITY_ID,
+        summary: retentionRunSummary(result),
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      result,
+      message: result.mode === RETENTION_MODES.ENFORCE
+        ? `${result.count} laporan telah dianonimkan`
+        : `Uji coba selesai: ${result.count} laporan akan dianonimkan`,
+    });
+  } catch (error) {
+    console.error('Error running retention policy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run retention policy' },
+      { status: 500 }
+    );
+  }
+}
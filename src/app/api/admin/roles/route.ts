@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, USER_ROLES } from '@/lib/constants';
+import { ALL_PERMISSIONS, ALL_ROLES, isPermission, isUserRole } from '@/lib/permissions';
+import {
+  getPermissionMatrix,
+  getTwoFactorPolicy,
+  updateRolePermissions,
+  updateTwoFactorRequirement,
+} from '@/lib/rbac';
+
+// GET - Fetch the role permission matrix (Super admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/roles');
+  if (guard.response) return guard.response;
+
+  try {
+    const [matrix, twoFactor] = await Promise.all([getPermissionMatrix(), getTwoFactorPolicy()]);
+
+    return NextResponse.json({
+      success: true,
+      roles: ALL_ROLES,
+      permissions: ALL_PERMISSIONS,
+      matrix,
+      twoFactor,
+    });
+  } catch (error) {
+    console.error('Error fetching role permissions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch role permissions' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Replace the permissions or two-factor requirement of a role (Super admin only)
+export async function PUT(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/roles');
+  if (guard.response) return guard.response;
+
+  try {
+    const body = await request.json();
+    const { role, permissions, require_two_factor } = body;
+
+    if (!isUserRole(role)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid role' },
+        { status: 400 }
+      );
+    }
+
+    if (permissions === undefined && require_two_factor === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'Nothing to update' },
+        { status: 400 }
+      );
+    }
+
+    if (permissions !== undefined && role === USER_ROLES.SUPER_ADMIN) {
+      return NextResponse.json(
+        { success: false, error: 'Super admin permissions cannot be changed' },
+        { status: 400 }
+      );
+    }
+
+    if (permissions !== undefined && (!Array.isArray(permissions) || !permissions.every(isPermission))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid permissions' },
+        { status: 400 }
+      );
+    }
+
+    if (require_two_factor !== undefined && typeof require_two_factor !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid two-factor requirement' },
+        { status: 400 }
+      );
+    }
+
+    const [matrix, twoFactor] = await Promise.all([getPermissionMatrix(), getTwoFactorPolicy()]);
+    const before = { permissions: matrix[role], require_two_factor: twoFactor[role] };
+
+    const updated = permissions !== undefined
+      ? await updateRolePermissions(role, permissions, guard.user!.userId)
+      : undefined;
+    const twoFactorRequired = require_two_factor !== undefined
+      ? await updateTwoFactorRequirement(role, require_two_factor, guard.user!.userId)
+      : undefined;
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.ROLE,
+      entityId: role,
+      before,
+      after: {
+        permissions: updated ?? before.permissions,
+        require_two_factor: twoFactorRequired ?? before.require_two_factor,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      role,
+      ...(updated && { permissions: updated }),
+      ...(twoFactorRequired !== undefined && { require_two_factor: twoFactorRequired }),
+      message: 'Hak akses peran berhasil diperbarui',
+    });
+  } catch (error) {
+    console.error('Error updating role permissions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update role permissions' },
+      { status: 500 }
+    );
+  }
+}
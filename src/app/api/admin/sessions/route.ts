@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Session from '@/models/Session';
+import { guardRoute } from '@/lib/auth';
+import { clearSessionCookies, revokeUserSessions } from '@/lib/session';
+
+// GET - List the signed-in admin's active sessions
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/sessions');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const sessions = await Session.find({
+      user: guard.user!.userId,
+      revoked_at: { $exists: false },
+      expires_at: { $gt: new Date() },
+    })
+      .select('user_agent ip last_used_at created_at')
+      .sort({ last_used_at: -1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session._id.toString() === guard.user!.sid,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Sign out of all devices, including this one
+export async function DELETE(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/sessions');
+  if (guard.response) return guard.response;
+
+  try {
+    const revoked = await revokeUserSessions(guard.user!.userId, 'logout_all');
+
+    const response = NextResponse.json({
+      success: true,
+      revoked,
+      message: 'Berhasil keluar dari semua perangkat',
+    });
+    clearSessionCookies(response);
+
+    return response;
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke sessions' },
+      { status: 500 }
+    );
+  }
+}
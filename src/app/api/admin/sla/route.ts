@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, LAPORAN_SLA_DEFAULTS } from '@/lib/constants';
+import { ALL_LAPORAN_CATEGORIES, getSlaPolicy, updateSlaPolicy } from '@/lib/sla';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// GET - Fetch the response time per laporan category (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/sla');
+  if (guard.response) return guard.response;
+
+  try {
+    const policy = await getSlaPolicy();
+
+    return NextResponse.json({
+      success: true,
+      categories: ALL_LAPORAN_CATEGORIES,
+      policy,
+      defaults: LAPORAN_SLA_DEFAULTS,
+    });
+  } catch (error) {
+    console.error('Error fetching SLA policy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch SLA policy' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Change the response time of a laporan category (Admin only)
+export async function PUT(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/sla');
+  if (guard.response) return guard.response;
+
+  try {
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.slaPolicy, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { category, working_days } = validation.data;
+
+    const before = await getSlaPolicy();
+    const policy = await updateSlaPolicy(category, working_days, guard.user!.userId);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.SLA,
+      entityId: category,
+      before: { working_days: before[category] },
+      after: { working_days: policy[category] },
+    });
+
+    return NextResponse.json({
+      success: true,
+      policy,
+      message: 'SLA berhasil diperbarui. Perubahan berlaku untuk laporan baru.',
+    });
+  } catch (error) {
+    console.error('Error updating SLA policy:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update SLA policy' },
+      { status: 500 }
+    );
+  }
+}
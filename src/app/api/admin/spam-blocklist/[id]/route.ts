@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import SpamBlock from '@/models/SpamBlock';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+
+// DELETE - Remove a sender from the spam blocklist (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/spam-blocklist/[id]');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const entry = await SpamBlock.findByIdAndDelete(params.id);
+
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: 'Blocklist entry not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: AUDIT_ENTITY_TYPES.SPAM_BLOCK,
+      entityId: entry.id,
+      before: toAuditSnapshot(entry),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Pengirim dihapus dari daftar blokir',
+    });
+  } catch (error) {
+    console.error('Error deleting spam blocklist entry:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete blocklist entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import SpamBlock from '@/models/SpamBlock';
+import { guardRoute } from '@/lib/auth';
+import { SPAM_BLOCK_TYPES } from '@/lib/constants';
+import { sanitizers } from '@/lib/validation';
+
+// GET - Fetch blocked spam senders (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/spam-blocklist');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const skip = (page - 1) * limit;
+    const type = searchParams.get('type');
+    const search = searchParams.get('search')?.trim();
+
+    const query: any = {};
+    if (type && (Object.values(SPAM_BLOCK_TYPES) as string[]).includes(type)) {
+      query.type = type;
+    }
+    if (search) {
+      const pattern = { $regex: sanitizers.escapeRegex(search), $options: 'i' };
+      query.$or = [{ value: pattern }, { ticket: pattern }];
+    }
+
+    const [entries, total] = await Promise.all([
+      SpamBlock.find(query)
+        .sort({ created_at: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      SpamBlock.countDocuments(query),
+    ]);
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching spam blocklist:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch spam blocklist' },
+      { status: 500 }
+    );
+  }
+}
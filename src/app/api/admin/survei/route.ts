@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import SurveyResponse from '@/models/SurveyResponse';
+import { guardRoute } from '@/lib/auth';
+import { getIkmSummary, parseIkmPeriod } from '@/lib/ikm';
+import { SURVEY_SERVICES } from '@/lib/constants';
+
+// GET - Fetch the satisfaction index and individual responses for a period (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/survei');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const period = parseIkmPeriod(searchParams.get('period'));
+
+    if (!period) {
+      return NextResponse.json(
+        { success: false, error: 'Period must be YYYY, YYYY-Sn, YYYY-Qn or YYYY-MM' },
+        { status: 400 }
+      );
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const skip = (page - 1) * limit;
+    const service = searchParams.get('service');
+
+    const query: any = { created_at: { $gte: period.start, $lt: period.end } };
+    if (service && (Object.values(SURVEY_SERVICES) as string[]).includes(service)) {
+      query.service = service;
+    }
+    // Only responses that came with a suggestion
+    if (searchParams.get('suggestions') === '1') {
+      query.suggestion = { $exists: true, $ne: '' };
+    }
+
+    const [summary, responses, total] = await Promise.all([
+      getIkmSummary(period),
+      SurveyResponse.find(query)
+        .sort({ created_at: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      SurveyResponse.countDocuments(query),
+    ]);
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      responses,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching survey responses:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch survey responses' },
+      { status: 500 }
+    );
+  }
+}
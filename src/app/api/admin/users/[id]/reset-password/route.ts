@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { passwordUtils } from '@/lib/security';
+import { canManageRole, generateTemporaryPassword } from '@/lib/users';
+import { revokeUserSessions } from '@/lib/session';
+
+// POST - Force a password reset with a temporary password (Super admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/users/[id]/reset-password');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const user = await User.findById(params.id);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageRole(guard.user!, user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Only super admins can manage super admin accounts' },
+        { status: 403 }
+      );
+    }
+
+    const before = toAuditSnapshot(user);
+    const temporaryPassword = generateTemporaryPassword();
+    user.password_hash = await passwordUtils.hash(temporaryPassword);
+    user.must_change_password = true;
+    await user.save();
+    await revokeUserSessions(params.id, 'password_reset');
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      before,
+      after: toAuditSnapshot(user),
+      summary: 'Password reset',
+    });
+
+    return NextResponse.json({
+      success: true,
+      temporaryPassword,
+      message: 'Password sementara berhasil dibuat',
+    });
+  } catch (error) {
+    console.error('Error resetting user password:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reset password' },
+      { status: 500 }
+    );
+  }
+}
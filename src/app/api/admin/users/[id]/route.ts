@@ -0,0 +1,242 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { canManageRole, isLastActiveSuperAdmin } from '@/lib/users';
+import { revokeUserSessions } from '@/lib/session';
+import { userSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// GET - Fetch single admin account by ID (Admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/users/[id]');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const user = await User.findById(params.id);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      user,
+    });
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch user' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Change email, role, bidang or activation of an admin account (Super admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/users/[id]');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = safeValidateData(userSchemas.adminUpdate, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { email, role, bidang, is_active } = validation.data;
+    const actor = guard.user!;
+
+    // Prevent admins from locking themselves out
+    if (params.id === actor.userId && (role !== undefined || is_active !== undefined)) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot change your own role or status' },
+        { status: 400 }
+      );
+    }
+
+    const user = await User.findById(params.id);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageRole(actor, user.role) || (role && !canManageRole(actor, role))) {
+      return NextResponse.json(
+        { success: false, error: 'Only super admins can manage super admin accounts' },
+        { status: 403 }
+      );
+    }
+
+    const removesSuperAdmin = (role && role !== user.role) || is_active === false;
+    if (removesSuperAdmin && (await isLastActiveSuperAdmin(params.id))) {
+      return NextResponse.json(
+        { success: false, error: 'At least one active super admin is required' },
+        { status: 400 }
+      );
+    }
+
+    if (email && (await User.exists({ email, _id: { $ne: user._id } }))) {
+      return NextResponse.json(
+        { success: false, error: 'Email already in use' },
+        { status: 409 }
+      );
+    }
+
+    const before = toAuditSnapshot(user);
+
+    if (email !== undefined) {
+      user.set('email', email ?? undefined);
+    }
+    if (role) {
+      user.role = role;
+    }
+    if (bidang !== undefined) {
+      user.set('bidang', bidang ?? undefined);
+    }
+    if (is_active !== undefined) {
+      user.is_active = is_active;
+    }
+
+    const updatedUser = await user.save();
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      before,
+      after: toAuditSnapshot(updatedUser),
+    });
+
+    // Deactivated accounts are signed out everywhere
+    if (is_active === false) {
+      await revokeUserSessions(params.id, 'account_deactivated');
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: updatedUser,
+      message: 'Pengguna berhasil diperbarui',
+    });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete admin account by ID (Super admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/users/[id]');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    if (params.id === guard.user!.userId) {
+      return NextResponse.json(
+        { success: false, error: 'You cannot delete your own account' },
+        { status: 400 }
+      );
+    }
+
+    const user = await User.findById(params.id);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageRole(guard.user!, user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Only super admins can manage super admin accounts' },
+        { status: 403 }
+      );
+    }
+
+    if (await isLastActiveSuperAdmin(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'At least one active super admin is required' },
+        { status: 400 }
+      );
+    }
+
+    await user.deleteOne();
+    await revokeUserSessions(params.id, 'account_deleted');
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      before: toAuditSnapshot(user),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Pengguna berhasil dihapus',
+    });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete user' },
+      { status: 500 }
+    );
+  }
+}
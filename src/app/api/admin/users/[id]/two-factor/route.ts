@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { auditUtils } from '@/lib/security';
+import { canManageRole } from '@/lib/users';
+import { revokeUserSessions } from '@/lib/session';
+import { disableTwoFactor } from '@/lib/twoFactor';
+
+// DELETE - Reset two-factor authentication for an admin who lost their device
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/users/[id]/two-factor');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    if (params.id === guard.user!.userId) {
+      return NextResponse.json(
+        { success: false, error: 'Use the security page to manage your own two-factor authentication' },
+        { status: 400 }
+      );
+    }
+
+    const user = await User.findById(params.id);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageRole(guard.user!, user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Only super admins can manage super admin accounts' },
+        { status: 403 }
+      );
+    }
+
+    const before = toAuditSnapshot(user);
+    disableTwoFactor(user);
+    await user.save();
+    await revokeUserSessions(params.id, 'two_factor_reset');
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      before,
+      after: toAuditSnapshot(user),
+      summary: 'Two-factor authentication reset',
+    });
+
+    auditUtils.logSecurityEvent('Two-factor authentication reset by admin', guard.user!.userId, {
+      targetUserId: params.id,
+    }, 'medium');
+
+    return NextResponse.json({
+      success: true,
+      message: 'Autentikasi dua faktor pengguna berhasil direset',
+    });
+  } catch (error) {
+    console.error('Error resetting two-factor authentication:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reset two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { auditUtils, rateLimiters } from '@/lib/security';
+import { getClientInfo } from '@/lib/session';
+import { canManageRole, unlockAccount } from '@/lib/users';
+
+// POST - Clear a login lockout (Super admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/admin/users/[id]/unlock');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const user = await User.findById(params.id).select('username role failed_login_attempts locked_until');
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageRole(guard.user!, user.role)) {
+      return NextResponse.json(
+        { success: false, error: 'Only super admins can manage super admin accounts' },
+        { status: 403 }
+      );
+    }
+
+    await unlockAccount(params.id);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      before: toAuditSnapshot(user),
+      after: { ...toAuditSnapshot(user), failed_login_attempts: 0, locked_until: undefined },
+      summary: 'Account unlocked',
+    });
+
+    // Also clear the in-memory throttle on this instance
+    rateLimiters.login.reset(`user:${user.username.toLowerCase()}`);
+
+    const client = getClientInfo(request);
+    auditUtils.logAuthEvent('account_unlocked', params.id, client.ip, client.user_agent, {
+      unlockedBy: guard.user!.userId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Akun berhasil dibuka kembali',
+    });
+  } catch (error) {
+    console.error('Error unlocking user:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to unlock user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { passwordUtils } from '@/lib/security';
+import { canManageRole, generateTemporaryPassword } from '@/lib/users';
+import { userSchemas, safeValidateData, formatValidationErrors, sanitizers } from '@/lib/validation';
+
+// GET - Fetch admin accounts with pagination and filters (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/users');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '10');
+    const search = searchParams.get('search') || '';
+    const role = searchParams.get('role');
+    const status = searchParams.get('status');
+
+    const skip = (page - 1) * limit;
+
+    // Build query
+    const query: any = {};
+    if (search) {
+      const pattern = { $regex: sanitizers.escapeRegex(search), $options: 'i' };
+      query.$or = [{ username: pattern }, { email: pattern }];
+    }
+    if (role && role !== 'all') {
+      query.role = role;
+    }
+    if (status === 'active') {
+      query.is_active = true;
+    } else if (status === 'inactive') {
+      query.is_active = false;
+    } else if (status === 'locked') {
+      query.locked_until = { $gt: new Date() };
+    }
+
+    const users = await User.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await User.countDocuments(query);
+    const totalPages = Math.ceil(total / limit);
+
+    return NextResponse.json({
+      success: true,
+      users,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Invite a new admin account (Super admin only)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/admin/users');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const validation = safeValidateData(userSchemas.adminCreate, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { username, email, role, bidang, password } = validation.data;
+
+    if (!canManageRole(guard.user!, role)) {
+      return NextResponse.json(
+        { success: false, error: 'Only super admins can create super admin accounts' },
+        { status: 403 }
+      );
+    }
+
+    // Enforce the password policy when an initial password is chosen
+    if (password) {
+      const strength = passwordUtils.validate(password);
+      if (!strength.isValid) {
+        return NextResponse.json(
+          { success: false, error: 'Password does not meet requirements', details: strength.errors },
+          { status: 400 }
+        );
+      }
+    }
+
+    const existing = await User.findOne({ username });
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: 'Username already exists' },
+        { status: 409 }
+      );
+    }
+
+    if (email && (await User.exists({ email }))) {
+      return NextResponse.json(
+        { success: false, error: 'Email already in use' },
+        { status: 409 }
+      );
+    }
+
+    // Invited users get a temporary password they must change on first login
+    const temporaryPassword = password ? null : generateTemporaryPassword();
+
+    const user = await User.create({
+      username,
+      ...(email && { email }),
+      role,
+      ...(bidang && { bidang }),
+      password_hash: await passwordUtils.hash(password || temporaryPassword!),
+      must_change_password: true,
+      created_by: guard.user!.userId,
+    });
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      after: toAuditSnapshot(user),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        user: {
+          _id: user._id,
+          username: user.username,
+          email: user.email,
+          role: user.role,
+          bidang: user.bidang,
+          is_active: user.is_active,
+          must_change_password: user.must_change_password,
+          createdAt: user.createdAt,
+        },
+        temporaryPassword,
+        message: 'Pengguna berhasil ditambahkan',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}
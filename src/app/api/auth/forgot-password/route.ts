@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import User from '@/models/User';
+import { guardRoute } from '@/lib/auth';
+import { sendPasswordResetEmail } from '@/lib/mailer';
+import { buildPasswordResetUrl, createPasswordResetToken, PASSWORD_RESET_TTL_MINUTES } from '@/lib/passwordReset';
+import { auditUtils, rateLimiters } from '@/lib/security';
+import { getClientInfo } from '@/lib/session';
+import { userSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// Same answer whether or not the address belongs to an account
+const GENERIC_MESSAGE = 'Jika email terdaftar, tautan reset password telah dikirim ke email tersebut';
+
+// POST - Email a password reset link to an admin (Public)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/auth/forgot-password');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const validation = safeValidateData(userSchemas.forgotPassword, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { email } = validation.data;
+    const client = getClientInfo(request);
+    const ipKey = `ip:${client.ip}`;
+    const emailKey = `email:${email}`;
+
+    // Limit requests per client and per address so the inbox cannot be flooded
+    if (!rateLimiters.passwordReset.isAllowed(ipKey) || !rateLimiters.passwordReset.isAllowed(emailKey)) {
+      const retryAfter = Math.max(
+        rateLimiters.passwordReset.getRetryAfter(ipKey),
+        rateLimiters.passwordReset.getRetryAfter(emailKey)
+      );
+      return NextResponse.json(
+        { success: false, error: 'Too many password reset requests. Please try again later.', retryAfter },
+        { status: 429, headers: { 'Retry-After': String(Math.max(1, retryAfter)) } }
+      );
+    }
+
+    const user = await User.findOne({ email, is_active: true });
+
+    if (user) {
+      const token = await createPasswordResetToken(user);
+
+      auditUtils.logAuthEvent('password_reset_requested', user.id, client.ip, client.user_agent);
+
+      // Not awaited, so response time does not reveal whether the account exists
+      void sendPasswordResetEmail(email, user.username, buildPasswordResetUrl(token), PASSWORD_RESET_TTL_MINUTES);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: GENERIC_MESSAGE,
+    });
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to request password reset' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { clearSessionCookies, getRefreshToken, rotateSession, setSessionCookies } from '@/lib/session';
+
+// POST - Exchange the refresh token cookie for a new token pair (Public)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/auth/refresh');
+  if (guard.response) return guard.response;
+
+  try {
+    const refreshToken = getRefreshToken(request);
+    const tokens = refreshToken ? await rotateSession(refreshToken, request) : null;
+
+    if (!tokens) {
+      const response = NextResponse.json(
+        { success: false, error: 'Session expired' },
+        { status: 401 }
+      );
+      clearSessionCookies(response);
+      return response;
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      token: tokens.accessToken,
+    });
+    setSessionCookies(response, tokens);
+
+    return response;
+  } catch (error) {
+    console.error('Error refreshing session:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to refresh session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { consumePasswordResetToken, isPasswordResetTokenValid } from '@/lib/passwordReset';
+import { auditUtils, passwordUtils } from '@/lib/security';
+import { getClientInfo, revokeUserSessions } from '@/lib/session';
+import { userSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// GET - Check whether a reset token can still be used (Public)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/auth/reset-password');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const token = new URL(request.url).searchParams.get('token') || '';
+
+    return NextResponse.json({
+      success: true,
+      valid: token ? await isPasswordResetTokenValid(token) : false,
+    });
+  } catch (error) {
+    console.error('Error checking reset token:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check reset token' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Set a new password with a reset token (Public)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/auth/reset-password');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const validation = safeValidateData(userSchemas.resetPassword, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { token, newPassword } = validation.data;
+
+    // Check the policy first so a weak password does not use up the token
+    const strength = passwordUtils.validate(newPassword);
+    if (!strength.isValid) {
+      return NextResponse.json(
+        { success: false, error: 'Password does not meet requirements', details: strength.errors },
+        { status: 400 }
+      );
+    }
+
+    const user = await consumePasswordResetToken(token);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid or expired reset token' },
+        { status: 400 }
+      );
+    }
+
+    const before = toAuditSnapshot(user);
+    user.password_hash = await passwordUtils.hash(newPassword);
+    user.must_change_password = false;
+    // Proving control of the mailbox also lifts a lockout
+    user.failed_login_attempts = 0;
+    user.set('locked_until', undefined);
+    user.set('last_failed_login_at', undefined);
+    await user.save();
+
+    // Whoever knew the old password is signed out everywhere
+    await revokeUserSessions(user.id, 'password_reset');
+
+    const client = getClientInfo(request);
+    auditUtils.logAuthEvent('password_reset', user.id, client.ip, client.user_agent);
+
+    await recordAudit({
+      request,
+      actor: null,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.USER,
+      entityId: user.id,
+      before,
+      after: toAuditSnapshot(user),
+      summary: `Password reset via email link for ${user.username}`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Password berhasil diatur ulang. Silakan login dengan password baru.',
+    });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reset password' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+
+// GET - Confirm the access token belongs to an active session.
+// Lets the admin app check a session is still live, which the edge middleware does not.
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/auth/session');
+  if (guard.response) return guard.response;
+
+  return NextResponse.json({
+    success: true,
+    sessionId: guard.user!.sid,
+  });
+}
@@ -2,12 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
 import Berita from '@/models/Berita';
 import DOMPurify from 'isomorphic-dompurify';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { readBeritaTaxonomy } from '@/lib/berita';
 
 // GET - Fetch single berita by slug
 export async function GET(
   request: NextRequest,
   { params }: { params: { slug: string } }
 ) {
+  const guard = await guardRoute(request, '/api/berita/[slug]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -44,12 +51,23 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { slug: string } }
 ) {
+  const guard = await guardRoute(request, '/api/berita/[slug]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
     const body = await request.json();
     const { title, summary, content, image_url, published } = body;
 
+    const taxonomy = readBeritaTaxonomy(body);
+    if ('error' in taxonomy) {
+      return NextResponse.json(
+        { success: false, error: taxonomy.error },
+        { status: 400 }
+      );
+    }
+
     // Find berita by slug
     const berita = await Berita.findOne({ slug: params.slug });
 
@@ -67,6 +85,8 @@ export async function PUT(
     if (content) updateData.content = DOMPurify.sanitize(content);
     if (image_url) updateData.image_url = image_url;
     if (typeof published === 'boolean') updateData.published = published;
+    if (taxonomy.category) updateData.category = taxonomy.category;
+    if (taxonomy.tags) updateData.tags = taxonomy.tags;
 
     // Update berita
     const updatedBerita = await Berita.findByIdAndUpdate(
@@ -75,6 +95,16 @@ export async function PUT(
       { new: true, runValidators: true }
     );
 
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.BERITA,
+      entityId: berita.id,
+      before: toAuditSnapshot(berita),
+      after: toAuditSnapshot(updatedBerita),
+    });
+
     return NextResponse.json({
       success: true,
       berita: updatedBerita,
@@ -93,6 +123,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { slug: string } }
 ) {
+  const guard = await guardRoute(request, '/api/berita/[slug]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -105,6 +138,15 @@ export async function DELETE(
       );
     }
 
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: AUDIT_ENTITY_TYPES.BERITA,
+      entityId: berita.id,
+      before: toAuditSnapshot(berita),
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Berita deleted successfully',
@@ -2,9 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
 import Berita from '@/models/Berita';
 import DOMPurify from 'isomorphic-dompurify';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { isBeritaCategory, readBeritaTaxonomy } from '@/lib/berita';
 
-// GET - Fetch all berita with pagination
+// GET - Fetch all berita with pagination, optionally of one category or tag
 export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/berita');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -12,11 +19,26 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
     const search = searchParams.get('search') || '';
+    const category = searchParams.get('category');
+    const tag = searchParams.get('tag');
+
+    if (category && !isBeritaCategory(category)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid category' },
+        { status: 400 }
+      );
+    }
 
     const skip = (page - 1) * limit;
 
     // Build query
     const query: any = { published: true };
+    if (category) {
+      query.category = category;
+    }
+    if (tag) {
+      query.tags = tag.toLowerCase();
+    }
     if (search) {
       query.$or = [
         { title: { $regex: search, $options: 'i' } },
@@ -57,6 +79,9 @@ export async function GET(request: NextRequest) {
 
 // POST - Create new berita (Admin only)
 export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/berita');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -71,6 +96,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const taxonomy = readBeritaTaxonomy(body);
+    if ('error' in taxonomy) {
+      return NextResponse.json(
+        { success: false, error: taxonomy.error },
+        { status: 400 }
+      );
+    }
+
     // Sanitize content
     const sanitizedContent = DOMPurify.sanitize(content);
     const sanitizedSummary = DOMPurify.sanitize(summary);
@@ -82,10 +115,20 @@ export async function POST(request: NextRequest) {
       content: sanitizedContent,
       image_url,
       published,
+      ...taxonomy,
     });
 
     await berita.save();
 
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: AUDIT_ENTITY_TYPES.BERITA,
+      entityId: berita.id,
+      after: toAuditSnapshot(berita),
+    });
+
     return NextResponse.json(
       { success: true, berita },
       { status: 201 }
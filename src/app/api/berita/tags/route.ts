@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { getBeritaTagCounts } from '@/lib/berita';
+
+const MAX_TAGS = 100;
+
+// GET - Tags of published berita with their counts, for the tag cloud
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/berita/tags');
+  if (guard.response) return guard.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '30') || 30, 1), MAX_TAGS);
+
+    const tags = await getBeritaTagCounts(limit);
+
+    return NextResponse.json({
+      success: true,
+      tags,
+    });
+  } catch (error) {
+    console.error('Error fetching berita tags:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch berita tags' },
+      { status: 500 }
+    );
+  }
+}
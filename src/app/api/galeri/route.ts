@@ -2,9 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
 import Galeri from '@/models/Galeri';
 import DOMPurify from 'isomorphic-dompurify';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
 
 // GET - Fetch all galeri with pagination
 export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/galeri');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -60,6 +66,9 @@ export async function GET(request: NextRequest) {
 
 // POST - Create new galeri item (Admin only)
 export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/galeri');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -96,6 +105,15 @@ export async function POST(request: NextRequest) {
 
     await galeri.save();
 
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: AUDIT_ENTITY_TYPES.GALERI,
+      entityId: galeri.id,
+      after: toAuditSnapshot(galeri),
+    });
+
     return NextResponse.json(
       { success: true, galeri },
       { status: 201 }
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Laporan from '@/models/Laporan';
+import User from '@/models/User';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, PERMISSIONS } from '@/lib/constants';
+import { describeAssignee } from '@/lib/assignment';
+import { toStaffLaporan } from '@/lib/laporan';
+import { notifyLaporanAssigned } from '@/lib/notifications';
+import { getRolePermissions } from '@/lib/rbac';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// PUT - Assign or reassign laporan to a staff member and/or bidang (Admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/laporan/[id]/assign');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.assign, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { assigned_to, assigned_bidang, reason } = validation.data;
+
+    if (assigned_to === undefined && assigned_bidang === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'Assignee or bidang is required' },
+        { status: 400 }
+      );
+    }
+
+    const laporan = await Laporan.findById(params.id);
+
+    if (!laporan) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only staff who may work on reports can be handed one
+    let assignee = null;
+    if (assigned_to) {
+      assignee = await User.findOne({ _id: assigned_to, is_active: true }).select('username role bidang');
+      const permissions = assignee ? await getRolePermissions(assignee.role) : [];
+
+      if (!assignee || !permissions.includes(PERMISSIONS.REPORT_UPDATE)) {
+        return NextResponse.json(
+          { success: false, error: 'Assignee must be an active staff member who handles reports' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // A staff member assigned without an explicit bidang brings their own
+    const nextBidang = assigned_bidang !== undefined
+      ? assigned_bidang
+      : assignee?.bidang ?? laporan.assigned_bidang ?? null;
+    const nextUserId = assigned_to !== undefined ? assigned_to : laporan.assigned_to?.toString() ?? null;
+    const nextUserName = assigned_to !== undefined ? assignee?.username ?? null : laporan.assigned_to_name ?? null;
+
+    const unchanged =
+      nextUserId === (laporan.assigned_to?.toString() ?? null) &&
+      nextBidang === (laporan.assigned_bidang ?? null);
+
+    if (unchanged) {
+      return NextResponse.json(
+        { success: false, error: 'Assignment is unchanged' },
+        { status: 400 }
+      );
+    }
+
+    // Taking a report away from someone must be explained
+    const isReassignment = !!(laporan.assigned_to || laporan.assigned_bidang);
+    if (isReassignment && !reason) {
+      return NextResponse.json(
+        { success: false, error: 'A reason is required when reassigning' },
+        { status: 400 }
+      );
+    }
+
+    const before = toAuditSnapshot(laporan);
+    const user = guard.user!;
+    const now = new Date();
+
+    laporan.history.push({
+      type: 'assignment',
+      to_status: laporan.status,
+      from_assignee: describeAssignee(laporan.assigned_to_name, laporan.assigned_bidang),
+      to_assignee: describeAssignee(nextUserName, nextBidang),
+      changed_by: new mongoose.Types.ObjectId(user.userId),
+      changed_by_name: user.username,
+      ...(reason && { note: reason }),
+      at: now,
+    });
+
+    if (assignee) {
+      laporan.assigned_to = assignee._id as mongoose.Types.ObjectId;
+      laporan.assigned_to_name = assignee.username;
+    } else if (assigned_to === null) {
+      laporan.set('assigned_to', undefined);
+      laporan.set('assigned_to_name', undefined);
+    }
+    laporan.set('assigned_bidang', nextBidang ?? undefined);
+    laporan.set('assigned_at', nextUserId || nextBidang ? now : undefined);
+
+    const updatedLaporan = await laporan.save();
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.LAPORAN,
+      entityId: laporan.id,
+      before,
+      after: toAuditSnapshot(updatedLaporan),
+      summary: 'Assignment changed',
+    });
+
+    if (nextUserId || nextBidang) {
+      await notifyLaporanAssigned(updatedLaporan);
+    }
+
+    return NextResponse.json({
+      success: true,
+      laporan: toStaffLaporan(updatedLaporan),
+      message: nextUserId || nextBidang
+        ? `Laporan ditugaskan ke ${describeAssignee(nextUserName, nextBidang)}`
+        : 'Penugasan laporan dihapus',
+    });
+  } catch (error) {
+    console.error('Error assigning laporan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to assign laporan' },
+      { status: 500 }
+    );
+  }
+}
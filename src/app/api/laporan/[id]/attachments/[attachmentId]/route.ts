@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Laporan from '@/models/Laporan';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { readAttachment } from '@/lib/uploads';
+
+// GET - Download a laporan attachment from private storage (Admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; attachmentId: string } }
+) {
+  const guard = await guardRoute(request, '/api/laporan/[id]/attachments/[attachmentId]');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectIds
+    if (!mongoose.Types.ObjectId.isValid(params.id) || !mongoose.Types.ObjectId.isValid(params.attachmentId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const laporan = await Laporan.findById(params.id).select('attachments');
+    const attachment = laporan?.attachments.find(item => item._id.toString() === params.attachmentId);
+
+    if (!attachment) {
+      return NextResponse.json(
+        { success: false, error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    let file: Buffer;
+    try {
+      file = await readAttachment(attachment.stored_name);
+    } catch (error) {
+      console.error('Error reading attachment:', error);
+      return NextResponse.json(
+        { success: false, error: 'Attachment file is missing' },
+        { status: 404 }
+      );
+    }
+
+    // Images open inline for preview; everything else is downloaded
+    const disposition = attachment.mime_type.startsWith('image/') && request.nextUrl.searchParams.get('download') !== '1'
+      ? 'inline'
+      : 'attachment';
+
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': attachment.mime_type,
+        'Content-Length': String(file.length),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.original_name)}`,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; img-src 'self'; style-src 'unsafe-inline'",
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to download attachment' },
+      { status: 500 }
+    );
+  }
+}
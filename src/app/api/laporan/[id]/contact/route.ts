@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Laporan from '@/models/Laporan';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, LAPORAN_CONFIDENTIALITY } from '@/lib/constants';
+
+// POST - Reveal the full contact details of a reporter, masked everywhere else (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/laporan/[id]/contact');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const laporan = await Laporan.findById(params.id).select('ticket confidentiality anonymized_at nama email phone address');
+
+    if (!laporan) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan not found' },
+        { status: 404 }
+      );
+    }
+
+    // Confidential identities have their own reveal, with a reason and a stricter permission
+    if (laporan.confidentiality === LAPORAN_CONFIDENTIALITY.CONFIDENTIAL) {
+      return NextResponse.json(
+        { success: false, error: 'Confidential identities are revealed through the identity endpoint' },
+        { status: 400 }
+      );
+    }
+
+    if (laporan.anonymized_at || !(laporan.email || laporan.phone || laporan.address)) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan has no contact details' },
+        { status: 400 }
+      );
+    }
+
+    // No record, no reveal
+    const audited = await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.REVEAL,
+      entityType: AUDIT_ENTITY_TYPES.LAPORAN,
+      entityId: laporan.id,
+      summary: `Revealed reporter contact details of ${laporan.ticket}`,
+    });
+
+    if (!audited) {
+      throw new Error('Contact reveal could not be audited');
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        identity: {
+          nama: laporan.nama || '',
+          email: laporan.email || '',
+          phone: laporan.phone || '',
+          address: laporan.address || '',
+        },
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error revealing reporter contact details:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reveal reporter contact details' },
+      { status: 500 }
+    );
+  }
+}
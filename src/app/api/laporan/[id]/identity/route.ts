@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Laporan from '@/models/Laporan';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, LAPORAN_CONFIDENTIALITY } from '@/lib/constants';
+import { openIdentity } from '@/lib/laporan';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// POST - Reveal the identity of a confidential reporter, with a reason (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/laporan/[id]/identity');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.revealIdentity, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const laporan = await Laporan.findById(params.id).select('+identity_encrypted');
+
+    if (!laporan) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan not found' },
+        { status: 404 }
+      );
+    }
+
+    if (laporan.confidentiality !== LAPORAN_CONFIDENTIALITY.CONFIDENTIAL || !laporan.identity_encrypted) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan has no confidential identity' },
+        { status: 400 }
+      );
+    }
+
+    // Every reveal is recorded, with who asked and why. No record, no reveal.
+    const audited = await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.REVEAL,
+      entityType: AUDIT_ENTITY_TYPES.LAPORAN,
+      entityId: laporan.id,
+      summary: `Revealed reporter identity of ${laporan.ticket}: ${validation.data.reason}`,
+    });
+
+    if (!audited) {
+      throw new Error('Identity reveal could not be audited');
+    }
+
+    const identity = openIdentity(laporan.identity_encrypted);
+
+    return NextResponse.json(
+      {
+        success: true,
+        identity,
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error revealing reporter identity:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to reveal reporter identity' },
+      { status: 500 }
+    );
+  }
+}
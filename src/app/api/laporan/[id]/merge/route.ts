@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Laporan from '@/models/Laporan';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { mergeLaporan } from '@/lib/duplicates';
+import { normalizeTicket, toStaffLaporan } from '@/lib/laporan';
+import { notifyLaporanMerged } from '@/lib/notifications';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// POST - Merge laporan into the report with the given ticket (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/laporan/[id]/merge');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.merge, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const duplicate = await Laporan.findById(params.id);
+
+    if (!duplicate) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan not found' },
+        { status: 404 }
+      );
+    }
+
+    if (duplicate.duplicate_of) {
+      return NextResponse.json(
+        { success: false, error: `Laporan is already merged into ${duplicate.duplicate_of_ticket}` },
+        { status: 400 }
+      );
+    }
+
+    const primary = await Laporan.findOne({ ticket: normalizeTicket(validation.data.target_ticket) });
+
+    if (!primary) {
+      return NextResponse.json(
+        { success: false, error: 'Target laporan not found' },
+        { status: 404 }
+      );
+    }
+
+    if (primary.id === duplicate.id) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan cannot be merged into itself' },
+        { status: 400 }
+      );
+    }
+
+    if (primary.duplicate_of) {
+      return NextResponse.json(
+        { success: false, error: `Target laporan is itself merged into ${primary.duplicate_of_ticket}` },
+        { status: 400 }
+      );
+    }
+
+    if (duplicate.spam || primary.spam) {
+      return NextResponse.json(
+        { success: false, error: 'Spam cannot be merged' },
+        { status: 400 }
+      );
+    }
+
+    const before = toAuditSnapshot(duplicate);
+
+    await mergeLaporan(duplicate, primary, guard.user!);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.LAPORAN,
+      entityId: duplicate.id,
+      before,
+      after: toAuditSnapshot(duplicate),
+      summary: `Merged into ${primary.ticket}`,
+    });
+
+    // The reporter keeps their ticket and PIN; tell them which case it joined
+    await notifyLaporanMerged(duplicate);
+
+    return NextResponse.json({
+      success: true,
+      laporan: toStaffLaporan(duplicate),
+      primary: toStaffLaporan(primary),
+      message: `Laporan ${duplicate.ticket} berhasil digabungkan ke ${primary.ticket}`,
+    });
+  } catch (error) {
+    console.error('Error merging laporan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to merge laporan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Laporan from '@/models/Laporan';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { addInternalNote, getInternalNotes, getMentionableStaff } from '@/lib/internalNotes';
+import { notifyMentioned } from '@/lib/notifications';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+// GET - Fetch the internal notes of a laporan and the staff who can be mentioned (Admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/laporan/[id]/notes');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const [notes, staff] = await Promise.all([
+      getInternalNotes(params.id),
+      getMentionableStaff(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      notes,
+      staff: staff.map(member => member.username),
+    });
+  } catch (error) {
+    console.error('Error fetching internal notes:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch internal notes' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add an internal note to a laporan (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/laporan/[id]/notes');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = safeValidateData(laporanSchemas.note, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const laporan = await Laporan.findById(params.id);
+
+    if (!laporan) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan not found' },
+        { status: 404 }
+      );
+    }
+
+    const note = await addInternalNote(laporan.id, validation.data.body, guard.user!);
+
+    // The note text stays out of the audit trail; only that one was written
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.LAPORAN,
+      entityId: laporan.id,
+      summary: note.mentions.length > 0
+        ? `Added internal note to ${laporan.ticket} mentioning ${note.mentions.length} staff`
+        : `Added internal note to ${laporan.ticket}`,
+    });
+
+    await notifyMentioned(laporan, note);
+
+    return NextResponse.json(
+      {
+        success: true,
+        note,
+        message: 'Catatan internal berhasil ditambahkan',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error adding internal note:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to add internal note' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,26 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
 import Laporan from '@/models/Laporan';
 import mongoose from 'mongoose';
+import DOMPurify from 'isomorphic-dompurify';
+import { guardRoute, hasPermission } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, PERMISSIONS } from '@/lib/constants';
+import { notifyResponded, notifyStatusChanged, notifySurveyInvitation } from '@/lib/notifications';
+import { computeDueDate } from '@/lib/sla';
+import { deleteAttachments } from '@/lib/uploads';
+import { clearDuplicateFlags, detachMergedLaporan } from '@/lib/duplicates';
+import { deleteInternalNotes } from '@/lib/internalNotes';
+import { toStaffLaporan } from '@/lib/laporan';
+import { laporanSchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
 
 // GET - Fetch single laporan by ID (Admin only)
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const guard = await guardRoute(request, '/api/laporan/[id]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -28,9 +42,15 @@ export async function GET(
       );
     }
 
+    // Reports merged into this one, with their own history
+    const merged = await Laporan.find({ duplicate_of: laporan._id })
+      .select('ticket confidentiality nama email phone message history created_at')
+      .sort({ created_at: 1 });
+
     return NextResponse.json({
       success: true,
-      laporan,
+      laporan: toStaffLaporan(laporan),
+      merged: merged.map(toStaffLaporan),
     });
   } catch (error) {
     console.error('Error fetching laporan:', error);
@@ -41,11 +61,14 @@ export async function GET(
   }
 }
 
-// PUT - Update laporan status by ID (Admin only)
+// PUT - Update laporan status, triage and official response by ID (Admin only)
 export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const guard = await guardRoute(request, '/api/laporan/[id]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -58,13 +81,32 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { status } = body;
+    const validation = safeValidateData(
+      laporanSchemas.update.pick({ status: true, response: true, note: true, category: true, priority: true }),
+      body
+    );
 
-    // Validate status
-    const validStatuses = ['pending', 'in_progress', 'resolved', 'closed'];
-    if (!status || !validStatuses.includes(status)) {
+    if (!validation.success) {
       return NextResponse.json(
-        { success: false, error: 'Invalid status. Must be one of: ' + validStatuses.join(', ') },
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { status, response, note, category, priority } = validation.data;
+    const user = guard.user!;
+
+    // Official responses need their own permission
+    if (response !== undefined && !hasPermission(user, PERMISSIONS.REPORT_RESPOND)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    if (!status && response === undefined && !category && !priority) {
+      return NextResponse.json(
+        { success: false, error: 'Status, triage or response is required' },
         { status: 400 }
       );
     }
@@ -79,17 +121,80 @@ export async function PUT(
       );
     }
 
-    // Update laporan status
-    const updatedLaporan = await Laporan.findByIdAndUpdate(
-      params.id,
-      { status },
-      { new: true, runValidators: true }
-    );
+    const before = toAuditSnapshot(laporan);
+    const actor = {
+      changed_by: new mongoose.Types.ObjectId(user.userId),
+      changed_by_name: user.username,
+    };
+    const now = new Date();
+    const previousStatus = laporan.status;
+
+    // Record status transition
+    if (status && status !== laporan.status) {
+      laporan.history.push({
+        type: 'status',
+        from_status: laporan.status,
+        to_status: status,
+        ...actor,
+        ...(note && { note }),
+        at: now,
+      });
+      laporan.status = status;
+    }
+
+    // A new category brings its own SLA, still counted from the filing date
+    if (category && category !== laporan.category) {
+      laporan.category = category;
+      Object.assign(laporan, await computeDueDate(category, laporan.created_at));
+    }
+    if (priority) {
+      laporan.priority = priority;
+    }
+
+    // Record official response shown to the reporter
+    if (response !== undefined) {
+      laporan.response = DOMPurify.sanitize(response);
+      laporan.responded_at = now;
+      laporan.responded_by = actor.changed_by;
+      laporan.history.push({
+        type: 'response',
+        to_status: laporan.status,
+        ...actor,
+        at: now,
+      });
+    }
+
+    const updatedLaporan = await laporan.save();
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.LAPORAN,
+      entityId: laporan.id,
+      before,
+      after: toAuditSnapshot(updatedLaporan),
+    });
+
+    // Keep the reporter informed; the worker sends the queued emails
+    if (updatedLaporan.status !== previousStatus) {
+      await notifyStatusChanged(updatedLaporan, previousStatus);
+    }
+    if (response !== undefined) {
+      await notifyResponded(updatedLaporan);
+    }
+    if (updatedLaporan.status === 'resolved' && previousStatus !== 'resolved') {
+      await notifySurveyInvitation(updatedLaporan);
+    }
 
     return NextResponse.json({
       success: true,
-      laporan: updatedLaporan,
-      message: `Status laporan berhasil diubah menjadi ${status}`,
+      laporan: toStaffLaporan(updatedLaporan),
+      message: status
+        ? `Status laporan berhasil diubah menjadi ${status}`
+        : response !== undefined
+          ? 'Tanggapan berhasil dikirim'
+          : 'Laporan berhasil diperbarui',
     });
   } catch (error) {
     console.error('Error updating laporan:', error);
@@ -105,6 +210,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const guard = await guardRoute(request, '/api/laporan/[id]');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
@@ -125,6 +233,20 @@ export async function DELETE(
       );
     }
 
+    await deleteAttachments(laporan.attachments.map(file => file.stored_name));
+    await clearDuplicateFlags(laporan.id);
+    await detachMergedLaporan(laporan, guard.user!);
+    await deleteInternalNotes(laporan.id);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: AUDIT_ENTITY_TYPES.LAPORAN,
+      entityId: laporan.id,
+      before: toAuditSnapshot(laporan),
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Laporan deleted successfully',
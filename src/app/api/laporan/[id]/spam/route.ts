@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Laporan from '@/models/Laporan';
+import mongoose from 'mongoose';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/constants';
+import { blockLaporanSender, unblockLaporanSender } from '@/lib/antiSpam';
+import { OPEN_STATUSES } from '@/lib/sla';
+import { toStaffLaporan } from '@/lib/laporan';
+
+// POST - Mark laporan as spam and block its sender (Admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/laporan/[id]/spam');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const laporan = await Laporan.findById(params.id).select('+submitted_ip');
+
+    if (!laporan) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan not found' },
+        { status: 404 }
+      );
+    }
+
+    if (laporan.spam) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan is already marked as spam' },
+        { status: 400 }
+      );
+    }
+
+    const before = toAuditSnapshot(laporan);
+    const user = guard.user!;
+
+    // Spam needs no answer; close it without notifying the sender
+    laporan.spam = true;
+    if (OPEN_STATUSES.includes(laporan.status)) {
+      laporan.history.push({
+        type: 'status',
+        from_status: laporan.status,
+        to_status: 'closed',
+        changed_by: new mongoose.Types.ObjectId(user.userId),
+        changed_by_name: user.username,
+        note: 'Ditandai sebagai spam',
+        at: new Date(),
+      });
+      laporan.status = 'closed';
+    }
+
+    const updatedLaporan = await laporan.save();
+    const blocked = await blockLaporanSender(laporan, user);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.LAPORAN,
+      entityId: laporan.id,
+      before,
+      after: toAuditSnapshot(updatedLaporan),
+      summary: `Marked as spam, ${blocked} sender details blocked`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      laporan: toStaffLaporan(updatedLaporan),
+      message: 'Laporan ditandai sebagai spam dan pengirimnya diblokir',
+    });
+  } catch (error) {
+    console.error('Error marking laporan as spam:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to mark laporan as spam' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Unmark laporan as spam and lift the blocks it created (Admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const guard = await guardRoute(request, '/api/laporan/[id]/spam');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ID format' },
+        { status: 400 }
+      );
+    }
+
+    const laporan = await Laporan.findById(params.id);
+
+    if (!laporan) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!laporan.spam) {
+      return NextResponse.json(
+        { success: false, error: 'Laporan is not marked as spam' },
+        { status: 400 }
+      );
+    }
+
+    const before = toAuditSnapshot(laporan);
+
+    // The status is left closed; staff reopen it through the normal update if needed
+    laporan.spam = false;
+    const updatedLaporan = await laporan.save();
+    const unblocked = await unblockLaporanSender(laporan.id);
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: AUDIT_ENTITY_TYPES.LAPORAN,
+      entityId: laporan.id,
+      before,
+      after: toAuditSnapshot(updatedLaporan),
+      summary: `Unmarked as spam, ${unblocked} sender details unblocked`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      laporan: toStaffLaporan(updatedLaporan),
+      message: 'Tanda spam dihapus dan blokir pengirim dicabut',
+    });
+  } catch (error) {
+    console.error('Error unmarking laporan as spam:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to unmark laporan as spam' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { createCaptcha } from '@/lib/antiSpam';
+
+// GET - Issue a verification question for the public laporan form (Public)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/laporan/captcha');
+  if (guard.response) return guard.response;
+
+  try {
+    return NextResponse.json(
+      { success: true, challenge: createCaptcha() },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error creating captcha:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create captcha' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { guardRoute } from '@/lib/auth';
+import { buildLaporanQuery } from '@/lib/laporan';
+import { ExportFormat, laporanCsvStream, laporanXlsxStream } from '@/lib/laporanExport';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// GET - Download laporan matching the list filters as CSV or XLSX (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/laporan/export');
+  if (guard.response) return guard.response;
+
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'csv';
+
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json(
+        { success: false, error: 'Format must be csv or xlsx' },
+        { status: 400 }
+      );
+    }
+
+    const query = await buildLaporanQuery(searchParams, guard.user!.userId);
+    const body = format === 'xlsx' ? laporanXlsxStream(query) : laporanCsvStream(query);
+    const filename = `laporan-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting laporan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to export laporan' },
+      { status: 500 }
+    );
+  }
+}
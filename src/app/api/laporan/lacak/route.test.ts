@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import Laporan from '@/models/Laporan';
+import { hashPin } from '@/lib/laporan';
+import { POST } from './route';
+
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn(async () => undefined) }));
+
+function track(ip: string, ticket: string, pin: string) {
+  return POST(new NextRequest('http://localhost/api/laporan/lacak', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': ip },
+    body: JSON.stringify({ ticket, pin }),
+  }));
+}
+
+function findReturns(laporan: unknown) {
+  return vi.spyOn(Laporan, 'findOne').mockReturnValue({ select: vi.fn(async () => laporan) } as never);
+}
+
+describe('POST /api/laporan/lacak', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stops a client walking the ticket range before it reaches the database', async () => {
+    const findOne = findReturns(null);
+
+    // The limiter blocks once a client goes over ten failures
+    for (let i = 1; i <= 11; i++) {
+      expect((await track('198.51.100.20', `LPR-2026-${String(i).padStart(6, '0')}`, '123456')).status).toBe(404);
+    }
+    const blocked = await track('198.51.100.20', 'LPR-2026-000012', '123456');
+
+    expect(blocked.status).toBe(429);
+    expect(blocked.headers.get('retry-after')).toBeTruthy();
+    expect(findOne).toHaveBeenCalledTimes(11);
+
+    // Other clients are not affected
+    expect((await track('198.51.100.21', 'LPR-2026-000012', '123456')).status).toBe(404);
+  });
+
+  it('clears the wrong-PIN count after the right PIN', async () => {
+    const laporan = new Laporan({
+      ticket: 'LPR-2026-000042',
+      pin_hash: await hashPin('654321'),
+      pin_failed_attempts: 3,
+      message: 'Jalan di depan kantor rusak',
+      category: 'infrastruktur',
+      status: 'pending',
+    });
+    findReturns(laporan);
+    const updateOne = vi.spyOn(Laporan, 'updateOne').mockResolvedValue({} as never);
+
+    const response = await track('198.51.100.30', 'LPR-2026-000042', '654321');
+
+    expect(response.status).toBe(200);
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: laporan._id },
+      { $unset: { pin_failed_attempts: 1, pin_locked_until: 1 } }
+    );
+  });
+});
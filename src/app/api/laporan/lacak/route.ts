@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Laporan from '@/models/Laporan';
+import {
+  getPinLockoutRemaining,
+  normalizeTicket,
+  recordFailedPin,
+  resetFailedPins,
+  TICKET_PATTERN,
+  toPublicTracking,
+  verifyPin,
+} from '@/lib/laporan';
+import { guardRoute } from '@/lib/auth';
+import { getSubmitterIp } from '@/lib/antiSpam';
+import { rateLimiters } from '@/lib/security';
+
+const TOO_MANY_ATTEMPTS_ERROR = 'Terlalu banyak percobaan. Silakan coba lagi nanti.';
+
+function tooManyAttempts(retryAfter: number) {
+  return NextResponse.json(
+    { success: false, error: TOO_MANY_ATTEMPTS_ERROR },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
+// POST - Look up laporan status by ticket number and PIN (Public)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/laporan/lacak');
+  if (guard.response) return guard.response;
+
+  try {
+    // Failed lookups are also counted per client, so walking the ticket range
+    // is slowed down before it can lock many tickets or cost many PIN checks
+    const ipKey = `lacak:${getSubmitterIp(request) || 'unknown'}`;
+    if (rateLimiters.tracking.isBlocked(ipKey)) {
+      return tooManyAttempts(rateLimiters.tracking.getRetryAfter(ipKey));
+    }
+
+    const body = await request.json();
+    const { ticket, pin } = body;
+
+    if (!ticket || !pin || typeof ticket !== 'string' || typeof pin !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Nomor tiket dan PIN wajib diisi' },
+        { status: 400 }
+      );
+    }
+
+    const normalizedTicket = normalizeTicket(ticket);
+
+    // Same response for unknown tickets and wrong PINs
+    const invalidResponse = NextResponse.json(
+      { success: false, error: 'Nomor tiket atau PIN tidak valid' },
+      { status: 404 }
+    );
+
+    if (!TICKET_PATTERN.test(normalizedTicket)) {
+      rateLimiters.tracking.isAllowed(ipKey);
+      return invalidResponse;
+    }
+
+    await dbConnect();
+
+    const laporan = await Laporan.findOne({ ticket: normalizedTicket })
+      .select('+pin_hash +pin_failed_attempts +pin_locked_until');
+
+    if (!laporan) {
+      rateLimiters.tracking.isAllowed(ipKey);
+      return invalidResponse;
+    }
+
+    // Guesses are also throttled per ticket, whatever the client: the PIN is
+    // not even checked while the ticket is locked
+    const retryAfter = getPinLockoutRemaining(laporan);
+    if (retryAfter > 0) {
+      return tooManyAttempts(retryAfter);
+    }
+
+    if (!(await verifyPin(pin, laporan.pin_hash))) {
+      rateLimiters.tracking.isAllowed(ipKey);
+      await recordFailedPin(laporan._id as mongoose.Types.ObjectId);
+      return invalidResponse;
+    }
+
+    await resetFailedPins(laporan);
+
+    // Merged duplicates follow the report that carries on the case
+    const primary = laporan.duplicate_of ? await Laporan.findById(laporan.duplicate_of) : null;
+
+    return NextResponse.json({
+      success: true,
+      laporan: toPublicTracking(laporan, primary),
+    });
+  } catch (error) {
+    console.error('Error tracking laporan:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to track laporan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { buildLaporanRecap, parseRecapPeriod, renderRecapPdf } from '@/lib/laporanExport';
+
+// GET - Download the monthly or quarterly laporan recap as PDF (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/laporan/recap');
+  if (guard.response) return guard.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const period = parseRecapPeriod(searchParams.get('period'));
+
+    if (!period) {
+      return NextResponse.json(
+        { success: false, error: 'Period must be YYYY-MM or YYYY-Qn' },
+        { status: 400 }
+      );
+    }
+
+    const recap = await buildLaporanRecap(period);
+
+    // Totals only, for previewing before printing
+    if (searchParams.get('format') === 'json') {
+      return NextResponse.json({ success: true, recap });
+    }
+
+    const pdf = await renderRecapPdf(recap, guard.user!.username);
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="rekap-laporan-${period.slug}.pdf"`,
+        'Content-Length': String(pdf.length),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building laporan recap:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build laporan recap' },
+      { status: 500 }
+    );
+  }
+}
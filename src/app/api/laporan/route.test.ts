@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import Laporan from '@/models/Laporan';
+import AuditLog from '@/models/AuditLog';
+import { POST } from './route';
+
+// Everything that would reach MongoDB besides the two writes under test
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn(async () => undefined) }));
+vi.mock('@/lib/antiSpam', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/antiSpam')>()),
+  checkSubmission: vi.fn(() => ({ ok: true, challengeId: 'challenge-1' })),
+  spendChallenge: vi.fn(() => true),
+  isSenderBlocked: vi.fn(async () => false),
+}));
+vi.mock('@/lib/laporan', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/laporan')>()),
+  generateTicketNumber: vi.fn(async () => 'LPR-2026-000123'),
+}));
+vi.mock('@/lib/sla', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/sla')>()),
+  computeDueDate: vi.fn(async () => ({ sla_days: 5, due_at: new Date('2026-01-08T00:00:00Z') })),
+}));
+vi.mock('@/lib/duplicates', () => ({ flagPossibleDuplicates: vi.fn(async () => []) }));
+vi.mock('@/lib/notifications', () => ({ notifyLaporanReceived: vi.fn(async () => undefined) }));
+
+const SENDER_IP = '203.0.113.7';
+
+function submit(body: Record<string, unknown>) {
+  return POST(new NextRequest('http://localhost/api/laporan', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': SENDER_IP, 'user-agent': 'test-browser' },
+    body: JSON.stringify({ message: 'Jalan di depan kantor rusak', category: 'infrastruktur', ...body }),
+  }));
+}
+
+describe('POST /api/laporan', () => {
+  let saved: Record<string, unknown>[];
+  let audited: Record<string, unknown>[];
+
+  beforeEach(() => {
+    saved = [];
+    audited = [];
+    vi.spyOn(Laporan.prototype, 'save').mockImplementation(async function (this: InstanceType<typeof Laporan>) {
+      saved.push(this.toObject() as unknown as Record<string, unknown>);
+      return this;
+    });
+    vi.spyOn(AuditLog, 'create').mockImplementation((async (entry: Record<string, unknown>) => {
+      audited.push(entry);
+      return entry;
+    }) as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the sender address out of the audit trail for anonymous reports', async () => {
+    const response = await submit({ confidentiality: 'anonymous' });
+
+    expect(response.status).toBe(201);
+    expect(saved[0]).not.toHaveProperty('submitted_ip');
+    expect(audited).toHaveLength(1);
+    expect(audited[0]).not.toHaveProperty('ip');
+    expect(audited[0]).not.toHaveProperty('user_agent');
+    expect(JSON.stringify(audited[0])).not.toContain(SENDER_IP);
+  });
+
+  it('records the sender address for normal reports', async () => {
+    const response = await submit({
+      confidentiality: 'normal',
+      nama: 'Budi Santoso',
+      email: 'budi@example.com',
+      phone: '081234567890',
+      address: 'Jl. Merdeka 1',
+    });
+
+    expect(response.status).toBe(201);
+    expect(saved[0]).toHaveProperty('submitted_ip', SENDER_IP);
+    expect(audited[0]).toHaveProperty('ip', SENDER_IP);
+  });
+});
@@ -2,36 +2,67 @@ import { NextRequest, NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
 import Laporan from '@/models/Laporan';
 import DOMPurify from 'isomorphic-dompurify';
+import {
+  buildLaporanQuery,
+  generatePin,
+  generateTicketNumber,
+  hashPin,
+  isLaporanConfidentiality,
+  sealIdentity,
+  toStaffLaporan,
+} from '@/lib/laporan';
+import { guardRoute } from '@/lib/auth';
+import { recordAudit, toAuditSnapshot } from '@/lib/audit';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  LAPORAN_CONFIDENTIALITY,
+  LAPORAN_MAX_ATTACHMENTS,
+  LAPORAN_MAX_REQUEST_BYTES,
+} from '@/lib/constants';
+import { notifyLaporanReceived } from '@/lib/notifications';
+import { computeDueDate, isLaporanCategory, isOverdue, overdueQuery } from '@/lib/sla';
+import { checkAttachment, deleteAttachments, saveAttachment } from '@/lib/uploads';
+import { checkSubmission, getSubmitterIp, isSenderBlocked, spendChallenge } from '@/lib/antiSpam';
+import { flagPossibleDuplicates } from '@/lib/duplicates';
+import { auditUtils, encryptionUtils, rateLimiters } from '@/lib/security';
+
+const CAPTCHA_ERROR = 'Jawaban verifikasi salah atau kedaluwarsa. Silakan jawab pertanyaan yang baru.';
+
+// A text field of the submitted form; anything else counts as left empty
+function readText(body: Record<string, unknown>, name: string): string {
+  const value = body[name];
+  return typeof value === 'string' ? value : '';
+}
 
 // GET - Fetch all laporan with pagination (Admin only)
 export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/laporan');
+  if (guard.response) return guard.response;
+
   try {
     await dbConnect();
 
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
-    const status = searchParams.get('status');
-    const search = searchParams.get('search') || '';
+    const sort = searchParams.get('sort');
 
     const skip = (page - 1) * limit;
 
-    // Build query
-    const query: any = {};
-    if (status && ['pending', 'in_progress', 'resolved', 'closed'].includes(status)) {
-      query.status = status;
-    }
-    if (search) {
-      query.$or = [
-        { nama: { $regex: search, $options: 'i' } },
-        { email: { $regex: search, $options: 'i' } },
-        { message: { $regex: search, $options: 'i' } },
-      ];
-    }
+    const query = await buildLaporanQuery(searchParams, guard.user!.userId);
 
     // Fetch laporan with pagination
+    // Earliest deadline first. Reports filed before SLAs existed have no
+    // due date and sort ahead of the rest.
+    const sortOrder: Record<string, 1 | -1> = sort === 'due_at'
+      ? { due_at: 1, created_at: -1 }
+      : { created_at: -1 };
+
+    // The list has no use for addresses; contact details come masked
     const laporan = await Laporan.find(query)
-      .sort({ created_at: -1 })
+      .select('-address')
+      .sort(sortOrder)
       .skip(skip)
       .limit(limit);
 
@@ -40,6 +71,7 @@ export async function GET(request: NextRequest) {
 
     // Get status counts
     const statusCounts = await Laporan.aggregate([
+      { $match: { spam: { $ne: true } } },
       {
         $group: {
           _id: '$status',
@@ -59,9 +91,15 @@ export async function GET(request: NextRequest) {
       statusStats[item._id as keyof typeof statusStats] = item.count;
     });
 
+    const [overdueCount, spamCount, duplicateCount] = await Promise.all([
+      Laporan.countDocuments({ ...overdueQuery(), spam: { $ne: true } }),
+      Laporan.countDocuments({ spam: true }),
+      Laporan.countDocuments({ 'possible_duplicates.0': { $exists: true }, duplicate_of: { $exists: false }, spam: { $ne: true } }),
+    ]);
+
     return NextResponse.json({
       success: true,
-      laporan,
+      laporan: laporan.map(item => ({ ...toStaffLaporan(item), is_overdue: isOverdue(item) })),
       pagination: {
         page,
         limit,
@@ -71,6 +109,9 @@ export async function GET(request: NextRequest) {
         hasPrev: page > 1,
       },
       statusStats,
+      overdueCount,
+      spamCount,
+      duplicateCount,
     });
   } catch (error) {
     console.error('Error fetching laporan:', error);
@@ -83,44 +124,228 @@ export async function GET(request: NextRequest) {
 
 // POST - Create new laporan (Public)
 export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/laporan');
+  if (guard.response) return guard.response;
+
   try {
+    // Throttle submissions per client
+    const ip = getSubmitterIp(request);
+    if (!rateLimiters.api.isAllowed(`laporan:${ip || 'unknown'}`)) {
+      return NextResponse.json(
+        { success: false, error: 'Terlalu banyak laporan dikirim. Silakan coba lagi nanti.' },
+        { status: 429 }
+      );
+    }
+
+    // Refuse oversized bodies before any of it is buffered. Multipart uploads
+    // must declare their length so the limit cannot be dodged by streaming.
+    const multipart = request.headers.get('content-type')?.includes('multipart/form-data');
+    const contentLength = Number(request.headers.get('content-length') ?? NaN);
+    if (multipart && !Number.isFinite(contentLength)) {
+      return NextResponse.json(
+        { success: false, error: 'Content-Length is required' },
+        { status: 411 }
+      );
+    }
+    if (contentLength > LAPORAN_MAX_REQUEST_BYTES) {
+      return NextResponse.json(
+        { success: false, error: `Request exceeds ${LAPORAN_MAX_REQUEST_BYTES / 1024 / 1024}MB` },
+        { status: 413 }
+      );
+    }
+
     await dbConnect();
 
-    const body = await request.json();
-    const { nama, email, phone, address, message } = body;
+    // The contact form sends multipart data so files can be attached
+    let body: Record<string, unknown>;
+    let files: File[] = [];
+    if (multipart) {
+      const form = await request.formData();
+      body = Object.fromEntries(
+        Array.from(form.entries()).filter(([, value]) => typeof value === 'string')
+      );
+      files = form.getAll('attachments')
+        .filter((value): value is File => typeof value !== 'string' && value.size > 0);
+    } else {
+      const parsed: unknown = await request.json();
+      body = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+    }
+
+    const spamCheck = checkSubmission(body);
+    if (!spamCheck.ok) {
+      auditUtils.logSecurityEvent('laporan_spam_rejected', undefined, { ip, reason: spamCheck.reason }, 'low');
+      return NextResponse.json(
+        {
+          success: false,
+          error: spamCheck.reason === 'too_fast'
+            ? 'Formulir dikirim terlalu cepat. Silakan periksa kembali isian Anda lalu kirim ulang.'
+            : CAPTCHA_ERROR,
+        },
+        { status: 400 }
+      );
+    }
+
+    const nama = readText(body, 'nama');
+    const email = readText(body, 'email');
+    const phone = readText(body, 'phone');
+    const address = readText(body, 'address');
+    const message = readText(body, 'message');
+    const category = readText(body, 'category');
+    const confidentiality = readText(body, 'confidentiality') || LAPORAN_CONFIDENTIALITY.NORMAL;
+
+    if (!isLaporanConfidentiality(confidentiality)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid confidentiality' },
+        { status: 400 }
+      );
+    }
+
+    // Confidential identities are only ever stored encrypted with ENCRYPTION_KEY
+    if (confidentiality === LAPORAN_CONFIDENTIALITY.CONFIDENTIAL && !encryptionUtils.hasFieldKey()) {
+      console.error('Confidential laporan refused: ENCRYPTION_KEY is not set');
+      return NextResponse.json(
+        { success: false, error: 'Laporan rahasia sementara tidak dapat diterima. Silakan pilih mode lain atau hubungi kantor kami.' },
+        { status: 503 }
+      );
+    }
+
+    // Anonymous reports carry no identity at all; anything sent is ignored
+    const anonymous = confidentiality === LAPORAN_CONFIDENTIALITY.ANONYMOUS;
 
     // Validate required fields
-    if (!nama || !email || !phone || !address || !message) {
+    if (!message || !category || (!anonymous && (!nama || !email || !phone || !address))) {
       return NextResponse.json(
         { success: false, error: 'All fields are required' },
         { status: 400 }
       );
     }
 
+    if (!isLaporanCategory(category)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid category' },
+        { status: 400 }
+      );
+    }
+
     // Validate email format
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
+    if (!anonymous && !emailRegex.test(email)) {
       return NextResponse.json(
         { success: false, error: 'Invalid email format' },
         { status: 400 }
       );
     }
 
+    // Same wording as any other refusal so blocked senders learn nothing
+    if (await isSenderBlocked(anonymous ? { ip } : { email, phone, ip })) {
+      auditUtils.logSecurityEvent('laporan_sender_blocked', undefined, { ip }, 'low');
+      return NextResponse.json(
+        { success: false, error: 'Laporan tidak dapat diterima. Silakan hubungi kantor kami secara langsung.' },
+        { status: 403 }
+      );
+    }
+
+    if (files.length > LAPORAN_MAX_ATTACHMENTS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${LAPORAN_MAX_ATTACHMENTS} attachments are allowed` },
+        { status: 400 }
+      );
+    }
+
+    // Check the real file type and size before anything is stored
+    const checkedFiles = [];
+    for (const file of files) {
+      const result = await checkAttachment(file);
+      if (!result.valid) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid attachment', details: [result.error] },
+          { status: 400 }
+        );
+      }
+      checkedFiles.push({ name: file.name, ...result });
+    }
+
     // Sanitize content
     const sanitizedMessage = DOMPurify.sanitize(message);
-    const sanitizedAddress = DOMPurify.sanitize(address);
-
-    // Create new laporan
-    const laporan = new Laporan({
+    const identity = anonymous ? null : {
       nama: nama.trim(),
       email: email.trim().toLowerCase(),
       phone: phone.trim(),
-      address: sanitizedAddress,
+      address: DOMPurify.sanitize(address),
+    };
+
+    // Check the identity against the model rules before it is encrypted
+    if (identity && confidentiality === LAPORAN_CONFIDENTIALITY.CONFIDENTIAL) {
+      const invalid = new Laporan(identity).validateSync(['nama', 'email', 'phone', 'address']);
+      if (invalid) {
+        return NextResponse.json(
+          { success: false, error: 'Validation failed', details: Object.values(invalid.errors).map(error => error.message) },
+          { status: 400 }
+        );
+      }
+    }
+
+    // The challenge is only used up once the laporan is about to be stored
+    if (!spendChallenge(spamCheck.challengeId)) {
+      auditUtils.logSecurityEvent('laporan_spam_rejected', undefined, { ip, reason: 'captcha' }, 'low');
+      return NextResponse.json(
+        { success: false, error: CAPTCHA_ERROR },
+        { status: 400 }
+      );
+    }
+
+    // Issue ticket number and access PIN for public tracking
+    const ticket = await generateTicketNumber();
+    const pin = generatePin();
+
+    // Priority is set by staff during triage; the deadline follows the category SLA
+    const sla = await computeDueDate(category);
+
+    const attachments = await Promise.all(
+      checkedFiles.map(file => saveAttachment(file.buffer, file.mimeType, file.name))
+    );
+
+    // Create new laporan
+    const laporan = new Laporan({
+      ticket,
+      pin_hash: await hashPin(pin),
+      confidentiality,
+      // Only normal reports keep the identity, and the sender's IP, in plain
+      ...(confidentiality === LAPORAN_CONFIDENTIALITY.NORMAL && identity),
+      ...(confidentiality === LAPORAN_CONFIDENTIALITY.CONFIDENTIAL && identity && { identity_encrypted: sealIdentity(identity) }),
       message: sanitizedMessage,
+      attachments,
+      category,
+      ...sla,
       status: 'pending',
+      history: [{ type: 'status', to_status: 'pending', at: new Date() }],
+      ...(ip && confidentiality === LAPORAN_CONFIDENTIALITY.NORMAL && { submitted_ip: ip }),
     });
 
-    await laporan.save();
+    try {
+      await laporan.save();
+    } catch (error) {
+      // Do not leave orphaned files behind
+      await deleteAttachments(attachments.map(file => file.stored_name));
+      throw error;
+    }
+
+    await recordAudit({
+      request,
+      actor: guard.user,
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: AUDIT_ENTITY_TYPES.LAPORAN,
+      entityId: laporan.id,
+      after: toAuditSnapshot(laporan),
+      // Like the report itself, the trail only keeps the sender's address for normal reports
+      omitClient: confidentiality !== LAPORAN_CONFIDENTIALITY.NORMAL,
+    });
+
+    // Flag likely repeats for staff to review; merging is left to them
+    await flagPossibleDuplicates(laporan);
+
+    // Queue the acknowledgement; the worker sends it
+    await notifyLaporanReceived(laporan);
 
     return NextResponse.json(
       { 
@@ -128,9 +353,16 @@ export async function POST(request: NextRequest) {
         message: 'Laporan berhasil dikirim. Terima kasih atas partisipasi Anda.',
         laporan: {
           _id: laporan._id,
+          ticket: laporan.ticket,
           nama: laporan.nama,
+          confidentiality: laporan.confidentiality,
+          category: laporan.category,
+          attachments: laporan.attachments.length,
+          due_at: laporan.due_at,
           created_at: laporan.created_at,
         },
+        // The PIN is only ever returned here; it is stored hashed
+        pin,
       },
       { status: 201 }
     );
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { getLaporanStatistics, parseStatsRange } from '@/lib/laporanStats';
+
+// GET - Fetch laporan statistics for a date range (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/laporan/statistics');
+  if (guard.response) return guard.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const range = parseStatsRange(searchParams);
+
+    if (typeof range === 'string') {
+      return NextResponse.json(
+        { success: false, error: range },
+        { status: 400 }
+      );
+    }
+
+    const statistics = await getLaporanStatistics(range);
+
+    return NextResponse.json({
+      success: true,
+      statistics,
+    });
+  } catch (error) {
+    console.error('Error fetching laporan statistics:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch laporan statistics' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { getWorkload } from '@/lib/assignment';
+
+// GET - Fetch open report counts per staff member and bidang (Admin only)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/laporan/workload');
+  if (guard.response) return guard.response;
+
+  try {
+    const workload = await getWorkload();
+
+    return NextResponse.json({
+      success: true,
+      ...workload,
+    });
+  } catch (error) {
+    console.error('Error fetching workload:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch workload' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { getIkmSummary, parseIkmPeriod } from '@/lib/ikm';
+
+// GET - Fetch the satisfaction index for a period, overall and per service (Public)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/survei/ikm');
+  if (guard.response) return guard.response;
+
+  try {
+    const period = parseIkmPeriod(new URL(request.url).searchParams.get('period'));
+
+    if (!period) {
+      return NextResponse.json(
+        { success: false, error: 'Period must be YYYY, YYYY-Sn, YYYY-Qn or YYYY-MM' },
+        { status: 400 }
+      );
+    }
+
+    const summary = await getIkmSummary(period);
+
+    return NextResponse.json({
+      success: true,
+      summary,
+    });
+  } catch (error) {
+    console.error('Error fetching IKM:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch IKM' },
+      { status: 500 }
+    );
+  }
+}
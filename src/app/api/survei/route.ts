@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { guardRoute } from '@/lib/auth';
+import { checkSubmission, getSubmitterIp, spendChallenge } from '@/lib/antiSpam';
+import { findSurveyTicket, submitLaporanSurvey, submitWalkInSurvey } from '@/lib/ikm';
+import { auditUtils, rateLimiters } from '@/lib/security';
+import { surveySchemas, safeValidateData, formatValidationErrors } from '@/lib/validation';
+
+const INVALID_LINK_ERROR = 'Tautan survei tidak valid, sudah kedaluwarsa, atau sudah digunakan';
+const CAPTCHA_ERROR = 'Jawaban verifikasi salah atau kedaluwarsa. Silakan jawab pertanyaan yang baru.';
+
+// GET - Check a survey link before the form is shown (Public)
+export async function GET(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/survei');
+  if (guard.response) return guard.response;
+
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+    const ticket = token ? await findSurveyTicket(token) : null;
+
+    if (!ticket) {
+      return NextResponse.json(
+        { success: false, error: INVALID_LINK_ERROR },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, ticket },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error checking survey link:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to check survey link' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Submit a satisfaction survey, from a survey link or the public page (Public)
+export async function POST(request: NextRequest) {
+  const guard = await guardRoute(request, '/api/survei');
+  if (guard.response) return guard.response;
+
+  try {
+    // Throttle submissions per client
+    const ip = getSubmitterIp(request);
+    if (!rateLimiters.api.isAllowed(`survei:${ip || 'unknown'}`)) {
+      return NextResponse.json(
+        { success: false, error: 'Terlalu banyak survei dikirim. Silakan coba lagi nanti.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+
+    // A survey link is proof enough; the open form needs the verification question
+    const spamCheck = body?.token ? null : checkSubmission(body);
+    if (spamCheck && !spamCheck.ok) {
+      auditUtils.logSecurityEvent('survey_spam_rejected', undefined, { ip, reason: spamCheck.reason }, 'low');
+      return NextResponse.json(
+        {
+          success: false,
+          error: spamCheck.reason === 'too_fast'
+            ? 'Formulir dikirim terlalu cepat. Silakan periksa kembali jawaban Anda lalu kirim ulang.'
+            : CAPTCHA_ERROR,
+        },
+        { status: 400 }
+      );
+    }
+
+    const validation = safeValidateData(surveySchemas.response, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: formatValidationErrors(validation.errors) },
+        { status: 400 }
+      );
+    }
+
+    const { token, service, scores, suggestion } = validation.data;
+    const answers = { scores, ...(suggestion && { suggestion }) };
+
+    if (token) {
+      const response = await submitLaporanSurvey(token, answers);
+      if (!response) {
+        return NextResponse.json(
+          { success: false, error: INVALID_LINK_ERROR },
+          { status: 404 }
+        );
+      }
+    } else {
+      // The challenge is only used up once the answers are about to be stored
+      if (spamCheck?.ok && !spendChallenge(spamCheck.challengeId)) {
+        auditUtils.logSecurityEvent('survey_spam_rejected', undefined, { ip, reason: 'captcha' }, 'low');
+        return NextResponse.json(
+          { success: false, error: CAPTCHA_ERROR },
+          { status: 400 }
+        );
+      }
+      await submitWalkInSurvey(service!, answers);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Terima kasih, jawaban survei Anda telah kami terima',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error submitting survey:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to submit survey' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { API_ROUTES } from '@/lib/constants';
+import { getApiErrorMessages } from '@/lib/utils';
+
+const ForgotPasswordPage = () => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(API_ROUTES.AUTH.FORGOT_PASSWORD, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage(data.message);
+      } else if (response.status === 429) {
+        setError('Terlalu banyak permintaan reset password. Silakan coba lagi nanti.');
+      } else {
+        setError(getApiErrorMessages(data, 'Gagal mengirim permintaan').join(', '));
+      }
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      setError('Terjadi kesalahan, silakan coba lagi');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary to-secondary flex items-center justify-center p-4">
+      <div className="relative w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-2xl p-8">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-4">
+              <Image
+                src="/logo-dpmptsp-ppu.png"
+                alt="Logo DPMPTSP PPU"
+                width={80}
+                height={80}
+                className="h-20 w-auto"
+              />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              Lupa Password
+            </h1>
+            <p className="text-gray-600">
+              Masukkan email akun admin Anda untuk menerima tautan reset password.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          {message ? (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <p className="text-green-700 text-sm">{message}</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  name="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => {
+                    setEmail(e.target.value);
+                    setError('');
+                  }}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                  placeholder="nama@dpmptsp.go.id"
+                  disabled={loading}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-primary hover:bg-primary/90 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Mengirim...' : 'Kirim Tautan Reset'}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <a href="/admin" className="text-sm text-primary hover:text-primary/80">
+              Kembali ke login
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
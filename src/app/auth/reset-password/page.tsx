@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { API_ROUTES, PAGE_ROUTES, VALIDATION_RULES } from '@/lib/constants';
+import { getApiErrorMessages } from '@/lib/utils';
+
+const inputClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200';
+
+const ResetPasswordPage = () => {
+  const [token, setToken] = useState('');
+  const [tokenValid, setTokenValid] = useState<boolean | null>(null);
+  const [formData, setFormData] = useState({
+    newPassword: '',
+    confirmNewPassword: '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    const value = new URLSearchParams(window.location.search).get('token') || '';
+    setToken(value);
+
+    if (!value) {
+      setTokenValid(false);
+      return;
+    }
+
+    fetch(`${API_ROUTES.AUTH.RESET_PASSWORD}?token=${encodeURIComponent(value)}`)
+      .then((response) => response.json())
+      .then((data) => setTokenValid(!!data.valid))
+      .catch((error) => {
+        console.error('Error checking reset token:', error);
+        setTokenValid(false);
+      });
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+    setErrors([]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.newPassword !== formData.confirmNewPassword) {
+      setErrors(['Konfirmasi password baru tidak cocok']);
+      return;
+    }
+
+    setLoading(true);
+    setErrors([]);
+
+    try {
+      const response = await fetch(API_ROUTES.AUTH.RESET_PASSWORD, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, ...formData }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSuccess(data.message);
+        setFormData({ newPassword: '', confirmNewPassword: '' });
+      } else if (data.error === 'Invalid or expired reset token') {
+        setTokenValid(false);
+      } else {
+        setErrors(getApiErrorMessages(data, 'Gagal mengatur ulang password'));
+      }
+    } catch (error) {
+      console.error('Reset password error:', error);
+      setErrors(['Terjadi kesalahan, silakan coba lagi']);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary to-secondary flex items-center justify-center p-4">
+      <div className="relative w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-2xl p-8">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="flex justify-center mb-4">
+              <Image
+                src="/logo-dpmptsp-ppu.png"
+                alt="Logo DPMPTSP PPU"
+                width={80}
+                height={80}
+                className="h-20 w-auto"
+              />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              Atur Ulang Password
+            </h1>
+            <p className="text-gray-600">
+              Minimal {VALIDATION_RULES.PASSWORD.MIN_LENGTH} karakter dengan huruf besar, huruf kecil, dan angka.
+            </p>
+          </div>
+
+          {tokenValid === null ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : success ? (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <p className="text-green-700 text-sm">{success}</p>
+            </div>
+          ) : !tokenValid ? (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">
+                Tautan reset password tidak valid, sudah digunakan, atau telah kedaluwarsa.{' '}
+                <a href={PAGE_ROUTES.AUTH.FORGOT_PASSWORD} className="underline">
+                  Minta tautan baru
+                </a>
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {errors.length > 0 && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <ul className="text-red-700 text-sm list-disc list-inside">
+                    {errors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  Password Baru
+                </label>
+                <input
+                  type="password"
+                  id="newPassword"
+                  name="newPassword"
+                  autoComplete="new-password"
+                  value={formData.newPassword}
+                  onChange={handleChange}
+                  required
+                  minLength={VALIDATION_RULES.PASSWORD.MIN_LENGTH}
+                  maxLength={VALIDATION_RULES.PASSWORD.MAX_LENGTH}
+                  className={inputClassName}
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="confirmNewPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  Konfirmasi Password Baru
+                </label>
+                <input
+                  type="password"
+                  id="confirmNewPassword"
+                  name="confirmNewPassword"
+                  autoComplete="new-password"
+                  value={formData.confirmNewPassword}
+                  onChange={handleChange}
+                  required
+                  className={inputClassName}
+                  disabled={loading}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-primary hover:bg-primary/90 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Menyimpan...' : 'Simpan Password Baru'}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <a href="/admin" className="text-sm text-primary hover:text-primary/80">
+              Kembali ke login
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,35 @@
+import { notFound } from 'next/navigation';
+import BeritaArchive from '@/components/BeritaArchive';
+import { BERITA_CATEGORIES, BERITA_CATEGORY_LABELS, BeritaCategory } from '@/lib/constants';
+
+interface BeritaCategoryPageProps {
+  params: {
+    category: string;
+  };
+}
+
+const isCategory = (value: string): value is BeritaCategory =>
+  (Object.values(BERITA_CATEGORIES) as string[]).includes(value);
+
+export function generateMetadata({ params }: BeritaCategoryPageProps) {
+  if (!isCategory(params.category)) {
+    return {};
+  }
+  return { title: `${BERITA_CATEGORY_LABELS[params.category]} - DPMPTSP Penajam Paser Utara` };
+}
+
+export default function BeritaCategoryPage({ params }: BeritaCategoryPageProps) {
+  if (!isCategory(params.category)) {
+    notFound();
+  }
+
+  const label = BERITA_CATEGORY_LABELS[params.category];
+
+  return (
+    <BeritaArchive
+      title={label}
+      description={`Kumpulan berita kategori ${label} dari DPMPTSP Kabupaten Penajam Paser Utara.`}
+      category={params.category}
+    />
+  );
+}
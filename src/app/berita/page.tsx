@@ -5,6 +5,8 @@ import Link from 'next/link';
 import Image from 'next/image';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
+import BeritaTagCloud from '@/components/BeritaTagCloud';
+import { BERITA_CATEGORIES, BERITA_CATEGORY_LABELS, PAGE_ROUTES } from '@/lib/constants';
 
 interface NewsItem {
   _id: string;
@@ -14,18 +16,18 @@ interface NewsItem {
   image_url: string;
   published: boolean;
   views: number;
-  createdAt: string;
-  updatedAt: string;
+  created_at: string;
+  updated_at: string;
 }
 
 interface NewsResponse {
   success: boolean;
-  data: NewsItem[];
+  berita: NewsItem[];
   pagination: {
     page: number;
     limit: number;
     total: number;
-    pages: number;
+    totalPages: number;
   };
   error?: string;
 }
@@ -56,8 +58,13 @@ const BeritaPage = () => {
       const data: NewsResponse = await response.json();
 
       if (data.success) {
-        setNews(data.data);
-        setPagination(data.pagination);
+        setNews(data.berita);
+        setPagination({
+          page: data.pagination.page,
+          limit: data.pagination.limit,
+          total: data.pagination.total,
+          pages: data.pagination.totalPages,
+        });
         setError('');
       } else {
         setError(data.error || 'Gagal memuat berita');
@@ -138,6 +145,17 @@ const BeritaPage = () => {
               </button>
             </div>
           </form>
+          <div className="max-w-2xl mx-auto mt-4 flex flex-wrap justify-center gap-2">
+            {Object.values(BERITA_CATEGORIES).map(category => (
+              <Link
+                key={category}
+                href={PAGE_ROUTES.BERITA.CATEGORY(category)}
+                className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700 hover:bg-primary hover:text-white transition-colors duration-200"
+              >
+                {BERITA_CATEGORY_LABELS[category]}
+              </Link>
+            ))}
+          </div>
         </div>
       </section>
 
@@ -249,7 +267,7 @@ const BeritaPage = () => {
                         <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                         </svg>
-                        {formatDate(item.createdAt)}
+                        {formatDate(item.created_at)}
                       </div>
                       
                       <Link href={`/berita/${item.slug}`}>
@@ -336,6 +354,11 @@ const BeritaPage = () => {
               )}
             </>
           )}
+
+          {/* Tag Cloud */}
+          <div className="mt-12">
+            <BeritaTagCloud />
+          </div>
         </div>
       </section>
 
@@ -0,0 +1,23 @@
+import BeritaArchive from '@/components/BeritaArchive';
+
+interface BeritaTagPageProps {
+  params: {
+    tag: string;
+  };
+}
+
+export function generateMetadata({ params }: BeritaTagPageProps) {
+  return { title: `#${decodeURIComponent(params.tag)} - DPMPTSP Penajam Paser Utara` };
+}
+
+export default function BeritaTagPage({ params }: BeritaTagPageProps) {
+  const tag = decodeURIComponent(params.tag).toLowerCase();
+
+  return (
+    <BeritaArchive
+      title={`#${tag}`}
+      description={`Berita dengan tag "${tag}" dari DPMPTSP Kabupaten Penajam Paser Utara.`}
+      tag={tag}
+    />
+  );
+}
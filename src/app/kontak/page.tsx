@@ -1,22 +1,83 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
 import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
+import {
+  ALLOWED_DOCUMENT_TYPES,
+  ALLOWED_IMAGE_TYPES,
+  FILE_SIZE_LIMITS,
+  LAPORAN_CATEGORY_LABELS,
+  LAPORAN_CONFIDENTIALITY,
+  LAPORAN_MAX_ATTACHMENTS,
+  LaporanCategory,
+  LaporanConfidentiality,
+} from '@/lib/constants';
+
+const ACCEPTED_FILE_TYPES = [...ALLOWED_IMAGE_TYPES, ...ALLOWED_DOCUMENT_TYPES].join(',');
+
+// Reporting modes offered on the form
+const confidentialityOptions: { value: LaporanConfidentiality; label: string; description: string }[] = [
+  {
+    value: LAPORAN_CONFIDENTIALITY.NORMAL,
+    label: 'Biasa',
+    description: 'Identitas Anda dapat dilihat petugas yang menangani laporan.',
+  },
+  {
+    value: LAPORAN_CONFIDENTIALITY.CONFIDENTIAL,
+    label: 'Rahasia',
+    description: 'Identitas Anda disimpan terenkripsi dan hanya dapat dibuka oleh pejabat berwenang. Setiap pembukaan tercatat.',
+  },
+  {
+    value: LAPORAN_CONFIDENTIALITY.ANONYMOUS,
+    label: 'Anonim',
+    description: 'Tanpa identitas. Anda hanya menerima nomor tiket dan PIN untuk memantau laporan.',
+  },
+];
+
+const emptyForm = {
+  confidentiality: LAPORAN_CONFIDENTIALITY.NORMAL as LaporanConfidentiality,
+  nama: '',
+  email: '',
+  phone: '',
+  address: '',
+  category: '',
+  message: ''
+};
 
 const KontakPage = () => {
-  const [formData, setFormData] = useState({
-    nama: '',
-    email: '',
-    phone: '',
-    address: '',
-    message: ''
-  });
+  const [formData, setFormData] = useState(emptyForm);
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [submission, setSubmission] = useState<{ ticket: string; pin: string } | null>(null);
   const [error, setError] = useState('');
+  const [captcha, setCaptcha] = useState<{ question: string; token: string } | null>(null);
+  const [captchaAnswer, setCaptchaAnswer] = useState('');
+  // Hidden from people; bots that fill every field give themselves away
+  const [honeypot, setHoneypot] = useState('');
+
+  // Each question can be answered once, so a new one is loaded after every attempt
+  const loadCaptcha = async () => {
+    try {
+      setCaptchaAnswer('');
+      const response = await fetch('/api/laporan/captcha', { cache: 'no-store' });
+      const data = await response.json();
+      if (data.success) {
+        setCaptcha(data.challenge);
+      }
+    } catch (error) {
+      console.error('Error loading captcha:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadCaptcha();
+  }, []);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
@@ -25,71 +86,120 @@ const KontakPage = () => {
     setError('');
   };
 
+  // Quick checks for a friendlier message; the server verifies the real file type
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    setError('');
+
+    if (selected.length > LAPORAN_MAX_ATTACHMENTS) {
+      setError(`Maksimal ${LAPORAN_MAX_ATTACHMENTS} lampiran`);
+      e.target.value = '';
+      setFiles([]);
+      return;
+    }
+
+    const tooLarge = selected.find(file => {
+      const limit = file.type.startsWith('image/') ? FILE_SIZE_LIMITS.IMAGE : FILE_SIZE_LIMITS.DOCUMENT;
+      return file.size > limit;
+    });
+    if (tooLarge) {
+      setError(`Ukuran file ${tooLarge.name} melebihi batas (gambar 5MB, dokumen 10MB)`);
+      e.target.value = '';
+      setFiles([]);
+      return;
+    }
+
+    setFiles(selected);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError('');
     setSuccess(false);
+    setSubmission(null);
+
+    const anonymous = formData.confidentiality === LAPORAN_CONFIDENTIALITY.ANONYMOUS;
 
     // Validation
-    if (!formData.nama.trim()) {
+    if (!anonymous && !formData.nama.trim()) {
       setError('Nama harus diisi');
       setLoading(false);
       return;
     }
 
-    if (!formData.email.trim()) {
+    if (!anonymous && !formData.email.trim()) {
       setError('Email harus diisi');
       setLoading(false);
       return;
     }
 
-    if (!formData.phone.trim()) {
+    if (!anonymous && !formData.phone.trim()) {
       setError('Nomor telepon harus diisi');
       setLoading(false);
       return;
     }
 
-    if (!formData.address.trim()) {
+    if (!anonymous && !formData.address.trim()) {
       setError('Alamat harus diisi');
       setLoading(false);
       return;
     }
 
+    if (!formData.category) {
+      setError('Kategori laporan harus dipilih');
+      setLoading(false);
+      return;
+    }
+
     if (!formData.message.trim()) {
       setError('Pesan harus diisi');
       setLoading(false);
       return;
     }
 
+    if (!captcha || !captchaAnswer.trim()) {
+      setError('Jawaban verifikasi harus diisi');
+      setLoading(false);
+      return;
+    }
+
     try {
+      // Multipart so attachments travel with the form; the browser sets the boundary
+      const payload = new FormData();
+      // Anonymous reports leave the identity fields behind entirely
+      Object.entries(formData)
+        .filter(([key]) => !anonymous || !['nama', 'email', 'phone', 'address'].includes(key))
+        .forEach(([key, value]) => payload.append(key, value));
+      files.forEach(file => payload.append('attachments', file));
+      payload.append('captcha', captchaAnswer.trim());
+      payload.append('captcha_token', captcha.token);
+      payload.append('website', honeypot);
+
       const response = await fetch('/api/laporan', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
+        body: payload,
       });
 
       const data = await response.json();
 
       if (data.success) {
         setSuccess(true);
-        setFormData({
-          nama: '',
-          email: '',
-          phone: '',
-          address: '',
-          message: ''
-        });
+        setSubmission({ ticket: data.laporan.ticket, pin: data.pin });
+        setFormData(emptyForm);
+        setFiles([]);
+        if (fileInputRef.current) {
+          fileInputRef.current.value = '';
+        }
       } else {
-        setError(data.error || 'Gagal mengirim laporan');
+        setError([data.error || 'Gagal mengirim laporan', ...(data.details || [])].join(': '));
       }
     } catch (error) {
       console.error('Error submitting laporan:', error);
       setError('Terjadi kesalahan saat mengirim laporan');
     } finally {
       setLoading(false);
+      loadCaptcha();
     }
   };
 
@@ -219,6 +329,25 @@ const KontakPage = () => {
                       Terima kasih! Pesan Anda telah berhasil dikirim. Kami akan segera merespons.
                     </p>
                   </div>
+                  {submission && (
+                    <div className="mt-4 p-4 bg-white border border-green-200 rounded-lg text-sm text-gray-700 space-y-2">
+                      <p>
+                        Nomor tiket: <span className="font-semibold text-gray-900">{submission.ticket}</span>
+                      </p>
+                      <p>
+                        PIN: <span className="font-semibold text-gray-900">{submission.pin}</span>
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Simpan nomor tiket dan PIN ini. PIN tidak dapat ditampilkan kembali.
+                      </p>
+                      <Link
+                        href={`/laporan/lacak?tiket=${encodeURIComponent(submission.ticket)}`}
+                        className="inline-block text-primary font-medium hover:text-primary/80"
+                      >
+                        Lacak laporan Anda &rarr;
+                      </Link>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -235,93 +364,220 @@ const KontakPage = () => {
               )}
 
               <form onSubmit={handleSubmit} className="space-y-6">
-                {/* Name */}
+                {/* Reporting mode */}
+                <fieldset>
+                  <legend className="block text-sm font-medium text-gray-700 mb-2">
+                    Jenis Laporan
+                  </legend>
+                  <div className="space-y-2">
+                    {confidentialityOptions.map((option) => (
+                      <label key={option.value} className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="radio"
+                          name="confidentiality"
+                          value={option.value}
+                          checked={formData.confidentiality === option.value}
+                          onChange={handleChange}
+                          className="mt-1 text-primary focus:ring-primary"
+                          disabled={loading}
+                        />
+                        <span>
+                          <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                          <span className="block text-xs text-gray-500">{option.description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+
+                {formData.confidentiality !== LAPORAN_CONFIDENTIALITY.ANONYMOUS && (
+                  <>
+                    {/* Name */}
+                    <div>
+                      <label htmlFor="nama" className="block text-sm font-medium text-gray-700 mb-2">
+                        Nama Lengkap *
+                      </label>
+                      <input
+                        type="text"
+                        id="nama"
+                        name="nama"
+                        value={formData.nama}
+                        onChange={handleChange}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                        placeholder="Masukkan nama lengkap Anda"
+                        disabled={loading}
+                      />
+                    </div>
+
+                    {/* Email */}
+                    <div>
+                      <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                        Email *
+                      </label>
+                      <input
+                        type="email"
+                        id="email"
+                        name="email"
+                        value={formData.email}
+                        onChange={handleChange}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                        placeholder="contoh@email.com"
+                        disabled={loading}
+                      />
+                    </div>
+
+                    {/* Phone */}
+                    <div>
+                      <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+                        Nomor Telepon *
+                      </label>
+                      <input
+                        type="tel"
+                        id="phone"
+                        name="phone"
+                        value={formData.phone}
+                        onChange={handleChange}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                        placeholder="08xxxxxxxxxx"
+                        disabled={loading}
+                      />
+                    </div>
+
+                    {/* Address */}
+                    <div>
+                      <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-2">
+                        Alamat *
+                      </label>
+                      <input
+                        type="text"
+                        id="address"
+                        name="address"
+                        value={formData.address}
+                        onChange={handleChange}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                        placeholder="Masukkan alamat lengkap Anda"
+                        disabled={loading}
+                      />
+                    </div>
+                  </>
+                )}
+
+                {/* Category */}
                 <div>
-                  <label htmlFor="nama" className="block text-sm font-medium text-gray-700 mb-2">
-                    Nama Lengkap *
+                  <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
+                    Kategori *
                   </label>
-                  <input
-                    type="text"
-                    id="nama"
-                    name="nama"
-                    value={formData.nama}
+                  <select
+                    id="category"
+                    name="category"
+                    value={formData.category}
                     onChange={handleChange}
                     required
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
-                    placeholder="Masukkan nama lengkap Anda"
                     disabled={loading}
-                  />
+                  >
+                    <option value="">Pilih kategori laporan</option>
+                    {(Object.keys(LAPORAN_CATEGORY_LABELS) as LaporanCategory[]).map((category) => (
+                      <option key={category} value={category}>{LAPORAN_CATEGORY_LABELS[category]}</option>
+                    ))}
+                  </select>
                 </div>
 
-                {/* Email */}
+                {/* Message */}
                 <div>
-                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                    Email *
+                  <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-2">
+                    Pesan *
                   </label>
-                  <input
-                    type="email"
-                    id="email"
-                    name="email"
-                    value={formData.email}
+                  <textarea
+                    id="message"
+                    name="message"
+                    value={formData.message}
                     onChange={handleChange}
                     required
+                    rows={6}
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
-                    placeholder="contoh@email.com"
+                    placeholder="Sampaikan aspirasi, keluhan, atau saran Anda..."
                     disabled={loading}
                   />
                 </div>
 
-                {/* Phone */}
+                {/* Attachments */}
                 <div>
-                  <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
-                    Nomor Telepon *
+                  <label htmlFor="attachments" className="block text-sm font-medium text-gray-700 mb-2">
+                    Lampiran
                   </label>
                   <input
-                    type="tel"
-                    id="phone"
-                    name="phone"
-                    value={formData.phone}
-                    onChange={handleChange}
-                    required
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
-                    placeholder="08xxxxxxxxxx"
+                    ref={fileInputRef}
+                    type="file"
+                    id="attachments"
+                    name="attachments"
+                    multiple
+                    accept={ACCEPTED_FILE_TYPES}
+                    onChange={handleFileChange}
+                    className="w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-primary/10 file:text-primary hover:file:bg-primary/20"
                     disabled={loading}
                   />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Opsional, maksimal {LAPORAN_MAX_ATTACHMENTS} file. Foto (JPG, PNG, WebP, GIF) maksimal 5MB; dokumen (PDF, Word, Excel) maksimal 10MB.
+                    Data lokasi dan kamera pada foto dihapus otomatis.
+                  </p>
+                  {files.length > 0 && (
+                    <ul className="mt-2 text-sm text-gray-700 space-y-1">
+                      {files.map(file => (
+                        <li key={file.name}>{file.name} ({Math.ceil(file.size / 1024)} KB)</li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
 
-                {/* Address */}
+                {/* Verification */}
                 <div>
-                  <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-2">
-                    Alamat *
+                  <label htmlFor="captcha" className="block text-sm font-medium text-gray-700 mb-2">
+                    Verifikasi *
                   </label>
+                  <div className="flex items-center gap-3">
+                    <p className="flex-1 text-sm text-gray-700">
+                      {captcha ? captcha.question : 'Memuat pertanyaan...'}
+                    </p>
+                    <button
+                      type="button"
+                      onClick={loadCaptcha}
+                      className="text-sm text-primary hover:text-primary/80"
+                      disabled={loading}
+                    >
+                      Ganti pertanyaan
+                    </button>
+                  </div>
                   <input
                     type="text"
-                    id="address"
-                    name="address"
-                    value={formData.address}
-                    onChange={handleChange}
+                    id="captcha"
+                    name="captcha"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={captchaAnswer}
+                    onChange={(e) => setCaptchaAnswer(e.target.value)}
                     required
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
-                    placeholder="Masukkan alamat lengkap Anda"
+                    className="mt-2 w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                    placeholder="Jawab dengan angka, contoh: 7"
                     disabled={loading}
                   />
                 </div>
 
-                {/* Message */}
-                <div>
-                  <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-2">
-                    Pesan *
-                  </label>
-                  <textarea
-                    id="message"
-                    name="message"
-                    value={formData.message}
-                    onChange={handleChange}
-                    required
-                    rows={6}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
-                    placeholder="Sampaikan aspirasi, keluhan, atau saran Anda..."
-                    disabled={loading}
+                {/* Honeypot, hidden from people and screen readers */}
+                <div className="hidden" aria-hidden="true">
+                  <label htmlFor="website">Website</label>
+                  <input
+                    type="text"
+                    id="website"
+                    name="website"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    value={honeypot}
+                    onChange={(e) => setHoneypot(e.target.value)}
                   />
                 </div>
 
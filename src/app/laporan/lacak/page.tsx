@@ -0,0 +1,234 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import { API_ROUTES, LAPORAN_STATUS_LABELS, LaporanStatus } from '@/lib/constants';
+
+interface TimelineEntry {
+  status: LaporanStatus;
+  at: string;
+}
+
+interface TrackingResult {
+  ticket: string;
+  status: LaporanStatus;
+  created_at: string;
+  updated_at: string;
+  timeline: TimelineEntry[];
+  response: string | null;
+  responded_at: string | null;
+  merged_into: string | null;
+}
+
+const statusStyles: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  resolved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  closed: 'bg-gray-100 text-gray-800',
+};
+
+const LacakLaporanPage = () => {
+  const [formData, setFormData] = useState({
+    ticket: '',
+    pin: '',
+  });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<TrackingResult | null>(null);
+
+  useEffect(() => {
+    // Prefill ticket number when coming from the submission confirmation
+    const ticket = new URLSearchParams(window.location.search).get('tiket');
+    if (ticket) {
+      setFormData(prev => ({ ...prev, ticket }));
+    }
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const response = await fetch(API_ROUTES.LAPORAN.TRACK, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setResult(data.laporan);
+      } else {
+        setError(data.error || 'Laporan tidak ditemukan');
+      }
+    } catch (error) {
+      console.error('Error tracking laporan:', error);
+      setError('Terjadi kesalahan saat melacak laporan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Hero Section */}
+      <section className="bg-gradient-to-r from-primary to-primary/80 text-white py-16">
+        <div className="container mx-auto px-4">
+          <div className="max-w-3xl mx-auto text-center">
+            <h1 className="text-4xl md:text-5xl font-bold mb-6">
+              Lacak Laporan
+            </h1>
+            <p className="text-xl text-primary-100">
+              Masukkan nomor tiket dan PIN yang Anda terima saat mengirim laporan untuk melihat perkembangannya.
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-16">
+        <div className="container mx-auto px-4">
+          <div className="max-w-2xl mx-auto space-y-8">
+            <div className="bg-white rounded-lg shadow-lg p-8">
+              {/* Error Message */}
+              {error && (
+                <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <div className="flex items-center">
+                    <svg className="w-5 h-5 text-red-400 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    <p className="text-red-700 text-sm">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div>
+                  <label htmlFor="ticket" className="block text-sm font-medium text-gray-700 mb-2">
+                    Nomor Tiket *
+                  </label>
+                  <input
+                    type="text"
+                    id="ticket"
+                    name="ticket"
+                    value={formData.ticket}
+                    onChange={handleChange}
+                    required
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg uppercase focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                    placeholder="LPR-2026-000123"
+                    disabled={loading}
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="pin" className="block text-sm font-medium text-gray-700 mb-2">
+                    PIN *
+                  </label>
+                  <input
+                    type="password"
+                    id="pin"
+                    name="pin"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={formData.pin}
+                    onChange={handleChange}
+                    required
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent transition-colors duration-200"
+                    placeholder="6 digit PIN"
+                    disabled={loading}
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-primary text-white py-3 px-6 rounded-lg hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {loading ? 'Mencari...' : 'Lacak Laporan'}
+                </button>
+              </form>
+            </div>
+
+            {/* Tracking Result */}
+            {result && (
+              <div className="bg-white rounded-lg shadow-lg p-8">
+                <div className="flex items-center justify-between mb-6">
+                  <div>
+                    <p className="text-sm text-gray-500">Nomor Tiket</p>
+                    <p className="text-xl font-bold text-gray-900">{result.ticket}</p>
+                  </div>
+                  <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${statusStyles[result.status] || statusStyles.pending}`}>
+                    {LAPORAN_STATUS_LABELS[result.status] || result.status}
+                  </span>
+                </div>
+
+                {result.merged_into && (
+                  <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                    <p className="text-sm text-gray-700">
+                      Laporan Anda membahas hal yang sama dengan laporan {result.merged_into} dan ditangani bersama.
+                      Status dan tanggapan di bawah ini mengikuti laporan tersebut.
+                    </p>
+                  </div>
+                )}
+
+                {result.response && (
+                  <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                    <h3 className="text-sm font-semibold text-blue-900 mb-2">Tanggapan Resmi</h3>
+                    <p className="text-sm text-blue-800 whitespace-pre-wrap">{result.response}</p>
+                    {result.responded_at && (
+                      <p className="mt-2 text-xs text-blue-600">{formatDate(result.responded_at)}</p>
+                    )}
+                  </div>
+                )}
+
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Riwayat Laporan</h3>
+                <ol className="relative border-l border-gray-200 ml-2">
+                  {result.timeline.map((entry, index) => (
+                    <li key={index} className="mb-6 ml-6">
+                      <span className="absolute -left-2 flex items-center justify-center w-4 h-4 bg-primary rounded-full ring-4 ring-white"></span>
+                      <p className="text-sm font-medium text-gray-900">
+                        {LAPORAN_STATUS_LABELS[entry.status] || entry.status}
+                      </p>
+                      <p className="text-sm text-gray-500">{formatDate(entry.at)}</p>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default LacakLaporanPage;
@@ -0,0 +1,381 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import IkmSummary, { ikmPeriodOptions } from '@/components/IkmSummary';
+import {
+  API_ROUTES,
+  IKM_ELEMENTS,
+  SURVEY_SERVICES,
+  SURVEY_SERVICE_LABELS,
+  SurveyService,
+} from '@/lib/constants';
+import type { IkmSummary as IkmSummaryData } from '@/lib/ikm';
+import { getApiErrorMessages } from '@/lib/utils';
+
+// Reporters come through their survey link; the other services are chosen by walk-in visitors
+const walkInServices = (Object.values(SURVEY_SERVICES) as SurveyService[])
+  .filter(service => service !== SURVEY_SERVICES.PENGADUAN);
+
+const emptyScores = () => IKM_ELEMENTS.map(() => 0);
+
+const SurveiPage = () => {
+  // Survey link sent to a reporter, if the page was opened from one
+  const [token, setToken] = useState<string | null>(null);
+  const [ticket, setTicket] = useState<string | null>(null);
+  const [linkError, setLinkError] = useState('');
+  const [service, setService] = useState('');
+  const [scores, setScores] = useState<number[]>(emptyScores);
+  const [suggestion, setSuggestion] = useState('');
+  const [captcha, setCaptcha] = useState<{ question: string; token: string } | null>(null);
+  const [captchaAnswer, setCaptchaAnswer] = useState('');
+  // Hidden from people; bots that fill every field give themselves away
+  const [honeypot, setHoneypot] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [period, setPeriod] = useState(String(new Date().getFullYear()));
+  const [summary, setSummary] = useState<IkmSummaryData | null>(null);
+
+  // Each question can be answered once, so a new one is loaded after every attempt
+  const loadCaptcha = async () => {
+    try {
+      setCaptchaAnswer('');
+      const response = await fetch(API_ROUTES.LAPORAN.CAPTCHA, { cache: 'no-store' });
+      const data = await response.json();
+      if (data.success) {
+        setCaptcha(data.challenge);
+      }
+    } catch (error) {
+      console.error('Error loading captcha:', error);
+    }
+  };
+
+  const checkLink = async (linkToken: string) => {
+    try {
+      const response = await fetch(`${API_ROUTES.SURVEY.BASE}?token=${encodeURIComponent(linkToken)}`, { cache: 'no-store' });
+      const data = await response.json();
+      if (data.success) {
+        setTicket(data.ticket);
+      } else {
+        setLinkError(data.error || 'Tautan survei tidak valid');
+      }
+    } catch (error) {
+      console.error('Error checking survey link:', error);
+      setLinkError('Terjadi kesalahan saat memeriksa tautan survei');
+    }
+  };
+
+  const fetchSummary = async () => {
+    try {
+      const response = await fetch(`${API_ROUTES.SURVEY.IKM}?period=${encodeURIComponent(period)}`);
+      const data = await response.json();
+      if (data.success) {
+        setSummary(data.summary);
+      }
+    } catch (error) {
+      console.error('Error fetching IKM:', error);
+    }
+  };
+
+  useEffect(() => {
+    const linkToken = new URLSearchParams(window.location.search).get('token');
+    if (linkToken) {
+      setToken(linkToken);
+      checkLink(linkToken);
+    } else {
+      loadCaptcha();
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [period]);
+
+  const handleScore = (index: number, score: number) => {
+    setScores(prev => prev.map((value, i) => (i === index ? score : value)));
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!token && !service) {
+      setError('Pilih jenis layanan yang Anda terima');
+      return;
+    }
+
+    if (scores.some(score => score === 0)) {
+      setError('Semua pertanyaan wajib dijawab');
+      return;
+    }
+
+    if (!token && (!captcha || !captchaAnswer.trim())) {
+      setError('Jawaban verifikasi harus diisi');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch(API_ROUTES.SURVEY.BASE, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          scores,
+          ...(suggestion.trim() && { suggestion: suggestion.trim() }),
+          ...(token
+            ? { token }
+            : { service, captcha: captchaAnswer.trim(), captcha_token: captcha!.token, website: honeypot }),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setSuccess(data.message);
+        setScores(emptyScores());
+        setSuggestion('');
+        setService('');
+        fetchSummary();
+      } else {
+        setError(getApiErrorMessages(data, 'Gagal mengirim survei').join(', '));
+      }
+    } catch (error) {
+      console.error('Error submitting survey:', error);
+      setError('Terjadi kesalahan saat mengirim survei');
+    } finally {
+      setLoading(false);
+      if (!token) {
+        loadCaptcha();
+      }
+    }
+  };
+
+  // A link that is spent or unknown leaves nothing to fill in
+  const showForm = !success && !linkError && (!token || ticket);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Hero Section */}
+      <section className="bg-gradient-to-r from-primary to-primary/80 text-white py-16">
+        <div className="container mx-auto px-4">
+          <div className="max-w-3xl mx-auto text-center">
+            <h1 className="text-4xl md:text-5xl font-bold mb-6">
+              Survei Kepuasan Masyarakat
+            </h1>
+            <p className="text-xl text-primary-100">
+              Penilaian Anda atas sembilan unsur pelayanan membantu kami meningkatkan kualitas layanan.
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-16">
+        <div className="container mx-auto px-4">
+          <div className="max-w-4xl mx-auto space-y-12">
+            {/* Published index */}
+            <div className="space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <h2 className="text-2xl font-bold text-gray-900">Indeks Kepuasan Masyarakat</h2>
+                <select
+                  value={period}
+                  onChange={(e) => setPeriod(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                >
+                  {ikmPeriodOptions().map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              {summary ? (
+                <IkmSummary summary={summary} />
+              ) : (
+                <div className="flex items-center justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Dihitung sesuai Peraturan Menteri PANRB Nomor 14 Tahun 2017: rata-rata nilai tiap unsur dikalikan bobot 1/9,
+                dijumlahkan, lalu dikonversi ke skala 25-100.
+              </p>
+            </div>
+
+            {/* Survey form */}
+            <div className="bg-white rounded-lg shadow-lg p-8">
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Isi Survei</h2>
+              {ticket && (
+                <p className="text-sm text-gray-600 mb-6">
+                  Survei atas penanganan laporan <span className="font-medium">{ticket}</span>.
+                </p>
+              )}
+
+              {linkError && (
+                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-yellow-800 text-sm">{linkError}</p>
+                </div>
+              )}
+
+              {success && (
+                <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                  <p className="text-green-700 text-sm">{success}</p>
+                </div>
+              )}
+
+              {token && !ticket && !linkError && (
+                <p className="text-sm text-gray-500">Memeriksa tautan survei...</p>
+              )}
+
+              {showForm && (
+                <form onSubmit={handleSubmit} className="space-y-8">
+                  {error && (
+                    <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                      <p className="text-red-700 text-sm">{error}</p>
+                    </div>
+                  )}
+
+                  {!token && (
+                    <div>
+                      <label htmlFor="service" className="block text-sm font-medium text-gray-700 mb-2">
+                        Jenis Layanan yang Diterima *
+                      </label>
+                      <select
+                        id="service"
+                        value={service}
+                        onChange={(e) => setService(e.target.value)}
+                        required
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                        disabled={loading}
+                      >
+                        <option value="">Pilih layanan</option>
+                        {walkInServices.map(value => (
+                          <option key={value} value={value}>{SURVEY_SERVICE_LABELS[value]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {IKM_ELEMENTS.map((element, index) => (
+                    <fieldset key={element.code}>
+                      <legend className="text-sm font-medium text-gray-900">
+                        {index + 1}. {element.question}
+                      </legend>
+                      <p className="text-xs text-gray-500 mb-3">{element.name}</p>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                        {element.answers.map((answer, answerIndex) => (
+                          <label
+                            key={answer}
+                            className={`flex items-center gap-2 px-3 py-2 border rounded-lg text-sm cursor-pointer ${
+                              scores[index] === answerIndex + 1
+                                ? 'border-primary bg-primary/5 text-primary'
+                                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name={element.code}
+                              value={answerIndex + 1}
+                              checked={scores[index] === answerIndex + 1}
+                              onChange={() => handleScore(index, answerIndex + 1)}
+                              disabled={loading}
+                            />
+                            {answer}
+                          </label>
+                        ))}
+                      </div>
+                    </fieldset>
+                  ))}
+
+                  <div>
+                    <label htmlFor="suggestion" className="block text-sm font-medium text-gray-700 mb-2">
+                      Saran dan Masukan
+                    </label>
+                    <textarea
+                      id="suggestion"
+                      value={suggestion}
+                      onChange={(e) => setSuggestion(e.target.value)}
+                      rows={4}
+                      maxLength={1000}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                      placeholder="Tuliskan saran Anda untuk perbaikan pelayanan (opsional)"
+                      disabled={loading}
+                    />
+                  </div>
+
+                  {!token && (
+                    <>
+                      {/* Verification */}
+                      <div>
+                        <label htmlFor="captcha" className="block text-sm font-medium text-gray-700 mb-2">
+                          Verifikasi *
+                        </label>
+                        <div className="flex items-center gap-3">
+                          <p className="flex-1 text-sm text-gray-700">
+                            {captcha ? captcha.question : 'Memuat pertanyaan...'}
+                          </p>
+                          <button
+                            type="button"
+                            onClick={loadCaptcha}
+                            className="text-sm text-primary hover:text-primary/80"
+                            disabled={loading}
+                          >
+                            Ganti pertanyaan
+                          </button>
+                        </div>
+                        <input
+                          type="text"
+                          id="captcha"
+                          name="captcha"
+                          inputMode="numeric"
+                          autoComplete="off"
+                          value={captchaAnswer}
+                          onChange={(e) => setCaptchaAnswer(e.target.value)}
+                          required
+                          className="mt-2 w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+                          placeholder="Jawab dengan angka, contoh: 7"
+                          disabled={loading}
+                        />
+                      </div>
+
+                      {/* Honeypot, hidden from people and screen readers */}
+                      <div className="hidden" aria-hidden="true">
+                        <label htmlFor="website">Website</label>
+                        <input
+                          type="text"
+                          id="website"
+                          name="website"
+                          tabIndex={-1}
+                          autoComplete="off"
+                          value={honeypot}
+                          onChange={(e) => setHoneypot(e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full bg-primary text-white py-3 px-6 rounded-lg hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    {loading ? 'Mengirim...' : 'Kirim Survei'}
+                  </button>
+                </form>
+              )}
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default SurveiPage;
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import Navbar from '@/components/Navbar';
+import Footer from '@/components/Footer';
+import BeritaTagCloud from '@/components/BeritaTagCloud';
+import {
+  API_ROUTES,
+  BERITA_CATEGORIES,
+  BERITA_CATEGORY_LABELS,
+  BeritaCategory,
+  DEFAULT_BERITA_CATEGORY,
+  PAGE_ROUTES,
+} from '@/lib/constants';
+
+interface NewsItem {
+  _id: string;
+  title: string;
+  slug: string;
+  summary: string;
+  image_url: string;
+  category?: BeritaCategory;
+  tags?: string[];
+  views: number;
+  created_at: string;
+}
+
+interface BeritaArchiveProps {
+  title: string;
+  description: string;
+  // Exactly one of these selects the archive
+  category?: BeritaCategory;
+  tag?: string;
+}
+
+const PAGE_SIZE = 12;
+
+// Published news of one category or tag, used by the archive pages
+const BeritaArchive = ({ title, description, category, tag }: BeritaArchiveProps) => {
+  const [news, setNews] = useState<NewsItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+
+  useEffect(() => {
+    fetchNews(currentPage);
+  }, [currentPage, category, tag]);
+
+  const fetchNews = async (page: number) => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: PAGE_SIZE.toString(),
+        ...(category && { category }),
+        ...(tag && { tag }),
+      });
+
+      const response = await fetch(`${API_ROUTES.BERITA.BASE}?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setNews(data.berita || []);
+        setTotal(data.pagination.total);
+        setTotalPages(data.pagination.totalPages);
+        setError('');
+      } else {
+        setError(data.error || 'Gagal memuat berita');
+      }
+    } catch (error) {
+      console.error('Error fetching news:', error);
+      setError('Terjadi kesalahan saat memuat berita');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Hero Section */}
+      <section className="bg-gradient-to-r from-primary to-primary/80 text-white py-16">
+        <div className="container mx-auto px-4">
+          <div className="max-w-3xl mx-auto text-center">
+            <Link href={PAGE_ROUTES.BERITA.LIST} className="text-sm text-primary-100 hover:text-white">
+              Berita & Informasi
+            </Link>
+            <h1 className="text-4xl md:text-5xl font-bold mt-2 mb-6">{title}</h1>
+            <p className="text-xl text-primary-100">{description}</p>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-16">
+        <div className="container mx-auto px-4 grid grid-cols-1 lg:grid-cols-4 gap-8">
+          <div className="lg:col-span-3">
+            {!loading && !error && (
+              <p className="text-gray-600 mb-8">Menampilkan {total} berita</p>
+            )}
+
+            {/* Error Message */}
+            {error && (
+              <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-700 text-sm">{error}</p>
+              </div>
+            )}
+
+            {loading ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+                {Array.from({ length: 6 }).map((_, index) => (
+                  <div key={index} className="bg-white rounded-lg shadow-md overflow-hidden animate-pulse">
+                    <div className="h-48 bg-gray-300"></div>
+                    <div className="p-6">
+                      <div className="h-4 bg-gray-300 rounded mb-2"></div>
+                      <div className="h-4 bg-gray-300 rounded mb-4 w-3/4"></div>
+                      <div className="h-3 bg-gray-300 rounded w-1/2"></div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : news.length === 0 ? (
+              !error && (
+                <div className="text-center py-16">
+                  <h3 className="text-xl font-medium text-gray-900 mb-2">Belum ada berita</h3>
+                  <p className="text-gray-500 mb-6">Belum ada berita yang dipublikasikan di sini.</p>
+                  <Link
+                    href={PAGE_ROUTES.BERITA.LIST}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary hover:bg-primary/90"
+                  >
+                    Lihat Semua Berita
+                  </Link>
+                </div>
+              )
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+                  {news.map((item) => (
+                    <article key={item._id} className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300">
+                      <Link href={PAGE_ROUTES.BERITA.DETAIL(item.slug)}>
+                        <div className="relative h-48 bg-gray-200">
+                          <Image
+                            src={item.image_url}
+                            alt={item.title}
+                            fill
+                            className="object-cover hover:scale-105 transition-transform duration-300"
+                          />
+                        </div>
+                      </Link>
+
+                      <div className="p-6">
+                        <div className="flex items-center justify-between text-sm text-gray-500 mb-3">
+                          <span>{formatDate(item.created_at)}</span>
+                          <Link
+                            href={PAGE_ROUTES.BERITA.CATEGORY(item.category || DEFAULT_BERITA_CATEGORY)}
+                            className="text-primary hover:text-primary/80"
+                          >
+                            {BERITA_CATEGORY_LABELS[item.category || DEFAULT_BERITA_CATEGORY]}
+                          </Link>
+                        </div>
+
+                        <Link href={PAGE_ROUTES.BERITA.DETAIL(item.slug)}>
+                          <h2 className="text-xl font-semibold text-gray-900 mb-3 hover:text-primary transition-colors duration-200 line-clamp-2">
+                            {item.title}
+                          </h2>
+                        </Link>
+
+                        <p className="text-gray-600 text-sm line-clamp-3 mb-4">{item.summary}</p>
+
+                        {item.tags && item.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {item.tags.map(itemTag => (
+                              <Link
+                                key={itemTag}
+                                href={PAGE_ROUTES.BERITA.TAG(itemTag)}
+                                className={`px-2 py-0.5 rounded-full text-xs ${
+                                  itemTag === tag ? 'bg-primary text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                }`}
+                              >
+                                #{itemTag}
+                              </Link>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </article>
+                  ))}
+                </div>
+
+                {/* Pagination */}
+                {totalPages > 1 && (
+                  <div className="mt-12 flex items-center justify-center gap-4">
+                    <button
+                      onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                      disabled={currentPage === 1}
+                      className="px-4 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Sebelumnya
+                    </button>
+                    <span className="text-sm text-gray-600">
+                      Halaman {currentPage} dari {totalPages}
+                    </span>
+                    <button
+                      onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                      disabled={currentPage === totalPages}
+                      className="px-4 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Berikutnya
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Sidebar */}
+          <aside className="space-y-6">
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Kategori</h3>
+              <ul className="space-y-2">
+                {Object.values(BERITA_CATEGORIES).map(item => (
+                  <li key={item}>
+                    <Link
+                      href={PAGE_ROUTES.BERITA.CATEGORY(item)}
+                      className={`text-sm ${
+                        item === category ? 'text-primary font-semibold' : 'text-gray-600 hover:text-primary'
+                      }`}
+                    >
+                      {BERITA_CATEGORY_LABELS[item]}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <BeritaTagCloud {...(tag && { activeTag: tag })} />
+          </aside>
+        </div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default BeritaArchive;
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { API_ROUTES, PAGE_ROUTES } from '@/lib/constants';
+
+interface TagCount {
+  tag: string;
+  count: number;
+}
+
+interface BeritaTagCloudProps {
+  activeTag?: string;
+}
+
+// Font sizes from least to most used tag
+const SIZE_CLASSES = ['text-xs', 'text-sm', 'text-base', 'text-lg', 'text-xl'];
+
+const BeritaTagCloud = ({ activeTag }: BeritaTagCloudProps) => {
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  const fetchTags = async () => {
+    try {
+      const response = await fetch(API_ROUTES.BERITA.TAGS);
+      if (response.ok) {
+        const data = await response.json();
+        setTags(data.tags || []);
+      }
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sizeClass = (count: number, max: number) => {
+    const step = max > 1 ? Math.round(((count - 1) / (max - 1)) * (SIZE_CLASSES.length - 1)) : 0;
+    return SIZE_CLASSES[step] || SIZE_CLASSES[0];
+  };
+
+  if (loading || tags.length === 0) {
+    return null;
+  }
+
+  const max = Math.max(...tags.map(item => item.count));
+
+  // Alphabetical, so the size rather than the position shows what is popular
+  const sorted = [...tags].sort((a, b) => a.tag.localeCompare(b.tag));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Tag Populer</h3>
+      <div className="flex flex-wrap items-baseline gap-x-3 gap-y-2">
+        {sorted.map(item => (
+          <Link
+            key={item.tag}
+            href={PAGE_ROUTES.BERITA.TAG(item.tag)}
+            title={`${item.count} berita`}
+            className={`${sizeClass(item.count, max)} ${
+              item.tag === activeTag ? 'text-primary font-semibold' : 'text-gray-600 hover:text-primary'
+            } transition-colors duration-200`}
+          >
+            #{item.tag}
+            <span className="ml-0.5 text-xs text-gray-400">({item.count})</span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BeritaTagCloud;
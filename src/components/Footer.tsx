@@ -15,6 +15,7 @@ const Footer = () => {
     { label: 'Berita', link: '/berita' },
     { label: 'Galeri', link: '/galeri' },
     { label: 'Kontak', link: '/kontak' },
+    { label: 'Lacak Laporan', link: '/laporan/lacak' },
   ];
 
   const services = [
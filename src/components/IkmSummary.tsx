@@ -0,0 +1,112 @@
+import { SURVEY_SERVICE_LABELS } from '@/lib/constants';
+import type { IkmGrade, IkmSummary as IkmSummaryData } from '@/lib/ikm';
+
+const gradeStyles: Record<IkmGrade, string> = {
+  A: 'bg-green-100 text-green-800',
+  B: 'bg-blue-100 text-blue-800',
+  C: 'bg-yellow-100 text-yellow-800',
+  D: 'bg-red-100 text-red-800',
+};
+
+// Years, then their semesters, from this year back, for the period selects
+export const ikmPeriodOptions = (years = 2) => {
+  const current = new Date().getFullYear();
+  return Array.from({ length: years }, (_, i) => current - i).flatMap(year => [
+    { value: String(year), label: `Tahun ${year}` },
+    { value: `${year}-S1`, label: `Semester I ${year}` },
+    { value: `${year}-S2`, label: `Semester II ${year}` },
+  ]);
+};
+
+const formatNumber = (value: number | null, digits = 2) =>
+  value === null ? '-' : value.toLocaleString('id-ID', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+// Overall index with its grade, the average of each element and the index per service
+const IkmSummary = ({ summary }: { summary: IkmSummaryData }) => {
+  const { overall } = summary;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-lg shadow p-6 text-center">
+          <p className="text-sm text-gray-500">Nilai IKM {summary.period.label}</p>
+          <p className="text-4xl font-bold text-gray-900 mt-2">{formatNumber(overall.value)}</p>
+          <p className="text-xs text-gray-400 mt-1">Nilai interval {formatNumber(overall.index, 4)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6 text-center">
+          <p className="text-sm text-gray-500">Mutu Pelayanan</p>
+          {overall.grade ? (
+            <>
+              <span className={`inline-block mt-2 px-4 py-1 rounded-full text-3xl font-bold ${gradeStyles[overall.grade]}`}>
+                {overall.grade}
+              </span>
+              <p className="text-sm text-gray-700 mt-2">{overall.performance}</p>
+            </>
+          ) : (
+            <p className="text-4xl font-bold text-gray-300 mt-2">-</p>
+          )}
+        </div>
+        <div className="bg-white rounded-lg shadow p-6 text-center">
+          <p className="text-sm text-gray-500">Jumlah Responden</p>
+          <p className="text-4xl font-bold text-gray-900 mt-2">{overall.respondents.toLocaleString('id-ID')}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Nilai Rata-rata per Unsur</h3>
+        <div className="space-y-3">
+          {overall.elements.map((element) => (
+            <div key={element.code}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-gray-700">{element.code}. {element.name}</span>
+                <span className="font-medium text-gray-900">{formatNumber(element.average)}</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary rounded-full"
+                  style={{ width: `${((element.average ?? 0) / 4) * 100}%` }}
+                ></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <h3 className="text-lg font-semibold text-gray-900 px-6 pt-6 pb-4">IKM per Layanan</h3>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Layanan</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Responden</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Nilai IKM</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mutu</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {summary.byService.map((row) => (
+                <tr key={row.service}>
+                  <td className="px-6 py-3 text-sm text-gray-900">{SURVEY_SERVICE_LABELS[row.service] || row.service}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500 text-right">{row.respondents.toLocaleString('id-ID')}</td>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 text-right">{formatNumber(row.value)}</td>
+                  <td className="px-6 py-3 text-sm">
+                    {row.grade ? (
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${gradeStyles[row.grade]}`}>
+                        {row.grade} ({row.performance})
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">Belum ada responden</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IkmSummary;
@@ -0,0 +1,290 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  API_ROUTES,
+  LAPORAN_CATEGORY_LABELS,
+  LAPORAN_STATUS_LABELS,
+  LaporanCategory,
+  LaporanStatus,
+} from '@/lib/constants';
+import { getApiErrorMessages } from '@/lib/utils';
+
+type StatsInterval = 'day' | 'week' | 'month';
+
+interface Statistics {
+  range: { from: string; to: string; interval: StatsInterval };
+  total: number;
+  volume: { period: string; count: number }[];
+  byStatus: { status: LaporanStatus; count: number }[];
+  byCategory: { category: LaporanCategory; count: number }[];
+  firstResponse: { count: number; medianHours: number | null };
+  resolution: { count: number; medianHours: number | null };
+  sla: { met: number; breached: number; complianceRate: number | null };
+}
+
+const intervalOptions: { value: '' | StatsInterval; label: string }[] = [
+  { value: '', label: 'Otomatis' },
+  { value: 'day', label: 'Harian' },
+  { value: 'week', label: 'Mingguan' },
+  { value: 'month', label: 'Bulanan' },
+];
+
+const intervalUnits: Record<StatsInterval, string> = {
+  day: 'Hari',
+  week: 'Minggu',
+  month: 'Bulan',
+};
+
+const statusColors: Record<string, string> = {
+  pending: 'bg-yellow-400',
+  in_progress: 'bg-blue-500',
+  resolved: 'bg-green-500',
+  closed: 'bg-gray-400',
+  rejected: 'bg-red-500',
+};
+
+// Local date N days ago as YYYY-MM-DD, for the default range
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const formatDuration = (hours: number | null) => {
+  if (hours === null) return '-';
+  if (hours < 48) return `${hours.toLocaleString('id-ID')} jam`;
+  return `${(Math.round((hours / 24) * 10) / 10).toLocaleString('id-ID')} hari`;
+};
+
+const formatPeriod = (period: string, interval: StatsInterval) => {
+  if (interval === 'month') {
+    return new Date(`${period}-01T00:00:00`).toLocaleDateString('id-ID', { month: 'short', year: 'numeric' });
+  }
+  return new Date(`${period}T00:00:00`).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' });
+};
+
+// Horizontal bars for a breakdown, scaled to the largest entry
+const BreakdownChart = ({ title, items }: { title: string; items: { key: string; label: string; count: number; color: string }[] }) => {
+  const max = Math.max(1, ...items.map(item => item.count));
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h4 className="text-sm font-semibold text-gray-900 mb-4">{title}</h4>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">Belum ada data</p>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => (
+            <div key={item.key}>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>{item.label}</span>
+                <span className="font-medium text-gray-900">{item.count}</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full">
+                <div className={`h-2 rounded-full ${item.color}`} style={{ width: `${(item.count / max) * 100}%` }}></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LaporanStatistics = () => {
+  const [statistics, setStatistics] = useState<Statistics | null>(null);
+  const [dateFrom, setDateFrom] = useState(daysAgo(29));
+  const [dateTo, setDateTo] = useState(daysAgo(0));
+  const [statsInterval, setStatsInterval] = useState<'' | StatsInterval>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchStatistics = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ from: dateFrom, to: dateTo });
+      if (statsInterval) params.append('interval', statsInterval);
+
+      const response = await fetch(`${API_ROUTES.LAPORAN.STATISTICS}?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setStatistics(data.statistics);
+        setError('');
+      } else {
+        setError(getApiErrorMessages(data, 'Gagal memuat statistik laporan').join(', '));
+      }
+    } catch (error) {
+      console.error('Error fetching laporan statistics:', error);
+      setError('Terjadi kesalahan saat memuat statistik');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatistics();
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchStatistics();
+  };
+
+  const maxVolume = Math.max(1, ...(statistics?.volume.map(bucket => bucket.count) ?? []));
+  // Label roughly every eighth bar so long ranges stay readable
+  const labelEvery = Math.max(1, Math.ceil((statistics?.volume.length ?? 0) / 8));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Statistik Laporan</h3>
+            <p className="text-sm text-gray-500">Berdasarkan tanggal laporan masuk</p>
+          </div>
+          <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row sm:flex-wrap sm:items-end gap-3">
+            <label className="text-xs text-gray-600">
+              Dari
+              <input
+                type="date"
+                value={dateFrom}
+                max={dateTo}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                required
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Sampai
+              <input
+                type="date"
+                value={dateTo}
+                min={dateFrom}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+                required
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Periode
+              <select
+                value={statsInterval}
+                onChange={(e) => setStatsInterval(e.target.value as '' | StatsInterval)}
+                className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-transparent"
+              >
+                {intervalOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-primary text-white text-sm rounded-lg hover:bg-primary/90 disabled:opacity-50"
+            >
+              Tampilkan
+            </button>
+          </form>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+      </div>
+
+      {loading && !statistics ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : statistics && (
+        <div className={`space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          {/* Key figures */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm font-medium text-gray-500">Laporan Masuk</p>
+              <p className="text-2xl font-bold text-gray-900">{statistics.total}</p>
+              <p className="text-xs text-gray-500">{statistics.range.from} s.d. {statistics.range.to}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm font-medium text-gray-500">Median Tanggapan Pertama</p>
+              <p className="text-2xl font-bold text-blue-600">{formatDuration(statistics.firstResponse.medianHours)}</p>
+              <p className="text-xs text-gray-500">{statistics.firstResponse.count} laporan ditanggapi</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm font-medium text-gray-500">Median Penyelesaian</p>
+              <p className="text-2xl font-bold text-green-600">{formatDuration(statistics.resolution.medianHours)}</p>
+              <p className="text-xs text-gray-500">{statistics.resolution.count} laporan selesai</p>
+            </div>
+            <div className="bg-white rounded-lg shadow p-6">
+              <p className="text-sm font-medium text-gray-500">Kepatuhan SLA</p>
+              <p className={`text-2xl font-bold ${
+                statistics.sla.complianceRate !== null && statistics.sla.complianceRate < 80 ? 'text-red-600' : 'text-purple-600'
+              }`}>
+                {statistics.sla.complianceRate === null ? '-' : `${statistics.sla.complianceRate.toLocaleString('id-ID')}%`}
+              </p>
+              <p className="text-xs text-gray-500">
+                {statistics.sla.met} tepat waktu, {statistics.sla.breached} terlambat
+              </p>
+            </div>
+          </div>
+
+          {/* Volume over time */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h4 className="text-sm font-semibold text-gray-900 mb-4">
+              Jumlah Laporan per {intervalUnits[statistics.range.interval]}
+            </h4>
+            <div className="flex items-end gap-px h-48">
+              {statistics.volume.map((bucket) => (
+                <div
+                  key={bucket.period}
+                  className="flex-1 h-full flex items-end group"
+                  title={`${formatPeriod(bucket.period, statistics.range.interval)}: ${bucket.count} laporan`}
+                >
+                  <div
+                    className="w-full bg-primary/80 group-hover:bg-primary rounded-t"
+                    style={{ height: `${(bucket.count / maxVolume) * 100}%`, minHeight: bucket.count > 0 ? '2px' : 0 }}
+                  ></div>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-px mt-2">
+              {statistics.volume.map((bucket, index) => (
+                <div key={bucket.period} className="flex-1 text-[10px] text-gray-500 text-center overflow-visible whitespace-nowrap">
+                  {index % labelEvery === 0 ? formatPeriod(bucket.period, statistics.range.interval) : ''}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Breakdowns */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <BreakdownChart
+              title="Per Status"
+              items={statistics.byStatus.map((entry) => ({
+                key: entry.status,
+                label: LAPORAN_STATUS_LABELS[entry.status] || entry.status,
+                count: entry.count,
+                color: statusColors[entry.status] || 'bg-gray-400',
+              }))}
+            />
+            <BreakdownChart
+              title="Per Kategori"
+              items={statistics.byCategory.map((entry) => ({
+                key: entry.category,
+                label: LAPORAN_CATEGORY_LABELS[entry.category] || entry.category,
+                count: entry.count,
+                color: 'bg-primary',
+              }))}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LaporanStatistics;
@@ -42,6 +42,7 @@ const Navbar = () => {
       dropdown: [
         { label: 'Berita', link: '/berita' },
         { label: 'Pengumuman', link: '/pengumuman' },
+        { label: 'Survei Kepuasan', link: '/survei' },
       ],
     },
     { label: 'SDP', link: '/sdp' },
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { checkSubmission, createCaptcha, getSubmitterIp, MIN_FILL_TIME_MS, spendChallenge } from './antiSpam';
+
+const NUMBER_WORDS = ['nol', 'satu', 'dua', 'tiga', 'empat', 'lima', 'enam', 'tujuh', 'delapan', 'sembilan', 'sepuluh'];
+
+// A fresh challenge with its answer worked out from the question
+function solvedCaptcha() {
+  const { question, token } = createCaptcha();
+  const [, a, operation, b] = question.match(/^Berapa (\w+) (ditambah|dikurangi) (\w+)\?$/)!;
+  const left = NUMBER_WORDS.indexOf(a!);
+  const right = NUMBER_WORDS.indexOf(b!);
+  return { token, answer: operation === 'ditambah' ? left + right : left - right };
+}
+
+const later = () => Date.now() + MIN_FILL_TIME_MS;
+
+describe('checkSubmission', () => {
+  it('keeps a right answer open until the challenge is spent', () => {
+    const { token, answer } = solvedCaptcha();
+    const body = { captcha_token: token, captcha: String(answer) };
+
+    const first = checkSubmission(body, later());
+    expect(first.ok).toBe(true);
+    expect(checkSubmission(body, later()).ok).toBe(true);
+
+    if (!first.ok) return;
+    expect(spendChallenge(first.challengeId)).toBe(true);
+    expect(spendChallenge(first.challengeId)).toBe(false);
+    expect(checkSubmission(body, later())).toEqual({ ok: false, reason: 'captcha' });
+  });
+
+  it('uses the challenge up on a wrong answer', () => {
+    const { token, answer } = solvedCaptcha();
+
+    expect(checkSubmission({ captcha_token: token, captcha: answer + 1 }, later())).toEqual({ ok: false, reason: 'captcha' });
+    expect(checkSubmission({ captcha_token: token, captcha: answer }, later())).toEqual({ ok: false, reason: 'captcha' });
+  });
+
+  it('lets a form sent too fast be sent again', () => {
+    const { token, answer } = solvedCaptcha();
+    const body = { captcha_token: token, captcha: answer };
+
+    expect(checkSubmission(body, Date.now())).toEqual({ ok: false, reason: 'too_fast' });
+    expect(checkSubmission(body, later()).ok).toBe(true);
+  });
+
+  it('refuses a filled honeypot', () => {
+    const { token, answer } = solvedCaptcha();
+    expect(checkSubmission({ captcha_token: token, captcha: answer, website: 'x' }, later()))
+      .toEqual({ ok: false, reason: 'honeypot' });
+  });
+});
+
+describe('getSubmitterIp', () => {
+  const request = (headers: Record<string, string>) => new NextRequest('http://localhost/api/laporan', { headers });
+
+  it('takes the address our proxy appended, not one the client sent', () => {
+    expect(getSubmitterIp(request({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getSubmitterIp(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP, then to nothing', () => {
+    expect(getSubmitterIp(request({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8');
+    expect(getSubmitterIp(request({}))).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+// Spam protection for public forms: signed arithmetic challenge, honeypot,
+// minimum fill time and a blocklist of senders marked as spam by staff
+import * as crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import env from './env';
+import { cacheManager } from './cache';
+import { jwtUtils } from './security';
+import { SPAM_BLOCK_TYPES, SpamBlockType } from './constants';
+import SpamBlock from '@/models/SpamBlock';
+import type { ILaporan } from '@/models/Laporan';
+
+// Marks challenge tokens so they cannot be mistaken for other JWTs
+const CAPTCHA_PURPOSE = 'captcha';
+
+// Forms sent sooner than this after the challenge was issued are treated as bots
+export const MIN_FILL_TIME_MS = 5 * 1000;
+
+// Hidden form field that people never fill in
+export const HONEYPOT_FIELD = 'website';
+
+const NUMBER_WORDS = ['nol', 'satu', 'dua', 'tiga', 'empat', 'lima', 'enam', 'tujuh', 'delapan', 'sembilan', 'sepuluh'];
+
+// Token IDs already used, so one solved challenge cannot be replayed
+const usedChallenges = cacheManager.getCache('captcha');
+
+export interface CaptchaChallenge {
+  question: string;
+  token: string;
+}
+
+export type SpamCheckResult = { ok: true; challengeId: string } | { ok: false; reason: 'honeypot' | 'captcha' | 'too_fast' };
+
+interface CaptchaPayload {
+  purpose?: string;
+  jti?: string;
+  check?: string;
+  iat?: number;
+}
+
+// Bind the answer to the token ID without revealing it in the (readable) JWT
+const answerCheck = (tokenId: string, answer: number) =>
+  crypto.createHmac('sha256', env.JWT_SECRET).update(`${CAPTCHA_PURPOSE}:${tokenId}:${answer}`).digest('hex');
+
+// Issue a new challenge. The question uses words so it is not a bare expression to evaluate.
+export function createCaptcha(): CaptchaChallenge {
+  const a = crypto.randomInt(1, 11);
+  const b = crypto.randomInt(1, 11);
+  const add = a < b || crypto.randomInt(0, 2) === 0;
+  const answer = add ? a + b : a - b;
+  const tokenId = crypto.randomBytes(16).toString('hex');
+
+  return {
+    question: `Berapa ${NUMBER_WORDS[a]} ${add ? 'ditambah' : 'dikurangi'} ${NUMBER_WORDS[b]}?`,
+    token: jwtUtils.generateCaptchaToken({ purpose: CAPTCHA_PURPOSE, jti: tokenId, check: answerCheck(tokenId, answer) }),
+  };
+}
+
+// Check the honeypot, the challenge answer and how quickly the form was sent.
+// A wrong answer uses the challenge up. A right one stays open until the caller
+// spends it with spendChallenge just before storing the submission, so a form
+// refused for another field can be corrected and sent again.
+export function checkSubmission(body: Record<string, unknown>, now: number = Date.now()): SpamCheckResult {
+  if (typeof body[HONEYPOT_FIELD] === 'string' && body[HONEYPOT_FIELD]) {
+    return { ok: false, reason: 'honeypot' };
+  }
+
+  const token = typeof body.captcha_token === 'string' ? body.captcha_token : '';
+  const answer = Number(typeof body.captcha === 'string' ? body.captcha.trim() : body.captcha);
+  if (!token || !Number.isInteger(answer)) {
+    return { ok: false, reason: 'captcha' };
+  }
+
+  let payload: CaptchaPayload;
+  try {
+    payload = jwtUtils.verifyToken(token) as CaptchaPayload;
+  } catch {
+    return { ok: false, reason: 'captcha' };
+  }
+
+  if (payload?.purpose !== CAPTCHA_PURPOSE || !payload.jti || !payload.check || !payload.iat) {
+    return { ok: false, reason: 'captcha' };
+  }
+
+  if (usedChallenges.has(payload.jti)) {
+    return { ok: false, reason: 'captcha' };
+  }
+
+  const expected = Buffer.from(payload.check, 'hex');
+  const actual = Buffer.from(answerCheck(payload.jti, answer), 'hex');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    // No second guess on the same question
+    spendChallenge(payload.jti);
+    return { ok: false, reason: 'captcha' };
+  }
+
+  if (now - payload.iat * 1000 < MIN_FILL_TIME_MS) {
+    return { ok: false, reason: 'too_fast' };
+  }
+
+  return { ok: true, challengeId: payload.jti };
+}
+
+// Mark a challenge as used. False when it already was, e.g. by another request
+// sent with the same token, in which case the submission must be refused.
+export function spendChallenge(challengeId: string): boolean {
+  if (usedChallenges.has(challengeId)) {
+    return false;
+  }
+  usedChallenges.set(challengeId, true, jwtUtils.lifetimes.captchaToken * 1000);
+  return true;
+}
+
+// Client address as seen by our reverse proxy: the last X-Forwarded-For entry,
+// which the proxy appends. Earlier entries come from the client and can be
+// anything, so they must not key rate limits or the blocklist.
+export function getSubmitterIp(request: NextRequest): string | null {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return forwarded || request.headers.get('x-real-ip') || null;
+}
+
+// Normalise a value so trivial variations still match the blocklist
+export function normalizeBlockValue(type: SpamBlockType, value: string): string {
+  switch (type) {
+    case SPAM_BLOCK_TYPES.EMAIL:
+      return value.trim().toLowerCase();
+    case SPAM_BLOCK_TYPES.PHONE: {
+      // 0812..., +62812... and 62812... are the same number
+      const digits = value.replace(/\D/g, '');
+      return digits.startsWith('62') ? `0${digits.slice(2)}` : digits;
+    }
+    default:
+      return value.trim();
+  }
+}
+
+// Sender details known in plain; anonymous and confidential reports have none
+// besides the IP the form was sent from
+interface SenderDetails {
+  email?: string | undefined;
+  phone?: string | undefined;
+  ip?: string | null | undefined;
+}
+
+// Sender details of a report as blocklist entries
+export function senderBlockValues(sender: SenderDetails) {
+  return [
+    ...(sender.email ? [{ type: SPAM_BLOCK_TYPES.EMAIL, value: normalizeBlockValue(SPAM_BLOCK_TYPES.EMAIL, sender.email) }] : []),
+    ...(sender.phone ? [{ type: SPAM_BLOCK_TYPES.PHONE, value: normalizeBlockValue(SPAM_BLOCK_TYPES.PHONE, sender.phone) }] : []),
+    ...(sender.ip ? [{ type: SPAM_BLOCK_TYPES.IP, value: normalizeBlockValue(SPAM_BLOCK_TYPES.IP, sender.ip) }] : []),
+  ].filter(entry => entry.value) as { type: SpamBlockType; value: string }[];
+}
+
+// Whether any of the sender's details is on the blocklist
+export async function isSenderBlocked(sender: SenderDetails): Promise<boolean> {
+  const entries = senderBlockValues(sender);
+  if (entries.length === 0) {
+    return false;
+  }
+  const blocked = await SpamBlock.exists({ $or: entries.map(entry => ({ type: entry.type, value: entry.value })) });
+  return !!blocked;
+}
+
+// Block the email, phone and IP of a report marked as spam. Entries that already
+// exist are kept as they are. Returns the number of new entries.
+export async function blockLaporanSender(
+  laporan: Pick<ILaporan, '_id' | 'ticket' | 'email' | 'phone' | 'submitted_ip'>,
+  actor: { userId: string; username: string }
+): Promise<number> {
+  const entries = senderBlockValues({ email: laporan.email, phone: laporan.phone, ip: laporan.submitted_ip ?? null });
+  if (entries.length === 0) {
+    return 0;
+  }
+  const result = await SpamBlock.bulkWrite(
+    entries.map(entry => ({
+      updateOne: {
+        filter: { type: entry.type, value: entry.value },
+        update: {
+          $setOnInsert: {
+            laporan: laporan._id,
+            ticket: laporan.ticket,
+            created_by: actor.userId,
+            created_by_name: actor.username,
+          },
+        },
+        upsert: true,
+      },
+    }))
+  );
+  return result.upsertedCount;
+}
+
+// Lift the blocks that came from a report, e.g. when it was marked as spam by mistake
+export async function unblockLaporanSender(laporanId: string): Promise<number> {
+  const result = await SpamBlock.deleteMany({ laporan: laporanId });
+  return result.deletedCount;
+}
@@ -0,0 +1,135 @@
+// Laporan assignment: work queues, assignee labels and workload counts
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import User from '@/models/User';
+import Laporan from '@/models/Laporan';
+import { BIDANG, BIDANG_LABELS, PERMISSIONS, Bidang } from './constants';
+import { getPermissionMatrix } from './rbac';
+import { OPEN_STATUSES } from './sla';
+
+export interface StaffWorkload {
+  _id: string;
+  username: string;
+  bidang: Bidang | null;
+  open: number;
+  overdue: number;
+}
+
+export interface BidangWorkload {
+  bidang: Bidang;
+  open: number;
+  overdue: number;
+}
+
+export interface Workload {
+  staff: StaffWorkload[];
+  bidang: BidangWorkload[];
+  unassigned: number;
+}
+
+export const ALL_BIDANG = Object.values(BIDANG) as Bidang[];
+
+// Type guard for bidang names coming from requests
+export function isBidang(value: unknown): value is Bidang {
+  return typeof value === 'string' && (ALL_BIDANG as string[]).includes(value);
+}
+
+// Human-readable assignee shown in the report history
+export function describeAssignee(name?: string | null, bidang?: Bidang | null): string {
+  const unit = bidang ? BIDANG_LABELS[bidang] : null;
+
+  if (name && unit) {
+    return `${name} (${unit})`;
+  }
+  return name || unit || 'Belum ditugaskan';
+}
+
+// Reports in a staff member's queue: assigned to them personally, or to
+// their bidang while nobody in the bidang has picked it up yet
+export function workQueueQuery(userId: string, bidang?: Bidang | null): Record<string, unknown> {
+  const personal = { assigned_to: new mongoose.Types.ObjectId(userId) };
+
+  if (!bidang) {
+    return personal;
+  }
+
+  return {
+    $or: [
+      personal,
+      { assigned_bidang: bidang, assigned_to: { $exists: false } },
+    ],
+  };
+}
+
+// Reports nobody has been made responsible for
+export function unassignedQuery(): Record<string, unknown> {
+  return {
+    assigned_to: { $exists: false },
+    assigned_bidang: { $exists: false },
+  };
+}
+
+// Active accounts whose role may work on reports
+export async function getAssignableStaff() {
+  await dbConnect();
+
+  const matrix = await getPermissionMatrix();
+  const roles = Object.entries(matrix)
+    .filter(([, permissions]) => permissions.includes(PERMISSIONS.REPORT_UPDATE))
+    .map(([role]) => role);
+
+  return User.find({ role: { $in: roles }, is_active: true })
+    .select('username bidang')
+    .sort({ username: 1 })
+    .lean();
+}
+
+// Open and overdue report counts per staff member and per bidang
+export async function getWorkload(now: Date = new Date()): Promise<Workload> {
+  await dbConnect();
+
+  const countStage = (field: string) => ([
+    { $match: { status: { $in: OPEN_STATUSES } } },
+    {
+      $group: {
+        _id: field,
+        open: { $sum: 1 },
+        overdue: {
+          // Missing due dates sort below any date, so exclude them explicitly
+          $sum: {
+            $cond: [{ $and: [{ $gt: ['$due_at', null] }, { $lt: ['$due_at', now] }] }, 1, 0],
+          },
+        },
+      },
+    },
+  ]);
+
+  const [staff, byUser, byBidang, unassigned] = await Promise.all([
+    getAssignableStaff(),
+    Laporan.aggregate(countStage('$assigned_to')),
+    Laporan.aggregate(countStage('$assigned_bidang')),
+    Laporan.countDocuments({ status: { $in: OPEN_STATUSES }, ...unassignedQuery() }),
+  ]);
+
+  const userCounts = new Map(byUser.map(item => [String(item._id), item]));
+  const bidangCounts = new Map(byBidang.map(item => [String(item._id), item]));
+
+  return {
+    staff: staff.map(member => {
+      const counts = userCounts.get(String(member._id));
+      return {
+        _id: String(member._id),
+        username: member.username,
+        bidang: member.bidang || null,
+        open: counts?.open || 0,
+        overdue: counts?.overdue || 0,
+      };
+    }),
+    bidang: ALL_BIDANG.map(bidang => ({
+      bidang,
+      open: bidangCounts.get(bidang)?.open || 0,
+      overdue: bidangCounts.get(bidang)?.overdue || 0,
+    })),
+    unassigned,
+  };
+}
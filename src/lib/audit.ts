@@ -0,0 +1,239 @@
+// Persistent audit trail for admin create/update/delete actions
+import { NextRequest } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import AuditLog, { IAuditChange, IAuditLog } from '@/models/AuditLog';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, AuditAction, AuditEntityType } from './constants';
+import { auditUtils } from './security';
+import { toCsvRow } from './csv';
+import { sanitizers } from './validation';
+import { getClientInfo } from './session';
+import type { AuthUser } from './auth';
+
+export type AuditSnapshot = Record<string, unknown>;
+
+// Fields of a stored entry used by the viewer and CSV export
+export type AuditLogRecord = Pick<
+  IAuditLog,
+  'created_at' | 'actor_username' | 'actor_role' | 'action' | 'entity_type' | 'entity_id' | 'summary' | 'changes' | 'ip' | 'user_agent'
+>;
+
+// Secrets are never copied into the audit trail, only the fact they changed
+const REDACTED_FIELDS = [
+  'password_hash',
+  'pin_hash',
+  'identity_encrypted',
+  'two_factor_secret',
+  'two_factor_pending_secret',
+  'two_factor_recovery_codes',
+  'two_factor_last_step',
+];
+
+// Reporter identity on laporan is personal data: the trail records that it
+// changed, never the values, so it is not kept past anonymisation
+export const PERSONAL_DATA_FIELDS: Partial<Record<AuditEntityType, string[]>> = {
+  [AUDIT_ENTITY_TYPES.LAPORAN]: ['nama', 'email', 'phone', 'address', 'submitted_ip'],
+};
+
+const REDACTED_VALUE = '[REDACTED]';
+
+// Bookkeeping fields that would only add noise to a diff
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt', 'created_at', 'updated_at', 'history'];
+
+export interface AuditEntry {
+  // null for background jobs
+  request: NextRequest | null;
+  // null for public actions and background jobs
+  actor: AuthUser | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: AuditSnapshot | null;
+  after?: AuditSnapshot | null;
+  summary?: string;
+  // Leave out the caller's IP and user agent, e.g. for reporters who chose
+  // not to be identified
+  omitClient?: boolean;
+}
+
+// Take a plain JSON copy of a document or object for diffing
+export function toAuditSnapshot(value: unknown): AuditSnapshot | null {
+  if (!value) {
+    return null;
+  }
+
+  const plain = value instanceof mongoose.Document ? value.toObject({ depopulate: true }) : value;
+  return JSON.parse(JSON.stringify(plain)) as AuditSnapshot;
+}
+
+// Compare two snapshots field by field
+export function diffSnapshots(
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null,
+  entityType?: AuditEntityType
+): IAuditChange[] {
+  const redacted = [...REDACTED_FIELDS, ...((entityType && PERSONAL_DATA_FIELDS[entityType]) || [])];
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: IAuditChange[] = [];
+
+  for (const field of Array.from(fields).sort()) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+
+    const previous = before?.[field];
+    const next = after?.[field];
+
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+    if (redacted.includes(field)) {
+      changes.push({
+        field,
+        ...(previous !== undefined && { before: REDACTED_VALUE }),
+        ...(next !== undefined && { after: REDACTED_VALUE }),
+      });
+      continue;
+    }
+
+    changes.push({
+      field,
+      ...(previous !== undefined && { before: previous }),
+      ...(next !== undefined && { after: next }),
+    });
+  }
+
+  return changes;
+}
+
+// Write an audit entry. Failures are logged but never break the request; the
+// result tells callers that must not go ahead unaudited whether it was stored.
+export async function recordAudit(entry: AuditEntry): Promise<boolean> {
+  const changes = diffSnapshots(entry.before ?? null, entry.after ?? null, entry.entityType);
+
+  // Nothing actually changed
+  if (entry.action === AUDIT_ACTIONS.UPDATE && changes.length === 0) {
+    return true;
+  }
+
+  const client = entry.request && !entry.omitClient ? getClientInfo(entry.request) : null;
+  let stored = true;
+
+  try {
+    await dbConnect();
+    await AuditLog.create({
+      ...(entry.actor && { actor: entry.actor.userId, actor_role: entry.actor.role }),
+      actor_username: entry.actor?.username || (entry.request ? 'publik' : 'sistem'),
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId,
+      ...(entry.summary && { summary: entry.summary }),
+      changes,
+      ...(client && { ip: client.ip, user_agent: client.user_agent }),
+    });
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+    stored = false;
+  }
+
+  // Revealing or exporting is a read as far as the data access log is concerned;
+  // anonymising is an update
+  const accessType = entry.action === AUDIT_ACTIONS.REVEAL || entry.action === AUDIT_ACTIONS.EXPORT
+    ? 'read'
+    : entry.action === AUDIT_ACTIONS.ANONYMIZE ? 'update' : entry.action;
+  auditUtils.logDataAccess(entry.entityType, accessType, entry.actor?.userId, entry.entityId);
+  return stored;
+}
+
+// Blank the personal data already stored for some entities, e.g. when a
+// laporan is anonymised. Covers entries written before the fields were
+// redacted, and the address a member of the public filed from.
+export async function redactAuditPersonalData(entityType: AuditEntityType, entityIds: string[]): Promise<void> {
+  const fields = PERSONAL_DATA_FIELDS[entityType];
+  if (!fields || entityIds.length === 0) {
+    return;
+  }
+
+  await dbConnect();
+  const filter = { entity_type: entityType, entity_id: { $in: entityIds } };
+
+  await AuditLog.updateMany(
+    { ...filter, 'changes.field': { $in: fields } },
+    {
+      $set: {
+        'changes.$[previous].before': REDACTED_VALUE,
+        'changes.$[next].after': REDACTED_VALUE,
+      },
+    },
+    {
+      arrayFilters: [
+        { 'previous.field': { $in: fields }, 'previous.before': { $exists: true } },
+        { 'next.field': { $in: fields }, 'next.after': { $exists: true } },
+      ],
+    }
+  );
+
+  await AuditLog.updateMany(
+    { ...filter, actor: { $exists: false } },
+    { $unset: { ip: 1, user_agent: 1 } }
+  );
+}
+
+// Build a MongoDB filter from the audit viewer query string
+export function buildAuditQuery(searchParams: URLSearchParams): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+
+  const entityType = searchParams.get('entity_type');
+  if (entityType && (Object.values(AUDIT_ENTITY_TYPES) as string[]).includes(entityType)) {
+    query.entity_type = entityType;
+  }
+
+  const action = searchParams.get('action');
+  if (action && (Object.values(AUDIT_ACTIONS) as string[]).includes(action)) {
+    query.action = action;
+  }
+
+  const entityId = searchParams.get('entity_id');
+  if (entityId) {
+    query.entity_id = entityId.trim();
+  }
+
+  const actor = searchParams.get('actor');
+  if (actor) {
+    query.actor_username = { $regex: sanitizers.escapeRegex(actor.trim()), $options: 'i' };
+  }
+
+  // Date range, inclusive of the whole "to" day
+  const createdAt: Record<string, Date> = {};
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  if (from && !isNaN(Date.parse(from))) {
+    createdAt.$gte = new Date(from);
+  }
+  if (to && !isNaN(Date.parse(to))) {
+    const end = new Date(to);
+    end.setHours(23, 59, 59, 999);
+    createdAt.$lte = end;
+  }
+  if (Object.keys(createdAt).length > 0) {
+    query.created_at = createdAt;
+  }
+
+  return query;
+}
+
+// Render audit entries as CSV, one row per entry
+export function auditLogsToCsv(logs: AuditLogRecord[]): string {
+  const header = ['Waktu', 'Pengguna', 'Peran', 'Aksi', 'Entitas', 'ID Entitas', 'Keterangan', 'Perubahan', 'IP', 'User Agent'];
+  const rows = logs.map(log => toCsvRow([
+    log.created_at.toISOString(),
+    log.actor_username,
+    log.actor_role,
+    log.action,
+    log.entity_type,
+    log.entity_id,
+    log.summary,
+    log.changes.map(change => `${change.field}: ${JSON.stringify(change.before ?? null)} -> ${JSON.stringify(change.after ?? null)}`).join('; '),
+    log.ip,
+    log.user_agent,
+  ]));
+
+  return [toCsvRow(header), ...rows].join('\r\n');
+}
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getRoutePolicy, HttpMethod, ProtectedRoute, PUBLIC_ACCESS, ROUTE_POLICIES } from './auth';
+
+const API_DIR = path.resolve(__dirname, '../app/api');
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Handlers anyone may call. Adding a route here is a deliberate decision.
+const PUBLIC_HANDLERS: Record<string, string> = {
+  'POST /api/admin/login': 'sign-in',
+  'POST /api/admin/login/verify': 'second sign-in step, holds a short-lived challenge',
+  'POST /api/admin/logout': 'clears the caller\'s own session',
+  'POST /api/auth/forgot-password': 'password reset request, same answer for every email',
+  'GET /api/auth/reset-password': 'checks a reset token',
+  'POST /api/auth/reset-password': 'sets a password with a reset token',
+  'POST /api/auth/refresh': 'rotates the caller\'s own token',
+  'GET /api/berita': 'published news',
+  'GET /api/berita/tags': 'tags of published news',
+  'GET /api/berita/[slug]': 'published news',
+  'GET /api/galeri': 'published gallery',
+  'GET /api/galeri/[id]': 'published gallery',
+  'POST /api/laporan': 'citizens file reports, behind captcha and rate limits',
+  'POST /api/laporan/lacak': 'tracking with ticket and PIN',
+  'GET /api/laporan/captcha': 'captcha challenge for the report form',
+  'GET /api/survei': 'survey form, or a one-time survey link',
+  'POST /api/survei': 'survey answers',
+  'GET /api/survei/ikm': 'published satisfaction index',
+};
+
+interface RouteFile {
+  route: string;
+  file: string;
+}
+
+// Every app/api/**/route.ts with the route path Next.js serves it under
+function findRouteFiles(dir: string): RouteFile[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findRouteFiles(file);
+    }
+    if (entry.name !== 'route.ts') {
+      return [];
+    }
+    const route = `/api/${path.relative(API_DIR, dir).split(path.sep).join('/')}`.replace(/\/$/, '');
+    return [{ route, file }];
+  });
+}
+
+// Any value does for dynamic segments: the guard runs before they are read
+function samplePath(route: string): { url: string; params: Record<string, string> } {
+  const params: Record<string, string> = {};
+  const url = route.replace(/\[(\w+)\]/g, (_, name: string) => {
+    params[name] = '0123456789abcdef01234567';
+    return params[name] as string;
+  });
+  return { url: `http://localhost${url}`, params };
+}
+
+const routeFiles = findRouteFiles(API_DIR);
+const policyRoutes = Object.keys(ROUTE_POLICIES);
+
+describe('ROUTE_POLICIES', () => {
+  it('has an entry for every route file', () => {
+    const missing = routeFiles.map(({ route }) => route).filter(route => !policyRoutes.includes(route));
+    expect(missing).toEqual([]);
+  });
+
+  it('only has entries for routes that exist', () => {
+    const routes = routeFiles.map(({ route }) => route);
+    expect(policyRoutes.filter(route => !routes.includes(route))).toEqual([]);
+  });
+
+  it('declares a policy for every exported handler and nothing else', async () => {
+    for (const { route, file } of routeFiles) {
+      const handlers = Object.keys(await import(file)).filter(name => HTTP_METHODS.includes(name as HttpMethod));
+      const declared = Object.keys(ROUTE_POLICIES[route as ProtectedRoute]);
+      expect(handlers.sort(), route).toEqual(declared.sort());
+    }
+  });
+
+  it('guards every handler with its own route key', () => {
+    for (const { route, file } of routeFiles) {
+      const source = fs.readFileSync(file, 'utf8');
+      const handlerCount = (source.match(/export async function (GET|POST|PUT|PATCH|DELETE)\b/g) || []).length;
+      const guardedRoutes = Array.from(source.matchAll(/guardRoute\(request, '([^']+)'\)/g), match => match[1]);
+
+      expect(guardedRoutes.length, route).toBe(handlerCount);
+      expect(new Set(guardedRoutes), route).toEqual(new Set([route]));
+    }
+  });
+
+  it('keeps public handlers to the reviewed list', () => {
+    const publicHandlers = routeFiles.flatMap(({ route }) =>
+      HTTP_METHODS
+        .filter(method => getRoutePolicy(route as ProtectedRoute, method) === PUBLIC_ACCESS)
+        .map(method => `${method} ${route}`)
+    );
+    expect(publicHandlers.sort()).toEqual(Object.keys(PUBLIC_HANDLERS).sort());
+  });
+});
+
+describe('guardRoute', () => {
+  it('rejects anonymous calls to every protected handler', async () => {
+    for (const { route, file } of routeFiles) {
+      const module = await import(file);
+
+      for (const method of HTTP_METHODS) {
+        const handler = module[method];
+        if (!handler || getRoutePolicy(route as ProtectedRoute, method) === PUBLIC_ACCESS) continue;
+
+        const { url, params } = samplePath(route);
+        const response: Response = await handler(new NextRequest(url, { method }), { params });
+        expect(response.status, `${method} ${route}`).toBe(401);
+      }
+    }
+  });
+
+  it('rejects a forged token', async () => {
+    const { GET } = await import('@/app/api/laporan/route');
+    const response = await GET(new NextRequest('http://localhost/api/laporan', {
+      headers: { authorization: 'Bearer not-a-valid-token' },
+    }));
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,433 @@
+// Server-side authentication and route protection for API route handlers
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import User from '@/models/User';
+import { PERMISSIONS, Permission } from './constants';
+import { can } from './permissions';
+import { getRolePermissions, isTwoFactorRequired } from './rbac';
+import { AUTH_COOKIE_NAME, isSessionActive } from './session';
+import logger from './logger';
+
+export { AUTH_COOKIE_NAME };
+
+// Claims carried in the admin JWT
+export interface AuthTokenPayload {
+  userId: string;
+  username: string;
+  role: string;
+  sid: string;
+}
+
+// Authenticated admin with the permissions granted to their role
+export interface AuthUser extends AuthTokenPayload {
+  permissions: Permission[];
+  mustChangePassword: boolean;
+  // Role requires two-factor authentication but the account is not enrolled
+  mustEnableTwoFactor: boolean;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Access levels: anyone, any signed-in admin, or a specific permission
+export const PUBLIC_ACCESS = 'public' as const;
+export const AUTHENTICATED_ACCESS = 'authenticated' as const;
+
+export type RoutePolicy = typeof PUBLIC_ACCESS | typeof AUTHENTICATED_ACCESS | Permission;
+
+// Declarative access map for every API route, keyed by its app/api path.
+// Methods missing from a route's entry are denied.
+export const ROUTE_POLICIES = {
+  '/api/admin/login': {
+    POST: PUBLIC_ACCESS,
+  },
+  '/api/admin/login/verify': {
+    POST: PUBLIC_ACCESS,
+  },
+  '/api/admin/logout': {
+    POST: PUBLIC_ACCESS,
+  },
+  '/api/admin/me': {
+    GET: AUTHENTICATED_ACCESS,
+    PUT: AUTHENTICATED_ACCESS,
+  },
+  '/api/admin/sessions': {
+    GET: AUTHENTICATED_ACCESS,
+    DELETE: AUTHENTICATED_ACCESS,
+  },
+  '/api/admin/me/password': {
+    PUT: AUTHENTICATED_ACCESS,
+  },
+  '/api/admin/2fa': {
+    GET: AUTHENTICATED_ACCESS,
+    DELETE: AUTHENTICATED_ACCESS,
+  },
+  '/api/admin/2fa/setup': {
+    POST: AUTHENTICATED_ACCESS,
+  },
+  '/api/admin/2fa/enable': {
+    POST: AUTHENTICATED_ACCESS,
+  },
+  '/api/admin/2fa/recovery-codes': {
+    POST: AUTHENTICATED_ACCESS,
+  },
+  '/api/admin/users': {
+    GET: PERMISSIONS.USER_READ,
+    POST: PERMISSIONS.USER_CREATE,
+  },
+  '/api/admin/users/[id]': {
+    GET: PERMISSIONS.USER_READ,
+    PUT: PERMISSIONS.USER_UPDATE,
+    DELETE: PERMISSIONS.USER_DELETE,
+  },
+  '/api/admin/users/[id]/reset-password': {
+    POST: PERMISSIONS.USER_UPDATE,
+  },
+  '/api/admin/users/[id]/unlock': {
+    POST: PERMISSIONS.USER_UPDATE,
+  },
+  '/api/admin/users/[id]/two-factor': {
+    DELETE: PERMISSIONS.USER_UPDATE,
+  },
+  '/api/admin/audit': {
+    GET: PERMISSIONS.SYSTEM_LOGS,
+  },
+  '/api/admin/audit/export': {
+    GET: PERMISSIONS.SYSTEM_LOGS,
+  },
+  '/api/admin/roles': {
+    GET: PERMISSIONS.SYSTEM_SETTINGS,
+    PUT: PERMISSIONS.SYSTEM_SETTINGS,
+  },
+  '/api/admin/sla': {
+    GET: PERMISSIONS.SYSTEM_SETTINGS,
+    PUT: PERMISSIONS.SYSTEM_SETTINGS,
+  },
+  '/api/admin/retention': {
+    GET: PERMISSIONS.SYSTEM_SETTINGS,
+    PUT: PERMISSIONS.SYSTEM_SETTINGS,
+  },
+  '/api/admin/retention/run': {
+    POST: PERMISSIONS.SYSTEM_SETTINGS,
+  },
+  '/api/admin/personal-data/search': {
+    POST: PERMISSIONS.REPORT_PERSONAL_DATA,
+  },
+  '/api/admin/personal-data/export': {
+    POST: PERMISSIONS.REPORT_PERSONAL_DATA,
+  },
+  '/api/admin/personal-data/erase': {
+    POST: PERMISSIONS.REPORT_PERSONAL_DATA,
+  },
+  '/api/admin/holidays': {
+    GET: PERMISSIONS.SYSTEM_SETTINGS,
+    POST: PERMISSIONS.SYSTEM_SETTINGS,
+  },
+  '/api/admin/holidays/[id]': {
+    DELETE: PERMISSIONS.SYSTEM_SETTINGS,
+  },
+  '/api/admin/notifications/templates': {
+    GET: PERMISSIONS.SYSTEM_SETTINGS,
+    PUT: PERMISSIONS.SYSTEM_SETTINGS,
+  },
+  '/api/admin/notifications/templates/[event]': {
+    DELETE: PERMISSIONS.SYSTEM_SETTINGS,
+  },
+  '/api/admin/notifications/logs': {
+    GET: PERMISSIONS.SYSTEM_LOGS,
+  },
+  '/api/admin/jobs': {
+    GET: PERMISSIONS.SYSTEM_LOGS,
+  },
+  '/api/admin/jobs/[id]/retry': {
+    POST: PERMISSIONS.SYSTEM_SETTINGS,
+  },
+  '/api/admin/spam-blocklist': {
+    GET: PERMISSIONS.REPORT_READ,
+  },
+  '/api/admin/spam-blocklist/[id]': {
+    DELETE: PERMISSIONS.REPORT_UPDATE,
+  },
+  '/api/admin/survei': {
+    GET: PERMISSIONS.REPORT_READ,
+  },
+  '/api/admin/response-templates': {
+    GET: PERMISSIONS.REPORT_RESPOND,
+    POST: PERMISSIONS.REPORT_MANAGE_TEMPLATES,
+  },
+  '/api/admin/response-templates/[id]': {
+    PUT: PERMISSIONS.REPORT_MANAGE_TEMPLATES,
+    DELETE: PERMISSIONS.REPORT_MANAGE_TEMPLATES,
+  },
+  '/api/admin/berita': {
+    GET: PERMISSIONS.CONTENT_READ,
+    POST: PERMISSIONS.CONTENT_CREATE,
+  },
+  '/api/admin/berita/[id]': {
+    GET: PERMISSIONS.CONTENT_READ,
+    PUT: PERMISSIONS.CONTENT_UPDATE,
+    DELETE: PERMISSIONS.CONTENT_DELETE,
+  },
+  '/api/admin/galeri': {
+    GET: PERMISSIONS.CONTENT_READ,
+    POST: PERMISSIONS.CONTENT_CREATE,
+  },
+  '/api/admin/galeri/[id]': {
+    GET: PERMISSIONS.CONTENT_READ,
+    PUT: PERMISSIONS.CONTENT_UPDATE,
+    DELETE: PERMISSIONS.CONTENT_DELETE,
+  },
+  '/api/auth/forgot-password': {
+    POST: PUBLIC_ACCESS,
+  },
+  '/api/auth/reset-password': {
+    GET: PUBLIC_ACCESS,
+    POST: PUBLIC_ACCESS,
+  },
+  '/api/auth/refresh': {
+    POST: PUBLIC_ACCESS,
+  },
+  '/api/auth/session': {
+    GET: AUTHENTICATED_ACCESS,
+  },
+  '/api/berita': {
+    GET: PUBLIC_ACCESS,
+    POST: PERMISSIONS.CONTENT_CREATE,
+  },
+  '/api/berita/tags': {
+    GET: PUBLIC_ACCESS,
+  },
+  '/api/berita/[slug]': {
+    GET: PUBLIC_ACCESS,
+    PUT: PERMISSIONS.CONTENT_UPDATE,
+    DELETE: PERMISSIONS.CONTENT_DELETE,
+  },
+  '/api/galeri': {
+    GET: PUBLIC_ACCESS,
+    POST: PERMISSIONS.CONTENT_CREATE,
+  },
+  '/api/galeri/[id]': {
+    GET: PUBLIC_ACCESS,
+    PUT: PERMISSIONS.CONTENT_UPDATE,
+    DELETE: PERMISSIONS.CONTENT_DELETE,
+  },
+  '/api/laporan': {
+    GET: PERMISSIONS.REPORT_READ,
+    POST: PUBLIC_ACCESS,
+  },
+  '/api/laporan/lacak': {
+    POST: PUBLIC_ACCESS,
+  },
+  '/api/laporan/captcha': {
+    GET: PUBLIC_ACCESS,
+  },
+  '/api/laporan/[id]': {
+    GET: PERMISSIONS.REPORT_READ,
+    PUT: PERMISSIONS.REPORT_UPDATE,
+    DELETE: PERMISSIONS.REPORT_DELETE,
+  },
+  '/api/laporan/[id]/attachments/[attachmentId]': {
+    GET: PERMISSIONS.REPORT_READ,
+  },
+  '/api/laporan/[id]/spam': {
+    POST: PERMISSIONS.REPORT_UPDATE,
+    DELETE: PERMISSIONS.REPORT_UPDATE,
+  },
+  '/api/laporan/[id]/merge': {
+    POST: PERMISSIONS.REPORT_UPDATE,
+  },
+  '/api/laporan/[id]/identity': {
+    POST: PERMISSIONS.REPORT_REVEAL_IDENTITY,
+  },
+  '/api/laporan/[id]/contact': {
+    POST: PERMISSIONS.REPORT_READ,
+  },
+  '/api/laporan/[id]/notes': {
+    GET: PERMISSIONS.REPORT_READ,
+    POST: PERMISSIONS.REPORT_READ,
+  },
+  '/api/laporan/[id]/assign': {
+    PUT: PERMISSIONS.REPORT_ASSIGN,
+  },
+  '/api/laporan/statistics': {
+    GET: PERMISSIONS.REPORT_READ,
+  },
+  '/api/laporan/workload': {
+    GET: PERMISSIONS.REPORT_ASSIGN,
+  },
+  '/api/laporan/export': {
+    GET: PERMISSIONS.REPORT_EXPORT,
+  },
+  '/api/laporan/recap': {
+    GET: PERMISSIONS.REPORT_EXPORT,
+  },
+  '/api/survei': {
+    GET: PUBLIC_ACCESS,
+    POST: PUBLIC_ACCESS,
+  },
+  '/api/survei/ikm': {
+    GET: PUBLIC_ACCESS,
+  },
+} satisfies Record<string, Partial<Record<HttpMethod, RoutePolicy>>>;
+
+export type ProtectedRoute = keyof typeof ROUTE_POLICIES;
+
+// Routes still reachable while a forced password change is pending
+const PASSWORD_CHANGE_ROUTES: ProtectedRoute[] = [
+  '/api/admin/me',
+  '/api/admin/me/password',
+  '/api/admin/sessions',
+  '/api/auth/session',
+];
+
+// Routes still reachable while mandatory two-factor enrollment is pending
+const TWO_FACTOR_SETUP_ROUTES: ProtectedRoute[] = [
+  ...PASSWORD_CHANGE_ROUTES,
+  '/api/admin/2fa',
+  '/api/admin/2fa/setup',
+  '/api/admin/2fa/enable',
+];
+
+export type GuardResult =
+  | { user: AuthUser | null; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+// Read the bearer token or auth cookie from a request
+export function getRequestToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization');
+  return authHeader?.replace('Bearer ', '') || request.cookies.get(AUTH_COOKIE_NAME)?.value || null;
+}
+
+// Decode the JWT claims, or null when the token is missing or invalid
+export function getTokenPayload(request: NextRequest): AuthTokenPayload | null {
+  const token = getRequestToken(request);
+
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as AuthTokenPayload;
+    return {
+      userId: decoded.userId,
+      username: decoded.username,
+      role: decoded.role,
+      sid: decoded.sid,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Resolve the authenticated user together with their role permissions.
+// The session and account are re-read so revocation, deactivation and
+// role changes apply immediately.
+export async function getAuthUser(request: NextRequest): Promise<AuthUser | null> {
+  const payload = getTokenPayload(request);
+
+  if (!payload?.sid || !mongoose.Types.ObjectId.isValid(payload.userId)) {
+    return null;
+  }
+
+  if (!(await isSessionActive(payload.sid))) {
+    return null;
+  }
+
+  await dbConnect();
+  const account = await User.findById(payload.userId)
+    .select('username role is_active must_change_password two_factor_enabled')
+    .lean();
+
+  if (!account || !account.is_active) {
+    return null;
+  }
+
+  return {
+    userId: payload.userId,
+    sid: payload.sid,
+    username: account.username,
+    role: account.role,
+    permissions: await getRolePermissions(account.role),
+    mustChangePassword: Boolean(account.must_change_password),
+    mustEnableTwoFactor: !account.two_factor_enabled && (await isTwoFactorRequired(account.role)),
+  };
+}
+
+// Check whether an authenticated user holds a permission
+export function hasPermission(user: AuthUser, permission: Permission): boolean {
+  return can(user, permission);
+}
+
+// Look up the policy for a route and method
+export function getRoutePolicy(route: ProtectedRoute, method: string): RoutePolicy | undefined {
+  const policies: Partial<Record<HttpMethod, RoutePolicy>> = ROUTE_POLICIES[route];
+  return policies[method as HttpMethod];
+}
+
+// Enforce the declared policy for a route handler.
+// Returns the user on success, or a ready-made error response.
+export async function guardRoute(request: NextRequest, route: ProtectedRoute): Promise<GuardResult> {
+  const policy = getRoutePolicy(route, request.method);
+
+  if (!policy) {
+    logger.warn('Route access denied: no policy declared', { route, method: request.method });
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Method not allowed' },
+        { status: 405 }
+      ),
+    };
+  }
+
+  if (policy === PUBLIC_ACCESS) {
+    return { user: null };
+  }
+
+  const user = await getAuthUser(request);
+
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (user.mustChangePassword && !PASSWORD_CHANGE_ROUTES.includes(route)) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Password change required' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  if (user.mustEnableTwoFactor && !TWO_FACTOR_SETUP_ROUTES.includes(route)) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Two-factor authentication required' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  if (policy !== AUTHENTICATED_ACCESS && !hasPermission(user, policy)) {
+    logger.warn('Route access denied: missing permission', {
+      route,
+      method: request.method,
+      userId: user.userId,
+      role: user.role,
+      permission: policy,
+    });
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Forbidden' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user };
+}
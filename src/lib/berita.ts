@@ -0,0 +1,79 @@
+// Berita categories and tags, shared by the admin and public routes
+import slugify from 'slugify';
+import dbConnect from './mongodb';
+import Berita from '@/models/Berita';
+import { BERITA_CATEGORIES, BeritaCategory, VALIDATION_RULES } from './constants';
+
+export interface BeritaTagCount {
+  tag: string;
+  count: number;
+}
+
+const DEFAULT_TAG_CLOUD_SIZE = 30;
+
+export function isBeritaCategory(value: unknown): value is BeritaCategory {
+  return typeof value === 'string' && (Object.values(BERITA_CATEGORIES) as string[]).includes(value);
+}
+
+// Tags as typed by editors, as an array or comma separated, turned into
+// unique slugs: "Investasi Daerah, UMKM" -> ["investasi-daerah", "umkm"].
+// Returns null when the input is not tags at all.
+export function normalizeBeritaTags(input: unknown): string[] | null {
+  const raw = typeof input === 'string' ? input.split(',') : input;
+  if (!Array.isArray(raw) || raw.some(tag => typeof tag !== 'string')) {
+    return null;
+  }
+
+  const tags = (raw as string[])
+    .map(tag => slugify(tag, { lower: true, strict: true, locale: 'id' }).slice(0, VALIDATION_RULES.TAG.MAX_LENGTH))
+    .map(tag => tag.replace(/-+$/, ''))
+    .filter(tag => tag.length > 0);
+
+  return Array.from(new Set(tags));
+}
+
+export interface BeritaTaxonomy {
+  category?: BeritaCategory;
+  tags?: string[];
+}
+
+// Category and tags of a create or update body. Fields left out stay out, so
+// an update only changes what was sent.
+export function readBeritaTaxonomy(body: { category?: unknown; tags?: unknown }): BeritaTaxonomy | { error: string } {
+  const taxonomy: BeritaTaxonomy = {};
+
+  if (body.category !== undefined) {
+    if (!isBeritaCategory(body.category)) {
+      return { error: 'Invalid category' };
+    }
+    taxonomy.category = body.category;
+  }
+
+  if (body.tags !== undefined) {
+    const tags = normalizeBeritaTags(body.tags);
+    if (!tags) {
+      return { error: 'Tags must be a list of text' };
+    }
+    if (tags.length > VALIDATION_RULES.TAG.MAX_COUNT) {
+      return { error: `Cannot have more than ${VALIDATION_RULES.TAG.MAX_COUNT} tags` };
+    }
+    taxonomy.tags = tags;
+  }
+
+  return taxonomy;
+}
+
+// Tags of published news with how many use each, most used first
+export async function getBeritaTagCounts(limit = DEFAULT_TAG_CLOUD_SIZE): Promise<BeritaTagCount[]> {
+  await dbConnect();
+
+  const groups = await Berita.aggregate<{ _id: string; count: number }>([
+    { $match: { published: true } },
+    { $unwind: '$tags' },
+    { $group: { _id: '$tags', count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: limit },
+  ]);
+
+  return groups.map(group => ({ tag: group._id, count: group.count }));
+}
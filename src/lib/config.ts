@@ -26,6 +26,8 @@ const envSchema = z.object({
   UPLOAD_MAX_SIZE: z.string().transform(Number).default(10485760), // 10MB
   UPLOAD_ALLOWED_TYPES: z.string().default('image/jpeg,image/png,image/webp,application/pdf'),
   UPLOAD_DIR: z.string().default('./public/uploads'),
+  // Files that must never be served statically, e.g. laporan attachments
+  PRIVATE_UPLOAD_DIR: z.string().default('./storage/private'),
   
   // Email (optional)
   SMTP_HOST: z.string().optional(),
@@ -43,6 +45,7 @@ const envSchema = z.object({
   RATE_LIMIT_MAX: z.string().transform(Number).default(100),
   
   // Security
+  ENCRYPTION_KEY: z.string().min(32, 'Encryption key must be at least 32 characters').optional(),
   BCRYPT_ROUNDS: z.string().transform(Number).default(12),
   SESSION_TIMEOUT: z.string().transform(Number).default(86400000), // 24 hours
   
@@ -120,6 +123,7 @@ export const uploadConfig = {
   maxSize: env.UPLOAD_MAX_SIZE,
   allowedTypes: env.UPLOAD_ALLOWED_TYPES.split(','),
   directory: env.UPLOAD_DIR,
+  privateDirectory: env.PRIVATE_UPLOAD_DIR,
   paths: {
     images: '/uploads/images',
     documents: '/uploads/documents',
@@ -138,7 +142,8 @@ export const emailConfig = {
     } : undefined,
   },
   from: env.SMTP_FROM,
-  enabled: !!(env.SMTP_HOST && env.SMTP_USER && env.SMTP_PASS),
+  // Credentials are optional so a local capture server (e.g. MailHog) works
+  enabled: !!env.SMTP_HOST,
 } as const;
 
 // Redis configuration
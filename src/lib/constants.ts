@@ -8,6 +8,7 @@ export const API_ROUTES = {
     REGISTER: '/api/auth/register',
     LOGOUT: '/api/auth/logout',
     REFRESH: '/api/auth/refresh',
+    SESSION: '/api/auth/session',
     VERIFY_EMAIL: '/api/auth/verify-email',
     FORGOT_PASSWORD: '/api/auth/forgot-password',
     RESET_PASSWORD: '/api/auth/reset-password',
@@ -40,6 +41,23 @@ export const API_ROUTES = {
     CATEGORIES: '/api/laporan/categories',
     STATUS: '/api/laporan/status',
     STATISTICS: '/api/laporan/statistics',
+    TRACK: '/api/laporan/lacak',
+    ASSIGN: (id: string) => `/api/laporan/${id}/assign`,
+    WORKLOAD: '/api/laporan/workload',
+    EXPORT: '/api/laporan/export',
+    RECAP: '/api/laporan/recap',
+    CAPTCHA: '/api/laporan/captcha',
+    SPAM: (id: string) => `/api/laporan/${id}/spam`,
+    MERGE: (id: string) => `/api/laporan/${id}/merge`,
+    IDENTITY: (id: string) => `/api/laporan/${id}/identity`,
+    CONTACT: (id: string) => `/api/laporan/${id}/contact`,
+    NOTES: (id: string) => `/api/laporan/${id}/notes`,
+  },
+
+  // Satisfaction survey
+  SURVEY: {
+    BASE: '/api/survei',
+    IKM: '/api/survei/ikm',
   },
   
   // Users
@@ -64,6 +82,24 @@ export const API_ROUTES = {
     USERS: '/api/admin/users',
     CONTENT: '/api/admin/content',
     SETTINGS: '/api/admin/settings',
+    AUDIT: '/api/admin/audit',
+    AUDIT_EXPORT: '/api/admin/audit/export',
+    SLA: '/api/admin/sla',
+    HOLIDAYS: '/api/admin/holidays',
+    NOTIFICATION_TEMPLATES: '/api/admin/notifications/templates',
+    NOTIFICATION_LOGS: '/api/admin/notifications/logs',
+    JOBS: '/api/admin/jobs',
+    JOB_RETRY: (id: string) => `/api/admin/jobs/${id}/retry`,
+    SPAM_BLOCKLIST: '/api/admin/spam-blocklist',
+    SPAM_BLOCKLIST_BY_ID: (id: string) => `/api/admin/spam-blocklist/${id}`,
+    SURVEY: '/api/admin/survei',
+    RESPONSE_TEMPLATES: '/api/admin/response-templates',
+    RESPONSE_TEMPLATE_BY_ID: (id: string) => `/api/admin/response-templates/${id}`,
+    RETENTION: '/api/admin/retention',
+    RETENTION_RUN: '/api/admin/retention/run',
+    PERSONAL_DATA_SEARCH: '/api/admin/personal-data/search',
+    PERSONAL_DATA_EXPORT: '/api/admin/personal-data/export',
+    PERSONAL_DATA_ERASE: '/api/admin/personal-data/erase',
   },
 } as const;
 
@@ -74,6 +110,7 @@ export const PAGE_ROUTES = {
   ABOUT: '/tentang',
   CONTACT: '/kontak',
   SERVICES: '/layanan',
+  SURVEY: '/survei',
   
   // News/Berita
   BERITA: {
@@ -157,6 +194,11 @@ export const PERMISSIONS = {
   REPORT_UPDATE: 'report:update',
   REPORT_DELETE: 'report:delete',
   REPORT_RESPOND: 'report:respond',
+  REPORT_ASSIGN: 'report:assign',
+  REPORT_EXPORT: 'report:export',
+  REPORT_REVEAL_IDENTITY: 'report:reveal_identity',
+  REPORT_MANAGE_TEMPLATES: 'report:manage_templates',
+  REPORT_PERSONAL_DATA: 'report:personal_data',
   
   // System administration
   SYSTEM_SETTINGS: 'system:settings',
@@ -164,6 +206,88 @@ export const PERMISSIONS = {
   SYSTEM_BACKUP: 'system:backup',
 } as const;
 
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  super_admin: 'Super Admin',
+  admin: 'Admin',
+  moderator: 'Moderator',
+  editor: 'Editor',
+  user: 'Pengguna',
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'user:create': 'Tambah pengguna',
+  'user:read': 'Lihat pengguna',
+  'user:update': 'Ubah pengguna',
+  'user:delete': 'Hapus pengguna',
+  'content:create': 'Tambah konten',
+  'content:read': 'Lihat konten',
+  'content:update': 'Ubah konten',
+  'content:delete': 'Hapus konten',
+  'content:publish': 'Publikasi konten',
+  'report:create': 'Buat laporan',
+  'report:read': 'Lihat laporan',
+  'report:update': 'Ubah status laporan',
+  'report:delete': 'Hapus laporan',
+  'report:respond': 'Tanggapi laporan',
+  'report:assign': 'Tugaskan laporan',
+  'report:export': 'Ekspor & rekap laporan',
+  'report:reveal_identity': 'Buka identitas pelapor rahasia',
+  'report:manage_templates': 'Kelola template tanggapan',
+  'report:personal_data': 'Ekspor & hapus data pribadi pelapor',
+  'system:settings': 'Pengaturan sistem & hak akses',
+  'system:logs': 'Lihat log sistem',
+  'system:backup': 'Cadangan data',
+};
+
+// Default permissions granted to each role
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  super_admin: Object.values(PERMISSIONS),
+  admin: [
+    PERMISSIONS.USER_READ,
+    PERMISSIONS.CONTENT_CREATE,
+    PERMISSIONS.CONTENT_READ,
+    PERMISSIONS.CONTENT_UPDATE,
+    PERMISSIONS.CONTENT_DELETE,
+    PERMISSIONS.CONTENT_PUBLISH,
+    PERMISSIONS.REPORT_CREATE,
+    PERMISSIONS.REPORT_READ,
+    PERMISSIONS.REPORT_UPDATE,
+    PERMISSIONS.REPORT_DELETE,
+    PERMISSIONS.REPORT_RESPOND,
+    PERMISSIONS.REPORT_ASSIGN,
+    PERMISSIONS.REPORT_EXPORT,
+    PERMISSIONS.REPORT_MANAGE_TEMPLATES,
+    PERMISSIONS.SYSTEM_LOGS,
+    PERMISSIONS.SYSTEM_BACKUP,
+  ],
+  moderator: [
+    PERMISSIONS.CONTENT_READ,
+    PERMISSIONS.REPORT_READ,
+    PERMISSIONS.REPORT_UPDATE,
+    PERMISSIONS.REPORT_RESPOND,
+  ],
+  editor: [
+    PERMISSIONS.CONTENT_CREATE,
+    PERMISSIONS.CONTENT_READ,
+    PERMISSIONS.CONTENT_UPDATE,
+    PERMISSIONS.CONTENT_PUBLISH,
+  ],
+  user: [],
+};
+
+// Organisational units (bidang) that reports can be assigned to
+export const BIDANG = {
+  SEKRETARIAT: 'sekretariat',
+  PELAYANAN_PERIZINAN: 'pelayanan_perizinan',
+  PENGENDALIAN_PENGAWASAN: 'pengendalian_pengawasan',
+} as const;
+
+export const BIDANG_LABELS: Record<Bidang, string> = {
+  sekretariat: 'Sekretariat',
+  pelayanan_perizinan: 'Bidang Pelayanan Perizinan',
+  pengendalian_pengawasan: 'Bidang Pengendalian dan Pengawasan',
+};
+
 // Content Categories
 export const BERITA_CATEGORIES = {
   PENGUMUMAN: 'pengumuman',
@@ -173,6 +297,17 @@ export const BERITA_CATEGORIES = {
   REGULASI: 'regulasi',
 } as const;
 
+export const BERITA_CATEGORY_LABELS: Record<BeritaCategory, string> = {
+  pengumuman: 'Pengumuman',
+  berita: 'Berita',
+  kegiatan: 'Kegiatan',
+  layanan: 'Layanan',
+  regulasi: 'Regulasi',
+};
+
+// Category of news written before categories existed
+export const DEFAULT_BERITA_CATEGORY: BeritaCategory = 'berita';
+
 export const GALLERY_CATEGORIES = {
   KEGIATAN: 'kegiatan',
   FASILITAS: 'fasilitas',
@@ -189,6 +324,45 @@ export const LAPORAN_CATEGORIES = {
   SARAN: 'saran',
 } as const;
 
+export const LAPORAN_CATEGORY_LABELS: Record<LaporanCategory, string> = {
+  pelayanan: 'Pelayanan',
+  infrastruktur: 'Infrastruktur',
+  administrasi: 'Administrasi',
+  perizinan: 'Perizinan',
+  pengaduan: 'Pengaduan Umum',
+  saran: 'Saran',
+};
+
+// Default response time per category, in working days
+export const LAPORAN_SLA_DEFAULTS: Record<LaporanCategory, number> = {
+  pelayanan: 7,
+  infrastruktur: 14,
+  administrasi: 7,
+  perizinan: 5,
+  pengaduan: 5,
+  saran: 14,
+};
+
+// Retention of reporters' personal data (UU 27/2022 on personal data protection).
+// Finished reports keep their message and statistics but lose the reporter's identity.
+export const RETENTION_MODES = {
+  OFF: 'off',
+  // The scheduled run only reports what it would anonymise
+  DRY_RUN: 'dry_run',
+  ENFORCE: 'enforce',
+} as const;
+
+export const RETENTION_MODE_LABELS: Record<RetentionMode, string> = {
+  off: 'Nonaktif',
+  dry_run: 'Uji coba (hanya laporan)',
+  enforce: 'Aktif (anonimkan otomatis)',
+};
+
+export const LAPORAN_RETENTION_DEFAULTS = {
+  mode: RETENTION_MODES.OFF as RetentionMode,
+  months: 24,
+};
+
 // Status Types
 export const LAPORAN_STATUS = {
   PENDING: 'pending',
@@ -198,6 +372,14 @@ export const LAPORAN_STATUS = {
   CLOSED: 'closed',
 } as const;
 
+export const LAPORAN_STATUS_LABELS: Record<LaporanStatus, string> = {
+  pending: 'Menunggu',
+  in_progress: 'Sedang Diproses',
+  resolved: 'Selesai',
+  rejected: 'Ditolak',
+  closed: 'Ditutup',
+};
+
 export const LAPORAN_PRIORITY = {
   LOW: 'low',
   MEDIUM: 'medium',
@@ -205,6 +387,253 @@ export const LAPORAN_PRIORITY = {
   URGENT: 'urgent',
 } as const;
 
+export const LAPORAN_PRIORITY_LABELS: Record<LaporanPriority, string> = {
+  low: 'Rendah',
+  medium: 'Sedang',
+  high: 'Tinggi',
+  urgent: 'Mendesak',
+};
+
+// How much of the reporter's identity is kept. Confidential identities are stored
+// encrypted and only shown to roles allowed to reveal them; anonymous reports have none.
+export const LAPORAN_CONFIDENTIALITY = {
+  NORMAL: 'normal',
+  CONFIDENTIAL: 'confidential',
+  ANONYMOUS: 'anonymous',
+} as const;
+
+export const LAPORAN_CONFIDENTIALITY_LABELS: Record<LaporanConfidentiality, string> = {
+  normal: 'Biasa',
+  confidential: 'Rahasia',
+  anonymous: 'Anonim',
+};
+
+// Audit trail
+export const AUDIT_ACTIONS = {
+  CREATE: 'create',
+  UPDATE: 'update',
+  DELETE: 'delete',
+  REVEAL: 'reveal',
+  EXPORT: 'export',
+  ANONYMIZE: 'anonymize',
+} as const;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Buat',
+  update: 'Ubah',
+  delete: 'Hapus',
+  reveal: 'Buka identitas',
+  export: 'Ekspor data pribadi',
+  anonymize: 'Anonimkan',
+};
+
+export const AUDIT_ENTITY_TYPES = {
+  BERITA: 'berita',
+  GALERI: 'galeri',
+  LAPORAN: 'laporan',
+  USER: 'user',
+  ROLE: 'role',
+  SLA: 'sla',
+  HOLIDAY: 'holiday',
+  NOTIFICATION_TEMPLATE: 'notification_template',
+  JOB: 'job',
+  SPAM_BLOCK: 'spam_block',
+  RESPONSE_TEMPLATE: 'response_template',
+  PERSONAL_DATA: 'personal_data',
+} as const;
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  berita: 'Berita',
+  galeri: 'Galeri',
+  laporan: 'Laporan',
+  user: 'Pengguna',
+  role: 'Hak Akses Peran',
+  sla: 'SLA Laporan',
+  holiday: 'Hari Libur',
+  notification_template: 'Template Notifikasi',
+  job: 'Antrean Proses',
+  spam_block: 'Daftar Blokir Spam',
+  response_template: 'Template Tanggapan',
+  personal_data: 'Data Pribadi Pelapor',
+};
+
+// Email notifications
+export const NOTIFICATION_EVENTS = {
+  LAPORAN_RECEIVED: 'laporan_received',
+  LAPORAN_ASSIGNED: 'laporan_assigned',
+  LAPORAN_STATUS_CHANGED: 'laporan_status_changed',
+  LAPORAN_RESPONDED: 'laporan_responded',
+  LAPORAN_MERGED: 'laporan_merged',
+  LAPORAN_SURVEY: 'laporan_survey',
+  LAPORAN_MENTIONED: 'laporan_mentioned',
+} as const;
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  laporan_received: 'Laporan diterima (ke pelapor)',
+  laporan_assigned: 'Laporan ditugaskan (ke petugas)',
+  laporan_status_changed: 'Status laporan berubah (ke pelapor)',
+  laporan_responded: 'Tanggapan resmi dikirim (ke pelapor)',
+  laporan_merged: 'Laporan digabungkan (ke pelapor)',
+  laporan_survey: 'Undangan survei kepuasan (ke pelapor)',
+  laporan_mentioned: 'Disebut dalam catatan internal (ke petugas)',
+};
+
+export const NOTIFICATION_STATUS = {
+  SENT: 'sent',
+  FAILED: 'failed',
+  SKIPPED: 'skipped',
+} as const;
+
+// Background work handled by the job worker
+export const JOB_TYPES = {
+  SEND_NOTIFICATION: 'send_notification',
+  APPLY_RETENTION: 'apply_retention',
+} as const;
+
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+  send_notification: 'Kirim notifikasi email',
+  apply_retention: 'Retensi data pribadi laporan',
+};
+
+export const JOB_STATUS = {
+  PENDING: 'pending',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  // Gave up after the last attempt; only retried by an admin
+  DEAD: 'dead',
+} as const;
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  pending: 'Menunggu',
+  running: 'Diproses',
+  completed: 'Selesai',
+  dead: 'Gagal',
+};
+
+// Sender details that can be blocked after a report is marked as spam
+export const SPAM_BLOCK_TYPES = {
+  EMAIL: 'email',
+  PHONE: 'phone',
+  IP: 'ip',
+} as const;
+
+export const SPAM_BLOCK_TYPE_LABELS: Record<SpamBlockType, string> = {
+  email: 'Email',
+  phone: 'Telepon',
+  ip: 'Alamat IP',
+};
+
+// Why a new report was flagged as a possible duplicate of an earlier one
+export const DUPLICATE_MATCH_REASONS = {
+  CONTACT: 'contact',
+  TEXT: 'text',
+} as const;
+
+export const DUPLICATE_MATCH_REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  contact: 'Email/telepon sama',
+  text: 'Isi laporan mirip',
+};
+
+// Placeholders available in response templates, filled in from the laporan being answered
+export const RESPONSE_TEMPLATE_VARIABLES: Record<string, string> = {
+  nama: 'Nama pelapor, diisi untuk setiap penerima saat dikirim',
+  ticket: 'Nomor tiket',
+  kategori: 'Kategori laporan',
+  status: 'Status laporan',
+  tanggal: 'Tanggal laporan dikirim',
+  petugas: 'Petugas atau bidang yang menangani',
+  instansi: 'Nama instansi',
+};
+
+// Service user satisfaction survey (Indeks Kepuasan Masyarakat, PermenPAN-RB 14/2017)
+export const SURVEY_SOURCES = {
+  // One-time link sent to the reporter when a laporan is resolved
+  LAPORAN: 'laporan',
+  // Public survey page, for people served at the counter
+  WALK_IN: 'walk_in',
+} as const;
+
+export const SURVEY_SOURCE_LABELS: Record<SurveySource, string> = {
+  laporan: 'Pelapor',
+  walk_in: 'Pengunjung layanan',
+};
+
+// Services the index is reported for; the first four match the service catalogue
+export const SURVEY_SERVICES = {
+  PERIZINAN_USAHA: 'perizinan-usaha',
+  PERIZINAN_NON_USAHA: 'perizinan-non-usaha',
+  PENANAMAN_MODAL: 'penanaman-modal',
+  PELAYANAN_UMUM: 'pelayanan-umum',
+  PENGADUAN: 'pengaduan',
+} as const;
+
+export const SURVEY_SERVICE_LABELS: Record<SurveyService, string> = {
+  'perizinan-usaha': 'Perizinan Usaha',
+  'perizinan-non-usaha': 'Perizinan Non Usaha',
+  'penanaman-modal': 'Penanaman Modal',
+  'pelayanan-umum': 'Pelayanan Umum',
+  pengaduan: 'Pengaduan Masyarakat',
+};
+
+// The nine survey elements (unsur) in the order of the regulation. Answers are
+// listed from worst to best and score 1 to 4.
+export const IKM_ELEMENTS: { code: string; name: string; question: string; answers: [string, string, string, string] }[] = [
+  {
+    code: 'U1',
+    name: 'Persyaratan',
+    question: 'Bagaimana pendapat Saudara tentang kesesuaian persyaratan pelayanan dengan jenis pelayanannya?',
+    answers: ['Tidak sesuai', 'Kurang sesuai', 'Sesuai', 'Sangat sesuai'],
+  },
+  {
+    code: 'U2',
+    name: 'Sistem, Mekanisme, dan Prosedur',
+    question: 'Bagaimana pemahaman Saudara tentang kemudahan prosedur pelayanan di unit ini?',
+    answers: ['Tidak mudah', 'Kurang mudah', 'Mudah', 'Sangat mudah'],
+  },
+  {
+    code: 'U3',
+    name: 'Waktu Penyelesaian',
+    question: 'Bagaimana pendapat Saudara tentang kecepatan waktu dalam memberikan pelayanan?',
+    answers: ['Tidak cepat', 'Kurang cepat', 'Cepat', 'Sangat cepat'],
+  },
+  {
+    code: 'U4',
+    name: 'Biaya/Tarif',
+    question: 'Bagaimana pendapat Saudara tentang kewajaran biaya/tarif dalam pelayanan?',
+    answers: ['Sangat mahal', 'Cukup mahal', 'Murah', 'Gratis'],
+  },
+  {
+    code: 'U5',
+    name: 'Produk Spesifikasi Jenis Pelayanan',
+    question: 'Bagaimana pendapat Saudara tentang kesesuaian produk pelayanan antara yang tercantum dalam standar pelayanan dengan hasil yang diberikan?',
+    answers: ['Tidak sesuai', 'Kurang sesuai', 'Sesuai', 'Sangat sesuai'],
+  },
+  {
+    code: 'U6',
+    name: 'Kompetensi Pelaksana',
+    question: 'Bagaimana pendapat Saudara tentang kompetensi/kemampuan petugas dalam pelayanan?',
+    answers: ['Tidak kompeten', 'Kurang kompeten', 'Kompeten', 'Sangat kompeten'],
+  },
+  {
+    code: 'U7',
+    name: 'Perilaku Pelaksana',
+    question: 'Bagaimana pendapat Saudara tentang perilaku petugas dalam pelayanan terkait kesopanan dan keramahan?',
+    answers: ['Tidak sopan dan ramah', 'Kurang sopan dan ramah', 'Sopan dan ramah', 'Sangat sopan dan ramah'],
+  },
+  {
+    code: 'U8',
+    name: 'Penanganan Pengaduan, Saran dan Masukan',
+    question: 'Bagaimana pendapat Saudara tentang penanganan pengaduan pengguna layanan?',
+    answers: ['Tidak ada', 'Ada tetapi tidak berfungsi', 'Berfungsi kurang maksimal', 'Dikelola dengan baik'],
+  },
+  {
+    code: 'U9',
+    name: 'Sarana dan Prasarana',
+    question: 'Bagaimana pendapat Saudara tentang kualitas sarana dan prasarana?',
+    answers: ['Buruk', 'Cukup', 'Baik', 'Sangat baik'],
+  },
+];
+
 export const CONTENT_STATUS = {
   DRAFT: 'draft',
   PUBLISHED: 'published',
@@ -236,6 +665,13 @@ export const FILE_SIZE_LIMITS = {
   AVATAR: 2 * 1024 * 1024, // 2MB
 } as const;
 
+// Files a citizen may attach to one laporan
+export const LAPORAN_MAX_ATTACHMENTS = 3;
+
+// Largest laporan request body: every attachment at the document limit plus
+// room for the form fields
+export const LAPORAN_MAX_REQUEST_BYTES = LAPORAN_MAX_ATTACHMENTS * FILE_SIZE_LIMITS.DOCUMENT + 256 * 1024;
+
 // Validation Rules
 export const VALIDATION_RULES = {
   PASSWORD: {
@@ -290,6 +726,12 @@ export const VALIDATION_RULES = {
     PATTERN: /^[a-z0-9-]+$/,
     MAX_LENGTH: 100,
   },
+
+  // Berita tags are stored as slugs so they can sit in the archive URL
+  TAG: {
+    MAX_LENGTH: 30,
+    MAX_COUNT: 10,
+  },
 } as const;
 
 // UI Constants
@@ -519,12 +961,25 @@ export const REGEX_PATTERNS = {
 // Export type helpers
 export type UserRole = typeof USER_ROLES[keyof typeof USER_ROLES];
 export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+export type Bidang = typeof BIDANG[keyof typeof BIDANG];
 export type BeritaCategory = typeof BERITA_CATEGORIES[keyof typeof BERITA_CATEGORIES];
 export type GalleryCategory = typeof GALLERY_CATEGORIES[keyof typeof GALLERY_CATEGORIES];
 export type LaporanCategory = typeof LAPORAN_CATEGORIES[keyof typeof LAPORAN_CATEGORIES];
 export type LaporanStatus = typeof LAPORAN_STATUS[keyof typeof LAPORAN_STATUS];
 export type LaporanPriority = typeof LAPORAN_PRIORITY[keyof typeof LAPORAN_PRIORITY];
+export type LaporanConfidentiality = typeof LAPORAN_CONFIDENTIALITY[keyof typeof LAPORAN_CONFIDENTIALITY];
+export type RetentionMode = typeof RETENTION_MODES[keyof typeof RETENTION_MODES];
 export type ContentStatus = typeof CONTENT_STATUS[keyof typeof CONTENT_STATUS];
+export type AuditAction = typeof AUDIT_ACTIONS[keyof typeof AUDIT_ACTIONS];
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[keyof typeof AUDIT_ENTITY_TYPES];
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[keyof typeof NOTIFICATION_EVENTS];
+export type NotificationStatus = typeof NOTIFICATION_STATUS[keyof typeof NOTIFICATION_STATUS];
+export type JobType = typeof JOB_TYPES[keyof typeof JOB_TYPES];
+export type JobStatus = typeof JOB_STATUS[keyof typeof JOB_STATUS];
+export type SpamBlockType = typeof SPAM_BLOCK_TYPES[keyof typeof SPAM_BLOCK_TYPES];
+export type DuplicateMatchReason = typeof DUPLICATE_MATCH_REASONS[keyof typeof DUPLICATE_MATCH_REASONS];
+export type SurveySource = typeof SURVEY_SOURCES[keyof typeof SURVEY_SOURCES];
+export type SurveyService = typeof SURVEY_SERVICES[keyof typeof SURVEY_SERVICES];
 export type Province = typeof PROVINCES[number];
 
 // Export all constants as default
@@ -533,15 +988,54 @@ export default {
   PAGE_ROUTES,
   USER_ROLES,
   PERMISSIONS,
+  USER_ROLE_LABELS,
+  PERMISSION_LABELS,
+  ROLE_PERMISSIONS,
+  BIDANG,
+  BIDANG_LABELS,
   BERITA_CATEGORIES,
+  BERITA_CATEGORY_LABELS,
+  DEFAULT_BERITA_CATEGORY,
   GALLERY_CATEGORIES,
   LAPORAN_CATEGORIES,
+  LAPORAN_CATEGORY_LABELS,
+  LAPORAN_SLA_DEFAULTS,
+  RETENTION_MODES,
+  RETENTION_MODE_LABELS,
+  LAPORAN_RETENTION_DEFAULTS,
   LAPORAN_STATUS,
+  LAPORAN_STATUS_LABELS,
   LAPORAN_PRIORITY,
+  LAPORAN_PRIORITY_LABELS,
+  LAPORAN_CONFIDENTIALITY,
+  LAPORAN_CONFIDENTIALITY_LABELS,
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_TYPES,
+  AUDIT_ENTITY_LABELS,
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_STATUS,
+  JOB_TYPES,
+  JOB_TYPE_LABELS,
+  JOB_STATUS,
+  JOB_STATUS_LABELS,
+  SPAM_BLOCK_TYPES,
+  SPAM_BLOCK_TYPE_LABELS,
+  DUPLICATE_MATCH_REASONS,
+  DUPLICATE_MATCH_REASON_LABELS,
+  RESPONSE_TEMPLATE_VARIABLES,
+  SURVEY_SOURCES,
+  SURVEY_SOURCE_LABELS,
+  SURVEY_SERVICES,
+  SURVEY_SERVICE_LABELS,
+  IKM_ELEMENTS,
   CONTENT_STATUS,
   ALLOWED_IMAGE_TYPES,
   ALLOWED_DOCUMENT_TYPES,
   FILE_SIZE_LIMITS,
+  LAPORAN_MAX_ATTACHMENTS,
+  LAPORAN_MAX_REQUEST_BYTES,
   VALIDATION_RULES,
   UI_CONSTANTS,
   DATE_FORMATS,
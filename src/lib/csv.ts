@@ -0,0 +1,21 @@
+// CSV helpers shared by the admin exports
+
+// Quote a value for CSV output
+export function toCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  // Prevent spreadsheet formula injection
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+// Render one CSV line
+export function toCsvRow(values: unknown[]): string {
+  return values.map(toCsvValue).join(',');
+}
+
+// Byte order mark so spreadsheet applications detect UTF-8
+export const CSV_BOM = '\uFEFF';
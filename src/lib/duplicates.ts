@@ -0,0 +1,218 @@
+// Duplicate laporan: flag likely repeats of an earlier report when one is filed,
+// and merge a duplicate into the report that carries on the case
+import mongoose from 'mongoose';
+import Laporan, { ILaporan, ILaporanDuplicateMatch } from '@/models/Laporan';
+import logger from './logger';
+import { DUPLICATE_MATCH_REASONS } from './constants';
+
+// Only reports filed this recently are compared
+export const DUPLICATE_WINDOW_DAYS = 30;
+
+// Share of distinct message words two reports must have in common
+export const TEXT_SIMILARITY_THRESHOLD = 0.5;
+
+const MAX_DUPLICATE_MATCHES = 5;
+// Text search hits re-scored per report; the best ones by text score come first
+const TEXT_CANDIDATES = 20;
+// Words shorter than this carry little meaning ("di", "ke", "yg")
+const MIN_WORD_LENGTH = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Distinct lowercased words of a message, without markup
+export function messageWords(message: string): Set<string> {
+  const text = message.replace(/<[^>]+>/g, ' ').toLowerCase();
+  return new Set(
+    (text.match(/[\p{L}\p{N}]+/gu) || []).filter(word => word.length >= MIN_WORD_LENGTH)
+  );
+}
+
+// Jaccard similarity of two word sets, from 0 (nothing shared) to 1 (same words)
+export function messageSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+// Earlier reports that are probably the same case: same email or phone within the
+// window, or a message that shares most of its words. Spam and reports already
+// merged elsewhere are ignored.
+export async function findPossibleDuplicates(
+  laporan: Pick<ILaporan, '_id' | 'email' | 'phone' | 'message' | 'created_at'>
+): Promise<ILaporanDuplicateMatch[]> {
+  const baseQuery = {
+    _id: { $ne: laporan._id },
+    created_at: { $gte: new Date(laporan.created_at.getTime() - DUPLICATE_WINDOW_DAYS * DAY_MS) },
+    spam: { $ne: true },
+    duplicate_of: { $exists: false },
+  };
+
+  // Anonymous and confidential reports have no plain contact details to compare
+  const contact = [
+    ...(laporan.email ? [{ email: laporan.email }] : []),
+    ...(laporan.phone ? [{ phone: laporan.phone }] : []),
+  ];
+  const sameContact = contact.length === 0 ? [] : await Laporan.find({ ...baseQuery, $or: contact })
+    .sort({ created_at: -1 })
+    .limit(MAX_DUPLICATE_MATCHES)
+    .select('ticket')
+    .lean();
+
+  const matches: ILaporanDuplicateMatch[] = sameContact.map(match => ({
+    laporan: match._id as mongoose.Types.ObjectId,
+    ticket: match.ticket,
+    reason: DUPLICATE_MATCH_REASONS.CONTACT,
+  }));
+
+  const words = messageWords(laporan.message);
+  if (words.size > 0 && matches.length < MAX_DUPLICATE_MATCHES) {
+    // The text index narrows the field; word overlap decides what counts as similar
+    const candidates = await Laporan.find(
+      { ...baseQuery, $text: { $search: Array.from(words).join(' ') } },
+      { ticket: 1, message: 1, score: { $meta: 'textScore' } }
+    )
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(TEXT_CANDIDATES)
+      .lean();
+
+    const seen = new Set(matches.map(match => match.laporan.toString()));
+    const similar: ILaporanDuplicateMatch[] = candidates
+      .map(candidate => ({
+        laporan: candidate._id as mongoose.Types.ObjectId,
+        ticket: candidate.ticket,
+        reason: DUPLICATE_MATCH_REASONS.TEXT,
+        score: Math.round(messageSimilarity(words, messageWords(candidate.message)) * 100) / 100,
+      }))
+      .filter(candidate => !seen.has(candidate.laporan.toString()) && candidate.score >= TEXT_SIMILARITY_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+
+    matches.push(...similar.slice(0, MAX_DUPLICATE_MATCHES - matches.length));
+  }
+
+  return matches;
+}
+
+// Flag a newly filed report and the earlier reports it resembles, so staff see the
+// link from either side. Never throws: a failed check must not fail the submission.
+export async function flagPossibleDuplicates(laporan: ILaporan): Promise<ILaporanDuplicateMatch[]> {
+  try {
+    const matches = await findPossibleDuplicates(laporan);
+    if (matches.length === 0) {
+      return matches;
+    }
+
+    await Laporan.bulkWrite([
+      {
+        updateOne: {
+          filter: { _id: laporan._id },
+          update: { $set: { possible_duplicates: matches } },
+        },
+      },
+      ...matches.map(match => ({
+        updateOne: {
+          filter: { _id: match.laporan, 'possible_duplicates.laporan': { $ne: laporan._id } },
+          update: {
+            $push: {
+              possible_duplicates: {
+                laporan: laporan._id,
+                ticket: laporan.ticket,
+                reason: match.reason,
+                ...(match.score !== undefined && { score: match.score }),
+              },
+            },
+          },
+        },
+      })),
+    ]);
+
+    laporan.possible_duplicates = matches;
+    return matches;
+  } catch (error) {
+    logger.error('Duplicate check failed', { ticket: laporan.ticket }, error as Error);
+    return [];
+  }
+}
+
+// Drop every possible-duplicate flag that points at a report, once it is merged or deleted
+export async function clearDuplicateFlags(laporanId: mongoose.Types.ObjectId | string): Promise<void> {
+  await Laporan.updateMany(
+    { 'possible_duplicates.laporan': laporanId },
+    { $pull: { possible_duplicates: { laporan: laporanId } } }
+  );
+}
+
+// Merge a duplicate into the primary report. The duplicate is closed and points at the
+// primary; reports merged into the duplicate earlier move along with it. Both histories
+// record the merge. Saves both reports.
+export async function mergeLaporan(
+  duplicate: ILaporan,
+  primary: ILaporan,
+  actor: { userId: string; username: string }
+): Promise<void> {
+  const now = new Date();
+  const changedBy = {
+    changed_by: new mongoose.Types.ObjectId(actor.userId),
+    changed_by_name: actor.username,
+  };
+
+  duplicate.history.push({
+    type: 'merge',
+    from_status: duplicate.status,
+    to_status: 'closed',
+    ...changedBy,
+    note: `Digabungkan ke laporan ${primary.ticket}`,
+    at: now,
+  });
+  duplicate.status = 'closed';
+  duplicate.duplicate_of = primary._id as mongoose.Types.ObjectId;
+  duplicate.duplicate_of_ticket = primary.ticket;
+  duplicate.possible_duplicates = [];
+
+  primary.history.push({
+    type: 'merge',
+    to_status: primary.status,
+    ...changedBy,
+    note: `Laporan ${duplicate.ticket} digabungkan ke laporan ini`,
+    at: now,
+  });
+  primary.possible_duplicates = primary.possible_duplicates.filter(match => !match.laporan.equals(duplicate.id));
+
+  await duplicate.save();
+  await primary.save();
+
+  await Laporan.updateMany(
+    { duplicate_of: duplicate._id },
+    { $set: { duplicate_of: primary._id, duplicate_of_ticket: primary.ticket } }
+  );
+  await clearDuplicateFlags(duplicate.id);
+}
+
+// Unlink the reports merged into a report that is being deleted, so none points
+// at a missing primary. They stay as they are otherwise; their history records
+// why the link is gone. Returns how many were unlinked.
+export async function detachMergedLaporan(
+  primary: Pick<ILaporan, '_id' | 'ticket'>,
+  actor: { userId: string; username: string }
+): Promise<number> {
+  const merged = await Laporan.find({ duplicate_of: primary._id });
+
+  for (const laporan of merged) {
+    laporan.history.push({
+      type: 'merge',
+      to_status: laporan.status,
+      changed_by: new mongoose.Types.ObjectId(actor.userId),
+      changed_by_name: actor.username,
+      note: `Laporan utama ${primary.ticket} dihapus`,
+      at: new Date(),
+    });
+    laporan.set('duplicate_of', undefined);
+    laporan.set('duplicate_of_ticket', undefined);
+    await laporan.save();
+  }
+
+  return merged.length;
+}
@@ -0,0 +1,255 @@
+// Indeks Kepuasan Masyarakat (IKM): one-time survey links for resolved laporan,
+// walk-in responses, and the index per service and period as in PermenPAN-RB 14/2017
+import * as crypto from 'crypto';
+import dbConnect from './mongodb';
+import { cacheManager } from './cache';
+import { apiConfig } from './config';
+import { encryptionUtils } from './security';
+import { localMidnight, toLocalDateKey } from './sla';
+import { parseRecapPeriod, RecapPeriod } from './laporanExport';
+import Laporan, { ILaporan } from '@/models/Laporan';
+import SurveyResponse, { ISurveyResponse } from '@/models/SurveyResponse';
+import {
+  IKM_ELEMENTS,
+  PAGE_ROUTES,
+  SURVEY_SERVICES,
+  SURVEY_SOURCES,
+  SurveyService,
+} from './constants';
+
+export type IkmGrade = 'A' | 'B' | 'C' | 'D';
+
+export interface IkmResult {
+  respondents: number;
+  // Average score (nilai rata-rata, NRR) of each element, 1 to 4
+  elements: { code: string; name: string; average: number | null }[];
+  // Index on the 1 to 4 scale, null without respondents
+  index: number | null;
+  // Index converted to the 25 to 100 scale
+  value: number | null;
+  grade: IkmGrade | null;
+  performance: string | null;
+}
+
+export interface IkmSummary {
+  period: { slug: string; label: string };
+  overall: IkmResult;
+  byService: (IkmResult & { service: SurveyService })[];
+}
+
+export interface SurveyAnswers {
+  scores: number[];
+  suggestion?: string | undefined;
+}
+
+// How long a survey link sent to a reporter stays usable
+export const SURVEY_LINK_TTL_DAYS = 30;
+
+// Every element weighs the same: 1 / number of elements
+export const IKM_ELEMENT_WEIGHT = 1 / IKM_ELEMENTS.length;
+
+// Multiplier from the 1-4 index to the 25-100 value that is published
+export const IKM_CONVERSION_FACTOR = 25;
+
+// Lowest index of each grade, best first. Converted, these are 88.31, 76.61 and 65.00.
+const IKM_GRADES: { grade: IkmGrade; min: number; performance: string }[] = [
+  { grade: 'A', min: 3.5324, performance: 'Sangat Baik' },
+  { grade: 'B', min: 3.0644, performance: 'Baik' },
+  { grade: 'C', min: 2.6, performance: 'Kurang Baik' },
+  { grade: 'D', min: 1, performance: 'Tidak Baik' },
+];
+
+const IKM_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ikmCache = cacheManager.getCache('ikm');
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Grade and performance label for an index on the 1 to 4 scale
+export function ikmGrade(index: number): { grade: IkmGrade; performance: string } {
+  const match = IKM_GRADES.find(entry => index >= entry.min) ?? IKM_GRADES[IKM_GRADES.length - 1]!;
+  return { grade: match.grade, performance: match.performance };
+}
+
+// Compute the index from the summed score of each element over all respondents:
+// IKM = Σ (NRR per element × 1/9), published as IKM × 25
+export function computeIkm(totals: number[], respondents: number): IkmResult {
+  const averages = IKM_ELEMENTS.map((_, i) => (respondents > 0 ? (totals[i] ?? 0) / respondents : null));
+  const elements = IKM_ELEMENTS.map((element, i) => ({
+    code: element.code,
+    name: element.name,
+    average: averages[i] === null ? null : round(averages[i]!, 2),
+  }));
+
+  if (respondents === 0) {
+    return { respondents, elements, index: null, value: null, grade: null, performance: null };
+  }
+
+  const index = averages.reduce<number>((sum, average) => sum + average! * IKM_ELEMENT_WEIGHT, 0);
+
+  return {
+    respondents,
+    elements,
+    index: round(index, 4),
+    value: round(index * IKM_CONVERSION_FACTOR, 2),
+    ...ikmGrade(index),
+  };
+}
+
+// Parse "2026" (year) or "2026-S1" (semester), or a month or quarter as in the
+// laporan recap. Defaults to the current year.
+export function parseIkmPeriod(value: string | null, now: Date = new Date()): RecapPeriod | null {
+  const slug = value || toLocalDateKey(now).slice(0, 4);
+
+  const year = slug.match(/^(\d{4})$/);
+  if (year) {
+    const index = Number(year[1]);
+    return {
+      start: localMidnight(index, 1),
+      end: localMidnight(index + 1, 1),
+      label: `Tahun ${index}`,
+      slug,
+    };
+  }
+
+  const semester = slug.match(/^(\d{4})-S([12])$/i);
+  if (semester) {
+    const index = Number(semester[1]);
+    const half = Number(semester[2]);
+    const firstMonth = half === 1 ? 1 : 7;
+    return {
+      start: localMidnight(index, firstMonth),
+      end: localMidnight(index, firstMonth + 6),
+      label: `Semester ${half === 1 ? 'I' : 'II'} ${index}`,
+      slug: `${index}-S${half}`,
+    };
+  }
+
+  return parseRecapPeriod(slug);
+}
+
+// The index for a period, overall and for each service
+export async function getIkmSummary(period: RecapPeriod): Promise<IkmSummary> {
+  const cached = ikmCache.get(period.slug) as IkmSummary | null;
+  if (cached) {
+    return cached;
+  }
+
+  await dbConnect();
+
+  // Sum each element's scores per service; the index is computed from the sums
+  const elementSums = Object.fromEntries(
+    IKM_ELEMENTS.map((_, i) => [`u${i}`, { $sum: { $arrayElemAt: ['$scores', i] } }])
+  );
+  const groups = await SurveyResponse.aggregate<Record<string, number> & { _id: SurveyService; respondents: number }>([
+    { $match: { created_at: { $gte: period.start, $lt: period.end } } },
+    { $group: { _id: '$service', respondents: { $sum: 1 }, ...elementSums } },
+  ]);
+
+  const totalsOf = (group?: Record<string, number>) => IKM_ELEMENTS.map((_, i) => group?.[`u${i}`] ?? 0);
+  const overallTotals = IKM_ELEMENTS.map((_, i) => groups.reduce((sum, group) => sum + (group[`u${i}`] ?? 0), 0));
+
+  const summary: IkmSummary = {
+    period: { slug: period.slug, label: period.label },
+    overall: computeIkm(overallTotals, groups.reduce((sum, group) => sum + group.respondents, 0)),
+    byService: (Object.values(SURVEY_SERVICES) as SurveyService[]).map(service => {
+      const group = groups.find(entry => entry._id === service);
+      return { service, ...computeIkm(totalsOf(group), group?.respondents ?? 0) };
+    }),
+  };
+
+  ikmCache.set(period.slug, summary, IKM_CACHE_TTL);
+  return summary;
+}
+
+// Issue the survey link token for a resolved report, replacing any earlier one.
+// Only its hash is stored.
+export async function issueSurveyToken(laporan: ILaporan, now: Date = new Date()): Promise<string> {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await Laporan.updateOne(
+    { _id: laporan._id },
+    {
+      survey_token_hash: encryptionUtils.hashToken(token),
+      survey_expires_at: new Date(now.getTime() + SURVEY_LINK_TTL_DAYS * DAY_MS),
+    }
+  );
+
+  return token;
+}
+
+// Remember that the survey link reached the reporter, so it is never sent twice
+export async function markSurveySent(laporan: ILaporan, now: Date = new Date()): Promise<void> {
+  await Laporan.updateOne({ _id: laporan._id }, { survey_sent_at: now });
+}
+
+// Link to the public survey page. Uses the configured base URL, never the request host.
+export function buildSurveyUrl(token: string): string {
+  return `${apiConfig.baseUrl}${PAGE_ROUTES.SURVEY}?token=${encodeURIComponent(token)}`;
+}
+
+const outstandingSurvey = (token: string, now: Date) => ({
+  survey_token_hash: encryptionUtils.hashToken(token),
+  survey_expires_at: { $gt: now },
+  survey_completed_at: { $exists: false },
+});
+
+// Ticket of the report a survey link belongs to, or null when the link is
+// unknown, expired or already used. Does not use the link up.
+export async function findSurveyTicket(token: string, now: Date = new Date()): Promise<string | null> {
+  await dbConnect();
+  const laporan = await Laporan.findOne(outstandingSurvey(token, now)).select('ticket').lean();
+  return laporan?.ticket ?? null;
+}
+
+// Record the answers sent through a report's survey link. The link is used up
+// atomically, so a second submission finds nothing. Returns null for a bad link.
+export async function submitLaporanSurvey(
+  token: string,
+  answers: SurveyAnswers,
+  now: Date = new Date()
+): Promise<ISurveyResponse | null> {
+  await dbConnect();
+
+  const laporan = await Laporan.findOneAndUpdate(
+    outstandingSurvey(token, now),
+    { $set: { survey_completed_at: now }, $unset: { survey_token_hash: 1 } },
+    { new: true }
+  );
+  if (!laporan) {
+    return null;
+  }
+
+  try {
+    const response = await SurveyResponse.create({
+      source: SURVEY_SOURCES.LAPORAN,
+      service: SURVEY_SERVICES.PENGADUAN,
+      laporan: laporan._id,
+      ticket: laporan.ticket,
+      ...answers,
+    });
+    ikmCache.clear();
+    return response;
+  } catch (error) {
+    // Give the link back so the reporter can try again
+    await Laporan.updateOne(
+      { _id: laporan._id },
+      { $set: { survey_token_hash: encryptionUtils.hashToken(token) }, $unset: { survey_completed_at: 1 } }
+    );
+    throw error;
+  }
+}
+
+// Record the answers of someone served at the counter
+export async function submitWalkInSurvey(service: SurveyService, answers: SurveyAnswers): Promise<ISurveyResponse> {
+  await dbConnect();
+
+  const response = await SurveyResponse.create({
+    source: SURVEY_SOURCES.WALK_IN,
+    service,
+    ...answers,
+  });
+  ikmCache.clear();
+  return response;
+}
@@ -0,0 +1,66 @@
+// Internal notes on laporan: staff-only discussion with @mentions. Notes live in their
+// own collection and are only served to staff, never to the public tracking page.
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import User from '@/models/User';
+import LaporanNote, { ILaporanNote } from '@/models/LaporanNote';
+import { PERMISSIONS } from './constants';
+import { getPermissionMatrix } from './rbac';
+
+// "@username" at the start or after a non-word character, so emails are not mentions
+const MENTION_PATTERN = /(?:^|[^\w@])@([a-zA-Z0-9_-]{3,30})/g;
+
+// Distinct usernames mentioned in a note, in the order written
+export function extractMentions(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(MENTION_PATTERN), match => match[1]!)));
+}
+
+// Active users who can read laporan, and so can be mentioned in a note
+export async function getMentionableStaff() {
+  await dbConnect();
+
+  const matrix = await getPermissionMatrix();
+  const roles = Object.entries(matrix)
+    .filter(([, permissions]) => permissions.includes(PERMISSIONS.REPORT_READ))
+    .map(([role]) => role);
+
+  return User.find({ role: { $in: roles }, is_active: true })
+    .select('username bidang')
+    .sort({ username: 1 })
+    .lean();
+}
+
+// Notes on a report, oldest first
+export async function getInternalNotes(laporanId: string): Promise<ILaporanNote[]> {
+  await dbConnect();
+  return LaporanNote.find({ laporan: laporanId }).sort({ created_at: 1 });
+}
+
+// Add a note. Mentions of unknown users, of users who cannot read laporan and of
+// the author are dropped.
+export async function addInternalNote(
+  laporanId: string,
+  body: string,
+  author: { userId: string; username: string }
+): Promise<ILaporanNote> {
+  await dbConnect();
+
+  const usernames = extractMentions(body).filter(username => username !== author.username);
+  const staff = usernames.length > 0 ? await getMentionableStaff() : [];
+  const mentions = staff
+    .filter(member => usernames.includes(member.username))
+    .map(member => ({ user: member._id as mongoose.Types.ObjectId, username: member.username }));
+
+  return LaporanNote.create({
+    laporan: laporanId,
+    body,
+    author: author.userId,
+    author_name: author.username,
+    mentions,
+  });
+}
+
+// Drop every note of a report, once the report itself is deleted
+export async function deleteInternalNotes(laporanId: string): Promise<void> {
+  await LaporanNote.deleteMany({ laporan: laporanId });
+}
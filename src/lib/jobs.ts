@@ -0,0 +1,172 @@
+// Durable background job queue stored in MongoDB, processed by scripts/worker.js
+import dbConnect from './mongodb';
+import logger from './logger';
+import Job, { IJob } from '@/models/Job';
+import { JOB_STATUS, JobType } from './constants';
+
+export interface EnqueueOptions {
+  // Run no earlier than this time (scheduled jobs)
+  runAt?: Date;
+  maxAttempts?: number;
+  // Skip queueing when a pending job with this key already exists
+  key?: string;
+}
+
+export type JobHandler = (payload: Record<string, unknown>, job: IJob) => Promise<void>;
+
+// Retry delays grow from 30 seconds to at most an hour
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// A running job whose worker stopped reporting for this long is picked up again
+export const JOB_LEASE_MS = 10 * 60 * 1000;
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Delay before the next attempt, with jitter so failed jobs do not retry in lockstep
+export function retryDelay(attempts: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+  return Math.round(delay * (0.9 + Math.random() * 0.2));
+}
+
+// Add a job to the queue
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown> = {},
+  options: EnqueueOptions = {}
+): Promise<IJob | null> {
+  await dbConnect();
+
+  const fields = {
+    type,
+    payload,
+    status: JOB_STATUS.PENDING,
+    attempts: 0,
+    max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    run_at: options.runAt ?? new Date(),
+  };
+
+  if (!options.key) {
+    return Job.create(fields);
+  }
+
+  try {
+    return await Job.findOneAndUpdate(
+      { key: options.key, status: JOB_STATUS.PENDING },
+      { $setOnInsert: { ...fields, key: options.key } },
+      { upsert: true, new: true }
+    );
+  } catch (error) {
+    // Another request queued the same key at the same moment
+    if ((error as { code?: number }).code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Queue a job without failing the caller; the error is logged instead.
+// Used from route handlers where the main change has already been saved.
+export async function enqueueJobSafely(
+  type: JobType,
+  payload: Record<string, unknown> = {},
+  options: EnqueueOptions = {}
+): Promise<void> {
+  try {
+    await enqueueJob(type, payload, options);
+  } catch (error) {
+    logger.error('Failed to enqueue job', { type }, error as Error);
+  }
+}
+
+// Atomically take the next due job for a worker
+export async function claimNextJob(workerId: string, now: Date = new Date()): Promise<IJob | null> {
+  await dbConnect();
+
+  return Job.findOneAndUpdate(
+    { status: JOB_STATUS.PENDING, run_at: { $lte: now } },
+    {
+      $set: { status: JOB_STATUS.RUNNING, locked_at: now, locked_by: workerId },
+      $inc: { attempts: 1 },
+    },
+    { sort: { run_at: 1 }, new: true }
+  );
+}
+
+// Mark a job as done
+export async function completeJob(job: IJob): Promise<void> {
+  await Job.updateOne(
+    { _id: job._id, locked_by: job.locked_by },
+    {
+      $set: { status: JOB_STATUS.COMPLETED, completed_at: new Date() },
+      $unset: { locked_at: 1, locked_by: 1, key: 1 },
+    }
+  );
+}
+
+// Record a failed attempt: schedule a retry, or move to the dead-letter state
+export async function failJob(job: IJob, error: Error, now: Date = new Date()): Promise<void> {
+  const exhausted = job.attempts >= job.max_attempts;
+
+  await Job.updateOne(
+    { _id: job._id, locked_by: job.locked_by },
+    {
+      $set: {
+        status: exhausted ? JOB_STATUS.DEAD : JOB_STATUS.PENDING,
+        last_error: (error.message || String(error)).slice(0, 2000),
+        ...(!exhausted && { run_at: new Date(now.getTime() + retryDelay(job.attempts)) }),
+      },
+      $unset: { locked_at: 1, locked_by: 1, ...(exhausted && { key: 1 }) },
+    }
+  );
+}
+
+// Put jobs from crashed workers back in the queue, or give up on them
+export async function recoverStaleJobs(now: Date = new Date()): Promise<number> {
+  await dbConnect();
+
+  const staleBefore = new Date(now.getTime() - JOB_LEASE_MS);
+  const stale = { status: JOB_STATUS.RUNNING, locked_at: { $lt: staleBefore } };
+  const message = 'Worker stopped while processing the job';
+
+  const [dead, requeued] = await Promise.all([
+    Job.updateMany(
+      { ...stale, $expr: { $gte: ['$attempts', '$max_attempts'] } },
+      { $set: { status: JOB_STATUS.DEAD, last_error: message }, $unset: { locked_at: 1, locked_by: 1, key: 1 } }
+    ),
+    Job.updateMany(
+      { ...stale, $expr: { $lt: ['$attempts', '$max_attempts'] } },
+      { $set: { status: JOB_STATUS.PENDING, last_error: message, run_at: now }, $unset: { locked_at: 1, locked_by: 1 } }
+    ),
+  ]);
+
+  return dead.modifiedCount + requeued.modifiedCount;
+}
+
+// Give a dead job a fresh set of attempts
+export async function retryJob(id: string): Promise<IJob | null> {
+  await dbConnect();
+
+  return Job.findOneAndUpdate(
+    { _id: id, status: JOB_STATUS.DEAD },
+    { $set: { status: JOB_STATUS.PENDING, attempts: 0, run_at: new Date() } },
+    { new: true }
+  );
+}
+
+// Number of jobs in each state, for the admin page
+export async function getJobCounts(): Promise<Record<string, number>> {
+  await dbConnect();
+
+  const counts = await Job.aggregate<{ _id: string; count: number }>([
+    { $group: { _id: '$status', count: { $sum: 1 } } },
+  ]);
+
+  const result: Record<string, number> = Object.fromEntries(
+    Object.values(JOB_STATUS).map(status => [status, 0])
+  );
+  for (const entry of counts) {
+    result[entry._id] = entry.count;
+  }
+  return result;
+}
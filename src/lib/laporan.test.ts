@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import Laporan from '@/models/Laporan';
+import { addressReporter, toPublicTracking } from './laporan';
+
+const RESPONSE = 'Yth. {{nama}}, laporan Anda telah kami tindak lanjuti.';
+
+function laporan(fields: Record<string, unknown>) {
+  return new Laporan({
+    message: 'Jalan di depan kantor rusak',
+    category: 'infrastruktur',
+    status: 'resolved',
+    created_at: new Date('2026-01-05T00:00:00Z'),
+    updated_at: new Date('2026-01-06T00:00:00Z'),
+    ...fields,
+  });
+}
+
+describe('addressReporter', () => {
+  it('fills the name placeholder for one reader', () => {
+    expect(addressReporter(RESPONSE, 'Budi Santoso')).toBe('Yth. Budi Santoso, laporan Anda telah kami tindak lanjuti.');
+    expect(addressReporter('Yth. {{ nama }}.', undefined)).toBe('Yth. Bapak/Ibu Pelapor.');
+  });
+});
+
+describe('toPublicTracking', () => {
+  it('addresses a merged report by its own reporter, not the primary one', () => {
+    const primary = laporan({ ticket: 'LPR-2026-000001', nama: 'Budi Santoso', response: RESPONSE });
+    const duplicate = laporan({ ticket: 'LPR-2026-000002', nama: 'Siti Aminah', duplicate_of: primary._id });
+
+    const tracking = toPublicTracking(duplicate, primary);
+    expect(tracking.response).toBe('Yth. Siti Aminah, laporan Anda telah kami tindak lanjuti.');
+    expect(tracking.response).not.toContain('Budi');
+    expect(tracking.merged_into).toBe('LPR-2026-000001');
+  });
+
+  it('addresses anonymous reporters without a name', () => {
+    const anonymous = laporan({ ticket: 'LPR-2026-000003', confidentiality: 'anonymous', response: RESPONSE });
+    expect(toPublicTracking(anonymous).response).toBe('Yth. Bapak/Ibu Pelapor, laporan Anda telah kami tindak lanjuti.');
+  });
+});
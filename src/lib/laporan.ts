@@ -0,0 +1,283 @@
+// Laporan ticketing and public tracking utilities
+import * as crypto from 'crypto';
+import mongoose from 'mongoose';
+import Counter from '@/models/Counter';
+import User from '@/models/User';
+import Laporan, { ILaporan } from '@/models/Laporan';
+import { encryptionUtils, passwordUtils, SECURITY_CONFIG } from './security';
+import { getLockoutDuration } from './users';
+import { maskContact } from './masking';
+import { sanitizers } from './validation';
+import { LAPORAN_CONFIDENTIALITY, LAPORAN_CONFIDENTIALITY_LABELS, LAPORAN_PRIORITY, LaporanConfidentiality } from './constants';
+import { isLaporanCategory, overdueQuery, OPEN_STATUSES } from './sla';
+import { isBidang, unassignedQuery, workQueueQuery } from './assignment';
+
+// Ticket configuration
+const TICKET_PREFIX = 'LPR';
+const TICKET_SEQUENCE_LENGTH = 6;
+const PIN_LENGTH = 6;
+
+export const TICKET_PATTERN = /^LPR-\d{4}-\d{6,}$/;
+
+// Public timeline entry shown on the tracking page
+export interface PublicTimelineEntry {
+  status: ILaporan['status'];
+  at: Date;
+}
+
+// Public view of a laporan returned to the reporter
+export interface PublicTracking {
+  ticket: string;
+  status: ILaporan['status'];
+  created_at: Date;
+  updated_at: Date;
+  timeline: PublicTimelineEntry[];
+  response: string | null;
+  responded_at: Date | null;
+  // Ticket this report was merged into; its progress is shown instead
+  merged_into: string | null;
+}
+
+// Reporter identity as entered on the form
+export interface ReporterIdentity {
+  nama: string;
+  email: string;
+  phone: string;
+  address: string;
+}
+
+// Generate the next ticket number, e.g. LPR-2026-000123.
+// Sequences restart every year and are allocated atomically.
+export async function generateTicketNumber(date: Date = new Date()): Promise<string> {
+  const year = date.getFullYear();
+  const counter = await Counter.findOneAndUpdate(
+    { _id: `laporan-${year}` },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true }
+  );
+
+  const sequence = String(counter!.seq).padStart(TICKET_SEQUENCE_LENGTH, '0');
+  return `${TICKET_PREFIX}-${year}-${sequence}`;
+}
+
+// Build a MongoDB filter from the laporan list query string.
+// Shared by the admin list and the exports so both return the same reports.
+export async function buildLaporanQuery(searchParams: URLSearchParams, userId: string): Promise<Record<string, any>> {
+  const query: Record<string, any> = {};
+
+  // Spam is only listed when asked for
+  query.spam = searchParams.get('spam') === 'only' ? true : { $ne: true };
+
+  const status = searchParams.get('status');
+  if (status && ['pending', 'in_progress', 'resolved', 'closed'].includes(status)) {
+    query.status = status;
+  } else if (status === 'open') {
+    query.status = { $in: OPEN_STATUSES };
+  }
+
+  const category = searchParams.get('category');
+  if (isLaporanCategory(category)) {
+    query.category = category;
+  }
+
+  const priority = searchParams.get('priority');
+  if (priority && (Object.values(LAPORAN_PRIORITY) as string[]).includes(priority)) {
+    query.priority = priority;
+  }
+
+  // Reports flagged as possible duplicates that nobody has merged yet
+  if (searchParams.get('duplicates') === 'flagged') {
+    query['possible_duplicates.0'] = { $exists: true };
+    query.duplicate_of = { $exists: false };
+  }
+
+  if (searchParams.get('overdue') === 'true') {
+    Object.assign(query, overdueQuery());
+  }
+
+  const bidang = searchParams.get('bidang');
+  if (isBidang(bidang)) {
+    query.assigned_bidang = bidang;
+  }
+
+  // Work queue filters; kept under $and so they combine with the search $or
+  const assignee = searchParams.get('assignee');
+  if (assignee === 'me') {
+    const account = await User.findById(userId).select('bidang').lean();
+    query.$and = [workQueueQuery(userId, account?.bidang)];
+  } else if (assignee === 'unassigned') {
+    Object.assign(query, unassignedQuery());
+  } else if (assignee && mongoose.Types.ObjectId.isValid(assignee)) {
+    query.assigned_to = new mongoose.Types.ObjectId(assignee);
+  }
+
+  // Filing date range, inclusive of the whole "to" day
+  const createdAt: Record<string, Date> = {};
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  if (from && !isNaN(Date.parse(from))) {
+    createdAt.$gte = new Date(from);
+  }
+  if (to && !isNaN(Date.parse(to))) {
+    const end = new Date(to);
+    end.setHours(23, 59, 59, 999);
+    createdAt.$lte = end;
+  }
+  if (Object.keys(createdAt).length > 0) {
+    query.created_at = createdAt;
+  }
+
+  const search = searchParams.get('search')?.trim();
+  if (search) {
+    // Email is left out: matching on it would let staff guess masked addresses
+    const pattern = { $regex: sanitizers.escapeRegex(search), $options: 'i' };
+    query.$or = [
+      { ticket: pattern },
+      { nama: pattern },
+      { message: pattern },
+    ];
+  }
+
+  return query;
+}
+
+// Encrypt a confidential reporter's identity for storage
+export function sealIdentity(identity: ReporterIdentity): string {
+  return encryptionUtils.encryptField(JSON.stringify(identity));
+}
+
+// Decrypt an identity stored by sealIdentity. Callers must check the reveal
+// permission and audit the access.
+export function openIdentity(payload: string): ReporterIdentity {
+  return JSON.parse(encryptionUtils.decryptField(payload)) as ReporterIdentity;
+}
+
+// Type guard for the reporting mode sent by the public form
+export function isLaporanConfidentiality(value: unknown): value is LaporanConfidentiality {
+  return typeof value === 'string' && (Object.values(LAPORAN_CONFIDENTIALITY) as string[]).includes(value);
+}
+
+// Label shown in place of the name once the retention policy or an erasure removed it
+export const ANONYMIZED_REPORTER_LABEL = 'Dianonimkan';
+
+// Reporter name for staff lists and exports; hidden identities show the mode instead
+export function reporterName(laporan: Pick<ILaporan, 'nama' | 'confidentiality' | 'anonymized_at'>): string {
+  if (laporan.anonymized_at) {
+    return ANONYMIZED_REPORTER_LABEL;
+  }
+  return laporan.nama || LAPORAN_CONFIDENTIALITY_LABELS[laporan.confidentiality || LAPORAN_CONFIDENTIALITY.NORMAL];
+}
+
+// Official responses are shared by every report merged into the case, so the
+// reporter's name is stored as this placeholder and filled in for each reader
+export const REPORTER_NAME_PLACEHOLDER = '{{nama}}';
+
+// Fill the name placeholder of a response for one reporter. Reporters without a
+// plain name (anonymous, confidential or anonymised) are addressed generically.
+export function addressReporter(text: string, nama?: string | null): string {
+  return text.replace(/\{\{\s*nama\s*\}\}/g, nama || 'Bapak/Ibu Pelapor');
+}
+
+// Staff view of a laporan. Contact details are masked; full values are only
+// returned by the audited reveal at /api/laporan/[id]/contact.
+export function toStaffLaporan(laporan: ILaporan) {
+  return maskContact(laporan.toObject() as Record<string, unknown> & Pick<ILaporan, 'email' | 'phone' | 'address' | 'submitted_ip'>);
+}
+
+// Normalize user-entered ticket numbers
+export function normalizeTicket(ticket: string): string {
+  return ticket.trim().toUpperCase();
+}
+
+// Generate a numeric access PIN
+export function generatePin(): string {
+  let pin = '';
+  for (let i = 0; i < PIN_LENGTH; i++) {
+    pin += crypto.randomInt(0, 10).toString();
+  }
+  return pin;
+}
+
+// Hash PIN before storing it
+export function hashPin(pin: string): Promise<string> {
+  return passwordUtils.hash(pin);
+}
+
+// Verify a PIN against its stored hash
+export function verifyPin(pin: string, pinHash: string): Promise<boolean> {
+  return passwordUtils.verify(pin.trim(), pinHash);
+}
+
+// Seconds until tracking may be tried again for a ticket, 0 when not locked
+export function getPinLockoutRemaining(laporan: Pick<ILaporan, 'pin_locked_until'>): number {
+  if (!laporan.pin_locked_until) {
+    return 0;
+  }
+  return Math.max(0, Math.ceil((laporan.pin_locked_until.getTime() - Date.now()) / 1000));
+}
+
+// Count a wrong PIN and lock tracking of the ticket when the threshold is
+// reached. The counter lives on the laporan, so changing IP address or
+// restarting the server does not buy more guesses; only the right PIN resets it.
+export async function recordFailedPin(laporanId: mongoose.Types.ObjectId): Promise<Date | null> {
+  const laporan = await Laporan.findByIdAndUpdate(
+    laporanId,
+    { $inc: { pin_failed_attempts: 1 } },
+    { new: true }
+  ).select('+pin_failed_attempts');
+
+  const duration = getLockoutDuration(laporan?.pin_failed_attempts ?? 0, SECURITY_CONFIG.pinLockout);
+  if (!duration) {
+    return null;
+  }
+
+  const lockedUntil = new Date(Date.now() + duration);
+  await Laporan.updateOne({ _id: laporanId }, { pin_locked_until: lockedUntil });
+  return lockedUntil;
+}
+
+// Clear the wrong-PIN count once the reporter tracked with the right PIN
+export async function resetFailedPins(laporan: Pick<ILaporan, '_id' | 'pin_failed_attempts' | 'pin_locked_until'>): Promise<void> {
+  if (!laporan.pin_failed_attempts && !laporan.pin_locked_until) {
+    return;
+  }
+  await Laporan.updateOne({ _id: laporan._id }, { $unset: { pin_failed_attempts: 1, pin_locked_until: 1 } });
+}
+
+// Build a sanitized timeline without any internal details.
+// Staff names and internal notes are never included.
+export function buildPublicTimeline(laporan: ILaporan): PublicTimelineEntry[] {
+  const statusChanges = (laporan.history || []).filter(entry => entry.type === 'status');
+
+  // Reports created before history was recorded
+  if (statusChanges.length === 0) {
+    const timeline: PublicTimelineEntry[] = [
+      { status: 'pending', at: laporan.created_at },
+    ];
+    if (laporan.status !== 'pending') {
+      timeline.push({ status: laporan.status, at: laporan.updated_at });
+    }
+    return timeline;
+  }
+
+  return statusChanges.map(entry => ({
+    status: entry.to_status,
+    at: entry.at,
+  }));
+}
+
+// Build the public tracking payload for a laporan. A report merged into another
+// one keeps its own ticket and filing date but follows the primary's progress.
+export function toPublicTracking(laporan: ILaporan, primary?: ILaporan | null): PublicTracking {
+  const current = primary || laporan;
+  return {
+    ticket: laporan.ticket,
+    status: current.status,
+    created_at: laporan.created_at,
+    updated_at: current.updated_at,
+    timeline: buildPublicTimeline(current),
+    response: current.response ? addressReporter(current.response, laporan.nama) : null,
+    responded_at: current.responded_at || null,
+    merged_into: primary ? primary.ticket : null,
+  };
+}
@@ -0,0 +1,301 @@
+// Laporan exports: streamed CSV/XLSX lists and the printable monthly or quarterly PDF recap
+import fs from 'fs';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import dbConnect from './mongodb';
+import Laporan, { ILaporan, LAPORAN_STATUS_VALUES } from '@/models/Laporan';
+import { CSV_BOM, toCsvRow } from './csv';
+import { describeAssignee } from './assignment';
+import { reporterName } from './laporan';
+import { maskEmail, maskPhone } from './masking';
+import { isOverdue, localMidnight, toLocalDateKey, ALL_LAPORAN_CATEGORIES } from './sla';
+import {
+  LAPORAN_CATEGORY_LABELS,
+  LAPORAN_PRIORITY_LABELS,
+  LAPORAN_STATUS_LABELS,
+  LaporanCategory,
+  LaporanStatus,
+} from './constants';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface RecapPeriod {
+  start: Date;
+  // Exclusive
+  end: Date;
+  label: string;
+  slug: string;
+}
+
+export interface LaporanRecap {
+  period: RecapPeriod;
+  total: number;
+  overdue: number;
+  byStatus: Record<string, number>;
+  byCategory: { category: LaporanCategory; total: number; byStatus: Record<string, number> }[];
+}
+
+// Upper bound on rows in a single list export
+export const EXPORT_MAX_ROWS = 50000;
+
+// Statuses shown as columns in the recap: every status the model stores, in workflow order
+const RECAP_STATUSES = LAPORAN_STATUS_VALUES;
+
+const MONTH_NAMES = [
+  'Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni',
+  'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember',
+];
+
+// Agency letterhead printed on the recap
+const LETTERHEAD = {
+  government: 'PEMERINTAH KABUPATEN PENAJAM PASER UTARA',
+  agency: 'DINAS PENANAMAN MODAL DAN PELAYANAN TERPADU SATU PINTU',
+  address: 'Jl. Provinsi KM 09 Nipah-Nipah, Penajam, Kabupaten Penajam Paser Utara, Kalimantan Timur',
+  contact: 'Email: dpmptsp@penajamppukab.go.id',
+  logo: path.join(process.cwd(), 'public', 'logo-dpmptsp-ppu.png'),
+};
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  value: (laporan: ILaporan) => string | number | Date | null;
+}
+
+const formatLocalDate = (date?: Date) => (date ? toLocalDateKey(date) : null);
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Tiket', width: 18, value: l => l.ticket },
+  { header: 'Tanggal Masuk', width: 14, value: l => formatLocalDate(l.created_at) },
+  { header: 'Nama', width: 24, value: l => reporterName(l) },
+  // Masked as in the staff list; full values only through the audited reveal
+  { header: 'Email', width: 28, value: l => (l.email ? maskEmail(l.email) : null) },
+  { header: 'Telepon', width: 16, value: l => (l.phone ? maskPhone(l.phone) : null) },
+  { header: 'Kategori', width: 22, value: l => LAPORAN_CATEGORY_LABELS[l.category] || l.category },
+  { header: 'Prioritas', width: 12, value: l => LAPORAN_PRIORITY_LABELS[l.priority] || l.priority },
+  { header: 'Status', width: 14, value: l => LAPORAN_STATUS_LABELS[l.status] || l.status },
+  { header: 'Ditugaskan', width: 28, value: l => (l.assigned_to_name || l.assigned_bidang ? describeAssignee(l.assigned_to_name, l.assigned_bidang) : null) },
+  { header: 'Tenggat', width: 14, value: l => formatLocalDate(l.due_at) },
+  { header: 'Terlambat', width: 10, value: l => (isOverdue(l) ? 'Ya' : 'Tidak') },
+  { header: 'Ditanggapi', width: 14, value: l => formatLocalDate(l.responded_at) },
+  { header: 'Isi Laporan', width: 60, value: l => l.message },
+];
+
+// Fields needed by the export columns; attachments, history and secrets stay out
+const EXPORT_FIELDS = 'ticket created_at confidentiality anonymized_at nama email phone category priority status assigned_to_name assigned_bidang due_at responded_at message';
+
+function exportCursor(query: Record<string, unknown>) {
+  return Laporan.find(query)
+    .select(EXPORT_FIELDS)
+    .sort({ created_at: -1 })
+    .limit(EXPORT_MAX_ROWS)
+    .cursor();
+}
+
+// Stream the matching reports as CSV, one database batch at a time
+export function laporanCsvStream(query: Record<string, unknown>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const cursor = exportCursor(query);
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(encoder.encode(CSV_BOM + toCsvRow(EXPORT_COLUMNS.map(column => column.header)) + '\r\n'));
+        return;
+      }
+
+      const laporan = await cursor.next();
+      if (!laporan) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(toCsvRow(EXPORT_COLUMNS.map(column => column.value(laporan))) + '\r\n'));
+    },
+    async cancel() {
+      await cursor.close();
+    },
+  });
+}
+
+// Stream the matching reports as an XLSX workbook without holding it in memory
+export function laporanXlsxStream(query: Record<string, unknown>): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+  const sheet = workbook.addWorksheet('Laporan');
+  sheet.columns = EXPORT_COLUMNS.map(column => ({ header: column.header, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+
+  const write = async () => {
+    for await (const laporan of exportCursor(query)) {
+      sheet.addRow(EXPORT_COLUMNS.map(column => column.value(laporan))).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+  };
+
+  write().catch(error => output.destroy(error as Error));
+
+  return Readable.toWeb(output) as unknown as ReadableStream<Uint8Array>;
+}
+
+// Parse "2026-09" (month) or "2026-Q3" (quarter) into a local-time date range
+export function parseRecapPeriod(value: string | null): RecapPeriod | null {
+  const month = value?.match(/^(\d{4})-(\d{2})$/);
+  if (month) {
+    const year = Number(month[1]);
+    const index = Number(month[2]);
+    if (index < 1 || index > 12) return null;
+
+    return {
+      start: localMidnight(year, index),
+      end: localMidnight(year, index + 1),
+      label: `${MONTH_NAMES[index - 1]} ${year}`,
+      slug: value!,
+    };
+  }
+
+  const quarter = value?.match(/^(\d{4})-Q([1-4])$/i);
+  if (quarter) {
+    const year = Number(quarter[1]);
+    const index = Number(quarter[2]);
+    const firstMonth = (index - 1) * 3 + 1;
+
+    return {
+      start: localMidnight(year, firstMonth),
+      end: localMidnight(year, firstMonth + 3),
+      label: `Triwulan ${['I', 'II', 'III', 'IV'][index - 1]} ${year} (${MONTH_NAMES[firstMonth - 1]} - ${MONTH_NAMES[firstMonth + 1]})`,
+      slug: `${year}-Q${index}`,
+    };
+  }
+
+  return null;
+}
+
+// Count reports filed in the period per status and per category
+export async function buildLaporanRecap(period: RecapPeriod, now: Date = new Date()): Promise<LaporanRecap> {
+  await dbConnect();
+
+  const match = { created_at: { $gte: period.start, $lt: period.end }, spam: { $ne: true } };
+  const [counts, overdue] = await Promise.all([
+    Laporan.aggregate<{ _id: { category: LaporanCategory; status: LaporanStatus }; count: number }>([
+      { $match: match },
+      { $group: { _id: { category: '$category', status: '$status' }, count: { $sum: 1 } } },
+    ]),
+    Laporan.countDocuments({
+      ...match,
+      status: { $in: ['pending', 'in_progress'] },
+      due_at: { $lt: now },
+    }),
+  ]);
+
+  const emptyStatusCounts = () => Object.fromEntries(RECAP_STATUSES.map(status => [status, 0]));
+  const byStatus = emptyStatusCounts();
+  const byCategory = ALL_LAPORAN_CATEGORIES.map(category => ({ category, total: 0, byStatus: emptyStatusCounts() }));
+
+  let total = 0;
+  for (const { _id, count } of counts) {
+    total += count;
+    byStatus[_id.status] = (byStatus[_id.status] ?? 0) + count;
+
+    const row = byCategory.find(entry => entry.category === _id.category);
+    if (row) {
+      row.total += count;
+      row.byStatus[_id.status] = (row.byStatus[_id.status] ?? 0) + count;
+    }
+  }
+
+  return { period, total, overdue, byStatus, byCategory };
+}
+
+// Render the recap as a printable A4 PDF with the agency letterhead
+export function renderRecapPdf(recap: LaporanRecap, printedBy: string, now: Date = new Date()): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Rekap Pengaduan ${recap.period.label}` } });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk as Buffer));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    // Letterhead
+    const hasLogo = fs.existsSync(LETTERHEAD.logo);
+    if (hasLogo) {
+      doc.image(LETTERHEAD.logo, left, 45, { fit: [60, 60] });
+    }
+    const textLeft = hasLogo ? left + 70 : left;
+    const textWidth = hasLogo ? width - 70 : width;
+    doc.font('Helvetica-Bold').fontSize(13).text(LETTERHEAD.government, textLeft, 50, { width: textWidth, align: 'center' });
+    doc.fontSize(12).text(LETTERHEAD.agency, { width: textWidth, align: 'center' });
+    doc.font('Helvetica').fontSize(9)
+      .text(LETTERHEAD.address, { width: textWidth, align: 'center' })
+      .text(LETTERHEAD.contact, { width: textWidth, align: 'center' });
+
+    const ruleY = Math.max(doc.y + 6, 112);
+    doc.moveTo(left, ruleY).lineTo(left + width, ruleY).lineWidth(2).stroke();
+    doc.moveTo(left, ruleY + 3).lineTo(left + width, ruleY + 3).lineWidth(0.5).stroke();
+
+    // Title
+    doc.font('Helvetica-Bold').fontSize(12)
+      .text('REKAPITULASI PENGADUAN MASYARAKAT', left, ruleY + 20, { width, align: 'center' });
+    doc.font('Helvetica').fontSize(11).text(`Periode ${recap.period.label}`, { width, align: 'center' });
+    doc.moveDown(1.5);
+
+    // Summary
+    doc.fontSize(10)
+      .text(`Jumlah laporan masuk: ${recap.total}`, left)
+      .text(`Masih terbuka dan melewati tenggat: ${recap.overdue}`);
+    doc.moveDown();
+
+    // Category x status table
+    const columns = ['Kategori', ...RECAP_STATUSES.map(status => LAPORAN_STATUS_LABELS[status]), 'Jumlah'];
+    const firstWidth = 150;
+    const cellWidth = (width - firstWidth) / (columns.length - 1);
+    const drawRow = (cells: (string | number)[], bold = false, height = 20) => {
+      const y = doc.y;
+      if (y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        return drawRow(cells, bold, height);
+      }
+
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+      cells.forEach((cell, index) => {
+        const x = index === 0 ? left : left + firstWidth + (index - 1) * cellWidth;
+        const cellW = index === 0 ? firstWidth : cellWidth;
+        doc.rect(x, y, cellW, height).lineWidth(0.5).stroke();
+        doc.text(String(cell), x + 4, y + 6, { width: cellW - 8, height: height - 6, align: index === 0 ? 'left' : 'center' });
+      });
+      doc.x = left;
+      doc.y = y + height;
+    };
+
+    // Taller header so two-word status labels fit
+    drawRow(columns, true, 30);
+    for (const row of recap.byCategory) {
+      drawRow([
+        LAPORAN_CATEGORY_LABELS[row.category],
+        ...RECAP_STATUSES.map(status => row.byStatus[status] ?? 0),
+        row.total,
+      ]);
+    }
+    drawRow(['Jumlah', ...RECAP_STATUSES.map(status => recap.byStatus[status] ?? 0), recap.total], true);
+
+    // Footer with print details and signature space
+    doc.moveDown(2);
+    doc.font('Helvetica').fontSize(9)
+      .text(`Dicetak pada ${toLocalDateKey(now)} oleh ${printedBy}`, left);
+    doc.moveDown(2);
+    const signatureX = left + width - 200;
+    doc.fontSize(10)
+      .text(`Penajam, ${now.toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Asia/Makassar' })}`, signatureX, doc.y, { width: 200, align: 'center' })
+      .text('Kepala Dinas', { width: 200, align: 'center' });
+    doc.moveDown(4);
+    doc.text('(______________________)', signatureX, doc.y, { width: 200, align: 'center' });
+
+    doc.end();
+  });
+}
@@ -0,0 +1,285 @@
+// Laporan statistics: volume over time, response and resolution times, SLA compliance
+import dbConnect from './mongodb';
+import { cacheManager } from './cache';
+import Laporan from '@/models/Laporan';
+import { localMidnight, toLocalDateKey } from './sla';
+import { LaporanCategory, LaporanStatus } from './constants';
+
+export type StatsInterval = 'day' | 'week' | 'month';
+
+export interface StatsRange {
+  // Inclusive, local midnight
+  start: Date;
+  // Exclusive, local midnight after the last day
+  end: Date;
+  interval: StatsInterval;
+}
+
+export interface LaporanStatistics {
+  range: { from: string; to: string; interval: StatsInterval };
+  total: number;
+  volume: { period: string; count: number }[];
+  byStatus: { status: LaporanStatus; count: number }[];
+  byCategory: { category: LaporanCategory; count: number }[];
+  firstResponse: { count: number; medianHours: number | null };
+  resolution: { count: number; medianHours: number | null };
+  sla: { met: number; breached: number; complianceRate: number | null };
+}
+
+// Mongo date operators take the offset directly; WITA has no daylight saving
+const STATS_TIMEZONE = '+08:00';
+const STATS_CACHE_TTL = 60 * 1000; // 1 minute
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Upper bound on chart points, whatever the interval
+export const STATS_MAX_BUCKETS = 400;
+
+const statsCache = cacheManager.getCache('laporan-stats');
+
+const STATS_INTERVALS: StatsInterval[] = ['day', 'week', 'month'];
+
+const parseLocalDate = (value: string | null): Date | null => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = localMidnight(year, month, day);
+  // Reject dates like 2026-02-31 that roll over into the next month
+  return toLocalDateKey(date) === value ? date : null;
+};
+
+// Parse from/to (YYYY-MM-DD, local days) and the interval. Defaults to the last 30 days
+// and picks an interval that keeps the chart readable when none is given.
+export function parseStatsRange(searchParams: URLSearchParams, now: Date = new Date()): StatsRange | string {
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const intervalParam = searchParams.get('interval');
+
+  const today = parseLocalDate(toLocalDateKey(now))!;
+  const to = toParam ? parseLocalDate(toParam) : today;
+  if (!to) return 'to must be a date in YYYY-MM-DD format';
+
+  const from = fromParam ? parseLocalDate(fromParam) : new Date(to.getTime() - 29 * DAY_MS);
+  if (!from) return 'from must be a date in YYYY-MM-DD format';
+  if (from > to) return 'from must not be after to';
+
+  const end = new Date(to.getTime() + DAY_MS);
+  const days = Math.round((end.getTime() - from.getTime()) / DAY_MS);
+
+  let interval: StatsInterval;
+  if (intervalParam) {
+    if (!(STATS_INTERVALS as string[]).includes(intervalParam)) {
+      return 'interval must be one of day, week, month';
+    }
+    interval = intervalParam as StatsInterval;
+  } else {
+    interval = days <= 62 ? 'day' : days <= 366 ? 'week' : 'month';
+  }
+
+  const buckets = interval === 'day' ? days : interval === 'week' ? Math.ceil(days / 7) + 1 : Math.ceil(days / 28) + 1;
+  if (buckets > STATS_MAX_BUCKETS) {
+    return `Range is too long for a ${interval} interval`;
+  }
+
+  return { start: from, end, interval };
+}
+
+// Bucket label as produced by the aggregation: the local day, the Monday of the week, or YYYY-MM
+const bucketKey = (date: Date, interval: StatsInterval) => {
+  const key = toLocalDateKey(date);
+  return interval === 'month' ? key.slice(0, 7) : key;
+};
+
+// Every bucket in the range, so days without reports show up as zero
+function listBuckets(range: StatsRange): string[] {
+  const [year, month, day] = toLocalDateKey(range.start).split('-').map(Number) as [number, number, number];
+  const keys: string[] = [];
+
+  if (range.interval === 'month') {
+    for (let index = 0; localMidnight(year, month + index) < range.end; index++) {
+      keys.push(bucketKey(localMidnight(year, month + index), 'month'));
+    }
+    return keys;
+  }
+
+  let cursor = localMidnight(year, month, day);
+  if (range.interval === 'week') {
+    // Back up to the Monday of the first week
+    const weekday = new Date(toLocalDateKey(cursor)).getUTCDay();
+    cursor = new Date(cursor.getTime() - ((weekday + 6) % 7) * DAY_MS);
+  }
+
+  const step = range.interval === 'week' ? 7 * DAY_MS : DAY_MS;
+  for (; cursor < range.end; cursor = new Date(cursor.getTime() + step)) {
+    keys.push(bucketKey(cursor, range.interval));
+  }
+  return keys;
+}
+
+const toHours = (ms: number | null | undefined) =>
+  typeof ms === 'number' ? Math.round((ms / HOUR_MS) * 10) / 10 : null;
+
+interface StatsFacets {
+  volume: { _id: string; count: number }[];
+  byStatus: { _id: LaporanStatus; count: number }[];
+  byCategory: { _id: LaporanCategory; count: number }[];
+  durations: {
+    responded: number;
+    resolved: number;
+    firstResponseMs: number | null;
+    resolutionMs: number | null;
+    slaMet: number;
+    slaBreached: number;
+  }[];
+}
+
+// Aggregate statistics for reports filed within the range
+export async function getLaporanStatistics(range: StatsRange, now: Date = new Date()): Promise<LaporanStatistics> {
+  const cacheKey = `${range.start.toISOString()}|${range.end.toISOString()}|${range.interval}`;
+  const cached = statsCache.get(cacheKey) as LaporanStatistics | null;
+  if (cached) {
+    return cached;
+  }
+
+  await dbConnect();
+
+  const [facets] = await Laporan.aggregate<StatsFacets>([
+    { $match: { created_at: { $gte: range.start, $lt: range.end }, spam: { $ne: true } } },
+    {
+      $project: {
+        created_at: 1,
+        status: 1,
+        category: 1,
+        due_at: 1,
+        responded_at: 1,
+        // First time the report reached resolved or closed
+        resolved_at: {
+          $min: {
+            $map: {
+              input: {
+                $filter: {
+                  input: '$history',
+                  cond: { $in: ['$$this.to_status', ['resolved', 'closed']] },
+                },
+              },
+              in: '$$this.at',
+            },
+          },
+        },
+      },
+    },
+    {
+      $facet: {
+        volume: [
+          {
+            $group: {
+              _id: {
+                $dateToString: {
+                  date: { $dateTrunc: { date: '$created_at', unit: range.interval, timezone: STATS_TIMEZONE, startOfWeek: 'monday' } },
+                  format: range.interval === 'month' ? '%Y-%m' : '%Y-%m-%d',
+                  timezone: STATS_TIMEZONE,
+                },
+              },
+              count: { $sum: 1 },
+            },
+          },
+        ],
+        byStatus: [
+          { $group: { _id: '$status', count: { $sum: 1 } } },
+          { $sort: { count: -1 } },
+        ],
+        byCategory: [
+          { $group: { _id: '$category', count: { $sum: 1 } } },
+          { $sort: { count: -1 } },
+        ],
+        durations: [
+          {
+            $group: {
+              _id: null,
+              responded: { $sum: { $cond: [{ $ifNull: ['$responded_at', false] }, 1, 0] } },
+              resolved: { $sum: { $cond: [{ $ifNull: ['$resolved_at', false] }, 1, 0] } },
+              // $median skips the nulls left by reports without a response or resolution
+              firstResponseMs: {
+                $median: {
+                  input: { $cond: [{ $ifNull: ['$responded_at', false] }, { $subtract: ['$responded_at', '$created_at'] }, null] },
+                  method: 'approximate',
+                },
+              },
+              resolutionMs: {
+                $median: {
+                  input: { $cond: [{ $ifNull: ['$resolved_at', false] }, { $subtract: ['$resolved_at', '$created_at'] }, null] },
+                  method: 'approximate',
+                },
+              },
+              // Met: resolved by the due date. Breached: resolved late, or still open past it.
+              // Open reports not yet due are left out of the rate.
+              slaMet: {
+                $sum: {
+                  $cond: [
+                    { $and: [{ $ifNull: ['$due_at', false] }, { $ifNull: ['$resolved_at', false] }, { $lte: ['$resolved_at', '$due_at'] }] },
+                    1,
+                    0,
+                  ],
+                },
+              },
+              slaBreached: {
+                $sum: {
+                  $cond: [
+                    {
+                      $and: [
+                        { $ifNull: ['$due_at', false] },
+                        {
+                          $cond: [
+                            { $ifNull: ['$resolved_at', false] },
+                            { $gt: ['$resolved_at', '$due_at'] },
+                            { $lt: ['$due_at', now] },
+                          ],
+                        },
+                      ],
+                    },
+                    1,
+                    0,
+                  ],
+                },
+              },
+            },
+          },
+        ],
+      },
+    },
+  ]);
+
+  const counts = new Map((facets?.volume ?? []).map(bucket => [bucket._id, bucket.count]));
+  const durations = facets?.durations[0];
+  const slaMet = durations?.slaMet ?? 0;
+  const slaBreached = durations?.slaBreached ?? 0;
+  const byStatus = (facets?.byStatus ?? []).map(entry => ({ status: entry._id, count: entry.count }));
+
+  const statistics: LaporanStatistics = {
+    range: {
+      from: toLocalDateKey(range.start),
+      to: toLocalDateKey(new Date(range.end.getTime() - DAY_MS)),
+      interval: range.interval,
+    },
+    total: byStatus.reduce((sum, entry) => sum + entry.count, 0),
+    volume: listBuckets(range).map(period => ({ period, count: counts.get(period) ?? 0 })),
+    byStatus,
+    byCategory: (facets?.byCategory ?? []).map(entry => ({ category: entry._id, count: entry.count })),
+    firstResponse: {
+      count: durations?.responded ?? 0,
+      medianHours: toHours(durations?.firstResponseMs),
+    },
+    resolution: {
+      count: durations?.resolved ?? 0,
+      medianHours: toHours(durations?.resolutionMs),
+    },
+    sla: {
+      met: slaMet,
+      breached: slaBreached,
+      complianceRate: slaMet + slaBreached > 0 ? Math.round((slaMet / (slaMet + slaBreached)) * 1000) / 10 : null,
+    },
+  };
+
+  statsCache.set(cacheKey, statistics, STATS_CACHE_TTL);
+  return statistics;
+}
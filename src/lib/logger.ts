@@ -1,5 +1,6 @@
 // Comprehensive logging system
 import { isDevelopment, isProduction } from './env';
+import { maskEmailsInText, redactPersonalData } from './masking';
 
 // Log levels
 export enum LogLevel {
@@ -75,11 +76,12 @@ class Logger {
       return;
     }
 
+    // Reporters' contact details never reach the log output
     const logEntry: LogEntry = {
       level,
-      message,
+      message: maskEmailsInText(message),
       timestamp: new Date(),
-      context: { ...this.context, ...context },
+      context: redactPersonalData({ ...this.context, ...context }),
       ...(error && { error }),
       ...(error?.stack && { stack: error.stack }),
     };
@@ -0,0 +1,90 @@
+// Outgoing email through the SMTP server configured in emailConfig
+import nodemailer, { Transporter } from 'nodemailer';
+import { appConfig, emailConfig } from './config';
+import logger from './logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+let transporter: Transporter | null = null;
+
+// Create the SMTP transport once and reuse its connection settings
+function getTransporter(): Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: emailConfig.smtp.host,
+      port: emailConfig.smtp.port || 587,
+      secure: emailConfig.smtp.port === 465,
+      ...(emailConfig.smtp.auth && { auth: emailConfig.smtp.auth }),
+    });
+  }
+  return transporter;
+}
+
+export interface MailResult {
+  status: 'sent' | 'failed' | 'skipped';
+  messageId?: string;
+  error?: string;
+}
+
+// Send an email and report what happened, for callers that keep a delivery log
+export async function deliverMail(message: MailMessage): Promise<MailResult> {
+  if (!emailConfig.enabled) {
+    logger.warn('Email not sent, SMTP is not configured', { to: message.to, subject: message.subject });
+    return { status: 'skipped', error: 'SMTP is not configured' };
+  }
+
+  try {
+    const info = await getTransporter().sendMail({
+      from: emailConfig.from || `${appConfig.name} <no-reply@localhost>`,
+      ...message,
+    });
+    return { status: 'sent', messageId: info.messageId };
+  } catch (error) {
+    logger.error('Failed to send email', { to: message.to, subject: message.subject }, error as Error);
+    return { status: 'failed', error: (error as Error).message };
+  }
+}
+
+// Send an email. Returns false when SMTP is not configured or sending fails.
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  const result = await deliverMail(message);
+  return result.status === 'sent';
+}
+
+// Escape text for the HTML part of an email
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Email a password reset link to an admin
+export function sendPasswordResetEmail(to: string, username: string, resetUrl: string, expiresInMinutes: number) {
+  const text = [
+    `Halo ${username},`,
+    '',
+    `Kami menerima permintaan untuk mengatur ulang password akun admin ${appConfig.name}.`,
+    `Buka tautan berikut dalam ${expiresInMinutes} menit untuk membuat password baru:`,
+    '',
+    resetUrl,
+    '',
+    'Tautan hanya dapat digunakan satu kali. Abaikan email ini jika Anda tidak meminta reset password.',
+  ].join('\n');
+
+  const html = `
+    <p>Halo ${escapeHtml(username)},</p>
+    <p>Kami menerima permintaan untuk mengatur ulang password akun admin ${escapeHtml(appConfig.name)}.</p>
+    <p>Buka tautan berikut dalam ${expiresInMinutes} menit untuk membuat password baru:</p>
+    <p><a href="${escapeHtml(resetUrl)}">Atur ulang password</a></p>
+    <p>Tautan hanya dapat digunakan satu kali. Abaikan email ini jika Anda tidak meminta reset password.</p>
+  `;
+
+  return sendMail({ to, subject: `Reset password - ${appConfig.name}`, text, html });
+}
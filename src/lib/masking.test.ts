@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { maskContact, maskEmail, maskIp, maskPhone, redactPersonalData, REDACTED_VALUE } from './masking';
+
+describe('masking', () => {
+  it('keeps only the ends of a phone number', () => {
+    expect(maskPhone('081234567890')).toBe('0812****890');
+    expect(maskPhone('12345')).toBe('****45');
+  });
+
+  it('keeps the start of an email and its domain', () => {
+    expect(maskEmail('budi.santoso@gmail.com')).toBe('bu****@gmail.com');
+    expect(maskEmail('ab@example.go.id')).toBe('a****@example.go.id');
+  });
+
+  it('keeps the network part of an address', () => {
+    expect(maskIp('203.0.113.45')).toBe('203.0.*.*');
+    expect(maskIp('2001:db8:1::7')).toBe('2001:db8:****');
+  });
+
+  it('masks every contact field of a laporan', () => {
+    expect(maskContact({
+      ticket: 'LPR-2024-000001',
+      email: 'warga@example.com',
+      phone: '081234567890',
+      address: 'Jl. Propinsi KM 9',
+      submitted_ip: '203.0.113.45',
+    })).toEqual({
+      ticket: 'LPR-2024-000001',
+      email: 'wa****@example.com',
+      phone: '0812****890',
+      address: REDACTED_VALUE,
+      submitted_ip: '203.0.*.*',
+    });
+  });
+
+  it('redacts personal data in nested log context', () => {
+    expect(redactPersonalData({ laporan: { nama: 'Budi', to: 'budi@example.com', status: 'pending' } })).toEqual({
+      laporan: { nama: REDACTED_VALUE, to: 'bu****@example.com', status: 'pending' },
+    });
+  });
+});
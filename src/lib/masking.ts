@@ -0,0 +1,89 @@
+// Masking of reporters' personal data in staff lists, API responses and logs.
+// Kept free of other imports so the logger can use it.
+
+const MASK = '****';
+
+// Placeholder for values with nothing worth keeping, such as an address
+export const REDACTED_VALUE = '[REDACTED]';
+
+// Context keys whose values are masked in log entries, compared in lower case
+const EMAIL_KEYS = ['email', 'recipient', 'to'];
+const PHONE_KEYS = ['phone', 'telepon'];
+const REDACTED_KEYS = ['address', 'alamat', 'nama'];
+
+const EMAIL_PATTERN = /([a-zA-Z0-9._%+-]+)@([a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g;
+
+// Nested context deeper than this is left as is
+const MAX_DEPTH = 5;
+
+// Keep the first four and last three digits: 081234567890 -> 0812****890
+export function maskPhone(phone: string): string {
+  const value = phone.trim();
+  if (value.length <= 7) {
+    return `${MASK}${value.slice(-2)}`;
+  }
+  return `${value.slice(0, 4)}${MASK}${value.slice(-3)}`;
+}
+
+// Keep the start of the name and the domain: budi.santoso@gmail.com -> bu****@gmail.com
+export function maskEmail(email: string): string {
+  const at = email.lastIndexOf('@');
+  if (at < 0) {
+    return MASK;
+  }
+  const local = email.slice(0, at);
+  return `${local.slice(0, local.length > 2 ? 2 : 1)}${MASK}${email.slice(at)}`;
+}
+
+// Keep the network part only: 203.0.113.45 -> 203.0.*.*, 2001:db8:1::7 -> 2001:db8:****
+export function maskIp(ip: string): string {
+  const value = ip.trim();
+  if (value.includes(':')) {
+    return `${value.split(':').slice(0, 2).join(':')}:${MASK}`;
+  }
+  const parts = value.split('.');
+  return parts.length === 4 ? `${parts[0]}.${parts[1]}.*.*` : MASK;
+}
+
+// Mask every email address found in free text, such as a log message
+export function maskEmailsInText(text: string): string {
+  return text.replace(EMAIL_PATTERN, match => maskEmail(match));
+}
+
+// Reporter contact fields as shown to staff before they reveal them
+export function maskContact<T extends { email?: string; phone?: string; address?: string; submitted_ip?: string }>(fields: T): T {
+  return {
+    ...fields,
+    ...(fields.email && { email: maskEmail(fields.email) }),
+    ...(fields.phone && { phone: maskPhone(fields.phone) }),
+    ...(fields.address && { address: REDACTED_VALUE }),
+    ...(fields.submitted_ip && { submitted_ip: maskIp(fields.submitted_ip) }),
+  };
+}
+
+// Copy of a log context with personal data fields masked, at any depth
+export function redactPersonalData<T>(value: T, depth = 0): T {
+  if (depth > MAX_DEPTH || value === null || typeof value !== 'object' || value instanceof Date || value instanceof Error) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactPersonalData(item, depth + 1)) as T;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value as Record<string, unknown>)) {
+    const name = key.toLowerCase();
+
+    if (typeof field === 'string' && EMAIL_KEYS.includes(name)) {
+      result[key] = maskEmailsInText(field);
+    } else if (typeof field === 'string' && PHONE_KEYS.includes(name)) {
+      result[key] = maskPhone(field);
+    } else if (field !== undefined && field !== null && REDACTED_KEYS.includes(name)) {
+      result[key] = REDACTED_VALUE;
+    } else {
+      result[key] = redactPersonalData(field, depth + 1);
+    }
+  }
+  return result as T;
+}
@@ -6,6 +6,9 @@ import { authConfig, apiConfig, securityConfig } from './config';
 import logger from './logger';
 import cache from './cache';
 import { connectToDatabase } from './database';
+import { Permission } from './constants';
+import { can } from './permissions';
+import { getRolePermissions } from './rbac';
 
 // Types
 export interface MiddlewareContext {
@@ -28,6 +31,7 @@ export interface MiddlewareOptions {
   methods?: string[];
   requireAuth?: boolean;
   requireRoles?: string[];
+  requirePermissions?: Permission[];
   rateLimit?: {
     windowMs: number;
     max: number;
@@ -244,8 +248,8 @@ export const middlewares = {
     };
   },
 
-  // Role-based authorization middleware
-  authorize: (requiredRoles: string[]): MiddlewareFunction => {
+  // Role- and permission-based authorization middleware
+  authorize: (requiredRoles: string[], requiredPermissions: Permission[] = []): MiddlewareFunction => {
     return async (context: MiddlewareContext) => {
       const { user } = context;
       
@@ -257,12 +261,23 @@ export const middlewares = {
       }
       
       const userRoles = Array.isArray(user.roles) ? user.roles : [user.role].filter(Boolean);
-      const hasRequiredRole = requiredRoles.some(role => userRoles.includes(role));
+      const hasRequiredRole = requiredRoles.length === 0 ||
+        requiredRoles.some(role => userRoles.includes(role));
       
-      if (!hasRequiredRole) {
+      let hasRequiredPermissions = true;
+      if (requiredPermissions.length > 0) {
+        const subject = {
+          role: user.role,
+          permissions: await getRolePermissions(user.role),
+        };
+        hasRequiredPermissions = requiredPermissions.every(permission => can(subject, permission));
+      }
+      
+      if (!hasRequiredRole || !hasRequiredPermissions) {
         logger.warn('Authorization failed', {
           userId: user.id,
           requiredRoles,
+          requiredPermissions,
           userRoles,
           path: context.req.nextUrl.pathname,
         });
@@ -509,7 +524,7 @@ export const chains = {
   protectedApi: (options: MiddlewareOptions = {}) => {
     return chains.api(options)
       .use(middlewares.auth(options.requireAuth))
-      .use(middlewares.authorize(options.requireRoles || []));
+      .use(middlewares.authorize(options.requireRoles || [], options.requirePermissions));
   },
   
   // Public API with rate limiting
@@ -536,8 +551,8 @@ export const chains = {
       composer.use(middlewares.auth(options.requireAuth));
     }
     
-    if (options.requireRoles) {
-      composer.use(middlewares.authorize(options.requireRoles));
+    if (options.requireRoles || options.requirePermissions) {
+      composer.use(middlewares.authorize(options.requireRoles || [], options.requirePermissions));
     }
     
     return composer;
@@ -0,0 +1,524 @@
+// Email notifications for the laporan lifecycle, using editable templates and a delivery log.
+// Emails are queued as jobs and sent by the worker, so a slow SMTP server never delays a request.
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import { cacheManager } from './cache';
+import { apiConfig, appConfig } from './config';
+import { deliverMail } from './mailer';
+import logger from './logger';
+import { describeAssignee, getAssignableStaff } from './assignment';
+import { enqueueJobSafely } from './jobs';
+import { addressReporter, reporterName } from './laporan';
+import { buildSurveyUrl, issueSurveyToken, markSurveySent, SURVEY_LINK_TTL_DAYS } from './ikm';
+import Laporan, { ILaporan } from '@/models/Laporan';
+import NotificationTemplate from '@/models/NotificationTemplate';
+import NotificationLog from '@/models/NotificationLog';
+import LaporanNote, { ILaporanNote } from '@/models/LaporanNote';
+import User from '@/models/User';
+import Job, { IJob } from '@/models/Job';
+import {
+  JOB_TYPES,
+  LAPORAN_CATEGORY_LABELS,
+  LAPORAN_STATUS_LABELS,
+  LaporanStatus,
+  NOTIFICATION_EVENTS,
+  NotificationEvent,
+  PAGE_ROUTES,
+} from './constants';
+
+export interface TemplateContent {
+  subject: string;
+  body: string;
+}
+
+export type TemplateMap = Record<NotificationEvent, TemplateContent & { customized: boolean }>;
+
+type TemplateVariables = Record<string, string>;
+
+interface NotificationJobPayload {
+  event: NotificationEvent;
+  laporanId: string;
+  fromStatus?: LaporanStatus;
+  toStatus?: LaporanStatus;
+  noteId?: string;
+}
+
+// Payload field listing who a job already emailed. A job that fails part way
+// is retried whole; these recipients are skipped so nobody gets it twice.
+const DELIVERED_FIELD = 'delivered_to';
+
+const TEMPLATE_CACHE_KEY = 'notification-templates';
+const TEMPLATE_CACHE_TTL = 60 * 1000; // 1 minute
+
+const notificationCache = cacheManager.getCache('notifications');
+
+export const ALL_NOTIFICATION_EVENTS = Object.values(NOTIFICATION_EVENTS) as NotificationEvent[];
+
+// Built-in wording, used until an admin saves their own version
+export const DEFAULT_TEMPLATES: Record<NotificationEvent, TemplateContent> = {
+  laporan_received: {
+    subject: 'Laporan {{tiket}} telah kami terima',
+    body: [
+      'Yth. {{nama}},',
+      '',
+      'Terima kasih, laporan Anda telah kami terima dengan nomor tiket {{tiket}}.',
+      'Kategori: {{kategori}}',
+      'Target penyelesaian: {{tenggat}}',
+      '',
+      'Pantau perkembangan laporan Anda di {{tautan_lacak}} menggunakan nomor tiket dan PIN yang ditampilkan saat laporan dikirim.',
+      '',
+      'Hormat kami,',
+      '{{instansi}}',
+    ].join('\n'),
+  },
+  laporan_assigned: {
+    subject: 'Laporan {{tiket}} ditugaskan kepada {{petugas}}',
+    body: [
+      'Halo,',
+      '',
+      'Laporan {{tiket}} ({{kategori}}) ditugaskan kepada {{petugas}}.',
+      'Target penyelesaian: {{tenggat}}',
+      '',
+      'Buka laporan: {{tautan_admin}}',
+    ].join('\n'),
+  },
+  laporan_status_changed: {
+    subject: 'Status laporan {{tiket}}: {{status}}',
+    body: [
+      'Yth. {{nama}},',
+      '',
+      'Status laporan Anda dengan nomor tiket {{tiket}} berubah dari {{status_sebelumnya}} menjadi {{status}}.',
+      '',
+      'Lihat detailnya di {{tautan_lacak}}.',
+      '',
+      'Hormat kami,',
+      '{{instansi}}',
+    ].join('\n'),
+  },
+  laporan_responded: {
+    subject: 'Tanggapan atas laporan {{tiket}}',
+    body: [
+      'Yth. {{nama}},',
+      '',
+      'Berikut tanggapan resmi atas laporan Anda dengan nomor tiket {{tiket}}:',
+      '',
+      '{{tanggapan}}',
+      '',
+      'Lihat detailnya di {{tautan_lacak}}.',
+      '',
+      'Hormat kami,',
+      '{{instansi}}',
+    ].join('\n'),
+  },
+  laporan_merged: {
+    subject: 'Laporan {{tiket}} digabungkan dengan laporan {{tiket_utama}}',
+    body: [
+      'Yth. {{nama}},',
+      '',
+      'Laporan Anda dengan nomor tiket {{tiket}} membahas hal yang sama dengan laporan {{tiket_utama}}, sehingga keduanya kami tangani bersama.',
+      'Anda tetap dapat memantau perkembangannya di {{tautan_lacak}} menggunakan nomor tiket dan PIN Anda, dan akan menerima kabar setiap kali ada perubahan.',
+      '',
+      'Hormat kami,',
+      '{{instansi}}',
+    ].join('\n'),
+  },
+  laporan_survey: {
+    subject: 'Bagaimana pelayanan kami atas laporan {{tiket}}?',
+    body: [
+      'Yth. {{nama}},',
+      '',
+      'Laporan Anda dengan nomor tiket {{tiket}} telah selesai ditangani.',
+      'Mohon luangkan waktu sekitar dua menit untuk mengisi survei kepuasan masyarakat berikut, agar kami dapat terus memperbaiki pelayanan:',
+      '',
+      '{{tautan_survei}}',
+      '',
+      'Tautan ini hanya dapat digunakan satu kali dan berlaku {{masa_berlaku}} hari.',
+      '',
+      'Hormat kami,',
+      '{{instansi}}',
+    ].join('\n'),
+  },
+  laporan_mentioned: {
+    subject: '{{penulis}} menyebut Anda di laporan {{tiket}}',
+    body: [
+      'Halo,',
+      '',
+      '{{penulis}} menyebut Anda dalam catatan internal laporan {{tiket}} ({{kategori}}):',
+      '',
+      '{{catatan}}',
+      '',
+      'Buka laporan: {{tautan_admin}}',
+    ].join('\n'),
+  },
+};
+
+// Placeholders available in each template, shown in the editor
+export const TEMPLATE_VARIABLES: Record<NotificationEvent, string[]> = {
+  laporan_received: ['nama', 'tiket', 'kategori', 'tenggat', 'tautan_lacak', 'instansi'],
+  laporan_assigned: ['tiket', 'kategori', 'tenggat', 'petugas', 'tautan_admin', 'instansi'],
+  laporan_status_changed: ['nama', 'tiket', 'status', 'status_sebelumnya', 'tautan_lacak', 'instansi'],
+  laporan_responded: ['nama', 'tiket', 'tanggapan', 'tautan_lacak', 'instansi'],
+  laporan_merged: ['nama', 'tiket', 'tiket_utama', 'tautan_lacak', 'instansi'],
+  laporan_survey: ['nama', 'tiket', 'tautan_survei', 'masa_berlaku', 'instansi'],
+  laporan_mentioned: ['tiket', 'kategori', 'penulis', 'catatan', 'tautan_admin', 'instansi'],
+};
+
+// Type guard for event names coming from requests
+export function isNotificationEvent(value: unknown): value is NotificationEvent {
+  return typeof value === 'string' && (ALL_NOTIFICATION_EVENTS as string[]).includes(value);
+}
+
+// Replace {{name}} placeholders; unknown names become empty
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+}
+
+// Load all templates, falling back to defaults for events never customized
+export async function getTemplates(): Promise<TemplateMap> {
+  const cached = notificationCache.get(TEMPLATE_CACHE_KEY) as TemplateMap | null;
+  if (cached) {
+    return cached;
+  }
+
+  await dbConnect();
+  const stored = await NotificationTemplate.find({}).lean();
+
+  const templates = {} as TemplateMap;
+  for (const event of ALL_NOTIFICATION_EVENTS) {
+    const saved = stored.find(entry => entry.event === event);
+    templates[event] = saved
+      ? { subject: saved.subject, body: saved.body, customized: true }
+      : { ...DEFAULT_TEMPLATES[event], customized: false };
+  }
+
+  notificationCache.set(TEMPLATE_CACHE_KEY, templates, TEMPLATE_CACHE_TTL);
+  return templates;
+}
+
+// Save the wording of an event's template and invalidate the cache
+export async function updateTemplate(
+  event: NotificationEvent,
+  content: TemplateContent,
+  updatedBy?: string
+): Promise<TemplateMap> {
+  await dbConnect();
+
+  await NotificationTemplate.findOneAndUpdate(
+    { event },
+    {
+      event,
+      subject: content.subject,
+      body: content.body,
+      ...(updatedBy && { updated_by: new mongoose.Types.ObjectId(updatedBy) }),
+    },
+    { upsert: true, new: true, runValidators: true }
+  );
+
+  clearTemplateCache();
+  return getTemplates();
+}
+
+// Go back to the built-in wording of an event's template
+export async function resetTemplate(event: NotificationEvent): Promise<TemplateMap> {
+  await dbConnect();
+  await NotificationTemplate.deleteOne({ event });
+
+  clearTemplateCache();
+  return getTemplates();
+}
+
+export function clearTemplateCache(): void {
+  notificationCache.delete(TEMPLATE_CACHE_KEY);
+}
+
+// Official responses are stored as sanitized HTML; emails are plain text
+function toPlainText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function formatDate(date?: Date): string {
+  return date
+    ? date.toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Asia/Makassar' })
+    : '-';
+}
+
+const trackingLink = (ticket: string) =>
+  `${apiConfig.baseUrl}${PAGE_ROUTES.LAPORAN.TRACK}?tiket=${encodeURIComponent(ticket)}`;
+
+// Variables every laporan template can use
+function laporanVariables(laporan: ILaporan): TemplateVariables {
+  return {
+    nama: reporterName(laporan),
+    tiket: laporan.ticket,
+    kategori: LAPORAN_CATEGORY_LABELS[laporan.category] || laporan.category,
+    status: LAPORAN_STATUS_LABELS[laporan.status] || laporan.status,
+    tenggat: formatDate(laporan.due_at),
+    tautan_lacak: trackingLink(laporan.ticket),
+    tautan_admin: `${apiConfig.baseUrl}${PAGE_ROUTES.ADMIN.DASHBOARD}/laporan?id=${laporan.id}`,
+    instansi: appConfig.description,
+  };
+}
+
+// Render and send one notification, then log the outcome.
+// Throws when delivery fails so the job is retried.
+async function notify(
+  event: NotificationEvent,
+  to: string,
+  variables: TemplateVariables,
+  laporan: ILaporan,
+  job?: IJob
+): Promise<void> {
+  const delivered = (job?.payload[DELIVERED_FIELD] as string[] | undefined) || [];
+  if (delivered.includes(to)) {
+    return;
+  }
+
+  const template = (await getTemplates())[event];
+  // Reporter names end up in the subject; keep it on one line
+  const subject = renderTemplate(template.subject, variables).replace(/\s+/g, ' ').trim();
+  const text = renderTemplate(template.body, variables).replace(/\n{3,}/g, '\n\n');
+
+  const result = await deliverMail({ to, subject, text });
+
+  try {
+    await NotificationLog.create({
+      event,
+      recipient: to,
+      subject,
+      status: result.status,
+      ...(result.error && { error: result.error.slice(0, 500) }),
+      ...(result.messageId && { message_id: result.messageId }),
+      laporan: laporan._id,
+      ticket: laporan.ticket,
+    });
+  } catch (error) {
+    logger.error('Failed to log notification', { event, to }, error as Error);
+  }
+
+  if (result.status === 'failed') {
+    throw new Error(`Email to ${to} failed: ${result.error}`);
+  }
+
+  if (job) {
+    await Job.updateOne({ _id: job._id }, { $addToSet: { [`payload.${DELIVERED_FIELD}`]: to } });
+  }
+}
+
+// Staff who should hear about an assignment: the named assignee, or every handler in the bidang
+async function assignmentRecipients(laporan: ILaporan): Promise<string[]> {
+  if (laporan.assigned_to) {
+    const assignee = await User.findById(laporan.assigned_to).select('email').lean();
+    return assignee?.email ? [assignee.email] : [];
+  }
+
+  if (laporan.assigned_bidang) {
+    const staff = await getAssignableStaff();
+    const members = await User.find({
+      _id: { $in: staff.filter(member => member.bidang === laporan.assigned_bidang).map(member => member._id) },
+      email: { $exists: true, $ne: '' },
+    }).select('email').lean();
+    return members.map(member => member.email!);
+  }
+
+  return [];
+}
+
+// Send a reporter-facing update to the reporter and to everyone whose duplicate
+// report was merged into this one. Merged reporters are addressed by their own
+// name and ticket, which keeps tracking the merged case. Reporters without a
+// plain email (anonymous or confidential) follow their report with the ticket and PIN.
+async function notifyReporters(
+  event: NotificationEvent,
+  laporan: ILaporan,
+  variables: TemplateVariables,
+  job?: IJob
+): Promise<void> {
+  // A response names its reader, never another reporter
+  const addressed = (nama?: string) => variables.tanggapan === undefined
+    ? {}
+    : { tanggapan: addressReporter(variables.tanggapan, nama) };
+
+  if (laporan.email) {
+    await notify(event, laporan.email, { ...variables, ...addressed(laporan.nama) }, laporan, job);
+  }
+
+  const merged = await Laporan.find({ duplicate_of: laporan._id, email: { $exists: true, $ne: '' } })
+    .select('ticket nama email')
+    .lean();
+  const sent = new Set(laporan.email ? [laporan.email] : []);
+  for (const duplicate of merged) {
+    // One email per address, even if the same person reported twice
+    if (!duplicate.email || sent.has(duplicate.email)) continue;
+    sent.add(duplicate.email);
+
+    await notify(event, duplicate.email, {
+      ...variables,
+      nama: duplicate.nama || '',
+      tiket: duplicate.ticket,
+      tautan_lacak: trackingLink(duplicate.ticket),
+      ...addressed(duplicate.nama),
+    }, laporan, job);
+  }
+}
+
+// Job handler: build and send the emails for one laporan event
+export async function processNotificationJob(payload: Record<string, unknown>, job?: IJob): Promise<void> {
+  const { event, laporanId, fromStatus, toStatus, noteId } = payload as unknown as NotificationJobPayload;
+
+  await dbConnect();
+  const laporan = await Laporan.findById(laporanId);
+  if (!laporan) {
+    // Deleted since the job was queued; nothing left to tell anyone
+    logger.warn('Notification dropped, laporan no longer exists', { event, laporanId });
+    return;
+  }
+
+  const variables = laporanVariables(laporan);
+
+  switch (event) {
+    case NOTIFICATION_EVENTS.LAPORAN_RECEIVED:
+      if (!laporan.email) return;
+      return notify(event, laporan.email, variables, laporan, job);
+
+    case NOTIFICATION_EVENTS.LAPORAN_ASSIGNED: {
+      const recipients = await assignmentRecipients(laporan);
+      if (recipients.length === 0) {
+        logger.warn('Assignment notification not sent, no recipient email', { ticket: laporan.ticket });
+        return;
+      }
+
+      const assignmentVariables = {
+        ...variables,
+        petugas: describeAssignee(laporan.assigned_to_name, laporan.assigned_bidang),
+      };
+      for (const email of recipients) {
+        await notify(event, email, assignmentVariables, laporan, job);
+      }
+      return;
+    }
+
+    case NOTIFICATION_EVENTS.LAPORAN_STATUS_CHANGED:
+      return notifyReporters(event, laporan, {
+        ...variables,
+        // The status at the time of the change, even if it has moved on since
+        ...(toStatus && { status: LAPORAN_STATUS_LABELS[toStatus] || toStatus }),
+        status_sebelumnya: fromStatus ? LAPORAN_STATUS_LABELS[fromStatus] || fromStatus : '-',
+      }, job);
+
+    case NOTIFICATION_EVENTS.LAPORAN_RESPONDED:
+      return notifyReporters(event, laporan, {
+        ...variables,
+        tanggapan: toPlainText(laporan.response || ''),
+      }, job);
+
+    case NOTIFICATION_EVENTS.LAPORAN_MERGED:
+      if (!laporan.email) return;
+      return notify(event, laporan.email, {
+        ...variables,
+        tiket_utama: laporan.duplicate_of_ticket || '-',
+      }, laporan, job);
+
+    case NOTIFICATION_EVENTS.LAPORAN_SURVEY: {
+      // One invitation per report; a retry after a failed delivery gets a fresh link
+      if (!laporan.email || laporan.survey_sent_at) return;
+
+      const token = await issueSurveyToken(laporan);
+      await notify(event, laporan.email, {
+        ...variables,
+        tautan_survei: buildSurveyUrl(token),
+        masa_berlaku: String(SURVEY_LINK_TTL_DAYS),
+      }, laporan);
+      await markSurveySent(laporan);
+      return;
+    }
+
+    case NOTIFICATION_EVENTS.LAPORAN_MENTIONED: {
+      const mentionNote = noteId ? await LaporanNote.findById(noteId).lean() : null;
+      if (!mentionNote || mentionNote.mentions.length === 0) return;
+
+      const mentioned = await User.find({
+        _id: { $in: mentionNote.mentions.map(mention => mention.user) },
+        is_active: true,
+        email: { $exists: true, $ne: '' },
+      }).select('email').lean();
+
+      const mentionVariables = {
+        ...variables,
+        penulis: mentionNote.author_name,
+        catatan: mentionNote.body,
+      };
+      for (const user of mentioned) {
+        await notify(event, user.email!, mentionVariables, laporan, job);
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown notification event ${String(event)}`);
+  }
+}
+
+// Queue the emails for a laporan event; they are sent by the job worker
+function queueNotification(
+  event: NotificationEvent,
+  laporan: ILaporan,
+  details: Omit<NotificationJobPayload, 'event' | 'laporanId'> = {}
+): Promise<void> {
+  return enqueueJobSafely(JOB_TYPES.SEND_NOTIFICATION, {
+    event,
+    laporanId: laporan.id,
+    ...details,
+  });
+}
+
+// Acknowledge a new report to the reporter with its ticket number
+export function notifyLaporanReceived(laporan: ILaporan): Promise<void> {
+  return queueNotification(NOTIFICATION_EVENTS.LAPORAN_RECEIVED, laporan);
+}
+
+// Alert the staff member or bidang the report was assigned to
+export function notifyLaporanAssigned(laporan: ILaporan): Promise<void> {
+  return queueNotification(NOTIFICATION_EVENTS.LAPORAN_ASSIGNED, laporan);
+}
+
+// Tell the reporter their report moved to another status. The staff note on
+// the change is internal and stays out of the email.
+export function notifyStatusChanged(laporan: ILaporan, fromStatus: LaporanStatus): Promise<void> {
+  return queueNotification(NOTIFICATION_EVENTS.LAPORAN_STATUS_CHANGED, laporan, {
+    fromStatus,
+    toStatus: laporan.status,
+  });
+}
+
+// Send the official response to the reporter
+export function notifyResponded(laporan: ILaporan): Promise<void> {
+  return queueNotification(NOTIFICATION_EVENTS.LAPORAN_RESPONDED, laporan);
+}
+
+// Tell the reporter of a duplicate which ticket their report was merged into
+export function notifyLaporanMerged(duplicate: ILaporan): Promise<void> {
+  return queueNotification(NOTIFICATION_EVENTS.LAPORAN_MERGED, duplicate);
+}
+
+// Invite the reporter of a resolved report to the satisfaction survey. Reporters
+// without a plain email and reports already invited are left out.
+export async function notifySurveyInvitation(laporan: ILaporan): Promise<void> {
+  if (!laporan.email || laporan.survey_sent_at) return;
+  return queueNotification(NOTIFICATION_EVENTS.LAPORAN_SURVEY, laporan);
+}
+
+// Alert the staff mentioned in an internal note
+export async function notifyMentioned(laporan: ILaporan, note: ILaporanNote): Promise<void> {
+  if (note.mentions.length === 0) return;
+  return queueNotification(NOTIFICATION_EVENTS.LAPORAN_MENTIONED, laporan, { noteId: note.id });
+}
@@ -0,0 +1,87 @@
+// Self-service password reset: signed, single-use tokens sent by email
+import * as crypto from 'crypto';
+import User, { IUser } from '@/models/User';
+import { apiConfig } from './config';
+import { PAGE_ROUTES } from './constants';
+import { encryptionUtils, jwtUtils } from './security';
+
+// Marks reset tokens so they cannot be mistaken for other JWTs
+const RESET_PURPOSE = 'password_reset';
+
+export const PASSWORD_RESET_TTL_MINUTES = jwtUtils.lifetimes.passwordResetToken / 60;
+
+interface ResetTokenPayload {
+  userId?: string;
+  purpose?: string;
+  jti?: string;
+}
+
+// Issue a reset token and remember its ID on the user, replacing any earlier one
+export async function createPasswordResetToken(user: IUser): Promise<string> {
+  const tokenId = crypto.randomBytes(32).toString('hex');
+
+  await User.updateOne(
+    { _id: user._id },
+    {
+      password_reset_token_hash: encryptionUtils.hashToken(tokenId),
+      password_reset_expires: new Date(Date.now() + jwtUtils.lifetimes.passwordResetToken * 1000),
+    }
+  );
+
+  return jwtUtils.generatePasswordResetToken({ userId: user.id, purpose: RESET_PURPOSE, jti: tokenId });
+}
+
+// Link to the public reset page. Uses the configured base URL, never the request host.
+export function buildPasswordResetUrl(token: string): string {
+  return `${apiConfig.baseUrl}${PAGE_ROUTES.AUTH.RESET_PASSWORD}?token=${encodeURIComponent(token)}`;
+}
+
+// Decode a reset token without consuming it, or null when invalid or expired
+function decodeResetToken(token: string): { userId: string; tokenHash: string } | null {
+  try {
+    const payload = jwtUtils.verifyToken(token) as ResetTokenPayload;
+    if (payload?.purpose !== RESET_PURPOSE || !payload.userId || !payload.jti) {
+      return null;
+    }
+    return { userId: payload.userId, tokenHash: encryptionUtils.hashToken(payload.jti) };
+  } catch {
+    return null;
+  }
+}
+
+// Check that a token is still outstanding, without using it up
+export async function isPasswordResetTokenValid(token: string): Promise<boolean> {
+  const decoded = decodeResetToken(token);
+  if (!decoded) {
+    return false;
+  }
+
+  const user = await User.exists({
+    _id: decoded.userId,
+    is_active: true,
+    password_reset_token_hash: decoded.tokenHash,
+    password_reset_expires: { $gt: new Date() },
+  });
+
+  return !!user;
+}
+
+// Redeem a reset token. The token is cleared atomically, so a second
+// request with the same token finds nothing. Returns the user or null.
+export async function consumePasswordResetToken(token: string): Promise<IUser | null> {
+  const decoded = decodeResetToken(token);
+  if (!decoded) {
+    return null;
+  }
+
+  return User.findOneAndUpdate(
+    {
+      _id: decoded.userId,
+      is_active: true,
+      password_reset_token_hash: decoded.tokenHash,
+      password_reset_expires: { $gt: new Date() },
+    },
+    { $unset: { password_reset_token_hash: 1, password_reset_expires: 1 } },
+    { new: true }
+  ).select('+password_hash');
+}
@@ -0,0 +1,47 @@
+// Role-based permission checks shared by API handlers and the admin UI
+import { PERMISSIONS, ROLE_PERMISSIONS, USER_ROLES, Permission, UserRole } from './constants';
+
+// Minimal user shape needed for permission checks
+export interface PermissionSubject {
+  role: string;
+  permissions?: readonly string[] | undefined;
+}
+
+export const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[];
+export const ALL_ROLES = Object.values(USER_ROLES) as UserRole[];
+
+// Check whether a value is a known role
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (ALL_ROLES as string[]).includes(value);
+}
+
+// Check whether a value is a known permission
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+// Default permissions for a role when no matrix has been stored
+export function getDefaultPermissions(role: string): Permission[] {
+  return isUserRole(role) ? [...ROLE_PERMISSIONS[role]] : [];
+}
+
+// Check whether a user may perform an action.
+// Uses the resolved permission list when present, otherwise the role defaults.
+// super_admin is always allowed so the matrix cannot lock everyone out.
+export function can(user: PermissionSubject | null | undefined, permission: Permission): boolean {
+  if (!user) {
+    return false;
+  }
+
+  if (user.role === USER_ROLES.SUPER_ADMIN) {
+    return true;
+  }
+
+  const granted = user.permissions ?? getDefaultPermissions(user.role);
+  return granted.includes(permission);
+}
+
+// Check whether a user has at least one of the given permissions
+export function canAny(user: PermissionSubject | null | undefined, permissions: Permission[]): boolean {
+  return permissions.some(permission => can(user, permission));
+}
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import mongoose from 'mongoose';
+import Laporan from '@/models/Laporan';
+import NotificationLog from '@/models/NotificationLog';
+import { anonymizeLaporan } from './personalData';
+import { sealIdentity } from './laporan';
+
+vi.mock('./mongodb', () => ({ default: vi.fn(async () => undefined) }));
+vi.mock('./audit', () => ({ redactAuditPersonalData: vi.fn(async () => undefined) }));
+
+const lean = (value: unknown) => ({ select: () => ({ lean: async () => value }) }) as never;
+
+describe('anonymizeLaporan', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('takes the reporter name out of the response and the delivery log', async () => {
+    const primaryId = new mongoose.Types.ObjectId();
+    const normal = {
+      _id: new mongoose.Types.ObjectId(),
+      nama: 'Budi Santoso',
+      email: 'budi@example.com',
+      response: 'Yth. Budi Santoso, laporan Anda telah selesai ditangani.',
+      duplicate_of: primaryId,
+    };
+    const confidential = {
+      _id: new mongoose.Types.ObjectId(),
+      identity_encrypted: sealIdentity({ nama: 'Siti Aminah', email: 'siti@example.com', phone: '081234567890', address: 'Jl. Merdeka 1' }),
+      response: 'Terima kasih Ibu Siti Aminah atas laporannya.',
+    };
+    const logs = [
+      { _id: new mongoose.Types.ObjectId(), recipient: 'budi@example.com', subject: 'Budi Santoso, tanggapan laporan LPR-2026-000001' },
+    ];
+
+    vi.spyOn(Laporan, 'find').mockReturnValue(lean([normal, confidential]));
+    const laporanWrites = vi.spyOn(Laporan, 'bulkWrite').mockResolvedValue({} as never);
+    vi.spyOn(Laporan, 'updateMany').mockResolvedValue({ modifiedCount: 2 } as never);
+    const logFind = vi.spyOn(NotificationLog, 'find').mockReturnValue(lean(logs));
+    const logWrites = vi.spyOn(NotificationLog, 'bulkWrite').mockResolvedValue({} as never);
+
+    expect(await anonymizeLaporan([normal._id, confidential._id])).toBe(2);
+
+    const responses = JSON.stringify(laporanWrites.mock.calls);
+    expect(responses).not.toContain('Budi');
+    expect(responses).not.toContain('Siti');
+    expect(responses).toContain('Yth. {{nama}}, laporan Anda');
+
+    // The merged report's emails are logged against its primary
+    expect(JSON.stringify(logFind.mock.calls)).toContain(primaryId.toString());
+
+    const logUpdates = JSON.stringify(logWrites.mock.calls);
+    expect(logUpdates).not.toContain('Budi');
+    expect(logUpdates).not.toContain('budi@example.com');
+    expect(logUpdates).toContain('Dianonimkan, tanggapan laporan LPR-2026-000001');
+  });
+});
@@ -0,0 +1,235 @@
+// Reporters' personal data: anonymising reports, and the export and erasure
+// requests a reporter can make under UU 27/2022. Callers audit every use.
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import Laporan, { ILaporan } from '@/models/Laporan';
+import NotificationLog from '@/models/NotificationLog';
+import { AUDIT_ENTITY_TYPES, LAPORAN_CONFIDENTIALITY } from './constants';
+import { redactAuditPersonalData } from './audit';
+import {
+  addressReporter,
+  ANONYMIZED_REPORTER_LABEL,
+  buildPublicTimeline,
+  openIdentity,
+  PublicTimelineEntry,
+  REPORTER_NAME_PLACEHOLDER,
+  ReporterIdentity,
+} from './laporan';
+
+// Stored in the delivery log in place of an anonymised reporter's email
+const ANONYMIZED_RECIPIENT = 'dianonimkan';
+
+// Identity fields removed by anonymisation. The message, category, status,
+// history and response stay, so statistics and the case file are unchanged;
+// the reporter's name is only taken out of the response.
+const IDENTITY_FIELDS = {
+  nama: 1,
+  email: 1,
+  phone: 1,
+  address: 1,
+  identity_encrypted: 1,
+  submitted_ip: 1,
+  survey_token_hash: 1,
+  survey_expires_at: 1,
+};
+
+export interface ReporterQuery {
+  email?: string | undefined;
+  phone?: string | undefined;
+}
+
+// Report of the reporter together with the identity they gave on it
+export interface ReporterMatch {
+  laporan: ILaporan;
+  identity: Partial<ReporterIdentity>;
+}
+
+export interface PersonalDataExport {
+  generated_at: string;
+  reference: string;
+  laporan: {
+    ticket: string;
+    created_at: Date;
+    confidentiality: ILaporan['confidentiality'];
+    identity: Partial<ReporterIdentity>;
+    category: ILaporan['category'];
+    status: ILaporan['status'];
+    message: string;
+    attachments: string[];
+    timeline: PublicTimelineEntry[];
+    response: string | null;
+    responded_at: Date | null;
+  }[];
+}
+
+// Remove the reporter's identity from reports not anonymised yet, including
+// copies in the delivery log and audit trail. Returns how many changed.
+export async function anonymizeLaporan(ids: mongoose.Types.ObjectId[]): Promise<number> {
+  if (ids.length === 0) {
+    return 0;
+  }
+
+  await dbConnect();
+
+  const filter = { _id: { $in: ids }, anonymized_at: { $exists: false } };
+  const reports = await Laporan.find(filter)
+    .select('email nama response duplicate_of +identity_encrypted')
+    .lean();
+
+  // Responses may name the reporter, typed by staff or filled in before names
+  // were kept as a placeholder. The placeholder now reads as a generic greeting.
+  const responseUpdates = reports.flatMap(laporan => {
+    const name = storedReporterName(laporan);
+    return name && laporan.response?.includes(name)
+      ? [{ updateOne: { filter: { _id: laporan._id }, update: { $set: { response: replaceName(laporan.response, name, REPORTER_NAME_PLACEHOLDER) } } } }]
+      : [];
+  });
+  if (responseUpdates.length > 0) {
+    await Laporan.bulkWrite(responseUpdates);
+  }
+
+  const result = await Laporan.updateMany(filter, {
+    $set: { anonymized_at: new Date() },
+    $unset: IDENTITY_FIELDS,
+  });
+
+  // The delivery log would otherwise still tie the reports to the reporter's
+  // address, and subjects carry their name. Emails about a merged report are
+  // logged against the report it was merged into.
+  const namesByEmail = new Map<string, string[]>();
+  for (const laporan of reports) {
+    if (!laporan.email) continue;
+    const names = namesByEmail.get(laporan.email) || [];
+    namesByEmail.set(laporan.email, laporan.nama ? [...names, laporan.nama] : names);
+  }
+
+  if (namesByEmail.size > 0) {
+    const logs = await NotificationLog.find({
+      laporan: { $in: [...ids, ...reports.flatMap(laporan => laporan.duplicate_of ? [laporan.duplicate_of] : [])] },
+      recipient: { $in: Array.from(namesByEmail.keys()) },
+    }).select('recipient subject').lean();
+
+    if (logs.length > 0) {
+      await NotificationLog.bulkWrite(logs.map(log => ({
+        updateOne: {
+          filter: { _id: log._id },
+          update: {
+            $set: {
+              recipient: ANONYMIZED_RECIPIENT,
+              subject: (namesByEmail.get(log.recipient) || [])
+                .reduce((subject, name) => replaceName(subject, name, ANONYMIZED_REPORTER_LABEL), log.subject),
+            },
+          },
+        },
+      })));
+    }
+  }
+
+  await redactAuditPersonalData(AUDIT_ENTITY_TYPES.LAPORAN, ids.map(id => id.toString()));
+
+  return result.modifiedCount;
+}
+
+// Name a report was filed under, read from the encrypted identity for confidential ones
+function storedReporterName(laporan: Pick<ILaporan, 'nama' | 'identity_encrypted'>): string | undefined {
+  if (laporan.nama) {
+    return laporan.nama;
+  }
+  if (!laporan.identity_encrypted) {
+    return undefined;
+  }
+  try {
+    return openIdentity(laporan.identity_encrypted).nama;
+  } catch {
+    return undefined;
+  }
+}
+
+function replaceName(text: string, name: string, replacement: string): string {
+  return text.split(name).join(replacement);
+}
+
+// Ways one Indonesian mobile number is commonly written: 0812..., 62812..., +62812...
+export function phoneVariants(phone: string): string[] {
+  const digits = phone.replace(/\D/g, '');
+  const local = digits.startsWith('62') ? digits.slice(2) : digits.replace(/^0/, '');
+  return Array.from(new Set([phone.trim(), `0${local}`, `62${local}`, `+62${local}`]));
+}
+
+// Reports of one reporter, matched on email or phone. Confidential identities
+// are decrypted one by one to compare, so the lookup must be audited.
+export async function findReporterLaporan(query: ReporterQuery): Promise<ReporterMatch[]> {
+  await dbConnect();
+
+  const email = query.email?.trim().toLowerCase();
+  const phones = query.phone ? phoneVariants(query.phone) : [];
+  const matchesIdentity = (identity: Partial<ReporterIdentity>) =>
+    Boolean((email && identity.email?.toLowerCase() === email) || (identity.phone && phones.includes(identity.phone)));
+
+  const conditions: Record<string, unknown>[] = [];
+  if (email) conditions.push({ email });
+  if (phones.length > 0) conditions.push({ phone: { $in: phones } });
+  if (conditions.length === 0) {
+    return [];
+  }
+
+  const plain = await Laporan.find({
+    confidentiality: { $ne: LAPORAN_CONFIDENTIALITY.CONFIDENTIAL },
+    anonymized_at: { $exists: false },
+    $or: conditions,
+  }).sort({ created_at: -1 });
+
+  const matches: ReporterMatch[] = plain.map(laporan => ({
+    laporan,
+    identity: {
+      ...(laporan.nama && { nama: laporan.nama }),
+      ...(laporan.email && { email: laporan.email }),
+      ...(laporan.phone && { phone: laporan.phone }),
+      ...(laporan.address && { address: laporan.address }),
+    },
+  }));
+
+  const confidential = Laporan.find({
+    confidentiality: LAPORAN_CONFIDENTIALITY.CONFIDENTIAL,
+    anonymized_at: { $exists: false },
+  }).select('+identity_encrypted').cursor();
+
+  for await (const laporan of confidential) {
+    if (!laporan.identity_encrypted) continue;
+
+    const identity = openIdentity(laporan.identity_encrypted);
+    if (matchesIdentity(identity)) {
+      matches.push({ laporan, identity });
+    }
+  }
+
+  return matches.sort((a, b) => b.laporan.created_at.getTime() - a.laporan.created_at.getTime());
+}
+
+// Everything kept about the reporter on their reports, in a portable form.
+// Staff names and internal notes are left out, as on the tracking page.
+export function buildPersonalDataExport(matches: ReporterMatch[], reference: string): PersonalDataExport {
+  return {
+    generated_at: new Date().toISOString(),
+    reference,
+    laporan: matches.map(({ laporan, identity }) => ({
+      ticket: laporan.ticket,
+      created_at: laporan.created_at,
+      confidentiality: laporan.confidentiality,
+      identity,
+      category: laporan.category,
+      status: laporan.status,
+      message: laporan.message,
+      attachments: (laporan.attachments || []).map(attachment => attachment.original_name),
+      timeline: buildPublicTimeline(laporan),
+      response: laporan.response ? addressReporter(laporan.response, identity.nama) : null,
+      responded_at: laporan.responded_at || null,
+    })),
+  };
+}
+
+// Ticket list for audit summaries, cut short to fit
+export function summarizeTickets(matches: ReporterMatch[], limit = 10): string {
+  const tickets = matches.slice(0, limit).map(match => match.laporan.ticket).join(', ');
+  return matches.length > limit ? `${tickets} and ${matches.length - limit} more` : tickets;
+}
@@ -0,0 +1,128 @@
+// Role-to-permission matrix stored in MongoDB with built-in defaults
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import { cacheManager } from './cache';
+import RolePermission from '@/models/RolePermission';
+import { USER_ROLES, Permission, UserRole } from './constants';
+import { ALL_PERMISSIONS, ALL_ROLES, getDefaultPermissions, isPermission } from './permissions';
+
+export type PermissionMatrix = Record<UserRole, Permission[]>;
+export type TwoFactorPolicy = Record<UserRole, boolean>;
+
+const MATRIX_CACHE_KEY = 'role-permissions';
+const TWO_FACTOR_CACHE_KEY = 'role-two-factor';
+const MATRIX_CACHE_TTL = 60 * 1000; // 1 minute
+
+const matrixCache = cacheManager.getCache('rbac');
+
+// Load the full matrix, falling back to defaults for roles never saved
+export async function getPermissionMatrix(): Promise<PermissionMatrix> {
+  const cached = matrixCache.get(MATRIX_CACHE_KEY) as PermissionMatrix | null;
+  if (cached) {
+    return cached;
+  }
+
+  await dbConnect();
+  const stored = await RolePermission.find({}).lean();
+
+  const matrix = {} as PermissionMatrix;
+  for (const role of ALL_ROLES) {
+    const entry = stored.find(item => item.role === role);
+    matrix[role] = entry ? entry.permissions.filter(isPermission) : getDefaultPermissions(role);
+  }
+
+  // super_admin always holds every permission
+  matrix[USER_ROLES.SUPER_ADMIN] = [...ALL_PERMISSIONS];
+
+  matrixCache.set(MATRIX_CACHE_KEY, matrix, MATRIX_CACHE_TTL);
+  return matrix;
+}
+
+// Resolve the permissions granted to a role
+export async function getRolePermissions(role: string): Promise<Permission[]> {
+  const matrix = await getPermissionMatrix();
+  return matrix[role as UserRole] || [];
+}
+
+// Replace the permissions of a role and invalidate the cache
+export async function updateRolePermissions(
+  role: UserRole,
+  permissions: Permission[],
+  updatedBy?: string
+): Promise<Permission[]> {
+  if (role === USER_ROLES.SUPER_ADMIN) {
+    throw new Error('super_admin permissions cannot be changed');
+  }
+
+  await dbConnect();
+  const unique = Array.from(new Set(permissions.filter(isPermission)));
+
+  await RolePermission.findOneAndUpdate(
+    { role },
+    {
+      role,
+      permissions: unique,
+      ...(updatedBy && { updated_by: new mongoose.Types.ObjectId(updatedBy) }),
+    },
+    { upsert: true, new: true, runValidators: true }
+  );
+
+  clearPermissionCache();
+  return unique;
+}
+
+// Load which roles must enroll in two-factor authentication
+export async function getTwoFactorPolicy(): Promise<TwoFactorPolicy> {
+  const cached = matrixCache.get(TWO_FACTOR_CACHE_KEY) as TwoFactorPolicy | null;
+  if (cached) {
+    return cached;
+  }
+
+  await dbConnect();
+  const stored = await RolePermission.find({}).select('role require_two_factor').lean();
+
+  const policy = {} as TwoFactorPolicy;
+  for (const role of ALL_ROLES) {
+    policy[role] = Boolean(stored.find(item => item.role === role)?.require_two_factor);
+  }
+
+  matrixCache.set(TWO_FACTOR_CACHE_KEY, policy, MATRIX_CACHE_TTL);
+  return policy;
+}
+
+// Check whether a role must use two-factor authentication
+export async function isTwoFactorRequired(role: string): Promise<boolean> {
+  const policy = await getTwoFactorPolicy();
+  return Boolean(policy[role as UserRole]);
+}
+
+// Require or relax two-factor authentication for a role
+export async function updateTwoFactorRequirement(
+  role: UserRole,
+  required: boolean,
+  updatedBy?: string
+): Promise<boolean> {
+  await dbConnect();
+
+  await RolePermission.findOneAndUpdate(
+    { role },
+    {
+      $set: {
+        require_two_factor: required,
+        ...(updatedBy && { updated_by: new mongoose.Types.ObjectId(updatedBy) }),
+      },
+      // Keep the default permissions when the role was never saved before
+      $setOnInsert: { role, permissions: getDefaultPermissions(role) },
+    },
+    { upsert: true, new: true, runValidators: true }
+  );
+
+  clearPermissionCache();
+  return required;
+}
+
+// Drop cached permissions after the matrix changes
+export function clearPermissionCache(): void {
+  matrixCache.delete(MATRIX_CACHE_KEY);
+  matrixCache.delete(TWO_FACTOR_CACHE_KEY);
+}
@@ -0,0 +1,49 @@
+// Response templates: reusable wording for official responses, with placeholders
+// filled in from the laporan being answered
+import dbConnect from './mongodb';
+import { appConfig } from './config';
+import { describeAssignee } from './assignment';
+import { renderTemplate } from './notifications';
+import { REPORTER_NAME_PLACEHOLDER } from './laporan';
+import type { ILaporan } from '@/models/Laporan';
+import ResponseTemplate, { IResponseTemplate } from '@/models/ResponseTemplate';
+import { LAPORAN_CATEGORY_LABELS, LAPORAN_STATUS_LABELS } from './constants';
+
+// Values for the placeholders listed in RESPONSE_TEMPLATE_VARIABLES
+export function responseTemplateVariables(laporan: ILaporan): Record<string, string> {
+  return {
+    // Left as a placeholder: the response also reaches the reporters of merged
+    // duplicates, so each one's own name is only filled in when it is sent or shown
+    nama: REPORTER_NAME_PLACEHOLDER,
+    ticket: laporan.ticket,
+    kategori: LAPORAN_CATEGORY_LABELS[laporan.category] || laporan.category,
+    status: LAPORAN_STATUS_LABELS[laporan.status] || laporan.status,
+    tanggal: laporan.created_at.toLocaleDateString('id-ID', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+      timeZone: 'Asia/Makassar',
+    }),
+    petugas: describeAssignee(laporan.assigned_to_name, laporan.assigned_bidang),
+    instansi: appConfig.description,
+  };
+}
+
+// All templates, those for the report's category first, then by title.
+// With a laporan, each template also comes filled in for it.
+export async function listResponseTemplates(laporan?: ILaporan) {
+  await dbConnect();
+
+  const templates: IResponseTemplate[] = await ResponseTemplate.find({}).sort({ title: 1 });
+  if (!laporan) {
+    return templates.map(template => template.toObject());
+  }
+
+  const variables = responseTemplateVariables(laporan);
+  return templates
+    .sort((a, b) => Number(b.category === laporan.category) - Number(a.category === laporan.category))
+    .map(template => ({
+      ...template.toObject(),
+      rendered: renderTemplate(template.body, variables),
+    }));
+}
@@ -0,0 +1,224 @@
+// Retention of reporters' personal data: finished reports lose the reporter's
+// identity once they have been left alone for the configured number of months.
+// The job worker runs the policy once a day (see scheduleRetentionRun).
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import logger from './logger';
+import Laporan, { ILaporan } from '@/models/Laporan';
+import RetentionPolicy from '@/models/RetentionPolicy';
+import { enqueueJob, JobHandler } from './jobs';
+import { recordAudit } from './audit';
+import { anonymizeLaporan } from './personalData';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  JOB_TYPES,
+  LAPORAN_CONFIDENTIALITY,
+  LAPORAN_RETENTION_DEFAULTS,
+  LaporanConfidentiality,
+  RETENTION_MODES,
+  RetentionMode,
+} from './constants';
+
+export interface RetentionSettings {
+  mode: RetentionMode;
+  months: number;
+  last_run_at: Date | null;
+  last_run_mode: RetentionMode | null;
+  last_run_count: number | null;
+  updated_at: Date | null;
+}
+
+// What a run would anonymise, shown before the policy is enforced
+export interface RetentionPreview {
+  cutoff: Date;
+  total: number;
+  byConfidentiality: Record<LaporanConfidentiality, number>;
+  sample: {
+    ticket: string;
+    status: ILaporan['status'];
+    spam: boolean;
+    updated_at: Date;
+  }[];
+}
+
+export interface RetentionRunResult {
+  mode: RetentionMode;
+  cutoff: Date;
+  count: number;
+}
+
+// Reports no longer being worked on; spam counts as finished whatever its status
+const FINISHED_STATUSES: ILaporan['status'][] = ['resolved', 'closed'];
+
+const RUN_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const PREVIEW_SAMPLE_SIZE = 50;
+const BATCH_SIZE = 500;
+
+// Entity id of retention entries in the audit trail
+export const RETENTION_AUDIT_ENTITY_ID = 'retention';
+
+// Reports last changed before this instant are due for anonymisation
+export function retentionCutoff(months: number, now: Date = new Date()): Date {
+  const cutoff = new Date(now);
+  cutoff.setMonth(cutoff.getMonth() - months);
+  return cutoff;
+}
+
+// Finished reports untouched since the cutoff that still hold personal data
+export function retentionQuery(cutoff: Date): Record<string, unknown> {
+  return {
+    anonymized_at: { $exists: false },
+    updated_at: { $lt: cutoff },
+    $or: [
+      { status: { $in: FINISHED_STATUSES } },
+      { spam: true },
+    ],
+  };
+}
+
+// Load the policy, falling back to the defaults when it was never saved
+export async function getRetentionPolicy(): Promise<RetentionSettings> {
+  await dbConnect();
+  const stored = await RetentionPolicy.findOne({}).lean();
+
+  return {
+    mode: stored?.mode ?? LAPORAN_RETENTION_DEFAULTS.mode,
+    months: stored?.months ?? LAPORAN_RETENTION_DEFAULTS.months,
+    last_run_at: stored?.last_run_at ?? null,
+    last_run_mode: stored?.last_run_mode ?? null,
+    last_run_count: stored?.last_run_count ?? null,
+    updated_at: stored?.updated_at ?? null,
+  };
+}
+
+// Change the mode and retention period
+export async function updateRetentionPolicy(
+  mode: RetentionMode,
+  months: number,
+  userId: string
+): Promise<RetentionSettings> {
+  await dbConnect();
+  await RetentionPolicy.findOneAndUpdate(
+    {},
+    { mode, months, updated_by: userId },
+    { upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+  return getRetentionPolicy();
+}
+
+// Dry run: count what the policy would anonymise, without changing anything
+export async function previewRetention(months: number): Promise<RetentionPreview> {
+  await dbConnect();
+
+  const cutoff = retentionCutoff(months);
+  const query = retentionQuery(cutoff);
+
+  const [groups, sample] = await Promise.all([
+    Laporan.aggregate<{ _id: LaporanConfidentiality | null; count: number }>([
+      { $match: query },
+      { $group: { _id: '$confidentiality', count: { $sum: 1 } } },
+    ]),
+    Laporan.find(query)
+      .select('ticket status spam updated_at')
+      .sort({ updated_at: 1 })
+      .limit(PREVIEW_SAMPLE_SIZE)
+      .lean(),
+  ]);
+
+  const byConfidentiality = Object.fromEntries(
+    Object.values(LAPORAN_CONFIDENTIALITY).map(mode => [mode, 0])
+  ) as Record<LaporanConfidentiality, number>;
+
+  // Reports filed before confidentiality existed are normal ones
+  for (const group of groups) {
+    byConfidentiality[group._id ?? LAPORAN_CONFIDENTIALITY.NORMAL] += group.count;
+  }
+
+  return {
+    cutoff,
+    total: groups.reduce((sum, group) => sum + group.count, 0),
+    byConfidentiality,
+    sample: sample.map(laporan => ({
+      ticket: laporan.ticket,
+      status: laporan.status,
+      spam: Boolean(laporan.spam),
+      updated_at: laporan.updated_at,
+    })),
+  };
+}
+
+// Run the policy now. A dry run only counts; enforcing anonymises in batches.
+// The outcome is kept on the policy so the settings page can show it.
+export async function runRetention(mode: RetentionMode, months: number): Promise<RetentionRunResult> {
+  await dbConnect();
+
+  const cutoff = retentionCutoff(months);
+  let count = 0;
+
+  if (mode === RETENTION_MODES.ENFORCE) {
+    const query = retentionQuery(cutoff);
+    for (;;) {
+      const batch = await Laporan.find(query).select('_id').limit(BATCH_SIZE).lean();
+      if (batch.length === 0) break;
+
+      const changed = await anonymizeLaporan(batch.map(laporan => laporan._id as mongoose.Types.ObjectId));
+      count += changed;
+      // Another run got to them first
+      if (changed === 0) break;
+    }
+  } else {
+    count = await Laporan.countDocuments(retentionQuery(cutoff));
+  }
+
+  await RetentionPolicy.findOneAndUpdate(
+    {},
+    { last_run_at: new Date(), last_run_mode: mode, last_run_count: count },
+    { upsert: true, setDefaultsOnInsert: true }
+  );
+
+  logger.info('Retention run finished', { mode, months, cutoff: cutoff.toISOString(), count });
+  return { mode, cutoff, count };
+}
+
+// Audit summary of a run that anonymised reports
+export function retentionRunSummary(result: RetentionRunResult): string {
+  return `Anonymised reporter identity of ${result.count} laporan finished before ${result.cutoff.toISOString().slice(0, 10)}`;
+}
+
+// Queue the daily run when the policy is on and the last run is a day old.
+// Called by the job worker; the job key keeps it from being queued twice.
+export async function scheduleRetentionRun(): Promise<void> {
+  const policy = await getRetentionPolicy();
+  if (policy.mode === RETENTION_MODES.OFF) {
+    return;
+  }
+
+  if (policy.last_run_at && Date.now() - policy.last_run_at.getTime() < RUN_INTERVAL_MS) {
+    return;
+  }
+
+  await enqueueJob(JOB_TYPES.APPLY_RETENTION, {}, { key: JOB_TYPES.APPLY_RETENTION, maxAttempts: 3 });
+}
+
+// Job handler for the scheduled run. The policy is read again, in case it was
+// switched off after the job was queued.
+export const processRetentionJob: JobHandler = async () => {
+  const policy = await getRetentionPolicy();
+  if (policy.mode === RETENTION_MODES.OFF) {
+    return;
+  }
+
+  const result = await runRetention(policy.mode, policy.months);
+
+  if (result.mode === RETENTION_MODES.ENFORCE && result.count > 0) {
+    await recordAudit({
+      request: null,
+      actor: null,
+      action: AUDIT_ACTIONS.ANONYMIZE,
+      entityType: AUDIT_ENTITY_TYPES.PERSONAL_DATA,
+      entityId: RETENTION_AUDIT_ENTITY_ID,
+      summary: retentionRunSummary(result),
+    });
+  }
+};
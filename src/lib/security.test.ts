@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { encryptionUtils } from './security';
+
+describe('encryptionUtils field encryption', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('round-trips a value with a fresh IV each time', () => {
+    const first = encryptionUtils.encryptField('Budi Santoso');
+    const second = encryptionUtils.encryptField('Budi Santoso');
+
+    expect(first).not.toBe(second);
+    expect(first).not.toContain('Budi');
+    expect(encryptionUtils.decryptField(first)).toBe('Budi Santoso');
+  });
+
+  it('refuses a tampered ciphertext', () => {
+    const [iv, tag, encrypted] = encryptionUtils.encryptField('Budi Santoso').split(':') as [string, string, string];
+    const flipped = (parseInt(encrypted.slice(0, 2), 16) ^ 0x01).toString(16).padStart(2, '0') + encrypted.slice(2);
+
+    expect(() => encryptionUtils.decryptField(`${iv}:${tag}:${flipped}`)).toThrow();
+  });
+
+  it('refuses to decrypt with another key', () => {
+    const payload = encryptionUtils.encryptField('Budi Santoso');
+    vi.stubEnv('ENCRYPTION_KEY', 'another-encryption-key-of-32-chars!!');
+
+    expect(() => encryptionUtils.decryptField(payload)).toThrow();
+  });
+
+  it('never falls back to another secret without ENCRYPTION_KEY', () => {
+    vi.stubEnv('ENCRYPTION_KEY', '');
+
+    expect(encryptionUtils.hasFieldKey()).toBe(false);
+    expect(() => encryptionUtils.encryptField('Budi Santoso')).toThrow('ENCRYPTION_KEY');
+  });
+});
@@ -4,6 +4,7 @@ import * as bcrypt from 'bcryptjs';
 import * as jwt from 'jsonwebtoken';
 import env from './env';
 import logger from './logger';
+import { VALIDATION_RULES } from './constants';
 
 // Security configuration
 const SECURITY_CONFIG = {
@@ -11,8 +12,11 @@ const SECURITY_CONFIG = {
     saltRounds: 12,
   },
   jwt: {
-    accessTokenExpiry: '15m',
-    refreshTokenExpiry: '7d',
+    accessTokenExpiry: 15 * 60, // 15 minutes, in seconds
+    refreshTokenExpiry: 7 * 24 * 60 * 60, // 7 days, in seconds
+    challengeTokenExpiry: 5 * 60, // 5 minutes, in seconds
+    passwordResetTokenExpiry: 60 * 60, // 1 hour, in seconds
+    captchaTokenExpiry: 30 * 60, // 30 minutes, in seconds
     algorithm: 'HS256' as const,
   },
   session: {
@@ -26,12 +30,25 @@ const SECURITY_CONFIG = {
     windowMs: 15 * 60 * 1000, // 15 minutes
     blockDuration: 60 * 60 * 1000, // 1 hour
   },
+  // Persisted account lockout after repeated failed logins
+  lockout: {
+    maxFailedAttempts: 5,
+    baseDuration: 5 * 60 * 1000, // 5 minutes, doubled on each further lockout
+    maxDuration: 24 * 60 * 60 * 1000, // 24 hours
+  },
+  // Persisted per-ticket lockout after wrong tracking PINs, whatever the client
+  pinLockout: {
+    maxFailedAttempts: 5,
+    baseDuration: 15 * 60 * 1000, // 15 minutes, doubled on each further lockout
+    maxDuration: 24 * 60 * 60 * 1000, // 24 hours
+  },
   password: {
-    minLength: 8,
-    requireUppercase: true,
-    requireLowercase: true,
-    requireNumbers: true,
-    requireSpecialChars: true,
+    minLength: VALIDATION_RULES.PASSWORD.MIN_LENGTH,
+    maxLength: VALIDATION_RULES.PASSWORD.MAX_LENGTH,
+    requireUppercase: VALIDATION_RULES.PASSWORD.REQUIRE_UPPERCASE,
+    requireLowercase: VALIDATION_RULES.PASSWORD.REQUIRE_LOWERCASE,
+    requireNumbers: VALIDATION_RULES.PASSWORD.REQUIRE_NUMBERS,
+    requireSpecialChars: VALIDATION_RULES.PASSWORD.REQUIRE_SYMBOLS,
   },
 };
 
@@ -67,6 +84,10 @@ export const passwordUtils = {
       errors.push(`Password must be at least ${config.minLength} characters long`);
     }
 
+    if (password.length > config.maxLength) {
+      errors.push(`Password must be at most ${config.maxLength} characters long`);
+    }
+
     if (config.requireUppercase && !/[A-Z]/.test(password)) {
       errors.push('Password must contain at least one uppercase letter');
     }
@@ -92,26 +113,41 @@ export const passwordUtils = {
   // Generate secure random password
   generate(length = 16): string {
     const charset = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*';
-    let password = '';
+    const pick = (chars: string) => chars[crypto.randomInt(chars.length)];
+    const characters: string[] = [];
     
     // Ensure at least one character from each required category
-    password += 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'[Math.floor(Math.random() * 26)];
-    password += 'abcdefghijklmnopqrstuvwxyz'[Math.floor(Math.random() * 26)];
-    password += '0123456789'[Math.floor(Math.random() * 10)];
-    password += '!@#$%^&*'[Math.floor(Math.random() * 8)];
+    characters.push(pick('ABCDEFGHIJKLMNOPQRSTUVWXYZ')!);
+    characters.push(pick('abcdefghijklmnopqrstuvwxyz')!);
+    characters.push(pick('0123456789')!);
+    characters.push(pick('!@#$%^&*')!);
     
     // Fill the rest randomly
-    for (let i = password.length; i < length; i++) {
-      password += charset[Math.floor(Math.random() * charset.length)];
+    while (characters.length < length) {
+      characters.push(pick(charset)!);
     }
     
-    // Shuffle the password
-    return password.split('').sort(() => Math.random() - 0.5).join('');
+    // Shuffle the password (Fisher-Yates)
+    for (let i = characters.length - 1; i > 0; i--) {
+      const j = crypto.randomInt(i + 1);
+      [characters[i], characters[j]] = [characters[j]!, characters[i]!];
+    }
+    
+    return characters.join('');
   },
 };
 
 // JWT utilities
 export const jwtUtils = {
+  // Token lifetimes in seconds
+  lifetimes: {
+    accessToken: SECURITY_CONFIG.jwt.accessTokenExpiry,
+    refreshToken: SECURITY_CONFIG.jwt.refreshTokenExpiry,
+    challengeToken: SECURITY_CONFIG.jwt.challengeTokenExpiry,
+    passwordResetToken: SECURITY_CONFIG.jwt.passwordResetTokenExpiry,
+    captchaToken: SECURITY_CONFIG.jwt.captchaTokenExpiry,
+  },
+
   // Generate access token
   generateAccessToken(payload: object): string {
     return jwt.sign(
@@ -136,6 +172,42 @@ export const jwtUtils = {
     );
   },
 
+  // Generate short-lived token for a pending login step
+  generateChallengeToken(payload: object): string {
+    return jwt.sign(
+      payload,
+      env.JWT_SECRET,
+      {
+        expiresIn: SECURITY_CONFIG.jwt.challengeTokenExpiry,
+        algorithm: SECURITY_CONFIG.jwt.algorithm,
+      } as jwt.SignOptions
+    );
+  },
+
+  // Generate token for a password reset link
+  generatePasswordResetToken(payload: object): string {
+    return jwt.sign(
+      payload,
+      env.JWT_SECRET,
+      {
+        expiresIn: SECURITY_CONFIG.jwt.passwordResetTokenExpiry,
+        algorithm: SECURITY_CONFIG.jwt.algorithm,
+      } as jwt.SignOptions
+    );
+  },
+
+  // Generate token for a public form challenge
+  generateCaptchaToken(payload: object): string {
+    return jwt.sign(
+      payload,
+      env.JWT_SECRET,
+      {
+        expiresIn: SECURITY_CONFIG.jwt.captchaTokenExpiry,
+        algorithm: SECURITY_CONFIG.jwt.algorithm,
+      } as jwt.SignOptions
+    );
+  },
+
   // Verify token
   verifyToken(token: string): any {
     try {
@@ -165,6 +237,21 @@ export const jwtUtils = {
   },
 };
 
+// Derive a 256-bit cipher key from an arbitrary secret
+function toCipherKey(key: string): Buffer {
+  return crypto.createHash('sha256').update(key).digest();
+}
+
+// Key for data encrypted at rest (confidential identities, 2FA secrets). It is
+// never derived from another secret, so leaking the JWT secret does not expose them.
+function getDataEncryptionKey(): string {
+  const key = process.env.ENCRYPTION_KEY;
+  if (!key) {
+    throw new Error('ENCRYPTION_KEY is not set');
+  }
+  return key;
+}
+
 // Encryption utilities
 export const encryptionUtils = {
   // Generate random key
@@ -174,35 +261,55 @@ export const encryptionUtils = {
 
   // Generate random IV
   generateIV(): string {
-    return crypto.randomBytes(16).toString('hex');
+    return crypto.randomBytes(12).toString('hex');
   },
 
-  // Encrypt data
-  encrypt(text: string, key: string): { encrypted: string; iv: string } {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipher('aes-256-cbc', key);
-    cipher.setAutoPadding(true);
-    
+  // Encrypt data with AES-256-GCM; the tag lets decrypt detect tampering
+  encrypt(text: string, key: string): { encrypted: string; iv: string; tag: string } {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', toCipherKey(key), iv);
+
     let encrypted = cipher.update(text, 'utf8', 'hex');
     encrypted += cipher.final('hex');
-    
+
     return {
       encrypted,
       iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
     };
   },
 
-  // Decrypt data
-  decrypt(encryptedData: string, key: string, iv: string): string {
-    const decipher = crypto.createDecipher('aes-256-cbc', key);
-    decipher.setAutoPadding(true);
-    
+  // Decrypt data, throwing when the ciphertext or tag was altered
+  decrypt(encryptedData: string, key: string, iv: string, tag: string): string {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', toCipherKey(key), Buffer.from(iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(tag, 'hex'));
+
     let decrypted = decipher.update(encryptedData, 'hex', 'utf8');
     decrypted += decipher.final('utf8');
-    
+
     return decrypted;
   },
 
+  // Whether encryptField can be used, i.e. ENCRYPTION_KEY is set
+  hasFieldKey(): boolean {
+    return !!process.env.ENCRYPTION_KEY;
+  },
+
+  // Encrypt a value for storage with ENCRYPTION_KEY, as "iv:tag:ciphertext"
+  encryptField(text: string): string {
+    const { encrypted, iv, tag } = this.encrypt(text, getDataEncryptionKey());
+    return `${iv}:${tag}:${encrypted}`;
+  },
+
+  // Decrypt a value produced by encryptField
+  decryptField(payload: string): string {
+    const [iv, tag, encrypted] = payload.split(':');
+    if (!iv || !tag || encrypted === undefined) {
+      throw new Error('Invalid encrypted payload');
+    }
+    return this.decrypt(encrypted, getDataEncryptionKey(), iv, tag);
+  },
+
   // Hash data with salt
   hashWithSalt(data: string, salt?: string): { hash: string; salt: string } {
     const actualSalt = salt || crypto.randomBytes(16).toString('hex');
@@ -216,11 +323,23 @@ export const encryptionUtils = {
     const { hash: computedHash } = this.hashWithSalt(data, salt);
     return computedHash === hash;
   },
+
+  // Hash a high-entropy token for storage
+  hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  },
 };
 
 // Rate limiting utilities
+type RateLimitOptions = typeof SECURITY_CONFIG.rateLimit;
+
 class RateLimiter {
   private attempts: Map<string, { count: number; resetTime: number; blockedUntil?: number }> = new Map();
+  private options: RateLimitOptions;
+
+  constructor(options: Partial<RateLimitOptions> = {}) {
+    this.options = { ...SECURITY_CONFIG.rateLimit, ...options };
+  }
 
   // Check if request is allowed
   isAllowed(identifier: string): boolean {
@@ -236,7 +355,7 @@ class RateLimiter {
     if (!record || now > record.resetTime) {
       this.attempts.set(identifier, {
         count: 1,
-        resetTime: now + SECURITY_CONFIG.rateLimit.windowMs,
+        resetTime: now + this.options.windowMs,
       });
       return true;
     }
@@ -245,8 +364,8 @@ class RateLimiter {
     record.count++;
 
     // Block if max attempts exceeded
-    if (record.count > SECURITY_CONFIG.rateLimit.maxAttempts) {
-      record.blockedUntil = now + SECURITY_CONFIG.rateLimit.blockDuration;
+    if (record.count > this.options.maxAttempts) {
+      record.blockedUntil = now + this.options.blockDuration;
       logger.warn('Rate limit exceeded', {
         identifier,
         attempts: record.count,
@@ -258,6 +377,18 @@ class RateLimiter {
     return true;
   }
 
+  // Check whether an identifier is blocked without counting an attempt
+  isBlocked(identifier: string): boolean {
+    const blockedUntil = this.attempts.get(identifier)?.blockedUntil;
+    return Boolean(blockedUntil && Date.now() < blockedUntil);
+  }
+
+  // Seconds until a blocked identifier may try again
+  getRetryAfter(identifier: string): number {
+    const blockedUntil = this.attempts.get(identifier)?.blockedUntil;
+    return blockedUntil ? Math.max(0, Math.ceil((blockedUntil - Date.now()) / 1000)) : 0;
+  }
+
   // Reset attempts for identifier
   reset(identifier: string): void {
     this.attempts.delete(identifier);
@@ -266,9 +397,9 @@ class RateLimiter {
   // Get remaining attempts
   getRemainingAttempts(identifier: string): number {
     const record = this.attempts.get(identifier);
-    if (!record) return SECURITY_CONFIG.rateLimit.maxAttempts;
+    if (!record) return this.options.maxAttempts;
     
-    return Math.max(0, SECURITY_CONFIG.rateLimit.maxAttempts - record.count);
+    return Math.max(0, this.options.maxAttempts - record.count);
   }
 
   // Get time until reset
@@ -282,9 +413,17 @@ class RateLimiter {
 
 // Global rate limiter instances
 export const rateLimiters = {
+  // Failed logins per username
   login: new RateLimiter(),
+  // Failed logins per client IP, looser since offices share addresses
+  loginIp: new RateLimiter({ maxAttempts: 20 }),
   api: new RateLimiter(),
   password: new RateLimiter(),
+  twoFactor: new RateLimiter(),
+  // Password reset requests per client IP and per email address
+  passwordReset: new RateLimiter(),
+  // Failed report tracking lookups per client IP, ahead of the per-ticket PIN lock
+  tracking: new RateLimiter({ maxAttempts: 10 }),
 };
 
 // Input sanitization utilities
@@ -488,15 +627,31 @@ export const auditUtils = {
 
   // Log authentication event
   logAuthEvent(
-    event: 'login_success' | 'login_failure' | 'logout' | 'password_change',
+    event:
+      | 'login_success'
+      | 'login_failure'
+      | 'login_blocked'
+      | 'account_locked'
+      | 'account_unlocked'
+      | 'logout'
+      | 'password_change'
+      | 'password_reset_requested'
+      | 'password_reset',
     userId?: string,
     ip?: string,
-    userAgent?: string
+    userAgent?: string,
+    details?: object
   ): void {
+    const severity =
+      event === 'account_locked' ? 'high'
+        : event === 'login_failure' || event === 'login_blocked' || event === 'password_reset' ? 'medium'
+          : 'low';
+
     this.logSecurityEvent(event, userId, {
       ip,
       userAgent,
-    }, event === 'login_failure' ? 'medium' : 'low');
+      ...details,
+    }, severity);
   },
 
   // Log data access
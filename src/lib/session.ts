@@ -0,0 +1,289 @@
+// Admin sessions: short-lived access tokens with rotating refresh tokens
+import { NextRequest, NextResponse } from 'next/server';
+import * as crypto from 'crypto';
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import Session from '@/models/Session';
+import User, { IUser } from '@/models/User';
+import { getRolePermissions, isTwoFactorRequired } from './rbac';
+import { auditUtils, encryptionUtils, jwtUtils } from './security';
+
+export const AUTH_COOKIE_NAME = 'auth-token';
+export const REFRESH_COOKIE_NAME = 'refresh-token';
+
+// Refresh tokens are only sent to API routes
+const REFRESH_COOKIE_PATH = '/api';
+
+// A replaced refresh token presented within this window is treated as a
+// concurrent refresh from another tab rather than token theft
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  role: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+// Client details recorded with each session
+export function getClientInfo(request: NextRequest) {
+  return {
+    ip: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+    user_agent: (request.headers.get('user-agent') || '').substring(0, 500),
+  };
+}
+
+// Sign a new access/refresh token pair bound to a session
+function signTokens(user: SessionUser, sessionId: string): SessionTokens {
+  return {
+    accessToken: jwtUtils.generateAccessToken({
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+      sid: sessionId,
+    }),
+    refreshToken: jwtUtils.generateRefreshToken({
+      sid: sessionId,
+      jti: crypto.randomBytes(16).toString('hex'),
+    }),
+    sessionId,
+  };
+}
+
+// Start a new session after a successful login
+export async function createSession(user: SessionUser, request: NextRequest): Promise<SessionTokens> {
+  await dbConnect();
+
+  const sessionId = new mongoose.Types.ObjectId();
+  const tokens = signTokens(user, sessionId.toString());
+
+  await Session.create({
+    _id: sessionId,
+    user: user.id,
+    refresh_token_hash: encryptionUtils.hashToken(tokens.refreshToken),
+    ...getClientInfo(request),
+    expires_at: new Date(Date.now() + jwtUtils.lifetimes.refreshToken * 1000),
+  });
+
+  return tokens;
+}
+
+// Finish a successful login: record it, start a session and set the cookies
+export async function createLoginResponse(user: IUser, request: NextRequest): Promise<NextResponse> {
+  user.last_login_at = new Date();
+  user.failed_login_attempts = 0;
+  user.set('locked_until', undefined);
+  await user.save();
+
+  const client = getClientInfo(request);
+  auditUtils.logAuthEvent('login_success', user.id, client.ip, client.user_agent);
+
+  // Start a server-side session with short-lived access token
+  const tokens = await createSession(
+    { id: user.id, username: user.username, role: user.role },
+    request
+  );
+
+  const response = NextResponse.json(
+    {
+      success: true,
+      message: 'Login successful',
+      user: {
+        id: user._id,
+        username: user.username,
+        role: user.role,
+        permissions: await getRolePermissions(user.role),
+        must_change_password: user.must_change_password,
+        two_factor_enabled: user.two_factor_enabled,
+        must_enable_two_factor: !user.two_factor_enabled && (await isTwoFactorRequired(user.role)),
+      },
+      token: tokens.accessToken,
+    },
+    { status: 200 }
+  );
+
+  // Set HTTP-only session cookies
+  setSessionCookies(response, tokens);
+
+  return response;
+}
+
+// Reject a login attempt while the client or account is locked out
+export function createLockoutResponse(retryAfter: number): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Too many failed login attempts. Please try again later.', retryAfter },
+    { status: 429, headers: { 'Retry-After': String(Math.max(1, retryAfter)) } }
+  );
+}
+
+// Exchange a refresh token for a new token pair.
+// Returns null when the token is invalid, expired or the session was revoked.
+export async function rotateSession(refreshToken: string, request: NextRequest): Promise<SessionTokens | null> {
+  let payload: { sid?: string };
+  try {
+    payload = jwtUtils.verifyToken(refreshToken);
+  } catch {
+    return null;
+  }
+
+  if (!payload?.sid || !mongoose.Types.ObjectId.isValid(payload.sid)) {
+    return null;
+  }
+
+  await dbConnect();
+
+  const session = await Session.findById(payload.sid).select('+refresh_token_hash +previous_refresh_token_hash');
+
+  if (!session || session.revoked_at || session.expires_at.getTime() <= Date.now()) {
+    return null;
+  }
+
+  const tokenHash = encryptionUtils.hashToken(refreshToken);
+
+  if (session.refresh_token_hash !== tokenHash) {
+    const isRecentRotation =
+      session.previous_refresh_token_hash === tokenHash &&
+      session.rotated_at &&
+      Date.now() - session.rotated_at.getTime() < ROTATION_GRACE_MS;
+
+    if (!isRecentRotation) {
+      // An old refresh token was replayed: assume it was stolen
+      session.revoked_at = new Date();
+      session.revoked_reason = 'refresh_token_reuse';
+      await session.save();
+
+      auditUtils.logSecurityEvent('Refresh token reuse detected', session.user.toString(), {
+        sessionId: session.id,
+      }, 'high');
+    }
+
+    return null;
+  }
+
+  const user = await User.findById(session.user).select('username role is_active');
+
+  if (!user || !user.is_active) {
+    session.revoked_at = new Date();
+    session.revoked_reason = 'account_inactive';
+    await session.save();
+    return null;
+  }
+
+  const tokens = signTokens({ id: user.id, username: user.username, role: user.role }, session.id);
+
+  session.previous_refresh_token_hash = session.refresh_token_hash;
+  session.refresh_token_hash = encryptionUtils.hashToken(tokens.refreshToken);
+  session.rotated_at = new Date();
+  session.last_used_at = new Date();
+  Object.assign(session, getClientInfo(request));
+  await session.save();
+
+  return tokens;
+}
+
+// Check whether a session is still usable
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+    return false;
+  }
+
+  await dbConnect();
+
+  const session = await Session.findById(sessionId).select('revoked_at expires_at').lean();
+  return Boolean(session && !session.revoked_at && session.expires_at.getTime() > Date.now());
+}
+
+// Revoke a single session
+export async function revokeSession(sessionId: string, reason = 'logout'): Promise<void> {
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+    return;
+  }
+
+  await dbConnect();
+  await Session.updateOne(
+    { _id: sessionId, revoked_at: { $exists: false } },
+    { revoked_at: new Date(), revoked_reason: reason }
+  );
+}
+
+// Revoke every active session of a user, optionally keeping the current one
+export async function revokeUserSessions(
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> {
+  await dbConnect();
+
+  const query: Record<string, unknown> = {
+    user: userId,
+    revoked_at: { $exists: false },
+  };
+  if (exceptSessionId) {
+    query._id = { $ne: exceptSessionId };
+  }
+
+  const result = await Session.updateMany(query, { revoked_at: new Date(), revoked_reason: reason });
+  return result.modifiedCount;
+}
+
+// Read the refresh token cookie
+export function getRefreshToken(request: NextRequest): string | null {
+  return request.cookies.get(REFRESH_COOKIE_NAME)?.value || null;
+}
+
+// Read the session ID bound to a refresh token
+export function getRefreshSessionId(refreshToken: string): string | null {
+  try {
+    const payload = jwtUtils.verifyToken(refreshToken) as { sid?: string };
+    return payload?.sid || null;
+  } catch {
+    return null;
+  }
+}
+
+// Set access and refresh token cookies on a response
+export function setSessionCookies(response: NextResponse, tokens: SessionTokens): void {
+  const secure = process.env.NODE_ENV === 'production';
+
+  response.cookies.set(AUTH_COOKIE_NAME, tokens.accessToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    maxAge: jwtUtils.lifetimes.accessToken,
+    path: '/',
+  });
+
+  response.cookies.set(REFRESH_COOKIE_NAME, tokens.refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    maxAge: jwtUtils.lifetimes.refreshToken,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+// Expire both session cookies
+export function clearSessionCookies(response: NextResponse): void {
+  const secure = process.env.NODE_ENV === 'production';
+
+  response.cookies.set(AUTH_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    maxAge: 0, // Expire immediately
+    path: '/',
+  });
+
+  response.cookies.set(REFRESH_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    maxAge: 0,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
@@ -0,0 +1,150 @@
+// Laporan SLA: response time per category and due dates in working days
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import { cacheManager } from './cache';
+import SlaPolicy from '@/models/SlaPolicy';
+import Holiday from '@/models/Holiday';
+import { LAPORAN_CATEGORIES, LAPORAN_SLA_DEFAULTS, LaporanCategory } from './constants';
+import type { ILaporan } from '@/models/Laporan';
+
+export type SlaPolicyMap = Record<LaporanCategory, number>;
+
+// Due dates follow office hours in Penajam Paser Utara (WITA, UTC+8, no daylight saving)
+const SLA_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reports that still need an answer
+export const OPEN_STATUSES: ILaporan['status'][] = ['pending', 'in_progress'];
+
+const POLICY_CACHE_KEY = 'sla-policy';
+const HOLIDAY_CACHE_KEY = 'sla-holidays';
+const SLA_CACHE_TTL = 60 * 1000; // 1 minute
+
+const slaCache = cacheManager.getCache('sla');
+
+export const ALL_LAPORAN_CATEGORIES = Object.values(LAPORAN_CATEGORIES) as LaporanCategory[];
+
+// Type guard for category names coming from requests
+export function isLaporanCategory(value: unknown): value is LaporanCategory {
+  return typeof value === 'string' && (ALL_LAPORAN_CATEGORIES as string[]).includes(value);
+}
+
+// Local calendar date of an instant, formatted YYYY-MM-DD
+export function toLocalDateKey(date: Date): string {
+  return new Date(date.getTime() + SLA_UTC_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+// Start of a local calendar day as an instant. Months are 1-based and may overflow into the next year.
+export function localMidnight(year: number, month: number, day = 1): Date {
+  return new Date(Date.UTC(year, month - 1, day) - SLA_UTC_OFFSET_MS);
+}
+
+// Add working days to a start time, skipping weekends and holidays.
+// The due date is the end of the last working day, local time.
+export function addWorkingDays(start: Date, workingDays: number, holidays: Set<string>): Date {
+  // Shift into local time so UTC date arithmetic matches the local calendar
+  const cursor = new Date(start.getTime() + SLA_UTC_OFFSET_MS);
+  cursor.setUTCHours(0, 0, 0, 0);
+
+  let remaining = workingDays;
+  while (remaining > 0) {
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+
+    const weekday = cursor.getUTCDay();
+    const isWeekend = weekday === 0 || weekday === 6;
+    if (!isWeekend && !holidays.has(cursor.toISOString().slice(0, 10))) {
+      remaining--;
+    }
+  }
+
+  return new Date(cursor.getTime() + DAY_MS - 1 - SLA_UTC_OFFSET_MS);
+}
+
+// Load working days per category, falling back to defaults for categories never saved
+export async function getSlaPolicy(): Promise<SlaPolicyMap> {
+  const cached = slaCache.get(POLICY_CACHE_KEY) as SlaPolicyMap | null;
+  if (cached) {
+    return cached;
+  }
+
+  await dbConnect();
+  const stored = await SlaPolicy.find({}).lean();
+
+  const policy = { ...LAPORAN_SLA_DEFAULTS };
+  for (const entry of stored) {
+    policy[entry.category] = entry.working_days;
+  }
+
+  slaCache.set(POLICY_CACHE_KEY, policy, SLA_CACHE_TTL);
+  return policy;
+}
+
+// Change the working days of a category and invalidate the cache
+export async function updateSlaPolicy(
+  category: LaporanCategory,
+  workingDays: number,
+  updatedBy?: string
+): Promise<SlaPolicyMap> {
+  await dbConnect();
+
+  await SlaPolicy.findOneAndUpdate(
+    { category },
+    {
+      category,
+      working_days: workingDays,
+      ...(updatedBy && { updated_by: new mongoose.Types.ObjectId(updatedBy) }),
+    },
+    { upsert: true, new: true, runValidators: true }
+  );
+
+  clearSlaCache();
+  return getSlaPolicy();
+}
+
+// Load the holiday calendar as a set of YYYY-MM-DD dates
+export async function getHolidayDates(): Promise<Set<string>> {
+  const cached = slaCache.get(HOLIDAY_CACHE_KEY) as string[] | null;
+  if (cached) {
+    return new Set(cached);
+  }
+
+  await dbConnect();
+  const holidays = await Holiday.find({}).select('date').lean();
+  const dates = holidays.map(holiday => holiday.date);
+
+  slaCache.set(HOLIDAY_CACHE_KEY, dates, SLA_CACHE_TTL);
+  return new Set(dates);
+}
+
+// Work out the SLA and due date for a report in a category
+export async function computeDueDate(
+  category: LaporanCategory,
+  createdAt: Date = new Date()
+): Promise<{ sla_days: number; due_at: Date }> {
+  const [policy, holidays] = await Promise.all([getSlaPolicy(), getHolidayDates()]);
+  const slaDays = policy[category];
+
+  return {
+    sla_days: slaDays,
+    due_at: addWorkingDays(createdAt, slaDays, holidays),
+  };
+}
+
+// Check whether an open report has passed its due date
+export function isOverdue(laporan: Pick<ILaporan, 'status' | 'due_at'>, now: Date = new Date()): boolean {
+  return !!laporan.due_at && OPEN_STATUSES.includes(laporan.status) && laporan.due_at.getTime() < now.getTime();
+}
+
+// MongoDB filter matching open reports past their due date
+export function overdueQuery(now: Date = new Date()): Record<string, unknown> {
+  return {
+    status: { $in: OPEN_STATUSES },
+    due_at: { $lt: now },
+  };
+}
+
+// Drop cached policy and holidays after either changes
+export function clearSlaCache(): void {
+  slaCache.delete(POLICY_CACHE_KEY);
+  slaCache.delete(HOLIDAY_CACHE_KEY);
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, generateTotp, hotp, verifyTotp } from './totp';
+
+// The ASCII secret "12345678901234567890" used by the RFC test vectors
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('totp', () => {
+  it('round-trips base32', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode('gezd gnbv-gy3tqojq gezdgnbvgy3tqojq==').toString('ascii')).toBe('12345678901234567890');
+  });
+
+  it('matches the RFC 4226 HOTP vectors', () => {
+    const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+    expect(expected.map((_, counter) => hotp(RFC_SECRET, counter))).toEqual(expected);
+  });
+
+  it('matches the RFC 6238 SHA-1 vectors', () => {
+    const vectors: [number, string][] = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130'],
+    ];
+    for (const [seconds, code] of vectors) {
+      expect(generateTotp(RFC_SECRET, { now: seconds * 1000, digits: 8 })).toBe(code);
+    }
+  });
+
+  it('accepts codes one step either side of now and returns their step', () => {
+    const now = 1234567890 * 1000;
+    const step = Math.floor(now / 1000 / 30);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, { now }), { now })).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, { now: now - 30000 }), { now })).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, { now: now + 30000 }), { now })).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, { now: now - 60000 }), { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, { now: now + 60000 }), { now })).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    const now = 59 * 1000;
+    expect(verifyTotp(RFC_SECRET, '', { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '28708a', { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '287 082', { now })).toBe(1);
+  });
+});
@@ -0,0 +1,143 @@
+// RFC 6238 time-based one-time passwords (TOTP)
+// Pure functions with an injectable clock so codes can be verified offline.
+import * as crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  // Current time in milliseconds, defaults to Date.now()
+  now?: number;
+  // Time step in seconds
+  period?: number;
+  // Number of digits in the code
+  digits?: number;
+  // Number of steps accepted before and after the current one
+  window?: number;
+}
+
+const DEFAULT_OPTIONS = {
+  period: 30,
+  digits: 6,
+  window: 1,
+};
+
+// Encode bytes as RFC 4648 base32 without padding
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+// Decode RFC 4648 base32, ignoring case, spaces and padding
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// Generate a random 160-bit secret encoded as base32
+export function generateSecret(size = 20): string {
+  return base32Encode(crypto.randomBytes(size));
+}
+
+// RFC 4226 HMAC-based one-time password
+export function hotp(secret: string, counter: number, digits = DEFAULT_OPTIONS.digits): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary =
+    ((hmac[offset]! & 0x7f) << 24) |
+    ((hmac[offset + 1]! & 0xff) << 16) |
+    ((hmac[offset + 2]! & 0xff) << 8) |
+    (hmac[offset + 3]! & 0xff);
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+// Time step for a given moment
+export function getTimeStep(options: TotpOptions = {}): number {
+  const now = options.now ?? Date.now();
+  const period = options.period ?? DEFAULT_OPTIONS.period;
+  return Math.floor(now / 1000 / period);
+}
+
+// Generate the TOTP code for a given moment
+export function generateTotp(secret: string, options: TotpOptions = {}): string {
+  return hotp(secret, getTimeStep(options), options.digits ?? DEFAULT_OPTIONS.digits);
+}
+
+// Verify a code within the allowed window.
+// Returns the matching time step so callers can reject replays, or null.
+export function verifyTotp(secret: string, token: string, options: TotpOptions = {}): number | null {
+  const digits = options.digits ?? DEFAULT_OPTIONS.digits;
+  const window = options.window ?? DEFAULT_OPTIONS.window;
+  const normalized = token.replace(/\s/g, '');
+
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const currentStep = getTimeStep(options);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    if (step < 0) continue;
+
+    const expected = hotp(secret, step, digits);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+// Build the otpauth:// URI encoded in enrollment QR codes
+export function buildOtpAuthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DEFAULT_OPTIONS.digits),
+    period: String(DEFAULT_OPTIONS.period),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
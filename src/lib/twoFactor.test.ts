@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import User from '@/models/User';
+import { generateTotp } from './totp';
+import {
+  beginEnrollment,
+  confirmEnrollment,
+  countRemainingRecoveryCodes,
+  createLoginChallenge,
+  verifyLoginChallenge,
+  verifySecondFactor,
+} from './twoFactor';
+
+const NOW = Date.UTC(2026, 0, 1, 8, 0, 0);
+
+// A user with two-factor enabled at NOW, along with its secret and recovery codes
+function enrolledUser() {
+  const user = new User({ username: 'petugas', email: 'petugas@example.go.id', password_hash: 'x', role: 'admin' });
+  const { secret } = beginEnrollment(user);
+  const recovery = confirmEnrollment(user, generateTotp(secret, { now: NOW }), { now: NOW });
+  if (!recovery) {
+    throw new Error('Enrollment failed');
+  }
+  return { user, secret, codes: recovery.codes };
+}
+
+describe('twoFactor', () => {
+  it('only enables two-factor once the authenticator code is right', () => {
+    const user = new User({ username: 'petugas', email: 'petugas@example.go.id', password_hash: 'x', role: 'admin' });
+    const { secret, otpauthUri } = beginEnrollment(user);
+
+    expect(otpauthUri).toContain(`secret=${secret}`);
+    expect(user.two_factor_pending_secret).not.toContain(secret);
+    expect(confirmEnrollment(user, '000000', { now: NOW })).toBeNull();
+    expect(user.two_factor_enabled).toBe(false);
+
+    const recovery = confirmEnrollment(user, generateTotp(secret, { now: NOW }), { now: NOW });
+    expect(recovery?.codes).toHaveLength(10);
+    expect(user.two_factor_enabled).toBe(true);
+    expect(user.two_factor_pending_secret).toBeUndefined();
+  });
+
+  it('rejects a code from an already used time step', () => {
+    const { user, secret } = enrolledUser();
+    const later = NOW + 60 * 1000;
+    const code = generateTotp(secret, { now: later });
+
+    // The enrollment code itself cannot be used to sign in
+    expect(verifySecondFactor(user, generateTotp(secret, { now: NOW }), { now: NOW })).toBeNull();
+    expect(verifySecondFactor(user, code, { now: later })).toBe('totp');
+    expect(verifySecondFactor(user, code, { now: later })).toBeNull();
+
+    // Nor can the previous step, although it is still inside the window
+    expect(verifySecondFactor(user, generateTotp(secret, { now: later - 30 * 1000 }), { now: later })).toBeNull();
+  });
+
+  it('accepts each recovery code once', () => {
+    const { user, codes } = enrolledUser();
+    const [first, second] = codes as [string, string];
+
+    expect(verifySecondFactor(user, first.toUpperCase(), { now: NOW })).toBe('recovery_code');
+    expect(verifySecondFactor(user, first, { now: NOW })).toBeNull();
+    expect(verifySecondFactor(user, second.replace('-', ''), { now: NOW })).toBe('recovery_code');
+    expect(countRemainingRecoveryCodes(user)).toBe(8);
+    expect(user.two_factor_recovery_codes.find(entry => entry.used_at)?.used_at).toEqual(new Date(NOW));
+  });
+
+  it('ties a login challenge to its user', () => {
+    expect(verifyLoginChallenge(createLoginChallenge('user-1'))).toBe('user-1');
+    expect(verifyLoginChallenge('not-a-token')).toBeNull();
+  });
+});
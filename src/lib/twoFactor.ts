@@ -0,0 +1,157 @@
+// Two-factor authentication: TOTP enrollment, login verification and recovery codes
+import * as crypto from 'crypto';
+import { appConfig } from './config';
+import { encryptionUtils, jwtUtils } from './security';
+import { buildOtpAuthUri, generateSecret, verifyTotp, TotpOptions } from './totp';
+import type { IRecoveryCode, IUser } from '@/models/User';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Marks challenge tokens so they cannot be mistaken for other JWTs
+const CHALLENGE_PURPOSE = 'two_factor';
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface RecoveryCodeSet {
+  // Plain codes, shown to the user exactly once
+  codes: string[];
+  // Salted hashes persisted on the user
+  stored: IRecoveryCode[];
+}
+
+// Recovery codes are compared without case, spaces or dashes
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+// Generate a fresh set of one-time recovery codes
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): RecoveryCodeSet {
+  const codes: string[] = [];
+  const stored: IRecoveryCode[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const raw = crypto.randomBytes(5).toString('hex');
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+    stored.push(encryptionUtils.hashWithSalt(raw));
+  }
+
+  return { codes, stored };
+}
+
+// Count recovery codes that have not been used yet
+export function countRemainingRecoveryCodes(user: IUser): number {
+  return (user.two_factor_recovery_codes || []).filter(entry => !entry.used_at).length;
+}
+
+// Start enrollment by storing a new pending secret (caller saves the user)
+export function beginEnrollment(user: IUser): TwoFactorEnrollment {
+  const secret = generateSecret();
+  user.two_factor_pending_secret = encryptionUtils.encryptField(secret);
+
+  return {
+    secret,
+    otpauthUri: buildOtpAuthUri(secret, user.username, appConfig.name),
+  };
+}
+
+// Activate the pending secret once the user proves their authenticator works.
+// Returns the new recovery codes, or null when the code is wrong.
+export function confirmEnrollment(
+  user: IUser,
+  token: string,
+  options: TotpOptions = {}
+): RecoveryCodeSet | null {
+  if (!user.two_factor_pending_secret) {
+    return null;
+  }
+
+  const secret = encryptionUtils.decryptField(user.two_factor_pending_secret);
+  const step = verifyTotp(secret, token, options);
+  if (step === null) {
+    return null;
+  }
+
+  const recovery = generateRecoveryCodes();
+
+  user.two_factor_enabled = true;
+  user.two_factor_secret = user.two_factor_pending_secret;
+  user.two_factor_last_step = step;
+  user.two_factor_recovery_codes = recovery.stored;
+  user.set('two_factor_pending_secret', undefined);
+
+  return recovery;
+}
+
+// Replace all recovery codes (caller saves the user)
+export function regenerateRecoveryCodes(user: IUser): string[] {
+  const recovery = generateRecoveryCodes();
+  user.two_factor_recovery_codes = recovery.stored;
+  return recovery.codes;
+}
+
+// Remove every two-factor secret from the user (caller saves the user)
+export function disableTwoFactor(user: IUser): void {
+  user.two_factor_enabled = false;
+  user.two_factor_recovery_codes = [];
+  user.set('two_factor_secret', undefined);
+  user.set('two_factor_pending_secret', undefined);
+  user.set('two_factor_last_step', undefined);
+}
+
+// Verify a second-factor code at login: a TOTP code or an unused recovery code.
+// Used steps and codes are recorded on the user so they cannot be replayed (caller saves).
+export function verifySecondFactor(
+  user: IUser,
+  code: string,
+  options: TotpOptions = {}
+): TwoFactorMethod | null {
+  if (!user.two_factor_enabled || !user.two_factor_secret || !code) {
+    return null;
+  }
+
+  const secret = encryptionUtils.decryptField(user.two_factor_secret);
+  const step = verifyTotp(secret, code, options);
+
+  if (step !== null) {
+    // A code from an already accepted time step is a replay
+    if (user.two_factor_last_step !== undefined && step <= user.two_factor_last_step) {
+      return null;
+    }
+
+    user.two_factor_last_step = step;
+    return 'totp';
+  }
+
+  const normalized = normalizeRecoveryCode(code);
+  const match = (user.two_factor_recovery_codes || []).find(
+    entry => !entry.used_at && encryptionUtils.verifyHash(normalized, entry.hash, entry.salt)
+  );
+
+  if (match) {
+    match.used_at = new Date(options.now ?? Date.now());
+    user.markModified('two_factor_recovery_codes');
+    return 'recovery_code';
+  }
+
+  return null;
+}
+
+// Issue a short-lived token proving the password step succeeded
+export function createLoginChallenge(userId: string): string {
+  return jwtUtils.generateChallengeToken({ userId, purpose: CHALLENGE_PURPOSE });
+}
+
+// Resolve the user ID from a login challenge, or null when invalid or expired
+export function verifyLoginChallenge(challenge: string): string | null {
+  try {
+    const payload = jwtUtils.verifyToken(challenge) as { userId?: string; purpose?: string };
+    return payload?.purpose === CHALLENGE_PURPOSE && payload.userId ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
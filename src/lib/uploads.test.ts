@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { detectFileType, stripImageMetadata } from './uploads';
+
+// 1x1 GIF89a with a two-colour global table
+const GIF_HEADER = Buffer.from([
+  0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x01, 0x00, 0x01, 0x00, 0x80, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0xff, 0xff, 0xff,
+]);
+const GIF_IMAGE = Buffer.from([
+  0x2c, 0x00, 0x00, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+  0x02, 0x02, 0x44, 0x01, 0x00,
+]);
+const GIF_TRAILER = Buffer.from([0x3b]);
+
+function subBlocks(data: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([data.length]), data, Buffer.from([0x00])]);
+}
+
+function applicationExtension(identifier: string, data: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([0x21, 0xff, 0x0b]), Buffer.from(identifier, 'ascii'), subBlocks(data)]);
+}
+
+const COMMENT = Buffer.concat([Buffer.from([0x21, 0xfe]), subBlocks(Buffer.from('Budi, Jl. Merdeka 1'))]);
+const XMP = applicationExtension('XMP DataXMP', Buffer.from('<x:xmpmeta>GPS</x:xmpmeta>'));
+const LOOP = applicationExtension('NETSCAPE2.0', Buffer.from([0x01, 0x00, 0x00]));
+const GRAPHIC_CONTROL = Buffer.from([0x21, 0xf9, 0x04, 0x00, 0x0a, 0x00, 0x00, 0x00]);
+
+describe('stripImageMetadata', () => {
+  it('drops GIF comments and XMP but keeps the image and animation blocks', () => {
+    const gif = Buffer.concat([GIF_HEADER, COMMENT, LOOP, XMP, GRAPHIC_CONTROL, GIF_IMAGE, GIF_TRAILER]);
+    expect(detectFileType(gif)).toBe('image/gif');
+
+    const stripped = stripImageMetadata(gif, 'image/gif');
+    expect(stripped).toEqual(Buffer.concat([GIF_HEADER, LOOP, GRAPHIC_CONTROL, GIF_IMAGE, GIF_TRAILER]));
+  });
+
+  it('drops anything after the GIF trailer', () => {
+    const gif = Buffer.concat([GIF_HEADER, GIF_IMAGE, GIF_TRAILER, Buffer.from('hidden')]);
+    expect(stripImageMetadata(gif, 'image/gif')).toEqual(Buffer.concat([GIF_HEADER, GIF_IMAGE, GIF_TRAILER]));
+  });
+
+  it('rejects a truncated GIF', () => {
+    const gif = Buffer.concat([GIF_HEADER, GIF_IMAGE.subarray(0, 12)]);
+    expect(() => stripImageMetadata(gif, 'image/gif')).toThrow();
+  });
+});
@@ -0,0 +1,336 @@
+// Private file storage for laporan attachments: type sniffing, metadata stripping and safe paths
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { uploadConfig } from './config';
+import { ALLOWED_DOCUMENT_TYPES, ALLOWED_IMAGE_TYPES, FILE_SIZE_LIMITS } from './constants';
+import logger from './logger';
+
+export interface StoredFile {
+  original_name: string;
+  stored_name: string;
+  mime_type: string;
+  size: number;
+}
+
+export type AttachmentCheck =
+  | { valid: true; buffer: Buffer; mimeType: string }
+  | { valid: false; error: string };
+
+const IMAGE_TYPES: readonly string[] = ALLOWED_IMAGE_TYPES;
+const DOCUMENT_TYPES: readonly string[] = ALLOWED_DOCUMENT_TYPES;
+
+const ATTACHMENT_ROOT = 'laporan';
+
+// Extension used for downloads, derived from the sniffed type rather than the upload
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'application/pdf': '.pdf',
+  'application/msword': '.doc',
+  'application/vnd.ms-excel': '.xls',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+};
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, index) => buffer[offset + index] === byte);
+}
+
+// Identify a file from its leading bytes. The browser-supplied type is only
+// used to tell apart formats that share a container (legacy Office files).
+export function detectFileType(buffer: Buffer, declaredType = ''): string | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (buffer.toString('ascii', 0, 6) === 'GIF87a' || buffer.toString('ascii', 0, 6) === 'GIF89a') return 'image/gif';
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  if (buffer.toString('ascii', 0, 5) === '%PDF-') return 'application/pdf';
+
+  // OLE2 compound file used by .doc and .xls
+  if (startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return ['application/msword', 'application/vnd.ms-excel'].includes(declaredType) ? declaredType : null;
+  }
+
+  // ZIP container used by .docx and .xlsx; the part names tell them apart
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04]) && buffer.includes('[Content_Types].xml')) {
+    if (buffer.includes('word/')) return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    if (buffer.includes('xl/')) return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+  }
+
+  return null;
+}
+
+// JPEG: drop APP1 (EXIF, XMP), APP13 (IPTC) and comment segments
+function stripJpegMetadata(buffer: Buffer): Buffer {
+  const parts: Buffer[] = [buffer.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      throw new Error('Malformed JPEG segment');
+    }
+
+    const marker = buffer[offset + 1]!;
+
+    // Start of scan: the rest is compressed image data
+    if (marker === 0xda || marker === 0xd9) {
+      parts.push(buffer.subarray(offset));
+      break;
+    }
+
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+
+    // Markers without a length field
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      parts.push(buffer.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+
+    const length = buffer.readUInt16BE(offset + 2);
+    const end = offset + 2 + length;
+    if (end > buffer.length) {
+      throw new Error('Truncated JPEG segment');
+    }
+
+    if (marker !== 0xe1 && marker !== 0xed && marker !== 0xfe) {
+      parts.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  return Buffer.concat(parts);
+}
+
+// PNG: drop EXIF and text chunks (which may hold GPS data or author names)
+function stripPngMetadata(buffer: Buffer): Buffer {
+  const removed = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+  const parts: Buffer[] = [buffer.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset < buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > buffer.length) {
+      throw new Error('Truncated PNG chunk');
+    }
+
+    if (!removed.has(type)) {
+      parts.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+
+    if (type === 'IEND') {
+      break;
+    }
+  }
+
+  return Buffer.concat(parts);
+}
+
+// WebP: drop EXIF and XMP chunks and clear their flags in the VP8X header
+function stripWebpMetadata(buffer: Buffer): Buffer {
+  const parts: Buffer[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > buffer.length) {
+      throw new Error('Truncated WebP chunk');
+    }
+
+    if (type === 'VP8X') {
+      const chunk = Buffer.from(buffer.subarray(offset, Math.min(end, buffer.length)));
+      chunk[8] = chunk[8]! & ~0x0c;
+      parts.push(chunk);
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      parts.push(buffer.subarray(offset, Math.min(end, buffer.length)));
+    }
+    offset = end;
+  }
+
+  const body = Buffer.concat(parts);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'ascii');
+
+  return Buffer.concat([header, body]);
+}
+
+// GIF data sub-blocks: length-prefixed runs ending with an empty block.
+// Returns the offset just past the terminator.
+function skipGifSubBlocks(buffer: Buffer, offset: number): number {
+  while (offset < buffer.length) {
+    const size = buffer[offset]!;
+    offset += 1 + size;
+    if (size === 0) {
+      return offset;
+    }
+  }
+  throw new Error('Truncated GIF data');
+}
+
+// GIF: drop comment extensions and application extensions (XMP and others),
+// keeping only the looping block that animations need
+function stripGifMetadata(buffer: Buffer): Buffer {
+  const keptApplications = ['NETSCAPE2.0', 'ANIMEXTS1.0'];
+  const screenFlags = buffer[10]!;
+  let offset = 13 + (screenFlags & 0x80 ? 3 * 2 ** ((screenFlags & 0x07) + 1) : 0);
+  const parts: Buffer[] = [buffer.subarray(0, offset)];
+
+  while (offset < buffer.length) {
+    const introducer = buffer[offset]!;
+
+    // Trailer: nothing after it belongs to the image
+    if (introducer === 0x3b) {
+      parts.push(buffer.subarray(offset, offset + 1));
+      return Buffer.concat(parts);
+    }
+
+    // Image descriptor, optional local colour table, LZW code size, then data
+    if (introducer === 0x2c) {
+      const imageFlags = buffer[offset + 9]!;
+      const dataStart = offset + 10 + (imageFlags & 0x80 ? 3 * 2 ** ((imageFlags & 0x07) + 1) : 0) + 1;
+      const end = skipGifSubBlocks(buffer, dataStart);
+      parts.push(buffer.subarray(offset, end));
+      offset = end;
+      continue;
+    }
+
+    if (introducer !== 0x21) {
+      throw new Error('Malformed GIF block');
+    }
+
+    const label = buffer[offset + 1]!;
+    const end = skipGifSubBlocks(buffer, offset + 2);
+    const application = label === 0xff ? buffer.toString('ascii', offset + 3, offset + 14) : '';
+
+    if (label !== 0xfe && (label !== 0xff || keptApplications.includes(application))) {
+      parts.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  throw new Error('Truncated GIF data');
+}
+
+// Remove embedded metadata such as camera details and GPS position.
+// The EXIF orientation goes too, so some phone photos may display rotated.
+export function stripImageMetadata(buffer: Buffer, mimeType: string): Buffer {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return stripJpegMetadata(buffer);
+    case 'image/png':
+      return stripPngMetadata(buffer);
+    case 'image/webp':
+      return stripWebpMetadata(buffer);
+    case 'image/gif':
+      return stripGifMetadata(buffer);
+    default:
+      return buffer;
+  }
+}
+
+// Check an uploaded file's real type and size, and clean images
+export async function checkAttachment(file: File): Promise<AttachmentCheck> {
+  // Refuse anything over the largest limit before reading it into memory
+  const maxSize = Math.max(FILE_SIZE_LIMITS.IMAGE, FILE_SIZE_LIMITS.DOCUMENT);
+  if (file.size > maxSize) {
+    return { valid: false, error: `${file.name}: file exceeds ${maxSize / 1024 / 1024}MB` };
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const mimeType = detectFileType(buffer, file.type);
+
+  if (!mimeType || (!IMAGE_TYPES.includes(mimeType) && !DOCUMENT_TYPES.includes(mimeType))) {
+    return { valid: false, error: `${file.name}: file type is not allowed` };
+  }
+
+  const isImage = IMAGE_TYPES.includes(mimeType);
+  const limit = isImage ? FILE_SIZE_LIMITS.IMAGE : FILE_SIZE_LIMITS.DOCUMENT;
+  if (buffer.length > limit) {
+    return { valid: false, error: `${file.name}: file exceeds ${limit / 1024 / 1024}MB` };
+  }
+
+  if (!isImage) {
+    return { valid: true, buffer, mimeType };
+  }
+
+  try {
+    return { valid: true, buffer: stripImageMetadata(buffer, mimeType), mimeType };
+  } catch {
+    return { valid: false, error: `${file.name}: image file is corrupted` };
+  }
+}
+
+// Keep a readable name for downloads without path separators or control characters
+export function sanitizeFileName(name: string, mimeType: string): string {
+  const base = path.basename(name)
+    .replace(/\.[^.]*$/, '')
+    .replace(/[^\w\s.-]/g, '')
+    .trim()
+    .slice(0, 100) || 'lampiran';
+
+  return `${base}${EXTENSIONS[mimeType] || ''}`;
+}
+
+// Resolve a stored name inside the private directory, refusing anything outside it
+function resolveStoredPath(storedName: string): string {
+  const root = path.resolve(uploadConfig.privateDirectory);
+  const fullPath = path.resolve(root, storedName);
+
+  if (!fullPath.startsWith(root + path.sep)) {
+    throw new Error('Invalid stored file path');
+  }
+  return fullPath;
+}
+
+// Write a checked file to private storage under a random name
+export async function saveAttachment(buffer: Buffer, mimeType: string, originalName: string): Promise<StoredFile> {
+  const now = new Date();
+  const folder = path.join(
+    ATTACHMENT_ROOT,
+    String(now.getFullYear()),
+    String(now.getMonth() + 1).padStart(2, '0')
+  );
+  const storedName = path.join(folder, crypto.randomUUID());
+  const fullPath = resolveStoredPath(storedName);
+
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+  await fs.writeFile(fullPath, buffer, { mode: 0o600 });
+
+  return {
+    original_name: sanitizeFileName(originalName, mimeType),
+    stored_name: storedName,
+    mime_type: mimeType,
+    size: buffer.length,
+  };
+}
+
+// Read a stored attachment
+export function readAttachment(storedName: string): Promise<Buffer> {
+  return fs.readFile(resolveStoredPath(storedName));
+}
+
+// Remove stored attachments, ignoring files that are already gone
+export async function deleteAttachments(storedNames: string[]): Promise<void> {
+  await Promise.all(storedNames.map(async (storedName) => {
+    try {
+      await fs.unlink(resolveStoredPath(storedName));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('Failed to delete attachment', { storedName }, error as Error);
+      }
+    }
+  }));
+}
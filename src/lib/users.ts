@@ -0,0 +1,89 @@
+// Admin account management helpers
+import User, { IUser } from '@/models/User';
+import { USER_ROLES } from './constants';
+import { passwordUtils, SECURITY_CONFIG } from './security';
+import type { AuthUser } from './auth';
+
+// Only super admins may create, modify or reset super admin accounts
+export function canManageRole(actor: AuthUser, role: string): boolean {
+  return role !== USER_ROLES.SUPER_ADMIN || actor.role === USER_ROLES.SUPER_ADMIN;
+}
+
+// Check whether removing this account would leave no active super admin
+export async function isLastActiveSuperAdmin(userId: string): Promise<boolean> {
+  const target = await User.findById(userId).select('role is_active').lean();
+
+  if (!target || target.role !== USER_ROLES.SUPER_ADMIN || !target.is_active) {
+    return false;
+  }
+
+  const activeSuperAdmins = await User.countDocuments({
+    role: USER_ROLES.SUPER_ADMIN,
+    is_active: true,
+  });
+
+  return activeSuperAdmins <= 1;
+}
+
+// Generate a temporary password that satisfies the password policy
+export function generateTemporaryPassword(): string {
+  let password = passwordUtils.generate(16);
+  while (!passwordUtils.validate(password).isValid) {
+    password = passwordUtils.generate(16);
+  }
+  return password;
+}
+
+// Seconds until a locked account may sign in again, 0 when not locked
+export function getLockoutRemaining(user: Pick<IUser, 'locked_until'>): number {
+  if (!user.locked_until) {
+    return 0;
+  }
+  return Math.max(0, Math.ceil((user.locked_until.getTime() - Date.now()) / 1000));
+}
+
+// Lock duration after a number of consecutive failures: every
+// maxFailedAttempts failures lock the account, twice as long as the last time
+export function getLockoutDuration(
+  failedAttempts: number,
+  policy: typeof SECURITY_CONFIG.lockout = SECURITY_CONFIG.lockout
+): number {
+  const { maxFailedAttempts, baseDuration, maxDuration } = policy;
+
+  if (failedAttempts < maxFailedAttempts || failedAttempts % maxFailedAttempts !== 0) {
+    return 0;
+  }
+
+  const lockouts = failedAttempts / maxFailedAttempts;
+  return Math.min(baseDuration * 2 ** (lockouts - 1), maxDuration);
+}
+
+// Count a failed login and lock the account when the threshold is reached.
+// Uses an atomic increment so concurrent instances share one counter.
+export async function recordFailedLogin(userId: string): Promise<{ attempts: number; lockedUntil: Date | null }> {
+  const user = await User.findByIdAndUpdate(
+    userId,
+    { $inc: { failed_login_attempts: 1 }, $set: { last_failed_login_at: new Date() } },
+    { new: true }
+  ).select('failed_login_attempts');
+
+  const attempts = user?.failed_login_attempts ?? 0;
+  const duration = getLockoutDuration(attempts);
+
+  if (!duration) {
+    return { attempts, lockedUntil: null };
+  }
+
+  const lockedUntil = new Date(Date.now() + duration);
+  await User.updateOne({ _id: userId }, { locked_until: lockedUntil });
+
+  return { attempts, lockedUntil };
+}
+
+// Clear the failed login counter and any lock
+export async function unlockAccount(userId: string): Promise<void> {
+  await User.updateOne(
+    { _id: userId },
+    { $set: { failed_login_attempts: 0 }, $unset: { locked_until: 1, last_failed_login_at: 1 } }
+  );
+}
@@ -323,6 +323,19 @@ export function getErrorMessage(error: unknown): string {
   return 'Terjadi kesalahan yang tidak diketahui';
 }
 
+// Messages from an API error response. Details are either policy
+// messages or field errors from formatValidationErrors.
+export function getApiErrorMessages(
+  data: { error?: string; details?: (string | { message: string })[] },
+  fallback: string
+): string[] {
+  if (data.details?.length) {
+    return data.details.map(detail => (typeof detail === 'string' ? detail : detail.message));
+  }
+
+  return [data.error || fallback];
+}
+
 // Type guards
 export function isString(value: unknown): value is string {
   return typeof value === 'string';
@@ -1,5 +1,6 @@
 // Comprehensive validation library
 import { z } from 'zod';
+import { BERITA_CATEGORIES, BIDANG, IKM_ELEMENTS, LAPORAN_CATEGORIES, NOTIFICATION_EVENTS, LAPORAN_PRIORITY, RETENTION_MODES, SURVEY_SERVICES, USER_ROLES, VALIDATION_RULES } from './constants';
 
 // Common validation schemas
 export const commonSchemas = {
@@ -77,6 +78,47 @@ export const userSchemas = {
     message: 'Konfirmasi password baru tidak cocok',
     path: ['confirmNewPassword'],
   }),
+  
+  forgotPassword: z.object({
+    email: z.string().trim().toLowerCase().email('Email tidak valid'),
+  }),
+  
+  resetPassword: z.object({
+    token: z.string().min(1, 'Token reset wajib diisi'),
+    newPassword: z.string().min(8, 'Password minimal 8 karakter')
+      .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password harus mengandung huruf besar, huruf kecil, dan angka'),
+    confirmNewPassword: z.string(),
+  }).refine(data => data.newPassword === data.confirmNewPassword, {
+    message: 'Konfirmasi password baru tidak cocok',
+    path: ['confirmNewPassword'],
+  }),
+  
+  // Admin account management
+  adminCreate: z.object({
+    username: z.string()
+      .trim()
+      .min(VALIDATION_RULES.USERNAME.MIN_LENGTH, `Username minimal ${VALIDATION_RULES.USERNAME.MIN_LENGTH} karakter`)
+      .max(VALIDATION_RULES.USERNAME.MAX_LENGTH, `Username maksimal ${VALIDATION_RULES.USERNAME.MAX_LENGTH} karakter`)
+      .regex(VALIDATION_RULES.USERNAME.PATTERN, 'Username hanya boleh berisi huruf, angka, garis bawah, dan tanda hubung'),
+    email: z.string().trim().toLowerCase().email('Email tidak valid').optional(),
+    role: z.enum(USER_ROLES),
+    bidang: z.enum(BIDANG).optional(),
+    password: z.string().optional(),
+  }),
+  
+  adminUpdate: z.object({
+    // null removes the email address
+    email: z.string().trim().toLowerCase().email('Email tidak valid').nullable().optional(),
+    role: z.enum(USER_ROLES).optional(),
+    // null removes the bidang
+    bidang: z.enum(BIDANG).nullable().optional(),
+    is_active: z.boolean().optional(),
+  }),
+  
+  // Admins maintain their own recovery email
+  adminProfile: z.object({
+    email: z.string().trim().toLowerCase().email('Email tidak valid').nullable(),
+  }),
 };
 
 // News (Berita) validation schemas
@@ -85,8 +127,8 @@ export const beritaSchemas = {
     title: commonSchemas.shortText,
     content: commonSchemas.longText,
     excerpt: commonSchemas.mediumText.optional(),
-    category: commonSchemas.nonEmptyString,
-    tags: z.array(z.string()).optional(),
+    category: z.enum(BERITA_CATEGORIES),
+    tags: z.array(z.string().max(VALIDATION_RULES.TAG.MAX_LENGTH)).max(VALIDATION_RULES.TAG.MAX_COUNT, `Maksimal ${VALIDATION_RULES.TAG.MAX_COUNT} tag`).optional(),
     featured: z.boolean().default(false),
     publishedAt: z.date().optional(),
     image: z.string().url('URL gambar tidak valid').optional(),
@@ -96,8 +138,8 @@ export const beritaSchemas = {
     title: commonSchemas.shortText.optional(),
     content: commonSchemas.longText.optional(),
     excerpt: commonSchemas.mediumText.optional(),
-    category: commonSchemas.nonEmptyString.optional(),
-    tags: z.array(z.string()).optional(),
+    category: z.enum(BERITA_CATEGORIES).optional(),
+    tags: z.array(z.string().max(VALIDATION_RULES.TAG.MAX_LENGTH)).max(VALIDATION_RULES.TAG.MAX_COUNT, `Maksimal ${VALIDATION_RULES.TAG.MAX_COUNT} tag`).optional(),
     featured: z.boolean().optional(),
     publishedAt: z.date().optional(),
     image: z.string().url('URL gambar tidak valid').optional(),
@@ -107,6 +149,7 @@ export const beritaSchemas = {
     page: z.number().positive().default(1),
     limit: z.number().positive().max(100).default(10),
     category: z.string().optional(),
+    tag: z.string().optional(),
     search: z.string().optional(),
     featured: z.boolean().optional(),
     sortBy: z.enum(['createdAt', 'updatedAt', 'publishedAt', 'title']).default('createdAt'),
@@ -150,8 +193,8 @@ export const laporanSchemas = {
   create: z.object({
     title: commonSchemas.shortText,
     description: commonSchemas.longText,
-    category: commonSchemas.nonEmptyString,
-    priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium'),
+    category: z.enum(LAPORAN_CATEGORIES),
+    priority: z.enum(LAPORAN_PRIORITY).default('medium'),
     location: commonSchemas.mediumText.optional(),
     reporterName: commonSchemas.shortText,
     reporterEmail: commonSchemas.email,
@@ -162,25 +205,102 @@ export const laporanSchemas = {
   update: z.object({
     title: commonSchemas.shortText.optional(),
     description: commonSchemas.longText.optional(),
-    category: commonSchemas.nonEmptyString.optional(),
-    priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
-    status: z.enum(['pending', 'in_progress', 'resolved', 'rejected']).optional(),
+    category: z.enum(LAPORAN_CATEGORIES).optional(),
+    priority: z.enum(LAPORAN_PRIORITY).optional(),
+    status: z.enum(['pending', 'in_progress', 'resolved', 'closed']).optional(),
     location: commonSchemas.mediumText.optional(),
     response: commonSchemas.longText.optional(),
+    note: commonSchemas.mediumText.optional(),
     attachments: z.array(z.string().url()).optional(),
   }),
   
   query: z.object({
     page: z.number().positive().default(1),
     limit: z.number().positive().max(100).default(10),
-    category: z.string().optional(),
-    priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
+    category: z.enum(LAPORAN_CATEGORIES).optional(),
+    priority: z.enum(LAPORAN_PRIORITY).optional(),
     status: z.enum(['pending', 'in_progress', 'resolved', 'rejected']).optional(),
     search: z.string().optional(),
     reporterEmail: commonSchemas.email.optional(),
     sortBy: z.enum(['createdAt', 'updatedAt', 'priority', 'status']).default('createdAt'),
     sortOrder: z.enum(['asc', 'desc']).default('desc'),
   }),
+  
+  // Response time per category
+  slaPolicy: z.object({
+    category: z.enum(LAPORAN_CATEGORIES),
+    working_days: z.number().int('Harus berupa bilangan bulat').min(1, 'Minimal 1 hari kerja').max(60, 'Maksimal 60 hari kerja'),
+  }),
+  
+  // Public holiday excluded from working days
+  holiday: z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Format tanggal harus YYYY-MM-DD')
+      .refine(date => !isNaN(Date.parse(date)), 'Tanggal tidak valid'),
+    name: commonSchemas.shortText,
+  }),
+  
+  // Assign to a staff member and/or bidang; null clears that side
+  assign: z.object({
+    assigned_to: z.string().regex(/^[0-9a-fA-F]{24}$/, 'ID tidak valid').nullable().optional(),
+    assigned_bidang: z.enum(BIDANG).nullable().optional(),
+    reason: z.string().trim().max(500, 'Maksimal 500 karakter').optional(),
+  }),
+  
+  // Merge this report into the one with the given ticket
+  merge: z.object({
+    target_ticket: z.string().trim().min(1, 'Nomor tiket tujuan wajib diisi').max(30, 'Nomor tiket tidak valid'),
+  }),
+  
+  // Reason recorded in the audit trail when a confidential identity is revealed
+  revealIdentity: z.object({
+    reason: z.string().trim().min(10, 'Alasan minimal 10 karakter').max(300, 'Maksimal 300 karakter'),
+  }),
+
+  // Internal staff note; @username mentions the user
+  note: z.object({
+    body: z.string().trim().min(1, 'Catatan wajib diisi').max(2000, 'Maksimal 2000 karakter'),
+  }),
+
+  responseTemplate: z.object({
+    title: z.string().trim().min(1, 'Judul wajib diisi').max(100, 'Maksimal 100 karakter'),
+    body: z.string().trim().min(1, 'Isi template wajib diisi').max(2000, 'Maksimal 2000 karakter'),
+    category: z.enum(LAPORAN_CATEGORIES).nullable().optional(),
+  }),
+
+  // How long reporters' personal data is kept on finished reports
+  retentionPolicy: z.object({
+    mode: z.enum(RETENTION_MODES),
+    months: z.number().int('Harus berupa bilangan bulat').min(6, 'Minimal 6 bulan').max(120, 'Maksimal 120 bulan'),
+  }),
+
+  // Export or erasure request of one reporter, found by email or phone.
+  // The reference is the request's letter or register number.
+  personalDataRequest: z.object({
+    email: z.string().trim().toLowerCase().email('Email tidak valid').optional(),
+    phone: commonSchemas.phone.optional(),
+    reference: z.string().trim().min(3, 'Nomor permohonan minimal 3 karakter').max(100, 'Maksimal 100 karakter'),
+  }).refine(data => !!data.email || !!data.phone, 'Email atau nomor telepon pelapor wajib diisi'),
+};
+
+// Notification template validation schemas
+export const notificationSchemas = {
+  template: z.object({
+    event: z.enum(NOTIFICATION_EVENTS),
+    subject: z.string().trim().min(1, 'Subjek wajib diisi').max(200, 'Maksimal 200 karakter'),
+    body: z.string().trim().min(1, 'Isi pesan wajib diisi').max(5000, 'Maksimal 5000 karakter'),
+  }),
+};
+
+// Satisfaction survey validation schemas
+export const surveySchemas = {
+  // Either the token from a survey link, or the service used by a walk-in respondent
+  response: z.object({
+    token: z.string().min(1).optional(),
+    service: z.enum(SURVEY_SERVICES).optional(),
+    scores: z.array(z.number().int('Nilai tidak valid').min(1, 'Nilai tidak valid').max(4, 'Nilai tidak valid'))
+      .length(IKM_ELEMENTS.length, 'Semua pertanyaan wajib dijawab'),
+    suggestion: z.string().trim().max(1000, 'Maksimal 1000 karakter').optional(),
+  }).refine(data => !!data.token || !!data.service, 'Jenis layanan wajib dipilih'),
 };
 
 // API validation schemas
@@ -398,6 +518,8 @@ export const schemas = {
   berita: beritaSchemas,
   gallery: gallerySchemas,
   laporan: laporanSchemas,
+  notification: notificationSchemas,
+  survey: surveySchemas,
   api: apiSchemas,
   contact: contactSchema,
   fileUpload: fileUploadSchemas,
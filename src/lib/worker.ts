@@ -0,0 +1,93 @@
+// Job worker loop: claims due jobs one at a time and runs their handler
+import os from 'os';
+import mongoose from 'mongoose';
+import dbConnect from './mongodb';
+import logger from './logger';
+import { JobType } from './constants';
+import { claimNextJob, completeJob, failJob, JobHandler, recoverStaleJobs } from './jobs';
+import { processNotificationJob } from './notifications';
+import { processRetentionJob, scheduleRetentionRun } from './retention';
+
+// One handler per job type; adding a type without a handler fails the type check
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  send_notification: processNotificationJob,
+  apply_retention: processRetentionJob,
+};
+
+const IDLE_DELAY_MS = 2000;
+const ERROR_DELAY_MS = 10 * 1000;
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+// How often recurring jobs are checked for being due
+const SCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run one job if one is due. Returns false when the queue was empty.
+export async function runNextJob(workerId: string): Promise<boolean> {
+  const job = await claimNextJob(workerId);
+  if (!job) {
+    return false;
+  }
+
+  const handler = JOB_HANDLERS[job.type];
+  try {
+    if (!handler) {
+      throw new Error(`No handler for job type ${job.type}`);
+    }
+    await handler(job.payload, job);
+    await completeJob(job);
+  } catch (error) {
+    logger.warn('Job failed', { id: job.id, type: job.type, attempt: job.attempts }, error as Error);
+    await failJob(job, error as Error);
+  }
+  return true;
+}
+
+// Process jobs until the process receives SIGINT or SIGTERM.
+// The job in progress is finished before exiting.
+export async function runWorker(): Promise<void> {
+  const workerId = `${os.hostname()}:${process.pid}`;
+  let stopping = false;
+
+  const stop = () => {
+    logger.info('Worker stopping after the current job', { workerId });
+    stopping = true;
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  logger.info('Worker started', { workerId });
+  let lastRecovery = 0;
+  let lastSchedule = 0;
+
+  while (!stopping) {
+    try {
+      await dbConnect();
+
+      if (Date.now() - lastRecovery > RECOVERY_INTERVAL_MS) {
+        const recovered = await recoverStaleJobs();
+        if (recovered > 0) {
+          logger.warn('Recovered stale jobs', { recovered });
+        }
+        lastRecovery = Date.now();
+      }
+
+      if (Date.now() - lastSchedule > SCHEDULE_INTERVAL_MS) {
+        await scheduleRetentionRun();
+        lastSchedule = Date.now();
+      }
+
+      const worked = await runNextJob(workerId);
+      if (!worked) {
+        await sleep(IDLE_DELAY_MS);
+      }
+    } catch (error) {
+      // Usually the database is unreachable; wait and try again
+      logger.error('Worker loop error', { workerId }, error as Error);
+      await sleep(ERROR_DELAY_MS);
+    }
+  }
+
+  await mongoose.disconnect();
+  logger.info('Worker stopped', { workerId });
+}
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import jwt from 'jsonwebtoken';
+import { NextRequest } from 'next/server';
+import { middleware } from './middleware';
+
+const SECRET = process.env.JWT_SECRET!;
+const SESSION_CLAIMS = { userId: '0123456789abcdef01234567', username: 'admin', role: 'admin', sid: 'session-1' };
+
+function apiRequest(token?: string) {
+  return new NextRequest('http://localhost/api/admin/users', {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe('middleware', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lets a signed, unexpired access token through without calling the app', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const response = await middleware(apiRequest(jwt.sign(SESSION_CLAIMS, SECRET, { expiresIn: 60 })));
+
+    expect(response.headers.get('x-middleware-next')).toBe('1');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('rejects missing, forged and expired tokens', async () => {
+    const expired = jwt.sign({ ...SESSION_CLAIMS, exp: Math.floor(Date.now() / 1000) - 60 }, SECRET);
+    const forged = jwt.sign(SESSION_CLAIMS, 'another-secret-of-at-least-32-characters', { expiresIn: 60 });
+
+    for (const token of [undefined, 'not-a-token', expired, forged]) {
+      expect((await middleware(apiRequest(token))).status).toBe(401);
+    }
+  });
+
+  it('rejects other tokens signed with the same secret', async () => {
+    const refresh = jwt.sign({ sid: 'session-1', jti: 'x' }, SECRET, { expiresIn: 60 });
+    const captcha = jwt.sign({ purpose: 'captcha', jti: 'x' }, SECRET, { expiresIn: 60 });
+    const unsigned = jwt.sign(SESSION_CLAIMS, '', { algorithm: 'none' });
+
+    for (const token of [refresh, captcha, unsigned]) {
+      expect((await middleware(apiRequest(token))).status).toBe(401);
+    }
+  });
+
+  it('sends admin pages without a valid cookie to the login page', async () => {
+    const response = await middleware(new NextRequest('http://localhost/admin/dashboard'));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe('http://localhost/admin');
+  });
+});
@@ -1,8 +1,60 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import jwt from 'jsonwebtoken';
 
-export function middleware(request: NextRequest) {
+const AUTH_COOKIE_NAME = 'auth-token';
+
+// Admin API routes reachable without an active session
+const PUBLIC_ADMIN_API_ROUTES = ['/api/admin/login', '/api/admin/login/verify', '/api/admin/logout'];
+
+// Decode a base64url JWT segment
+function decodeSegment(segment: string): Uint8Array {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), char => char.charCodeAt(0));
+}
+
+// Check the access token's HS256 signature and expiry with Web Crypto, as the
+// edge runtime has neither jsonwebtoken nor MongoDB. This only turns away
+// missing, forged and expired tokens early: whether the session is still live
+// is checked by guardRoute in every API handler.
+async function hasValidAccessToken(token: string): Promise<boolean> {
+  const [header, payload, signature] = token.split('.');
+  const secret = process.env.JWT_SECRET;
+  if (!header || !payload || !signature || !secret) {
+    return false;
+  }
+
+  try {
+    const { alg } = JSON.parse(new TextDecoder().decode(decodeSegment(header)));
+    if (alg !== 'HS256') {
+      return false;
+    }
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      decodeSegment(signature),
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+    if (!valid) {
+      return false;
+    }
+
+    // Only session tokens carry a user and session ID
+    const claims = JSON.parse(new TextDecoder().decode(decodeSegment(payload)));
+    return typeof claims.exp === 'number' && claims.exp * 1000 > Date.now() && !!claims.userId && !!claims.sid;
+  } catch {
+    return false;
+  }
+}
+
+export async function middleware(request: NextRequest) {
   // Check if the request is for admin routes
   if (request.nextUrl.pathname.startsWith('/admin')) {
     // Skip middleware for login page
@@ -11,45 +63,36 @@ export function middleware(request: NextRequest) {
     }
 
     // Get token from cookies
-    const token = request.cookies.get('auth-token')?.value;
+    const token = request.cookies.get(AUTH_COOKIE_NAME)?.value;
 
-    if (!token) {
-      // Redirect to login if no token
+    if (!token || !(await hasValidAccessToken(token))) {
+      // Redirect to login if the token is missing, forged or expired
       return NextResponse.redirect(new URL('/admin', request.url));
     }
 
-    try {
-      // Verify token
-      jwt.verify(token, process.env.JWT_SECRET!);
-      return NextResponse.next();
-    } catch (error) {
-      // Redirect to login if token is invalid
-      return NextResponse.redirect(new URL('/admin', request.url));
-    }
+    return NextResponse.next();
   }
 
   // Check if the request is for admin API routes
   if (request.nextUrl.pathname.startsWith('/api/admin')) {
-    // Skip middleware for login API
-    if (request.nextUrl.pathname === '/api/admin/login') {
+    // Skip middleware for login and logout
+    if (PUBLIC_ADMIN_API_ROUTES.includes(request.nextUrl.pathname)) {
       return NextResponse.next();
     }
 
     // Get token from Authorization header or cookies
     const authHeader = request.headers.get('authorization');
-    const token = authHeader?.replace('Bearer ', '') || request.cookies.get('auth-token')?.value;
+    const token = authHeader?.replace('Bearer ', '') || request.cookies.get(AUTH_COOKIE_NAME)?.value;
 
     if (!token) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    try {
-      // Verify token
-      jwt.verify(token, process.env.JWT_SECRET!);
-      return NextResponse.next();
-    } catch (error) {
+    if (!(await hasValidAccessToken(token))) {
       return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
+
+    return NextResponse.next();
   }
 
   return NextResponse.next();
@@ -57,4 +100,4 @@ export function middleware(request: NextRequest) {
 
 export const config = {
   matcher: ['/admin/:path*', '/api/admin/:path*'],
-};
\ No newline at end of file
+};
@@ -0,0 +1,97 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, AuditAction, AuditEntityType } from '@/lib/constants';
+
+export interface IAuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IAuditLog extends Document {
+  actor?: Types.ObjectId;
+  actor_username: string;
+  actor_role?: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  summary?: string;
+  changes: IAuditChange[];
+  ip?: string;
+  user_agent?: string;
+  created_at: Date;
+}
+
+const AuditChangeSchema = new Schema(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  { _id: false }
+);
+
+const AuditLogSchema: Schema = new Schema(
+  {
+    // Empty for actions by the public, e.g. a citizen submitting a laporan
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      index: true,
+    },
+    actor_username: {
+      type: String,
+      required: true,
+    },
+    actor_role: {
+      type: String,
+    },
+    action: {
+      type: String,
+      required: [true, 'Action is required'],
+      enum: Object.values(AUDIT_ACTIONS),
+    },
+    entity_type: {
+      type: String,
+      required: [true, 'Entity type is required'],
+      enum: Object.values(AUDIT_ENTITY_TYPES),
+    },
+    entity_id: {
+      type: String,
+      required: [true, 'Entity ID is required'],
+    },
+    summary: {
+      type: String,
+      maxlength: 500,
+    },
+    changes: {
+      type: [AuditChangeSchema],
+      default: [],
+    },
+    ip: {
+      type: String,
+    },
+    user_agent: {
+      type: String,
+    },
+  },
+  {
+    // Audit entries are append-only
+    timestamps: { createdAt: 'created_at', updatedAt: false },
+  }
+);
+
+// Indexes for the audit viewer filters
+AuditLogSchema.index({ created_at: -1 });
+AuditLogSchema.index({ entity_type: 1, entity_id: 1, created_at: -1 });
+AuditLogSchema.index({ action: 1, created_at: -1 });
+
+// Prevent re-compilation during development
+export default (mongoose.models.AuditLog as Model<IAuditLog>) ||
+  mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import slugify from 'slugify';
+import { BERITA_CATEGORIES, BeritaCategory, DEFAULT_BERITA_CATEGORY, VALIDATION_RULES } from '@/lib/constants';
 
 export interface IBerita extends Document {
   title: string;
@@ -7,6 +8,9 @@ export interface IBerita extends Document {
   summary: string;
   content: string;
   image_url: string;
+  category: BeritaCategory;
+  // Slugs, e.g. "investasi-daerah"; see normalizeBeritaTags
+  tags: string[];
   created_at: Date;
   updated_at: Date;
   published: boolean;
@@ -41,6 +45,19 @@ const BeritaSchema: Schema = new Schema(
       type: String,
       required: [true, 'Image URL is required'],
     },
+    category: {
+      type: String,
+      enum: Object.values(BERITA_CATEGORIES),
+      default: DEFAULT_BERITA_CATEGORY,
+    },
+    tags: {
+      type: [String],
+      default: [],
+      validate: {
+        validator: (tags: string[]) => tags.length <= VALIDATION_RULES.TAG.MAX_COUNT,
+        message: `Cannot have more than ${VALIDATION_RULES.TAG.MAX_COUNT} tags`,
+      },
+    },
     published: {
       type: Boolean,
       default: true,
@@ -55,6 +72,10 @@ const BeritaSchema: Schema = new Schema(
   }
 );
 
+// Archive pages list published news of one category or tag, newest first
+BeritaSchema.index({ published: 1, category: 1, created_at: -1 });
+BeritaSchema.index({ published: 1, tags: 1, created_at: -1 });
+
 // Auto-generate slug from title before saving
 BeritaSchema.pre('save', function (next) {
   if (this.isModified('title') || this.isNew) {
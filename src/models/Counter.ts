@@ -0,0 +1,26 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface ICounter extends Omit<Document, '_id'> {
+  _id: string;
+  seq: number;
+}
+
+const CounterSchema: Schema = new Schema(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    seq: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+// Prevent re-compilation during development
+export default (mongoose.models.Counter as Model<ICounter>) ||
+  mongoose.model<ICounter>('Counter', CounterSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export interface IHoliday extends Document {
+  // Calendar date in WITA, formatted YYYY-MM-DD
+  date: string;
+  name: string;
+  created_by?: Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const HolidaySchema: Schema = new Schema(
+  {
+    date: {
+      type: String,
+      required: [true, 'Date is required'],
+      unique: true,
+      match: [/^\d{4}-\d{2}-\d{2}$/, 'Date must be formatted YYYY-MM-DD'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Prevent re-compilation during development
+export default (mongoose.models.Holiday as Model<IHoliday>) ||
+  mongoose.model<IHoliday>('Holiday', HolidaySchema);
@@ -0,0 +1,84 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { JOB_STATUS, JOB_TYPES, JobStatus, JobType } from '@/lib/constants';
+
+export interface IJob extends Document {
+  type: JobType;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  // Jobs with the same key are not queued twice while one is still pending
+  key?: string;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_at?: Date;
+  locked_by?: string;
+  last_error?: string;
+  completed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const JobSchema: Schema = new Schema(
+  {
+    type: {
+      type: String,
+      required: [true, 'Job type is required'],
+      enum: Object.values(JOB_TYPES),
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: Object.values(JOB_STATUS),
+      default: JOB_STATUS.PENDING,
+    },
+    key: {
+      type: String,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    max_attempts: {
+      type: Number,
+      default: 5,
+      min: [1, 'A job needs at least one attempt'],
+    },
+    // Earliest time the job may run; pushed back after each failure
+    run_at: {
+      type: Date,
+      default: Date.now,
+    },
+    locked_at: {
+      type: Date,
+    },
+    locked_by: {
+      type: String,
+    },
+    last_error: {
+      type: String,
+      maxlength: 2000,
+    },
+    completed_at: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+    minimize: false,
+  }
+);
+
+// Indexes for claiming due jobs and the admin listing
+JobSchema.index({ status: 1, run_at: 1 });
+JobSchema.index({ status: 1, updated_at: -1 });
+JobSchema.index({ key: 1 }, { unique: true, partialFilterExpression: { status: JOB_STATUS.PENDING, key: { $exists: true } } });
+// Finished jobs are removed after a week
+JobSchema.index({ completed_at: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+// Prevent re-compilation during development
+export default (mongoose.models.Job as Model<IJob>) ||
+  mongoose.model<IJob>('Job', JobSchema);
@@ -1,59 +1,387 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import {
+  BIDANG,
+  DUPLICATE_MATCH_REASONS,
+  LAPORAN_CATEGORIES,
+  LAPORAN_CONFIDENTIALITY,
+  LAPORAN_PRIORITY,
+  Bidang,
+  DuplicateMatchReason,
+  LaporanCategory,
+  LaporanConfidentiality,
+  LaporanPriority,
+} from '@/lib/constants';
+
+export type LaporanStatusValue = 'pending' | 'in_progress' | 'resolved' | 'closed';
+
+export const LAPORAN_STATUS_VALUES: LaporanStatusValue[] = ['pending', 'in_progress', 'resolved', 'closed'];
+
+export interface ILaporanHistory {
+  type: 'status' | 'response' | 'assignment' | 'merge';
+  from_status?: LaporanStatusValue;
+  to_status: LaporanStatusValue;
+  from_assignee?: string;
+  to_assignee?: string;
+  changed_by?: Types.ObjectId;
+  changed_by_name?: string;
+  note?: string;
+  at: Date;
+}
+
+// Earlier report that looks like the same case, found when this one was filed
+export interface ILaporanDuplicateMatch {
+  laporan: Types.ObjectId;
+  ticket: string;
+  reason: DuplicateMatchReason;
+  // Share of message words in common, for text matches
+  score?: number;
+}
+
+export interface ILaporanAttachment {
+  _id: Types.ObjectId;
+  original_name: string;
+  stored_name: string;
+  mime_type: string;
+  size: number;
+  uploaded_at: Date;
+}
 
 export interface ILaporan extends Document {
-  nama: string;
-  email: string;
-  phone: string;
-  address: string;
+  ticket: string;
+  pin_hash: string;
+  // Wrong tracking PINs so far, and the lock they caused
+  pin_failed_attempts?: number;
+  pin_locked_until?: Date;
+  confidentiality: LaporanConfidentiality;
+  // Identity fields are only stored in plain for normal reports
+  nama?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  // Encrypted identity of a confidential report (see sealIdentity)
+  identity_encrypted?: string;
   message: string;
-  status: 'pending' | 'in_progress' | 'resolved' | 'closed';
+  attachments: ILaporanAttachment[];
+  category: LaporanCategory;
+  priority: LaporanPriority;
+  sla_days?: number;
+  due_at?: Date;
+  status: LaporanStatusValue;
+  assigned_to?: Types.ObjectId;
+  assigned_to_name?: string;
+  assigned_bidang?: Bidang;
+  assigned_at?: Date;
+  history: ILaporanHistory[];
+  response?: string;
+  responded_at?: Date;
+  responded_by?: Types.ObjectId;
+  spam: boolean;
+  submitted_ip?: string;
+  possible_duplicates: ILaporanDuplicateMatch[];
+  duplicate_of?: Types.ObjectId;
+  duplicate_of_ticket?: string;
+  // One-time satisfaction survey link sent when the report is resolved
+  survey_token_hash?: string;
+  survey_expires_at?: Date;
+  survey_sent_at?: Date;
+  survey_completed_at?: Date;
+  // Set once the reporter's identity was removed by the retention policy or an erasure request
+  anonymized_at?: Date;
   created_at: Date;
   updated_at: Date;
 }
 
+const LaporanHistorySchema: Schema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ['status', 'response', 'assignment', 'merge'],
+      default: 'status',
+    },
+    from_status: {
+      type: String,
+      enum: LAPORAN_STATUS_VALUES,
+    },
+    to_status: {
+      type: String,
+      enum: LAPORAN_STATUS_VALUES,
+      required: true,
+    },
+    // Assignee labels at the time of an assignment change
+    from_assignee: {
+      type: String,
+      trim: true,
+    },
+    to_assignee: {
+      type: String,
+      trim: true,
+    },
+    changed_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    changed_by_name: {
+      type: String,
+      trim: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note cannot exceed 500 characters'],
+    },
+    at: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const LaporanDuplicateMatchSchema: Schema = new Schema(
+  {
+    laporan: {
+      type: Schema.Types.ObjectId,
+      ref: 'Laporan',
+      required: true,
+    },
+    ticket: {
+      type: String,
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: Object.values(DUPLICATE_MATCH_REASONS),
+      required: true,
+    },
+    score: {
+      type: Number,
+    },
+  },
+  { _id: false }
+);
+
+const LaporanAttachmentSchema: Schema = new Schema({
+  original_name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  // Path relative to the private upload directory; never served statically
+  stored_name: {
+    type: String,
+    required: true,
+  },
+  mime_type: {
+    type: String,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+  },
+  uploaded_at: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Only normal reports keep the reporter's identity in plain, until it is anonymised
+function requiresPlainIdentity(this: ILaporan): boolean {
+  return this.confidentiality === LAPORAN_CONFIDENTIALITY.NORMAL && !this.anonymized_at;
+}
+
 const LaporanSchema: Schema = new Schema(
   {
+    ticket: {
+      type: String,
+      required: [true, 'Ticket is required'],
+      unique: true,
+      uppercase: true,
+      trim: true,
+      index: true,
+    },
+    pin_hash: {
+      type: String,
+      required: [true, 'PIN hash is required'],
+      select: false,
+    },
+    pin_failed_attempts: {
+      type: Number,
+      select: false,
+    },
+    pin_locked_until: {
+      type: Date,
+      select: false,
+    },
+    confidentiality: {
+      type: String,
+      enum: Object.values(LAPORAN_CONFIDENTIALITY),
+      default: LAPORAN_CONFIDENTIALITY.NORMAL,
+    },
     nama: {
       type: String,
-      required: [true, 'Nama is required'],
+      required: [requiresPlainIdentity, 'Nama is required'],
       trim: true,
       maxlength: [100, 'Nama cannot exceed 100 characters'],
     },
     email: {
       type: String,
-      required: [true, 'Email is required'],
+      required: [requiresPlainIdentity, 'Email is required'],
       trim: true,
       lowercase: true,
       match: [/^\S+@\S+\.\S+$/, 'Please enter a valid email'],
     },
     phone: {
       type: String,
-      required: [true, 'Phone is required'],
+      required: [requiresPlainIdentity, 'Phone is required'],
       trim: true,
       maxlength: [20, 'Phone cannot exceed 20 characters'],
     },
     address: {
       type: String,
-      required: [true, 'Address is required'],
+      required: [requiresPlainIdentity, 'Address is required'],
       trim: true,
       maxlength: [500, 'Address cannot exceed 500 characters'],
     },
+    identity_encrypted: {
+      type: String,
+      required: [
+        function (this: ILaporan) { return this.confidentiality === LAPORAN_CONFIDENTIALITY.CONFIDENTIAL && !this.anonymized_at; },
+        'Encrypted identity is required',
+      ],
+      select: false,
+    },
     message: {
       type: String,
       required: [true, 'Message is required'],
       trim: true,
       maxlength: [2000, 'Message cannot exceed 2000 characters'],
     },
+    attachments: {
+      type: [LaporanAttachmentSchema],
+      default: [],
+    },
+    category: {
+      type: String,
+      enum: Object.values(LAPORAN_CATEGORIES),
+      default: LAPORAN_CATEGORIES.PENGADUAN,
+    },
+    priority: {
+      type: String,
+      enum: Object.values(LAPORAN_PRIORITY),
+      default: LAPORAN_PRIORITY.MEDIUM,
+    },
+    // SLA in force when the report was filed, so later policy changes
+    // do not move existing deadlines
+    sla_days: {
+      type: Number,
+    },
+    due_at: {
+      type: Date,
+    },
     status: {
       type: String,
-      enum: ['pending', 'in_progress', 'resolved', 'closed'],
+      enum: LAPORAN_STATUS_VALUES,
       default: 'pending',
     },
+    assigned_to: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    // Username kept so lists need no lookup and survive account deletion
+    assigned_to_name: {
+      type: String,
+      trim: true,
+    },
+    assigned_bidang: {
+      type: String,
+      enum: Object.values(BIDANG),
+    },
+    assigned_at: {
+      type: Date,
+    },
+    history: {
+      type: [LaporanHistorySchema],
+      default: [],
+    },
+    response: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Response cannot exceed 2000 characters'],
+    },
+    responded_at: {
+      type: Date,
+    },
+    responded_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    // Set by staff; spam stays out of lists and statistics
+    spam: {
+      type: Boolean,
+      default: false,
+    },
+    // Kept so the sender's address can be blocked if the report is spam
+    submitted_ip: {
+      type: String,
+      select: false,
+    },
+    // Flagged for staff to review; nothing is merged automatically
+    possible_duplicates: {
+      type: [LaporanDuplicateMatchSchema],
+      default: [],
+    },
+    // Set when this report was merged into another one, which carries on the case
+    duplicate_of: {
+      type: Schema.Types.ObjectId,
+      ref: 'Laporan',
+    },
+    duplicate_of_ticket: {
+      type: String,
+    },
+    // Only the hash of the survey link token is kept; cleared once the survey is filled in
+    survey_token_hash: {
+      type: String,
+      select: false,
+    },
+    survey_expires_at: {
+      type: Date,
+    },
+    survey_sent_at: {
+      type: Date,
+    },
+    survey_completed_at: {
+      type: Date,
+    },
+    anonymized_at: {
+      type: Date,
+    },
   },
   {
     timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
   }
 );
 
+// Indexes for the admin list filters and due date sorting
+LaporanSchema.index({ status: 1, due_at: 1 });
+LaporanSchema.index({ category: 1, created_at: -1 });
+
+// Indexes for work queues and workload counts
+LaporanSchema.index({ assigned_to: 1, status: 1 });
+LaporanSchema.index({ assigned_bidang: 1, status: 1 });
+
+// Indexes for duplicate detection and merged reports. Messages are in Indonesian,
+// which has no text search stemmer, so words are matched as written.
+LaporanSchema.index({ message: 'text' }, { default_language: 'none' });
+LaporanSchema.index({ phone: 1 });
+LaporanSchema.index({ duplicate_of: 1 });
+
+// Index for survey link lookups
+LaporanSchema.index({ survey_token_hash: 1 }, { sparse: true });
+
+// Index for the retention run, which looks for finished reports not yet anonymised
+LaporanSchema.index({ status: 1, updated_at: 1 });
+
 // Prevent re-compilation during development
-export default mongoose.models.Laporan || mongoose.model<ILaporan>('Laporan', LaporanSchema);
\ No newline at end of file
+export default (mongoose.models.Laporan as Model<ILaporan>) ||
+  mongoose.model<ILaporan>('Laporan', LaporanSchema);
\ No newline at end of file
@@ -0,0 +1,72 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export interface ILaporanNoteMention {
+  user: Types.ObjectId;
+  username: string;
+}
+
+// Internal staff note on a laporan. Kept apart from the report itself so nothing
+// here can reach the reporter.
+export interface ILaporanNote extends Document {
+  laporan: Types.ObjectId;
+  body: string;
+  author: Types.ObjectId;
+  author_name: string;
+  mentions: ILaporanNoteMention[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+const LaporanNoteMentionSchema: Schema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    username: {
+      type: String,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const LaporanNoteSchema: Schema = new Schema(
+  {
+    laporan: {
+      type: Schema.Types.ObjectId,
+      ref: 'Laporan',
+      required: [true, 'Laporan is required'],
+    },
+    body: {
+      type: String,
+      required: [true, 'Note is required'],
+      trim: true,
+      maxlength: [2000, 'Note cannot exceed 2000 characters'],
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Author is required'],
+    },
+    author_name: {
+      type: String,
+      required: [true, 'Author name is required'],
+    },
+    mentions: {
+      type: [LaporanNoteMentionSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Index for the notes of one report, oldest first
+LaporanNoteSchema.index({ laporan: 1, created_at: 1 });
+
+// Prevent re-compilation during development
+export default (mongoose.models.LaporanNote as Model<ILaporanNote>) ||
+  mongoose.model<ILaporanNote>('LaporanNote', LaporanNoteSchema);
@@ -0,0 +1,67 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { NOTIFICATION_EVENTS, NOTIFICATION_STATUS, NotificationEvent, NotificationStatus } from '@/lib/constants';
+
+export interface INotificationLog extends Document {
+  event: NotificationEvent;
+  recipient: string;
+  subject: string;
+  status: NotificationStatus;
+  error?: string;
+  message_id?: string;
+  laporan?: Types.ObjectId;
+  ticket?: string;
+  created_at: Date;
+}
+
+const NotificationLogSchema: Schema = new Schema(
+  {
+    event: {
+      type: String,
+      required: [true, 'Event is required'],
+      enum: Object.values(NOTIFICATION_EVENTS),
+    },
+    recipient: {
+      type: String,
+      required: [true, 'Recipient is required'],
+      trim: true,
+      lowercase: true,
+    },
+    subject: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: Object.values(NOTIFICATION_STATUS),
+    },
+    error: {
+      type: String,
+      maxlength: 500,
+    },
+    // ID assigned by the SMTP server, useful to find the message in MailHog or mail logs
+    message_id: {
+      type: String,
+    },
+    laporan: {
+      type: Schema.Types.ObjectId,
+      ref: 'Laporan',
+    },
+    ticket: {
+      type: String,
+    },
+  },
+  {
+    // Log entries are append-only
+    timestamps: { createdAt: 'created_at', updatedAt: false },
+  }
+);
+
+// Indexes for the notification log viewer
+NotificationLogSchema.index({ created_at: -1 });
+NotificationLogSchema.index({ status: 1, created_at: -1 });
+NotificationLogSchema.index({ laporan: 1, created_at: -1 });
+
+// Prevent re-compilation during development
+export default (mongoose.models.NotificationLog as Model<INotificationLog>) ||
+  mongoose.model<INotificationLog>('NotificationLog', NotificationLogSchema);
@@ -0,0 +1,45 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { NOTIFICATION_EVENTS, NotificationEvent } from '@/lib/constants';
+
+export interface INotificationTemplate extends Document {
+  event: NotificationEvent;
+  subject: string;
+  body: string;
+  updated_by?: Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const NotificationTemplateSchema: Schema = new Schema(
+  {
+    event: {
+      type: String,
+      required: [true, 'Event is required'],
+      enum: Object.values(NOTIFICATION_EVENTS),
+      unique: true,
+    },
+    subject: {
+      type: String,
+      required: [true, 'Subject is required'],
+      trim: true,
+      maxlength: [200, 'Subject cannot exceed 200 characters'],
+    },
+    // Plain text with {{placeholders}}
+    body: {
+      type: String,
+      required: [true, 'Body is required'],
+      maxlength: [5000, 'Body cannot exceed 5000 characters'],
+    },
+    updated_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Prevent re-compilation during development
+export default (mongoose.models.NotificationTemplate as Model<INotificationTemplate>) ||
+  mongoose.model<INotificationTemplate>('NotificationTemplate', NotificationTemplateSchema);
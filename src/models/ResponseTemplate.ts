@@ -0,0 +1,52 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { LAPORAN_CATEGORIES, LaporanCategory } from '@/lib/constants';
+
+// Reusable wording for official responses, with {{placeholders}} filled in per laporan
+export interface IResponseTemplate extends Document {
+  title: string;
+  body: string;
+  // Suggested first for reports in this category; shown for every category when unset
+  category?: LaporanCategory;
+  created_by?: Types.ObjectId;
+  updated_by_name?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const ResponseTemplateSchema: Schema = new Schema(
+  {
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+      trim: true,
+      maxlength: [100, 'Title cannot exceed 100 characters'],
+    },
+    body: {
+      type: String,
+      required: [true, 'Body is required'],
+      trim: true,
+      maxlength: [2000, 'Body cannot exceed 2000 characters'],
+    },
+    category: {
+      type: String,
+      enum: Object.values(LAPORAN_CATEGORIES),
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    updated_by_name: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+ResponseTemplateSchema.index({ title: 1 }, { unique: true });
+
+// Prevent re-compilation during development
+export default (mongoose.models.ResponseTemplate as Model<IResponseTemplate>) ||
+  mongoose.model<IResponseTemplate>('ResponseTemplate', ResponseTemplateSchema);
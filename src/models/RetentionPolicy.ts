@@ -0,0 +1,54 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { LAPORAN_RETENTION_DEFAULTS, RETENTION_MODES, RetentionMode } from '@/lib/constants';
+
+// Single document holding how long reporters' personal data is kept
+export interface IRetentionPolicy extends Document {
+  mode: RetentionMode;
+  // Finished reports untouched for this many months lose the reporter's identity
+  months: number;
+  updated_by?: Types.ObjectId;
+  // Outcome of the latest scheduled or manual run
+  last_run_at?: Date;
+  last_run_mode?: RetentionMode;
+  last_run_count?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const RetentionPolicySchema: Schema = new Schema(
+  {
+    mode: {
+      type: String,
+      enum: Object.values(RETENTION_MODES),
+      default: LAPORAN_RETENTION_DEFAULTS.mode,
+    },
+    months: {
+      type: Number,
+      required: [true, 'Months are required'],
+      min: [6, 'Retention must be at least 6 months'],
+      max: [120, 'Retention cannot exceed 120 months'],
+      default: LAPORAN_RETENTION_DEFAULTS.months,
+    },
+    updated_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    last_run_at: {
+      type: Date,
+    },
+    last_run_mode: {
+      type: String,
+      enum: Object.values(RETENTION_MODES),
+    },
+    last_run_count: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Prevent re-compilation during development
+export default (mongoose.models.RetentionPolicy as Model<IRetentionPolicy>) ||
+  mongoose.model<IRetentionPolicy>('RetentionPolicy', RetentionPolicySchema);
@@ -0,0 +1,42 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { PERMISSIONS, USER_ROLES, Permission, UserRole } from '@/lib/constants';
+
+export interface IRolePermission extends Document {
+  role: UserRole;
+  permissions: Permission[];
+  require_two_factor: boolean;
+  updated_by?: Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const RolePermissionSchema: Schema = new Schema(
+  {
+    role: {
+      type: String,
+      required: [true, 'Role is required'],
+      enum: Object.values(USER_ROLES),
+      unique: true,
+    },
+    permissions: {
+      type: [String],
+      enum: Object.values(PERMISSIONS),
+      default: [],
+    },
+    require_two_factor: {
+      type: Boolean,
+      default: false,
+    },
+    updated_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Prevent re-compilation during development
+export default (mongoose.models.RolePermission as Model<IRolePermission>) ||
+  mongoose.model<IRolePermission>('RolePermission', RolePermissionSchema);
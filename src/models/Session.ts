@@ -0,0 +1,70 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export interface ISession extends Document {
+  user: Types.ObjectId;
+  refresh_token_hash: string;
+  previous_refresh_token_hash?: string;
+  rotated_at?: Date;
+  user_agent?: string;
+  ip?: string;
+  expires_at: Date;
+  last_used_at: Date;
+  revoked_at?: Date;
+  revoked_reason?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const SessionSchema: Schema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+      index: true,
+    },
+    refresh_token_hash: {
+      type: String,
+      required: [true, 'Refresh token hash is required'],
+      select: false,
+    },
+    previous_refresh_token_hash: {
+      type: String,
+      select: false,
+    },
+    rotated_at: {
+      type: Date,
+    },
+    user_agent: {
+      type: String,
+      maxlength: [500, 'User agent cannot exceed 500 characters'],
+    },
+    ip: {
+      type: String,
+    },
+    expires_at: {
+      type: Date,
+      required: true,
+    },
+    last_used_at: {
+      type: Date,
+      default: Date.now,
+    },
+    revoked_at: {
+      type: Date,
+    },
+    revoked_reason: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Expired sessions are removed automatically
+SessionSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+// Prevent re-compilation during development
+export default (mongoose.models.Session as Model<ISession>) ||
+  mongoose.model<ISession>('Session', SessionSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { LAPORAN_CATEGORIES, LaporanCategory } from '@/lib/constants';
+
+export interface ISlaPolicy extends Document {
+  category: LaporanCategory;
+  working_days: number;
+  updated_by?: Types.ObjectId;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const SlaPolicySchema: Schema = new Schema(
+  {
+    category: {
+      type: String,
+      required: [true, 'Category is required'],
+      enum: Object.values(LAPORAN_CATEGORIES),
+      unique: true,
+    },
+    working_days: {
+      type: Number,
+      required: [true, 'Working days are required'],
+      min: [1, 'Working days must be at least 1'],
+      max: [60, 'Working days cannot exceed 60'],
+    },
+    updated_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Prevent re-compilation during development
+export default (mongoose.models.SlaPolicy as Model<ISlaPolicy>) ||
+  mongoose.model<ISlaPolicy>('SlaPolicy', SlaPolicySchema);
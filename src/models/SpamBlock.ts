@@ -0,0 +1,56 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { SPAM_BLOCK_TYPES, SpamBlockType } from '@/lib/constants';
+
+export interface ISpamBlock extends Document {
+  type: SpamBlockType;
+  // Normalised value: lowercased email, digits-only phone, or a single IP address
+  value: string;
+  // Report whose sender was blocked
+  laporan?: Types.ObjectId;
+  ticket?: string;
+  created_by?: Types.ObjectId;
+  created_by_name?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const SpamBlockSchema: Schema = new Schema(
+  {
+    type: {
+      type: String,
+      required: [true, 'Type is required'],
+      enum: Object.values(SPAM_BLOCK_TYPES),
+    },
+    value: {
+      type: String,
+      required: [true, 'Value is required'],
+      trim: true,
+      maxlength: [254, 'Value cannot exceed 254 characters'],
+    },
+    laporan: {
+      type: Schema.Types.ObjectId,
+      ref: 'Laporan',
+    },
+    ticket: {
+      type: String,
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    created_by_name: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+SpamBlockSchema.index({ type: 1, value: 1 }, { unique: true });
+SpamBlockSchema.index({ laporan: 1 });
+
+// Prevent re-compilation during development
+export default (mongoose.models.SpamBlock as Model<ISpamBlock>) ||
+  mongoose.model<ISpamBlock>('SpamBlock', SpamBlockSchema);
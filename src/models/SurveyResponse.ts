@@ -0,0 +1,62 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { IKM_ELEMENTS, SURVEY_SERVICES, SURVEY_SOURCES, SurveyService, SurveySource } from '@/lib/constants';
+
+export interface ISurveyResponse extends Document {
+  source: SurveySource;
+  service: SurveyService;
+  // Resolved report the survey link was sent for
+  laporan?: Types.ObjectId;
+  ticket?: string;
+  // One score from 1 to 4 per element, in the order of IKM_ELEMENTS
+  scores: number[];
+  suggestion?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const SurveyResponseSchema: Schema = new Schema(
+  {
+    source: {
+      type: String,
+      required: [true, 'Source is required'],
+      enum: Object.values(SURVEY_SOURCES),
+    },
+    service: {
+      type: String,
+      required: [true, 'Service is required'],
+      enum: Object.values(SURVEY_SERVICES),
+    },
+    laporan: {
+      type: Schema.Types.ObjectId,
+      ref: 'Laporan',
+    },
+    ticket: {
+      type: String,
+    },
+    scores: {
+      type: [{ type: Number, min: 1, max: 4 }],
+      validate: {
+        validator: (scores: number[]) => scores.length === IKM_ELEMENTS.length && scores.every(Number.isInteger),
+        message: `Scores must be ${IKM_ELEMENTS.length} whole numbers from 1 to 4`,
+      },
+    },
+    suggestion: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Suggestion cannot exceed 1000 characters'],
+    },
+  },
+  {
+    timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' },
+  }
+);
+
+// Indexes for the per-period and per-service index
+SurveyResponseSchema.index({ created_at: -1 });
+SurveyResponseSchema.index({ service: 1, created_at: -1 });
+// One response per resolved report
+SurveyResponseSchema.index({ laporan: 1 }, { unique: true, sparse: true });
+
+// Prevent re-compilation during development
+export default (mongoose.models.SurveyResponse as Model<ISurveyResponse>) ||
+  mongoose.model<ISurveyResponse>('SurveyResponse', SurveyResponseSchema);
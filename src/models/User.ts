@@ -1,9 +1,32 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { BIDANG, USER_ROLES, Bidang, UserRole } from '@/lib/constants';
+
+export interface IRecoveryCode {
+  hash: string;
+  salt: string;
+  used_at?: Date;
+}
 
 export interface IUser extends Document {
   username: string;
+  email?: string;
   password_hash: string;
-  role: string;
+  role: UserRole;
+  bidang?: Bidang;
+  is_active: boolean;
+  must_change_password: boolean;
+  last_login_at?: Date;
+  failed_login_attempts: number;
+  last_failed_login_at?: Date;
+  locked_until?: Date;
+  password_reset_token_hash?: string;
+  password_reset_expires?: Date;
+  created_by?: Types.ObjectId;
+  two_factor_enabled: boolean;
+  two_factor_secret?: string;
+  two_factor_pending_secret?: string;
+  two_factor_last_step?: number;
+  two_factor_recovery_codes: IRecoveryCode[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -18,15 +41,96 @@ const UserSchema: Schema = new Schema(
       minlength: [3, 'Username must be at least 3 characters'],
       maxlength: [50, 'Username cannot exceed 50 characters'],
     },
+    // Used for password reset emails; optional for accounts created before it existed
+    email: {
+      type: String,
+      unique: true,
+      sparse: true,
+      trim: true,
+      lowercase: true,
+      match: [/^[^\s@]+@[^\s@]+\.[^\s@]+$/, 'Please provide a valid email'],
+    },
     password_hash: {
       type: String,
       required: [true, 'Password hash is required'],
+      select: false,
     },
     role: {
       type: String,
       required: [true, 'Role is required'],
-      enum: ['admin', 'super_admin'],
-      default: 'admin',
+      enum: Object.values(USER_ROLES),
+      default: USER_ROLES.ADMIN,
+    },
+    // Organisational unit; reports assigned to the bidang show up in the member's queue
+    bidang: {
+      type: String,
+      enum: Object.values(BIDANG),
+    },
+    is_active: {
+      type: Boolean,
+      default: true,
+    },
+    must_change_password: {
+      type: Boolean,
+      default: false,
+    },
+    last_login_at: {
+      type: Date,
+    },
+    // Consecutive failed logins, kept in the database so lockouts
+    // survive restarts and apply across instances
+    failed_login_attempts: {
+      type: Number,
+      default: 0,
+    },
+    last_failed_login_at: {
+      type: Date,
+    },
+    locked_until: {
+      type: Date,
+    },
+    // Hash of the ID embedded in the outstanding reset token; cleared once used
+    password_reset_token_hash: {
+      type: String,
+      select: false,
+    },
+    password_reset_expires: {
+      type: Date,
+      select: false,
+    },
+    created_by: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    two_factor_enabled: {
+      type: Boolean,
+      default: false,
+    },
+    // TOTP secrets are stored encrypted (see encryptionUtils.encryptField)
+    two_factor_secret: {
+      type: String,
+      select: false,
+    },
+    two_factor_pending_secret: {
+      type: String,
+      select: false,
+    },
+    // Last accepted TOTP time step, used to reject replayed codes
+    two_factor_last_step: {
+      type: Number,
+      select: false,
+    },
+    two_factor_recovery_codes: {
+      type: [
+        {
+          _id: false,
+          hash: { type: String, required: true },
+          salt: { type: String, required: true },
+          used_at: { type: Date },
+        },
+      ],
+      default: [],
+      select: false,
     },
   },
   {
@@ -35,4 +139,5 @@ const UserSchema: Schema = new Schema(
 );
 
 // Prevent re-compilation during development
-export default mongoose.models.User || mongoose.model<IUser>('User', UserSchema);
\ No newline at end of file
+export default (mongoose.models.User as Model<IUser>) ||
+  mongoose.model<IUser>('User', UserSchema);
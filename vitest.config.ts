@@ -0,0 +1,22 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // Modules read these at import time; no test talks to a real database
+    env: {
+      MONGODB_URI: 'mongodb://127.0.0.1:27017/dpmptsp-test',
+      JWT_SECRET: 'test-jwt-secret-at-least-32-characters',
+      NEXTAUTH_URL: 'http://localhost:3000',
+      NEXTAUTH_SECRET: 'test-nextauth-secret-at-least-32-chars',
+      ENCRYPTION_KEY: 'test-encryption-key-at-least-32-chars',
+    },
+  },
+});